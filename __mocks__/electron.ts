@@ -4,7 +4,8 @@ export const app = {
 
 export const ipcMain = {
   handle: jest.fn(),
-  on: jest.fn()
+  on: jest.fn(),
+  removeHandler: jest.fn()
 };
 
 export const BrowserWindow = function BrowserWindow(): void {
@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+// Signs every skill in a skills directory and adds the signing key to a
+// trust policy, so a packaged build registers them.
+// Usage: node scripts/sign-skills.js --key <private key PEM> --publisher <name> --key-id <id>
+//          [--organization <id>] [--policy <file>] [skills directory]
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const ts = require('typescript');
+
+const ROOT = path.join(__dirname, '..');
+
+// The signing code is TypeScript; compile it on load rather than keep a copy
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf-8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+    fileName: filename
+  });
+  module._compile(outputText, filename);
+};
+const { signSkillPackage } = require('../src/skills-engine/skill-signing');
+
+function parseArgs(argv) {
+  const options = { organization: 'default', policy: path.join(ROOT, 'config', 'skill-trust-policy.json') };
+  const positional = [];
+  for (let i = 0; i < argv.length; i++) {
+    const match = /^--(key|publisher|key-id|organization|policy)$/.exec(argv[i]);
+    if (match) {
+      options[match[1]] = argv[++i];
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+  options.skillsDirectory = path.resolve(positional[0] || path.join(ROOT, 'skills'));
+  return options;
+}
+
+// Add the key to the policy, replacing an older entry with the same keyId
+function updatePolicy(policyPath, organizationId, trustedKey) {
+  const policy = fs.existsSync(policyPath)
+    ? JSON.parse(fs.readFileSync(policyPath, 'utf-8'))
+    : { organizationId, allowUnsigned: false, trustedKeys: [] };
+  policy.trustedKeys = [...policy.trustedKeys.filter(key => key.keyId !== trustedKey.keyId), trustedKey];
+  fs.mkdirSync(path.dirname(policyPath), { recursive: true });
+  fs.writeFileSync(policyPath, `${JSON.stringify(policy, null, 2)}\n`);
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options.key || !options.publisher || !options['key-id']) {
+    console.error('[Skill signing] --key, --publisher and --key-id are required');
+    process.exit(1);
+  }
+
+  const privateKey = crypto.createPrivateKey(fs.readFileSync(options.key));
+  const signer = { publisher: options.publisher, keyId: options['key-id'] };
+  const metadataFiles = fs.readdirSync(options.skillsDirectory, { withFileTypes: true })
+    .filter(entry => entry.isFile() && entry.name.endsWith('.json'))
+    .map(entry => path.join(options.skillsDirectory, entry.name));
+
+  for (const metadataPath of metadataFiles) {
+    const manifest = signSkillPackage(metadataPath, privateKey, signer);
+    console.log(`[Skill signing] ${manifest.skillId}@${manifest.version}: ${Object.keys(manifest.files).length} file(s)`);
+  }
+
+  updatePolicy(options.policy, options.organization, {
+    ...signer,
+    publicKey: crypto.createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString()
+  });
+  console.log(`[Skill signing] Signed ${metadataFiles.length} skill(s); trusted key ${signer.keyId} in ${options.policy}`);
+}
+
+main();
@@ -0,0 +1,43 @@
+#!/usr/bin/env node
+// Runs the skill tests in <skills directory>/tests through Jest.
+// Usage: node scripts/test-skills.js [skills directory] [--update]
+const fs = require('fs');
+const path = require('path');
+const { spawnSync } = require('child_process');
+
+const ROOT = path.join(__dirname, '..');
+const RUNNER = path.join(ROOT, 'src', 'skills-engine', '__tests__', 'skill-test-harness.test.ts');
+
+function main() {
+  const args = process.argv.slice(2);
+  const update = args.includes('--update');
+  const skillsDirectory = path.resolve(args.find(arg => !arg.startsWith('--')) || path.join(ROOT, 'skills'));
+
+  if (!fs.existsSync(path.join(skillsDirectory, 'tests'))) {
+    console.warn(`[Skill tests] No tests directory in ${skillsDirectory}. Nothing to run.`);
+    process.exit(0);
+  }
+
+  const result = spawnSync(process.execPath, [
+    require.resolve('jest/bin/jest'),
+    '--runTestsByPath', RUNNER,
+    '--testNamePattern', '^skill tests'
+  ], {
+    cwd: ROOT,
+    stdio: 'inherit',
+    env: {
+      ...process.env,
+      WTC_SKILLS_DIRECTORY: skillsDirectory,
+      WTC_UPDATE_GOLDEN: update ? '1' : '0'
+    }
+  });
+
+  if (result.error) {
+    console.error('[Skill tests] Failed to run Jest:', result.error.message);
+    process.exit(1);
+  }
+
+  process.exit(result.status ?? 0);
+}
+
+main();
@@ -0,0 +1,95 @@
+# PowerShell script to restore the Teams and Outlook caches archived by app-cache-reset.ps1
+param(
+    [Parameter(Mandatory = $true)]
+    [string]$BackupPath,
+    [Parameter(Mandatory = $true)]
+    [string]$Timestamp
+)
+
+$targets = @(
+    @{ Name = "Teams"; Processes = @("Teams") ; Paths = @(
+        Join-Path $env:APPDATA "Microsoft\\Teams",
+        Join-Path $env:LOCALAPPDATA "Microsoft\\Teams"
+    ) },
+    @{ Name = "Outlook"; Processes = @("OUTLOOK") ; Paths = @(
+        Join-Path $env:LOCALAPPDATA "Microsoft\\Outlook",
+        Join-Path $env:LOCALAPPDATA "Microsoft\\Office\\16.0\\OfficeFileCache"
+    ) }
+)
+
+# Same naming as Get-ArchiveDestination in app-cache-reset.ps1
+function Get-ArchiveSource {
+    param(
+        [string]$AppName,
+        [int]$Index,
+        [string]$Path
+    )
+
+    $appBackup = Join-Path $BackupPath $AppName
+    return Join-Path $appBackup ("{0}-{1}-{2}" -f $Index, (Split-Path -Path $Path -Leaf), $Timestamp)
+}
+
+function Stop-TargetProcesses {
+    param(
+        [string[]]$ProcessNames
+    )
+
+    foreach ($processName in $ProcessNames) {
+        Get-Process -Name $processName -ErrorAction SilentlyContinue | ForEach-Object {
+            try {
+                Stop-Process -InputObject $_ -Force -ErrorAction Stop
+            }
+            catch {
+                Write-Output "WARNING: Unable to stop process $processName: $($_.Exception.Message)"
+            }
+        }
+    }
+}
+
+try {
+    if (-Not (Test-Path -LiteralPath $BackupPath)) {
+        Write-Output "ERROR: Cache archive not found at $BackupPath"
+        exit 1
+    }
+
+    $restored = @()
+
+    foreach ($target in $targets) {
+        Stop-TargetProcesses -ProcessNames $target.Processes
+
+        for ($index = 0; $index -lt $target.Paths.Count; $index++) {
+            $path = $target.Paths[$index]
+            $source = Get-ArchiveSource -AppName $target.Name -Index $index -Path $path
+            if (-Not (Test-Path -LiteralPath $source)) {
+                continue
+            }
+
+            # The cache recreated by the reset only holds data rebuilt since then
+            if (Test-Path -LiteralPath $path) {
+                Remove-Item -LiteralPath $path -Recurse -Force -ErrorAction Stop
+            }
+
+            Move-Item -LiteralPath $source -Destination $path -Force -ErrorAction Stop
+            $restored += $path
+            Write-Output "PROGRESS: Restored $($target.Name) cache at $path"
+        }
+    }
+
+    if ($restored.Count -eq 0) {
+        Write-Output "ERROR: No archived caches for $Timestamp were found in $BackupPath"
+        exit 1
+    }
+
+    Remove-Item -LiteralPath $BackupPath -Recurse -Force -ErrorAction SilentlyContinue
+
+    $result = [PSCustomObject]@{
+        TimestampUtc = (Get-Date).ToUniversalTime()
+        RestoredPaths = $restored
+    }
+
+    Write-Output "SUCCESS: $(ConvertTo-Json $result -Compress)"
+}
+catch {
+    Write-Output "ERROR: $($_.Exception.Message)"
+    exit 1
+}
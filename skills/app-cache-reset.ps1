@@ -2,6 +2,8 @@
 $timestamp = Get-Date -Format "yyyyMMdd-HHmmss"
 $backupRoot = Join-Path $env:TEMP "WTC-AppCacheBackups"
 $backupPath = Join-Path $backupRoot $timestamp
+# With DRY_RUN=1 the script reports what it would stop and archive as PLAN: lines and changes nothing
+$dryRun = $env:DRY_RUN -eq '1'
 
 $targets = @(
     @{ Name = "Teams"; Processes = @("Teams") ; Paths = @(
@@ -14,6 +16,51 @@ $targets = @(
     ) }
 )
 
+function Write-PlannedActions {
+    param(
+        [hashtable]$Target
+    )
+
+    foreach ($processName in $Target.Processes) {
+        Get-Process -Name $processName -ErrorAction SilentlyContinue | ForEach-Object {
+            $plan = [PSCustomObject]@{
+                action = "stop"
+                target = "$($_.ProcessName) ($($_.Id))"
+                description = "Stop $($Target.Name) so its cache can be archived"
+            }
+            Write-Output "PLAN: $(ConvertTo-Json $plan -Compress)"
+        }
+    }
+
+    foreach ($path in $Target.Paths) {
+        if (-Not (Test-Path -LiteralPath $path)) {
+            continue
+        }
+
+        $size = (Get-ChildItem -LiteralPath $path -Recurse -Force -File -ErrorAction SilentlyContinue |
+            Measure-Object -Property Length -Sum).Sum
+        $plan = [PSCustomObject]@{
+            action = "archive"
+            target = $path
+            bytes = [int64]$size
+            description = "Move the $($Target.Name) cache to $backupPath and recreate it empty"
+        }
+        Write-Output "PLAN: $(ConvertTo-Json $plan -Compress)"
+    }
+}
+
+# Archive folder for a cache path; app-cache-reset-undo.ps1 computes the same name to restore it
+function Get-ArchiveDestination {
+    param(
+        [string]$AppName,
+        [int]$Index,
+        [string]$Path
+    )
+
+    $appBackup = Join-Path $backupPath $AppName
+    return Join-Path $appBackup ("{0}-{1}-{2}" -f $Index, (Split-Path -Path $Path -Leaf), $timestamp)
+}
+
 function Stop-TargetProcesses {
     param(
         [string[]]$ProcessNames
@@ -37,14 +84,13 @@ function Reset-CacheDirectories {
         [string[]]$Paths
     )
 
-    $appBackup = Join-Path $backupPath $AppName
-
-    foreach ($path in $Paths) {
+    for ($index = 0; $index -lt $Paths.Count; $index++) {
+        $path = $Paths[$index]
         if (-Not (Test-Path -LiteralPath $path)) {
             continue
         }
 
-        $destination = Join-Path $appBackup ((Split-Path -Path $path -Leaf) + "-" + $timestamp)
+        $destination = Get-ArchiveDestination -AppName $AppName -Index $index -Path $path
         New-Item -Path (Split-Path -Path $destination -Parent) -ItemType Directory -Force | Out-Null
 
         try {
@@ -60,7 +106,25 @@ function Reset-CacheDirectories {
 }
 
 try {
+    if ($dryRun) {
+        foreach ($target in $targets) {
+            Write-PlannedActions -Target $target
+        }
+
+        $result = [PSCustomObject]@{
+            TimestampUtc = (Get-Date).ToUniversalTime()
+            DryRun = $true
+            Applications = $targets.Name
+        }
+
+        Write-Output "SUCCESS: $(ConvertTo-Json $result -Compress)"
+        exit 0
+    }
+
     New-Item -Path $backupPath -ItemType Directory -Force | Out-Null
+    # Values app-cache-reset-undo.ps1 needs to restore the archived caches
+    Write-Output "ARTIFACT: $(ConvertTo-Json ([PSCustomObject]@{ name = 'BackupPath'; value = $backupPath }) -Compress)"
+    Write-Output "ARTIFACT: $(ConvertTo-Json ([PSCustomObject]@{ name = 'Timestamp'; value = $timestamp }) -Compress)"
 
     foreach ($target in $targets) {
         Stop-TargetProcesses -ProcessNames $target.Processes
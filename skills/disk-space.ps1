@@ -1,4 +1,7 @@
 # PowerShell script to inspect disk capacity and reclaim space from safe temporary locations when thresholds are low
+# With DRY_RUN=1 it reports the files it would remove as PLAN: lines and deletes nothing
+$dryRun = $env:DRY_RUN -eq '1'
+
 function Get-DiskStatistics {
     Get-CimInstance -ClassName Win32_LogicalDisk -ErrorAction Stop |
         Where-Object { $_.DriveType -eq 3 } |
@@ -11,7 +14,8 @@ function Get-DiskStatistics {
 function Invoke-SafeCleanup {
     param(
         [string]$Path,
-        [int]$MaxAgeDays = 7
+        [int]$MaxAgeDays = 7,
+        [switch]$DryRun
     )
 
     if (-Not (Test-Path -LiteralPath $Path)) {
@@ -33,6 +37,12 @@ function Invoke-SafeCleanup {
         }
 
         if ($_.LastWriteTime -lt $threshold) {
+            if ($DryRun) {
+                $removed += 1
+                $freedBytes += $_.Length
+                return
+            }
+
             try {
                 $size = $_.Length
                 Remove-Item -LiteralPath $_.FullName -Force -ErrorAction Stop
@@ -45,6 +55,25 @@ function Invoke-SafeCleanup {
         }
     }
 
+    if ($DryRun) {
+        if ($removed -gt 0) {
+            $plan = [PSCustomObject]@{
+                action = "delete"
+                target = $Path
+                bytes = $freedBytes
+                description = "Remove $removed files older than $MaxAgeDays days"
+            }
+            Write-Output "PLAN: $(ConvertTo-Json $plan -Compress)"
+        }
+
+        return [PSCustomObject]@{
+            Path = $Path
+            RemovedFiles = 0
+            FreedMB = 0
+            Notes = "Dry run: $removed files older than $MaxAgeDays days would be removed"
+        }
+    }
+
     return [PSCustomObject]@{
         Path = $Path
         RemovedFiles = $removed
@@ -60,7 +89,7 @@ try {
 
     $lowCapacityDisks = $diskInfo | Where-Object { $_.FreePercent -lt 15 }
     if ($lowCapacityDisks) {
-        $cleanupPerformed = $true
+        $cleanupPerformed = -Not $dryRun
         $pathsToClean = @(
             $env:TEMP,
             Join-Path $env:LOCALAPPDATA "Temp",
@@ -68,7 +97,15 @@ try {
         ) | Sort-Object -Unique
 
         foreach ($path in $pathsToClean) {
-            $cleanupResults += Invoke-SafeCleanup -Path $path -MaxAgeDays 5
+            # In dry-run mode the function also returns PLAN: lines; pass them through to stdout
+            Invoke-SafeCleanup -Path $path -MaxAgeDays 5 -DryRun:$dryRun | ForEach-Object {
+                if ($_ -is [string]) {
+                    Write-Output $_
+                }
+                else {
+                    $cleanupResults += $_
+                }
+            }
         }
     }
 
@@ -76,6 +113,7 @@ try {
         TimestampUtc = (Get-Date).ToUniversalTime()
         DiskInfo = $diskInfo
         CleanupTriggered = $cleanupPerformed
+        DryRun = $dryRun
         CleanupResults = $cleanupResults
     }
 
@@ -1,9 +1,10 @@
 #!/bin/bash
 # Shell script to check disk space and cleanup aged temporary files on Unix-like systems
+# With DRY_RUN=1 it reports the files it would remove as PLAN: lines and deletes nothing
 set -euo pipefail
 
 get_disk_stats() {
-  df -Pk / | awk 'NR==2 {printf "{\"filesystem\":\"%s\",\"sizeKB\":%s,\"usedKB\":%s,\"availableKB\":%s,\"usedPercent\":%s}", $1,$2,$3,$4,$5}'
+  df -Pk / | awk 'NR==2 {gsub("%", "", $5); printf "{\"filesystem\":\"%s\",\"sizeKB\":%s,\"usedKB\":%s,\"availableKB\":%s,\"usedPercent\":%s}", $1,$2,$3,$4,$5}'
 }
 
 cleanup_temp() {
@@ -37,10 +38,33 @@ cleanup_temp() {
   echo "$tmp_summary"
 }
 
+plan_cleanup() {
+  local threshold_percent="$1"
+  local used_percent bytes count
+  used_percent=$(df -P / | awk 'NR==2 {gsub("%", "", $5); print $5}')
+
+  if [ "$used_percent" -lt "$threshold_percent" ]; then
+    return 0
+  fi
+
+  for path in "/tmp" "${TMPDIR:-/var/tmp}"; do
+    [ -d "$path" ] || continue
+    count=$({ find "$path" -type f -mtime +7 2>/dev/null || true; } | wc -l | tr -d ' ')
+    [ "$count" -gt 0 ] || continue
+    bytes=$({ find "$path" -type f -mtime +7 -exec wc -c {} + 2>/dev/null || true; } | awk '$2 != "total" {sum += $1} END {print sum + 0}')
+    printf 'PLAN: {"action":"delete","target":"%s","bytes":%s,"description":"Remove %s files older than 7 days"}\n' "$path" "$bytes" "$count"
+  done
+}
+
 main() {
   local disk_json cleanup_json
   disk_json=$(get_disk_stats)
-  cleanup_json=$(cleanup_temp 85)
+  if [ "${DRY_RUN:-}" = "1" ]; then
+    plan_cleanup 85
+    cleanup_json='{"cleanupTriggered":false,"dryRun":true,"paths":[]}'
+  else
+    cleanup_json=$(cleanup_temp 85)
+  fi
   printf 'SUCCESS: {"timestampUtc":"%s","disk":%s,"cleanup":%s}\n' "$(date -u +"%Y-%m-%dT%H:%M:%SZ")" "$disk_json" "$cleanup_json"
 }
 
@@ -0,0 +1,114 @@
+import { join } from 'path';
+import { existsSync, unlinkSync } from 'fs';
+import { ExecutionHistoryStore } from '../execution-history-store';
+import { SkillExecutionRecord } from '../../skills-engine/skill-catalog';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const execution = (overrides: Partial<SkillExecutionRecord> = {}): SkillExecutionRecord => ({
+  executionId: 'exec-1',
+  skillId: 'disk-space',
+  skillName: 'Disk Space',
+  mode: 'run',
+  status: 'success',
+  params: { drive: 'C:', password: '[REDACTED]' },
+  result: {
+    success: true,
+    output: '{"usedPercent":42}',
+    exitCode: 0,
+    executionTimeMs: 120,
+    resourceUsage: { cpuPercentage: 3, memoryBytes: 1024, diskWriteBytes: 0, networkBytes: 0, peakMemoryBytes: 4096 },
+    securityEvents: [{ type: 'filesystem_access', timestamp: 1, details: 'Blocked write', severity: 'medium' }],
+    parsedOutput: {
+      status: 'success',
+      payload: { usedPercent: 42 },
+      progress: [],
+      warnings: [],
+      data: [],
+      plannedActions: [],
+      artifacts: {},
+      logLines: []
+    }
+  },
+  correlationId: 'corr-1',
+  startedAt: Date.now(),
+  completedAt: Date.now() + 120,
+  ...overrides
+});
+
+describe('ExecutionHistoryStore', () => {
+  const databasePath = join(__dirname, 'test-history.db');
+  let store: ExecutionHistoryStore;
+
+  const removeDatabase = () => {
+    for (const file of [databasePath, `${databasePath}-wal`, `${databasePath}-shm`]) {
+      if (existsSync(file)) {
+        unlinkSync(file);
+      }
+    }
+  };
+
+  beforeEach(() => {
+    removeDatabase();
+    store = new ExecutionHistoryStore({ databasePath, deviceId: 'LAPTOP-01', getUserId: () => 'pat' });
+  });
+
+  afterEach(() => {
+    store.close();
+    removeDatabase();
+  });
+
+  it('stores executions with their result, peaks and security events', () => {
+    store.record(execution());
+
+    const { entries, total } = store.query();
+    expect(total).toBe(1);
+    expect(entries[0]).toMatchObject({
+      executionId: 'exec-1',
+      params: { drive: 'C:', password: '[REDACTED]' },
+      result: { payload: { usedPercent: 42 } },
+      exitCode: 0,
+      resourcePeaks: { cpuPercentage: 3, memoryBytes: 4096 },
+      securityEvents: [{ type: 'filesystem_access', details: 'Blocked write' }],
+      userId: 'pat',
+      deviceId: 'LAPTOP-01',
+      correlationId: 'corr-1'
+    });
+  });
+
+  it('filters by skill, status and time range and pages newest first', () => {
+    const now = Date.now();
+    for (let i = 0; i < 5; i++) {
+      store.record(execution({ executionId: `run-${i}`, startedAt: now + i, completedAt: now + i }));
+    }
+    store.record(execution({ executionId: 'failed', status: 'timeout', startedAt: now + 10 }));
+    store.record(execution({ executionId: 'other', skillId: 'printer-queue-clear', startedAt: now + 11 }));
+
+    const first = store.query({ skillId: 'disk-space', status: 'success', pageSize: 2 });
+    expect(first).toMatchObject({ total: 5, page: 1, pageSize: 2, hasMore: true });
+    expect(first.entries.map(entry => entry.executionId)).toEqual(['run-4', 'run-3']);
+
+    const last = store.query({ skillId: 'disk-space', status: 'success', pageSize: 2, page: 3 });
+    expect(last.entries.map(entry => entry.executionId)).toEqual(['run-0']);
+    expect(last.hasMore).toBe(false);
+
+    expect(store.query({ status: ['timeout'] }).entries.map(entry => entry.executionId)).toEqual(['failed']);
+    expect(store.query({ from: now + 1, to: now + 2 }).total).toBe(2);
+    expect(store.query({ deviceId: 'OTHER' }).total).toBe(0);
+    expect(() => store.query({ page: 0 })).toThrow('HISTORY_INVALID_QUERY');
+  });
+
+  it('drops executions past retention and beyond the entry limit', () => {
+    store.close();
+    store = new ExecutionHistoryStore({ databasePath, retentionDays: 30, maxEntries: 2 });
+    const now = Date.now();
+
+    store.record(execution({ executionId: 'old', startedAt: now - 31 * DAY_MS }));
+    store.record(execution({ executionId: 'a', startedAt: now - 3 }));
+    store.record(execution({ executionId: 'b', startedAt: now - 2 }));
+    store.record(execution({ executionId: 'c', startedAt: now - 1 }));
+
+    expect(store.cleanup(now)).toBe(2);
+    expect(store.query().entries.map(entry => entry.executionId)).toEqual(['c', 'b']);
+  });
+});
@@ -0,0 +1,324 @@
+import Database from 'better-sqlite3';
+import { randomUUID } from 'crypto';
+import { dirname } from 'path';
+import { mkdirSync, existsSync } from 'fs';
+import { SkillExecutionRecord, SkillExecutionRecorder } from '../skills-engine/skill-catalog';
+import {
+  ExecutionHistoryConfig,
+  ExecutionHistoryEntry,
+  ExecutionHistoryPage,
+  ExecutionHistoryQuery,
+  DEFAULT_HISTORY_CONFIG,
+  HISTORY_ERROR_CODES
+} from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STATUSES = ['success', 'error', 'timeout', 'cancelled'];
+const MODES = ['run', 'dry_run', 'undo'];
+
+interface ExecutionHistoryRow {
+  id: string;
+  execution_id: string;
+  skill_id: string;
+  skill_name: string;
+  mode: ExecutionHistoryEntry['mode'];
+  status: ExecutionHistoryEntry['status'];
+  params: string;
+  result: string | null;
+  output: string | null;
+  error: string | null;
+  exit_code: number | null;
+  execution_time_ms: number | null;
+  resource_peaks: string | null;
+  security_events: string;
+  user_id: string | null;
+  device_id: string;
+  correlation_id: string | null;
+  started_at: number;
+  completed_at: number;
+}
+
+/**
+ * On-disk history of every skill execution, stored in SQLite next to the
+ * offline queue. Used as the SkillExecutionRecorder of catalog skill runs and
+ * queried page by page by the admin console.
+ */
+export class ExecutionHistoryStore implements SkillExecutionRecorder {
+  private db: Database.Database;
+  private config: ExecutionHistoryConfig;
+  private cleanupInterval?: NodeJS.Timeout;
+
+  constructor(config: Partial<ExecutionHistoryConfig> = {}) {
+    this.config = { ...DEFAULT_HISTORY_CONFIG, ...config };
+    this.ensureDataDirectory();
+    this.db = new Database(this.config.databasePath);
+    this.initializeDatabase();
+    this.startBackgroundTasks();
+  }
+
+  private ensureDataDirectory(): void {
+    const dir = dirname(this.config.databasePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  private initializeDatabase(): void {
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = NORMAL');
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS skill_executions (
+        id TEXT PRIMARY KEY,
+        execution_id TEXT NOT NULL,
+        skill_id TEXT NOT NULL,
+        skill_name TEXT NOT NULL,
+        mode TEXT NOT NULL CHECK (mode IN ('run', 'dry_run', 'undo')),
+        status TEXT NOT NULL CHECK (status IN ('success', 'error', 'timeout', 'cancelled')),
+        params TEXT NOT NULL,
+        result TEXT,
+        output TEXT,
+        error TEXT,
+        exit_code INTEGER,
+        execution_time_ms INTEGER,
+        resource_peaks TEXT,
+        security_events TEXT NOT NULL,
+        user_id TEXT,
+        device_id TEXT NOT NULL,
+        correlation_id TEXT,
+        started_at INTEGER NOT NULL,
+        completed_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_skill_executions_skill ON skill_executions(skill_id);
+      CREATE INDEX IF NOT EXISTS idx_skill_executions_status ON skill_executions(status);
+      CREATE INDEX IF NOT EXISTS idx_skill_executions_started ON skill_executions(started_at);
+      CREATE INDEX IF NOT EXISTS idx_skill_executions_device ON skill_executions(device_id);
+      CREATE INDEX IF NOT EXISTS idx_skill_executions_correlation ON skill_executions(correlation_id);
+    `);
+  }
+
+  private startBackgroundTasks(): void {
+    this.cleanupInterval = setInterval(() => {
+      try {
+        this.cleanup();
+      } catch (error) {
+        console.error('Execution history cleanup failed:', (error as Error).message);
+      }
+    }, this.config.cleanupIntervalMs);
+    this.cleanupInterval.unref?.();
+  }
+
+  /**
+   * Store a finished skill execution
+   */
+  public record(execution: SkillExecutionRecord): void {
+    const entry = this.toEntry(execution);
+
+    try {
+      this.db.prepare(`
+        INSERT INTO skill_executions (
+          id, execution_id, skill_id, skill_name, mode, status, params, result, output, error,
+          exit_code, execution_time_ms, resource_peaks, security_events, user_id, device_id,
+          correlation_id, started_at, completed_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        entry.id,
+        entry.executionId,
+        entry.skillId,
+        entry.skillName,
+        entry.mode,
+        entry.status,
+        JSON.stringify(entry.params),
+        entry.result ? JSON.stringify(entry.result) : null,
+        entry.output ?? null,
+        entry.error ?? null,
+        entry.exitCode ?? null,
+        entry.executionTimeMs ?? null,
+        entry.resourcePeaks ? JSON.stringify(entry.resourcePeaks) : null,
+        JSON.stringify(entry.securityEvents),
+        entry.userId ?? null,
+        entry.deviceId,
+        entry.correlationId ?? null,
+        entry.startedAt,
+        entry.completedAt
+      );
+    } catch (error) {
+      throw new Error(`${HISTORY_ERROR_CODES.DATABASE_ERROR}: Failed to record execution: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Query executions, newest first, one page at a time
+   */
+  public query(filter: ExecutionHistoryQuery = {}): ExecutionHistoryPage {
+    const page = filter.page ?? 1;
+    const pageSize = Math.min(filter.pageSize ?? 25, this.config.maxPageSize);
+    if (!Number.isInteger(page) || page < 1 || !Number.isInteger(pageSize) || pageSize < 1) {
+      throw new Error(`${HISTORY_ERROR_CODES.INVALID_QUERY}: page and pageSize must be positive integers`);
+    }
+
+    const conditions: string[] = [];
+    const values: Array<string | number> = [];
+
+    if (filter.skillId) {
+      conditions.push('skill_id = ?');
+      values.push(filter.skillId);
+    }
+    if (filter.status) {
+      const statuses = Array.isArray(filter.status) ? filter.status : [filter.status];
+      if (statuses.length === 0 || statuses.some(status => !STATUSES.includes(status))) {
+        throw new Error(`${HISTORY_ERROR_CODES.INVALID_QUERY}: status must be one of ${STATUSES.join(', ')}`);
+      }
+      conditions.push(`status IN (${statuses.map(() => '?').join(', ')})`);
+      values.push(...statuses);
+    }
+    if (filter.mode) {
+      if (!MODES.includes(filter.mode)) {
+        throw new Error(`${HISTORY_ERROR_CODES.INVALID_QUERY}: mode must be one of ${MODES.join(', ')}`);
+      }
+      conditions.push('mode = ?');
+      values.push(filter.mode);
+    }
+    if (filter.from !== undefined) {
+      conditions.push('started_at >= ?');
+      values.push(filter.from);
+    }
+    if (filter.to !== undefined) {
+      conditions.push('started_at <= ?');
+      values.push(filter.to);
+    }
+    if (filter.deviceId) {
+      conditions.push('device_id = ?');
+      values.push(filter.deviceId);
+    }
+    if (filter.userId) {
+      conditions.push('user_id = ?');
+      values.push(filter.userId);
+    }
+    if (filter.correlationId) {
+      conditions.push('correlation_id = ?');
+      values.push(filter.correlationId);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    try {
+      const { total } = this.db.prepare(
+        `SELECT COUNT(*) as total FROM skill_executions ${where}`
+      ).get(...values) as { total: number };
+
+      const rows = this.db.prepare(`
+        SELECT * FROM skill_executions ${where}
+        ORDER BY started_at DESC, rowid DESC
+        LIMIT ? OFFSET ?
+      `).all(...values, pageSize, (page - 1) * pageSize) as ExecutionHistoryRow[];
+
+      return {
+        entries: rows.map(row => this.fromRow(row)),
+        total,
+        page,
+        pageSize,
+        hasMore: page * pageSize < total
+      };
+    } catch (error) {
+      throw new Error(`${HISTORY_ERROR_CODES.DATABASE_ERROR}: Failed to query executions: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Drop executions past the retention window and the oldest beyond maxEntries
+   */
+  public cleanup(now: number = Date.now()): number {
+    const expired = this.db.prepare(
+      'DELETE FROM skill_executions WHERE started_at < ?'
+    ).run(now - this.config.retentionDays * DAY_MS);
+
+    const overflow = this.db.prepare(`
+      DELETE FROM skill_executions WHERE rowid IN (
+        SELECT rowid FROM skill_executions
+        ORDER BY started_at DESC, rowid DESC
+        LIMIT -1 OFFSET ?
+      )
+    `).run(this.config.maxEntries);
+
+    return expired.changes + overflow.changes;
+  }
+
+  public close(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = undefined;
+    }
+    this.db.close();
+  }
+
+  private toEntry(execution: SkillExecutionRecord): ExecutionHistoryEntry {
+    const result = execution.result;
+    const parsed = result?.parsedOutput;
+
+    return {
+      id: randomUUID(),
+      executionId: execution.executionId,
+      skillId: execution.skillId,
+      skillName: execution.skillName,
+      mode: execution.mode,
+      status: execution.status,
+      params: execution.params,
+      result: parsed ? { message: parsed.message, payload: parsed.payload, artifacts: parsed.artifacts } : undefined,
+      output: result?.output.slice(0, this.config.maxOutputLength),
+      error: execution.error,
+      exitCode: result?.exitCode,
+      executionTimeMs: result?.executionTimeMs,
+      resourcePeaks: result ? {
+        cpuPercentage: result.resourceUsage.peakCpuPercentage ?? result.resourceUsage.cpuPercentage,
+        memoryBytes: result.resourceUsage.peakMemoryBytes ?? result.resourceUsage.memoryBytes,
+        diskWriteBytes: result.resourceUsage.diskWriteBytes,
+        networkBytes: result.resourceUsage.networkBytes
+      } : undefined,
+      securityEvents: (result?.securityEvents ?? []).map(event => ({
+        type: event.type,
+        timestamp: event.timestamp,
+        details: event.details,
+        severity: event.severity
+      })),
+      userId: this.config.getUserId?.(),
+      deviceId: this.config.deviceId,
+      correlationId: execution.correlationId,
+      startedAt: execution.startedAt,
+      completedAt: execution.completedAt
+    };
+  }
+
+  private fromRow(row: ExecutionHistoryRow): ExecutionHistoryEntry {
+    return {
+      id: row.id,
+      executionId: row.execution_id,
+      skillId: row.skill_id,
+      skillName: row.skill_name,
+      mode: row.mode,
+      status: row.status,
+      params: JSON.parse(row.params),
+      result: row.result ? JSON.parse(row.result) : undefined,
+      output: row.output ?? undefined,
+      error: row.error ?? undefined,
+      exitCode: row.exit_code ?? undefined,
+      executionTimeMs: row.execution_time_ms ?? undefined,
+      resourcePeaks: row.resource_peaks ? JSON.parse(row.resource_peaks) : undefined,
+      securityEvents: JSON.parse(row.security_events),
+      userId: row.user_id ?? undefined,
+      deviceId: row.device_id,
+      correlationId: row.correlation_id ?? undefined,
+      startedAt: row.started_at,
+      completedAt: row.completed_at
+    };
+  }
+}
+
+/**
+ * Factory function to create an execution history store
+ */
+export function createExecutionHistoryStore(config?: Partial<ExecutionHistoryConfig>): ExecutionHistoryStore {
+  return new ExecutionHistoryStore(config);
+}
@@ -0,0 +1,5 @@
+export * from './types';
+export * from './execution-history-store';
+
+export { DEFAULT_HISTORY_CONFIG } from './types';
+export { HISTORY_ERROR_CODES } from './types';
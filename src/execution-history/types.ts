@@ -0,0 +1,40 @@
+// Skill Execution History Types and Configuration
+
+import * as os from 'os';
+
+export {
+  ExecutionHistoryEntry,
+  ExecutionHistoryMode,
+  ExecutionHistoryPage,
+  ExecutionHistoryQuery,
+  ExecutionHistorySecurityEvent,
+  ExecutionHistoryStatus
+} from '../types/execution-history';
+
+export interface ExecutionHistoryConfig {
+  databasePath: string;
+  retentionDays: number;
+  maxEntries: number;
+  maxPageSize: number;
+  maxOutputLength: number;
+  cleanupIntervalMs: number;
+  deviceId: string;
+  // Resolves the signed-in user recorded with each execution
+  getUserId?: () => string | undefined;
+}
+
+export const DEFAULT_HISTORY_CONFIG: ExecutionHistoryConfig = {
+  databasePath: process.env.EXECUTION_HISTORY_DB_PATH || './data/execution-history.db',
+  retentionDays: 90,
+  maxEntries: 10000,
+  maxPageSize: 100,
+  maxOutputLength: 16 * 1024, // 16KB
+  cleanupIntervalMs: 3600000, // 1 hour
+  deviceId: os.hostname()
+};
+
+export const HISTORY_ERROR_CODES = {
+  DATABASE_ERROR: 'HISTORY_DATABASE_ERROR',
+  INVALID_QUERY: 'HISTORY_INVALID_QUERY',
+  PERMISSION_DENIED: 'HISTORY_PERMISSION_DENIED'
+} as const;
@@ -0,0 +1,171 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ipcMain } from 'electron';
+import type { ExecutionHistoryStore } from '../../execution-history';
+import { SkillCatalog, createSandboxedSkillHandler } from '../../skills-engine/skill-catalog';
+import { SkillRiskAnalyzer, SkillRiskError } from '../../skills-engine/skill-risk-analyzer';
+import { SkillInstaller } from '../../skills-engine/skill-installer';
+import { packSkillPackage } from '../../skills-engine/skill-package';
+import { DiagnosticScheduler } from '../../skills-engine/diagnostic-scheduler';
+import { getLogManager } from '../../skills-engine/logging';
+
+type Handler = (event: { sender: { id: number } }, ...args: any[]) => Promise<any>;
+
+describe('admin permission gated IPC handlers', () => {
+  const tempDir = path.join(__dirname, '__temp_admin_permissions__');
+  let auth: typeof import('../adminAuthHandlers');
+
+  // Handlers the modules registered, by channel
+  const invoke = (channel: string, senderId: number, ...args: any[]) => {
+    const call = (ipcMain.handle as jest.Mock).mock.calls.filter(([name]) => name === channel).pop();
+    if (!call) {
+      throw new Error(`No handler registered for ${channel}`);
+    }
+    return (call[1] as Handler)({ sender: { id: senderId } }, ...args);
+  };
+
+  const login = (senderId: number, username: string) =>
+    invoke('authenticate-admin', senderId, username, 'ChangeMe123!');
+
+  beforeAll(async () => {
+    fs.mkdirSync(tempDir, { recursive: true });
+    // The auth configuration lives under the working directory
+    jest.spyOn(process, 'cwd').mockReturnValue(tempDir);
+    auth = require('../adminAuthHandlers');
+    await auth.initializeAuthHandlers();
+  });
+
+  afterAll(async () => {
+    await getLogManager().shutdown();
+    auth.cleanupAuthHandlers();
+    jest.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('grants the permissions of the session a renderer logged in with', async () => {
+    const { registerExecutionHistoryHandlers } = require('../executionHistoryHandlers');
+    const page = { entries: [], total: 0 };
+    const store = { query: jest.fn().mockReturnValue(page) } as unknown as ExecutionHistoryStore;
+    registerExecutionHistoryHandlers(store);
+
+    await expect(invoke('execution-history:query', 1)).rejects.toThrow(/HISTORY_PERMISSION_DENIED/);
+
+    expect(await login(1, 'admin')).toMatchObject({ success: true, sessionToken: expect.any(String) });
+    expect(auth.hasAdminPermission(1, 'view_audit_logs')).toBe(true);
+    await expect(invoke('execution-history:query', 1, { limit: 10 })).resolves.toBe(page);
+    expect(store.query).toHaveBeenCalledWith({ limit: 10 });
+    await expect(invoke('check-admin-session', 1)).resolves.toMatchObject({ valid: true, user: { username: 'admin' } });
+
+    // Other renderers and roles without the permission stay locked out
+    await expect(invoke('execution-history:query', 2)).rejects.toThrow(/HISTORY_PERMISSION_DENIED/);
+    await login(2, 'viewer');
+    await expect(invoke('execution-history:query', 2)).rejects.toThrow(/HISTORY_PERMISSION_DENIED/);
+    // A failed login leaves the current session in place
+    await expect(invoke('authenticate-admin', 1, 'admin', 'wrong')).resolves.toMatchObject({ success: false });
+    expect(auth.hasAdminPermission(1, 'view_audit_logs')).toBe(true);
+
+    await invoke('logout-admin', 1);
+    expect(auth.hasAdminPermission(1, 'view_audit_logs')).toBe(false);
+    await expect(invoke('check-admin-session', 1)).resolves.toEqual({ valid: false });
+  });
+
+  if (process.platform !== 'win32') {
+    it('lets an authenticated admin approve a skill held for its risk so it runs', async () => {
+      const skillsDir = path.join(tempDir, 'skills');
+      const marker = path.join(tempDir, 'ran.txt');
+      fs.mkdirSync(skillsDir, { recursive: true });
+      fs.writeFileSync(path.join(skillsDir, 'cleanup.json'), JSON.stringify({
+        id: 'cleanup',
+        name: 'Cleanup',
+        description: 'Removes temporary files',
+        os: ['linux', 'macos'],
+        riskLevel: 'low',
+        requiresAdmin: false,
+        unixScript: 'cleanup.sh',
+        version: '1.0.0',
+        parameters: [],
+        output: { success: 'Cleaned up', failure: 'Cleanup failed' }
+      }));
+      fs.writeFileSync(path.join(skillsDir, 'cleanup.sh'), `touch "${marker}"\neval "$(printf 'echo SUCCESS: cleaned')"\n`);
+      const catalog = new SkillCatalog({ skillsDirectory: skillsDir, platform: 'linux' });
+      catalog.load();
+      const skill = catalog.get('cleanup')!;
+
+      const analyzer = new SkillRiskAnalyzer({ onMismatch: 'require_approval', approvalsPath: path.join(tempDir, 'approvals.json') });
+      const handler = createSandboxedSkillHandler(skill, {}, { riskAnalyzer: analyzer });
+      const { registerSkillRiskHandlers } = require('../skillRiskHandlers');
+      registerSkillRiskHandlers((skillId: string) => {
+        const analysis = analyzer.approve(catalog.get(skillId)!);
+        return { ...analysis, approvable: true };
+      });
+
+      await expect(handler({})).rejects.toBeInstanceOf(SkillRiskError);
+      await login(4, 'viewer');
+      await expect(invoke('skills:approve-risk', 4, 'cleanup')).rejects.toThrow(/PERMISSION_DENIED/);
+      expect(analyzer.analyze(skill).approved).toBe(false);
+
+      await login(5, 'admin');
+      await expect(invoke('skills:approve-risk', 5, 'cleanup')).resolves.toMatchObject({ mismatch: true, approved: true });
+      await expect(handler({})).resolves.toBe('cleaned');
+      expect(fs.existsSync(marker)).toBe(true);
+    });
+  }
+
+  it('serves skill package changes to sessions with manage_skills', async () => {
+    const sourceDir = path.join(tempDir, 'package');
+    fs.mkdirSync(sourceDir, { recursive: true });
+    fs.writeFileSync(path.join(sourceDir, 'echo-check.json'), JSON.stringify({
+      id: 'echo-check',
+      name: 'Echo Check',
+      description: 'Emits a success line for install testing',
+      os: ['windows', 'linux', 'macos'],
+      riskLevel: 'low',
+      requiresAdmin: false,
+      script: 'echo-check.sh',
+      version: '1.0.0',
+      parameters: [],
+      output: { success: 'Echo succeeded', failure: 'Echo failed' }
+    }));
+    fs.writeFileSync(path.join(sourceDir, 'echo-check.sh'), 'echo "SUCCESS: 1.0.0"\n');
+    const archive = new Uint8Array(packSkillPackage(sourceDir, 'echo-check.json'));
+
+    const installer = new SkillInstaller({ installDirectory: path.join(tempDir, 'installed'), platform: 'linux' });
+    const { registerSkillPackageHandlers } = require('../skillPackageHandlers');
+    registerSkillPackageHandlers(installer);
+
+    await login(6, 'viewer');
+    await expect(invoke('skill-packages:install', 6, archive)).rejects.toThrow(/PERMISSION_DENIED/);
+    await expect(invoke('skill-packages:list', 7)).rejects.toThrow(/PERMISSION_DENIED/);
+
+    await login(7, 'operator');
+    await expect(invoke('skill-packages:install', 7, archive)).resolves.toEqual({ skillId: 'echo-check', action: 'installed', version: '1.0.0' });
+    await expect(invoke('skill-packages:list', 7)).resolves.toEqual([expect.objectContaining({ skillId: 'echo-check', version: '1.0.0' })]);
+    await expect(invoke('skill-packages:rollback', 7, 'echo-check')).rejects.toThrow(/no previous version/i);
+    await expect(invoke('skill-packages:uninstall', 7, 'echo-check')).resolves.toMatchObject({ action: 'uninstalled' });
+    await expect(invoke('skill-packages:list', 7)).resolves.toEqual([]);
+  });
+
+  it('lets sessions with manage_skills read and change diagnostic schedules', async () => {
+    const scheduler = new DiagnosticScheduler({
+      runner: { has: skillId => skillId === 'disk-space', getName: skillId => skillId, run: jest.fn() },
+      configPath: path.join(tempDir, 'diagnostic-schedules.json')
+    });
+    const { registerDiagnosticScheduleHandlers } = require('../diagnosticScheduleHandlers');
+    registerDiagnosticScheduleHandlers(scheduler);
+    const schedule = { skillId: 'disk-space', schedule: '@daily', dryRun: true };
+
+    await login(8, 'viewer');
+    await expect(invoke('diagnostic-schedules:get', 8)).rejects.toThrow(/PERMISSION_DENIED/);
+    await expect(invoke('diagnostic-schedules:set', 8, schedule)).rejects.toThrow(/PERMISSION_DENIED/);
+    expect(scheduler.getConfig().schedules).toEqual([]);
+
+    await login(9, 'admin');
+    await expect(invoke('diagnostic-schedules:set', 9, schedule)).resolves.toBe(true);
+    await expect(invoke('diagnostic-schedules:update-settings', 9, { skipOnBattery: false })).resolves.toBe(true);
+    await expect(invoke('diagnostic-schedules:get', 9)).resolves.toMatchObject({
+      config: { skipOnBattery: false, schedules: [expect.objectContaining(schedule)] }
+    });
+    await expect(invoke('diagnostic-schedules:remove', 9, 'disk-space')).resolves.toBe(true);
+    expect(scheduler.getConfig().schedules).toEqual([]);
+  });
+});
@@ -93,6 +93,9 @@ const ADMIN_USERS: AdminUser[] = [
 
 // Secure session storage
 const activeSessions = new Map<string, SessionData>();
+// Session token of the renderer that logged in, by webContents id
+const senderSessions = new Map<number, string>();
+let sessionCleanupTimer: NodeJS.Timeout | null = null;
 const SESSION_TIMEOUT = 30 * 60 * 1000; // 30 minutes
 const SESSION_CLEANUP_INTERVAL = 5 * 60 * 1000; // 5 minutes
 
@@ -108,7 +111,7 @@ export async function initializeAuthHandlers(): Promise<void> {
   await ensureAuthConfig();
 
   // Setup session cleanup interval
-  setInterval(cleanupExpiredSessions, SESSION_CLEANUP_INTERVAL);
+  sessionCleanupTimer = setInterval(cleanupExpiredSessions, SESSION_CLEANUP_INTERVAL);
 
   // Register IPC handlers
   registerAuthHandlers();
@@ -152,7 +155,12 @@ function registerAuthHandlers(): void {
   // Admin authentication
   ipcMain.handle('authenticate-admin', async (event, username: string, password: string): Promise<AuthResult> => {
     try {
-      return await authenticateUser(username, password);
+      const result = await authenticateUser(username, password);
+      if (result.success && result.sessionToken) {
+        endSenderSession(event.sender.id);
+        senderSessions.set(event.sender.id, result.sessionToken);
+      }
+      return result;
     } catch (error) {
       console.error('Authentication error:', error);
       return {
@@ -165,10 +173,9 @@ function registerAuthHandlers(): void {
   // Session validation
   ipcMain.handle('check-admin-session', async (event): Promise<{ valid: boolean; user?: AdminUser }> => {
     try {
-      const sessionToken = event.sender.id.toString();
-      const sessionData = activeSessions.get(sessionToken);
+      const sessionData = getSenderSession(event.sender.id);
 
-      if (!sessionData || sessionData.expiresAt < Date.now()) {
+      if (!sessionData) {
         return { valid: false };
       }
 
@@ -194,8 +201,7 @@ function registerAuthHandlers(): void {
   // Logout
   ipcMain.handle('logout-admin', async (event): Promise<void> => {
     try {
-      const sessionToken = event.sender.id.toString();
-      activeSessions.delete(sessionToken);
+      endSenderSession(event.sender.id);
     } catch (error) {
       console.error('Logout error:', error);
     }
@@ -345,6 +351,37 @@ function verifyPassword(password: string, storedHash: string): boolean {
   }
 }
 
+/**
+ * Check whether the admin session of a renderer grants a permission
+ */
+export function hasAdminPermission(senderId: number, permission: string): boolean {
+  const sessionData = getSenderSession(senderId);
+  return sessionData ? sessionData.permissions.includes(permission) : false;
+}
+
+/**
+ * Get the unexpired session a renderer logged in with
+ */
+function getSenderSession(senderId: number): SessionData | null {
+  const sessionToken = senderSessions.get(senderId);
+  const sessionData = sessionToken ? activeSessions.get(sessionToken) : undefined;
+  if (!sessionData || sessionData.expiresAt < Date.now()) {
+    return null;
+  }
+  return sessionData;
+}
+
+/**
+ * End the session a renderer logged in with
+ */
+function endSenderSession(senderId: number): void {
+  const sessionToken = senderSessions.get(senderId);
+  if (sessionToken) {
+    activeSessions.delete(sessionToken);
+    senderSessions.delete(senderId);
+  }
+}
+
 /**
  * Clean up expired sessions
  */
@@ -355,6 +392,11 @@ function cleanupExpiredSessions(): void {
       activeSessions.delete(token);
     }
   }
+  for (const [senderId, token] of senderSessions.entries()) {
+    if (!activeSessions.has(token)) {
+      senderSessions.delete(senderId);
+    }
+  }
 }
 
 /**
@@ -366,5 +408,10 @@ export function cleanupAuthHandlers(): void {
   ipcMain.removeHandler('logout-admin');
   ipcMain.removeHandler('change-admin-password');
 
+  if (sessionCleanupTimer) {
+    clearInterval(sessionCleanupTimer);
+    sessionCleanupTimer = null;
+  }
   activeSessions.clear();
+  senderSessions.clear();
 }
\ No newline at end of file
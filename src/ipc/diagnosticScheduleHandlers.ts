@@ -0,0 +1,45 @@
+import { ipcMain } from 'electron';
+import { DiagnosticScheduler } from '../skills-engine/diagnostic-scheduler';
+import { DiagnosticSchedule, DiagnosticSchedulerSettings, DiagnosticSchedulesOverview } from '../types/diagnostic-schedules';
+import { hasAdminPermission } from './adminAuthHandlers';
+
+function assertCanManageSkills(senderId: number): void {
+  if (!hasAdminPermission(senderId, 'manage_skills')) {
+    throw new Error('PERMISSION_DENIED: Managing diagnostic schedules requires the manage_skills permission');
+  }
+}
+
+/**
+ * Let admins view and change which diagnostics run on a schedule. Invalid
+ * schedules are rejected with the DiagnosticScheduleError message.
+ */
+export function registerDiagnosticScheduleHandlers(scheduler: DiagnosticScheduler): void {
+  ipcMain.handle('diagnostic-schedules:get', async (event): Promise<DiagnosticSchedulesOverview> => {
+    assertCanManageSkills(event.sender.id);
+    return { config: scheduler.getConfig(), status: scheduler.getStatus() };
+  });
+
+  ipcMain.handle('diagnostic-schedules:set', async (event, schedule: DiagnosticSchedule) => {
+    assertCanManageSkills(event.sender.id);
+    scheduler.setSchedule(schedule);
+    return true;
+  });
+
+  ipcMain.handle('diagnostic-schedules:remove', async (event, skillId: string) => {
+    assertCanManageSkills(event.sender.id);
+    return scheduler.removeSchedule(skillId);
+  });
+
+  ipcMain.handle('diagnostic-schedules:update-settings', async (event, settings: Partial<DiagnosticSchedulerSettings>) => {
+    assertCanManageSkills(event.sender.id);
+    scheduler.updateSettings(settings);
+    return true;
+  });
+}
+
+export function cleanupDiagnosticScheduleHandlers(): void {
+  ipcMain.removeHandler('diagnostic-schedules:get');
+  ipcMain.removeHandler('diagnostic-schedules:set');
+  ipcMain.removeHandler('diagnostic-schedules:remove');
+  ipcMain.removeHandler('diagnostic-schedules:update-settings');
+}
@@ -91,6 +91,16 @@ export class IPCError extends Error {
     });
   }
 
+  /**
+   * Create invalid skill parameters error
+   */
+  static invalidParams(message: string, details?: any): IPCError {
+    return new IPCError(IPC_ERROR_CODES.SKILL_INVALID_PARAMS, message, {
+      details,
+      severity: 'warning'
+    });
+  }
+
   /**
    * Create permission denied error
    */
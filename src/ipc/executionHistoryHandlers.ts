@@ -0,0 +1,17 @@
+import { ipcMain } from 'electron';
+import { ExecutionHistoryStore, HISTORY_ERROR_CODES } from '../execution-history';
+import { ExecutionHistoryQuery } from '../types/execution-history';
+import { hasAdminPermission } from './adminAuthHandlers';
+
+export function registerExecutionHistoryHandlers(store: ExecutionHistoryStore): void {
+  ipcMain.handle('execution-history:query', async (event, query: ExecutionHistoryQuery = {}) => {
+    if (!hasAdminPermission(event.sender.id, 'view_audit_logs')) {
+      throw new Error(`${HISTORY_ERROR_CODES.PERMISSION_DENIED}: Viewing execution history requires the view_audit_logs permission`);
+    }
+    return store.query(query);
+  });
+}
+
+export function cleanupExecutionHistoryHandlers(): void {
+  ipcMain.removeHandler('execution-history:query');
+}
@@ -3,6 +3,12 @@ import {
   IPCMessage,
   SkillExecutionRequest,
   SkillExecutionResponse,
+  SkillProgressMessage,
+  SkillCancelRequest,
+  SkillRevertRequest,
+  SkillRevertResponse,
+  SkillPreview,
+  SkillUndoAvailability,
   ConnectionStateMessage,
   HeartbeatMessage,
   HeartbeatAckMessage,
@@ -11,13 +17,73 @@ import {
   IPC_CONFIG
 } from '../types/ipc';
 
+// Incremental progress reported by a running skill
+export interface SkillHandlerProgress {
+  percent?: number;
+  message?: string;
+  output?: string;
+  queuePosition?: number;
+}
+
+// Per-request context passed to skill handlers
+export interface SkillHandlerContext {
+  correlationId: string;
+  onProgress: (update: SkillHandlerProgress) => void;
+  signal: AbortSignal;
+  dryRun?: boolean;
+  bypassCache?: boolean;
+}
+
+// Structured handler output: the result line plus the planned actions of a
+// dry run, the undo entry of a fix that can be reverted or when a cached
+// result was produced
+export interface SkillHandlerResult {
+  output: string;
+  preview?: SkillPreview;
+  undo?: SkillUndoAvailability;
+  cachedAt?: number;
+}
+
 // Skill execution registry (to be populated with actual skill implementations)
 interface SkillHandler {
-  (params: Record<string, any>): Promise<string>;
+  (params: Record<string, any>, context?: SkillHandlerContext): Promise<string | SkillHandlerResult>;
 }
 
 const skillRegistry = new Map<string, SkillHandler>();
 
+// Fix reverted by the revert handler
+export interface SkillRevertResult {
+  executionId: string;
+  skillId: string;
+  output: string;
+}
+
+// Reverts the most recent fix, optionally for one skill
+interface RevertHandler {
+  (skillId?: string, correlationId?: string): Promise<SkillRevertResult>;
+}
+
+let revertHandler: RevertHandler | null = null;
+
+// Admits skill executions within the rate and concurrency limits
+interface ExecutionGate {
+  schedule<T>(skillId: string, task: () => Promise<T>, options: {
+    priority?: 'low' | 'normal' | 'high';
+    signal?: AbortSignal;
+    onQueuePosition?: (position: number) => void;
+  }): Promise<T>;
+}
+
+let executionGate: ExecutionGate | null = null;
+
+// Running executions keyed by the request messageId, used for cancellation
+interface ActiveExecution {
+  skillId: string;
+  cancel: () => void;
+}
+
+const activeExecutions = new Map<string, ActiveExecution>();
+
 // Connection state tracking
 let connectionState: 'connected' | 'disconnected' | 'reconnecting' = 'disconnected';
 let heartbeatInterval: NodeJS.Timeout | null = null;
@@ -37,6 +103,21 @@ export function unregisterSkill(skillId: string): void {
   skillRegistry.delete(skillId);
 }
 
+/**
+ * Set the handler behind the "revert last fix" action
+ */
+export function setRevertHandler(handler: RevertHandler | null): void {
+  revertHandler = handler;
+}
+
+/**
+ * Set the scheduler every skill execution request goes through; without one
+ * skills start immediately
+ */
+export function setExecutionScheduler(scheduler: ExecutionGate | null): void {
+  executionGate = scheduler;
+}
+
 /**
  * Validate IPC message structure
  */
@@ -59,11 +140,78 @@ function sendResponse(event: IpcMainEvent, channel: string, response: any): void
   }
 }
 
+/**
+ * Coalesce progress updates for one request into at most one message per
+ * PROGRESS_THROTTLE_MS. The latest percent/message wins and stdout is
+ * concatenated (keeping the tail when it exceeds MAX_PROGRESS_OUTPUT_CHARS).
+ */
+function createProgressThrottle(event: IpcMainEvent, skillId: string, correlationId: string) {
+  let pending: SkillHandlerProgress | null = null;
+  let timer: NodeJS.Timeout | null = null;
+  let lastSentAt = 0;
+  let sequence = 0;
+  let closed = false;
+
+  const flush = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!pending) {
+      return;
+    }
+
+    const message: SkillProgressMessage = {
+      type: 'skill_progress',
+      messageId: crypto.randomUUID(),
+      timestamp: Date.now(),
+      correlationId,
+      skillId,
+      sequence: sequence++,
+      ...pending
+    };
+    pending = null;
+    lastSentAt = Date.now();
+    sendResponse(event, IPC_CHANNELS.SKILL_PROGRESS, message);
+  };
+
+  const push = (update: SkillHandlerProgress) => {
+    if (closed) {
+      return;
+    }
+
+    const output = update.output !== undefined
+      ? ((pending?.output ?? '') + update.output).slice(-IPC_CONFIG.MAX_PROGRESS_OUTPUT_CHARS)
+      : pending?.output;
+    pending = {
+      percent: update.percent ?? pending?.percent,
+      message: update.message ?? pending?.message,
+      output,
+      queuePosition: update.queuePosition ?? pending?.queuePosition
+    };
+
+    const wait = IPC_CONFIG.PROGRESS_THROTTLE_MS - (Date.now() - lastSentAt);
+    if (wait <= 0) {
+      flush();
+    } else if (!timer) {
+      timer = setTimeout(flush, wait);
+    }
+  };
+
+  // Send whatever is buffered and ignore later updates
+  const close = () => {
+    flush();
+    closed = true;
+  };
+
+  return { push, close };
+}
+
 /**
  * Handle skill execution requests
  */
 function handleSkillExecutionRequest(event: IpcMainEvent, request: SkillExecutionRequest): void {
-  const { skillId, params, messageId, timeoutMs = IPC_CONFIG.DEFAULT_TIMEOUT_MS } = request;
+  const { skillId, params, messageId, dryRun, priority, bypassCache, timeoutMs = IPC_CONFIG.DEFAULT_TIMEOUT_MS } = request;
   
   // Check if skill exists
   const skillHandler = skillRegistry.get(skillId);
@@ -86,14 +234,76 @@ function handleSkillExecutionRequest(event: IpcMainEvent, request: SkillExecutio
 
   // Execute skill with timeout
   const executionStart = Date.now();
+  const progress = createProgressThrottle(event, skillId, messageId);
+  const controller = new AbortController();
+  let cancelled = false;
+  let timeoutId: NodeJS.Timeout | null = null;
+  let graceTimer: NodeJS.Timeout | null = null;
+
   const timeoutPromise = new Promise<SkillExecutionResponse>((_, reject) => {
-    setTimeout(() => {
+    timeoutId = setTimeout(() => {
+      controller.abort();
       reject(new Error('Skill execution timeout'));
     }, timeoutMs);
   });
 
-  const skillPromise = skillHandler(params)
-    .then((output) => {
+  const cancelledResponse = (partialOutput?: string): SkillExecutionResponse => ({
+    type: 'skill_execution_response',
+    messageId: crypto.randomUUID(),
+    timestamp: Date.now(),
+    correlationId: messageId,
+    skillId,
+    status: 'cancelled',
+    output: partialOutput,
+    error: {
+      code: IPC_ERROR_CODES.SKILL_CANCELLED,
+      message: 'Skill execution was cancelled'
+    },
+    executionTimeMs: Date.now() - executionStart
+  });
+
+  // Resolves with a cancelled response if the handler ignores the abort signal
+  const cancelPromise = new Promise<SkillExecutionResponse>((resolve) => {
+    activeExecutions.set(messageId, {
+      skillId,
+      cancel: () => {
+        if (cancelled) {
+          return;
+        }
+        cancelled = true;
+        controller.abort();
+        graceTimer = setTimeout(() => resolve(cancelledResponse()), IPC_CONFIG.CANCEL_GRACE_MS);
+      }
+    });
+  });
+
+  const finish = () => {
+    if (timeoutId) clearTimeout(timeoutId);
+    if (graceTimer) clearTimeout(graceTimer);
+    activeExecutions.delete(messageId);
+    progress.close();
+  };
+
+  const runSkill = () => skillHandler(params, {
+    correlationId: messageId,
+    onProgress: progress.push,
+    signal: controller.signal,
+    dryRun,
+    bypassCache
+  });
+
+  // The timeout covers time spent waiting in the execution queue
+  const skillPromise = (executionGate
+    ? executionGate.schedule(skillId, runSkill, {
+      priority,
+      signal: controller.signal,
+      onQueuePosition: (queuePosition) => progress.push({
+        queuePosition,
+        message: queuePosition > 0 ? `Waiting to start (position ${queuePosition} in queue)` : 'Starting'
+      })
+    })
+    : runSkill())
+    .then((result) => {
       const executionTime = Date.now() - executionStart;
       const response: SkillExecutionResponse = {
         type: 'skill_execution_response',
@@ -102,13 +312,23 @@ function handleSkillExecutionRequest(event: IpcMainEvent, request: SkillExecutio
         correlationId: messageId,
         skillId,
         status: 'success',
-        output,
+        output: typeof result === 'string' ? result : result.output,
+        preview: typeof result === 'string' ? undefined : result.preview,
+        undo: typeof result === 'string' ? undefined : result.undo,
+        cachedAt: typeof result === 'string' ? undefined : result.cachedAt,
         executionTimeMs: executionTime
       };
       return response;
     })
     .catch((error) => {
+      if (cancelled || error?.code === IPC_ERROR_CODES.SKILL_CANCELLED) {
+        return cancelledResponse(error?.partialOutput);
+      }
+
       const executionTime = Date.now() - executionStart;
+      // Skill errors that carry a known code keep it, along with the details
+      // their toDetails() gives the chat UI, such as per-field parameter issues
+      const knownCode = (Object.values(IPC_ERROR_CODES) as string[]).includes(error?.code) ? error.code : null;
       const response: SkillExecutionResponse = {
         type: 'skill_execution_response',
         messageId: crypto.randomUUID(),
@@ -117,21 +337,25 @@ function handleSkillExecutionRequest(event: IpcMainEvent, request: SkillExecutio
         skillId,
         status: 'error',
         error: {
-          code: IPC_ERROR_CODES.SKILL_EXECUTION_FAILED,
+          code: knownCode ?? IPC_ERROR_CODES.SKILL_EXECUTION_FAILED,
           message: error.message,
-          details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+          details: knownCode && typeof error.toDetails === 'function'
+            ? error.toDetails()
+            : process.env.NODE_ENV === 'development' ? error?.stack : undefined
         },
         executionTimeMs: executionTime
       };
       return response;
     });
 
-  // Race between skill execution and timeout
-  Promise.race([skillPromise, timeoutPromise])
+  // Race between skill execution, timeout and cancellation
+  Promise.race([skillPromise, timeoutPromise, cancelPromise])
     .then((response) => {
+      finish();
       sendResponse(event, IPC_CHANNELS.SKILL_EXECUTION_RESPONSE, response);
     })
     .catch((error) => {
+      finish();
       const response: SkillExecutionResponse = {
         type: 'skill_execution_response',
         messageId: crypto.randomUUID(),
@@ -148,6 +372,60 @@ function handleSkillExecutionRequest(event: IpcMainEvent, request: SkillExecutio
     });
 }
 
+/**
+ * Handle skill cancellation requests. The cancelled execution answers its
+ * original request with status 'cancelled' and any output captured so far.
+ */
+function handleSkillCancelRequest(request: SkillCancelRequest): void {
+  const execution = activeExecutions.get(request.targetMessageId);
+  if (!execution) {
+    // Already finished; its final response has been sent
+    return;
+  }
+  execution.cancel();
+}
+
+/**
+ * Handle "revert last fix" requests
+ */
+function handleSkillRevertRequest(event: IpcMainEvent, request: SkillRevertRequest): void {
+  const respond = (response: Omit<SkillRevertResponse, 'type' | 'messageId' | 'timestamp' | 'correlationId'>) => {
+    sendResponse(event, IPC_CHANNELS.SKILL_REVERT_RESPONSE, {
+      type: 'skill_revert_response',
+      messageId: crypto.randomUUID(),
+      timestamp: Date.now(),
+      correlationId: request.messageId,
+      ...response
+    });
+  };
+
+  if (!revertHandler) {
+    respond({
+      status: 'error',
+      skillId: request.skillId,
+      error: { code: IPC_ERROR_CODES.UNDO_NOT_AVAILABLE, message: 'Reverting fixes is not available' }
+    });
+    return;
+  }
+
+  revertHandler(request.skillId, request.messageId)
+    .then(({ executionId, skillId, output }) => {
+      respond({ status: 'success', executionId, skillId, output });
+    })
+    .catch((error) => {
+      const knownCode = (Object.values(IPC_ERROR_CODES) as string[]).includes(error?.code) ? error.code : null;
+      respond({
+        status: 'error',
+        skillId: error?.skillId ?? request.skillId,
+        error: {
+          code: knownCode ?? IPC_ERROR_CODES.SKILL_EXECUTION_FAILED,
+          message: error.message,
+          details: process.env.NODE_ENV === 'development' ? error.stack : undefined
+        }
+      });
+    });
+}
+
 /**
  * Handle heartbeat messages
  */
@@ -227,6 +505,32 @@ export function initializeIPCHandlers(): void {
     handleSkillExecutionRequest(event, request);
   });
 
+  // Skill cancellation handler
+  ipcMain.on(IPC_CHANNELS.SKILL_CANCEL_REQUEST, (_event, request) => {
+    if (validateIPCMessage(request) && request.type === 'skill_cancel_request') {
+      handleSkillCancelRequest(request);
+    }
+  });
+
+  // Revert last fix handler
+  ipcMain.on(IPC_CHANNELS.SKILL_REVERT_REQUEST, (event, request) => {
+    if (!validateIPCMessage(request) || request.type !== 'skill_revert_request') {
+      const errorResponse: SkillRevertResponse = {
+        type: 'skill_revert_response',
+        messageId: crypto.randomUUID(),
+        timestamp: Date.now(),
+        status: 'error',
+        error: {
+          code: IPC_ERROR_CODES.INVALID_MESSAGE,
+          message: 'Invalid skill revert request format'
+        }
+      };
+      sendResponse(event, IPC_CHANNELS.SKILL_REVERT_RESPONSE, errorResponse);
+      return;
+    }
+    handleSkillRevertRequest(event, request);
+  });
+
   // Heartbeat handler
   ipcMain.on(IPC_CHANNELS.HEARTBEAT, (event, message) => {
     if (validateIPCMessage(message) && message.type === 'heartbeat') {
@@ -265,6 +569,9 @@ export function cleanupIPCHandlers(): void {
     clearInterval(heartbeatInterval);
     heartbeatInterval = null;
   }
+
+  // Stop any skills still running
+  activeExecutions.forEach(execution => execution.cancel());
   
   // Remove all IPC listeners
   Object.values(IPC_CHANNELS).forEach(channel => {
@@ -3,12 +3,17 @@ import {
   IPCMessage,
   SkillExecutionRequest,
   SkillExecutionResponse,
+  SkillProgressMessage,
+  SkillCancelRequest,
+  SkillRevertRequest,
+  SkillRevertResponse,
   ConnectionStateMessage,
   HeartbeatMessage,
   HeartbeatAckMessage,
   IPC_CHANNELS,
   IPC_CONFIG
 } from '../types/ipc';
+import { IPCError } from './errorHandling';
 
 // Type for IPC response handlers
 type ResponseHandler<T> = (response: T) => void;
@@ -22,6 +27,7 @@ interface PendingRequest {
 }
 
 const pendingRequests = new Map<string, PendingRequest>();
+const progressHandlers = new Map<string, ResponseHandler<SkillProgressMessage>>();
 let connectionState: 'connected' | 'disconnected' | 'reconnecting' = 'disconnected';
 let heartbeatLatency: number = 0;
 
@@ -55,10 +61,10 @@ function validateIPCMessage(message: any): message is IPCMessage {
 export function sendRequest<T extends IPCMessage, R extends IPCMessage>(
   channel: string,
   message: Omit<T, 'messageId' | 'timestamp'>,
-  timeoutMs: number = IPC_CONFIG.DEFAULT_TIMEOUT_MS
+  timeoutMs: number = IPC_CONFIG.DEFAULT_TIMEOUT_MS,
+  messageId: string = generateMessageId()
 ): Promise<R> {
   return new Promise((resolve, reject) => {
-    const messageId = generateMessageId();
     const fullMessage: T = {
       ...message,
       messageId,
@@ -81,7 +87,29 @@ export function sendRequest<T extends IPCMessage, R extends IPCMessage>(
 }
 
 /**
- * Execute a skill and wait for response
+ * Ask the main process to cancel a running skill. The original executeSkill
+ * call then resolves with status 'cancelled' and the partial output.
+ */
+export function cancelSkill(messageId: string, reason?: string): void {
+  const request: SkillCancelRequest = {
+    type: 'skill_cancel_request',
+    messageId: generateMessageId(),
+    timestamp: Date.now(),
+    targetMessageId: messageId,
+    reason
+  };
+  ipcRenderer.send(IPC_CHANNELS.SKILL_CANCEL_REQUEST, request);
+}
+
+/**
+ * Execute a skill and wait for response. Progress messages for this request
+ * are delivered to onProgress, in order, until the final response arrives.
+ * Aborting `signal` cancels the skill. With `dryRun` the skill only reports
+ * what it would change; the response carries a `preview` to confirm first.
+ * While the skill waits for a free slot, progress messages carry its
+ * `queuePosition`; requests over the rate limit reject with RATE_LIMITED.
+ * Cacheable skills may answer from the result cache (`cachedAt` is set);
+ * `bypassCache` forces a fresh run.
  */
 export async function executeSkill(
   skillId: string,
@@ -89,19 +117,122 @@ export async function executeSkill(
   options: {
     timeoutMs?: number;
     requiresAdmin?: boolean;
+    onProgress?: (progress: SkillProgressMessage) => void;
+    signal?: AbortSignal;
+    dryRun?: boolean;
+    priority?: 'low' | 'normal' | 'high';
+    bypassCache?: boolean;
   } = {}
 ): Promise<SkillExecutionResponse> {
+  const messageId = generateMessageId();
+  const onAbort = () => cancelSkill(messageId, 'Cancelled by user');
   const request: Omit<SkillExecutionRequest, 'messageId' | 'timestamp'> = {
     type: 'skill_execution_request',
     skillId,
     params,
     requiresAdmin: options.requiresAdmin,
-    timeoutMs: options.timeoutMs
+    timeoutMs: options.timeoutMs,
+    dryRun: options.dryRun,
+    priority: options.priority,
+    bypassCache: options.bypassCache
   };
 
-  return sendRequest<SkillExecutionRequest, SkillExecutionResponse>(
+  if (options.onProgress) {
+    progressHandlers.set(messageId, options.onProgress);
+  }
+
+  const response = sendRequest<SkillExecutionRequest, SkillExecutionResponse>(
     IPC_CHANNELS.SKILL_EXECUTION_REQUEST,
     request,
+    options.timeoutMs,
+    messageId
+  );
+  if (options.signal?.aborted) {
+    onAbort();
+  } else {
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  try {
+    return await response;
+  } finally {
+    options.signal?.removeEventListener('abort', onAbort);
+    progressHandlers.delete(messageId);
+  }
+}
+
+/**
+ * Execute a skill and iterate over its progress messages. The iterator ends
+ * when the skill finishes; `result` settles with the final response.
+ */
+export function streamSkill(
+  skillId: string,
+  params: Record<string, any> = {},
+  options: {
+    timeoutMs?: number;
+    requiresAdmin?: boolean;
+    signal?: AbortSignal;
+    dryRun?: boolean;
+    priority?: 'low' | 'normal' | 'high';
+    bypassCache?: boolean;
+  } = {}
+): { progress: AsyncIterableIterator<SkillProgressMessage>; result: Promise<SkillExecutionResponse> } {
+  const queue: SkillProgressMessage[] = [];
+  let waiting: ((value: IteratorResult<SkillProgressMessage>) => void) | null = null;
+  let done = false;
+
+  const finish = () => {
+    done = true;
+    if (waiting) {
+      waiting({ value: undefined, done: true });
+      waiting = null;
+    }
+  };
+
+  const result = executeSkill(skillId, params, {
+    ...options,
+    onProgress: (message) => {
+      if (waiting) {
+        waiting({ value: message, done: false });
+        waiting = null;
+      } else {
+        queue.push(message);
+      }
+    }
+  });
+  result.then(finish, finish);
+
+  const progress: AsyncIterableIterator<SkillProgressMessage> = {
+    next: () => {
+      if (queue.length > 0) {
+        return Promise.resolve({ value: queue.shift()!, done: false });
+      }
+      if (done) {
+        return Promise.resolve({ value: undefined, done: true });
+      }
+      return new Promise(resolve => {
+        waiting = resolve;
+      });
+    },
+    [Symbol.asyncIterator]() {
+      return progress;
+    }
+  };
+
+  return { progress, result };
+}
+
+/**
+ * Revert the most recent fix (or the most recent fix of `skillId`) by running
+ * its undo script. Rejects with UNDO_NOT_AVAILABLE when there is nothing to
+ * revert and UNDO_EXPIRED when the fix's undo window has ended.
+ */
+export function revertLastFix(
+  options: { skillId?: string; timeoutMs?: number } = {}
+): Promise<SkillRevertResponse> {
+  return sendRequest<SkillRevertRequest, SkillRevertResponse>(
+    IPC_CHANNELS.SKILL_REVERT_REQUEST,
+    { type: 'skill_revert_request', skillId: options.skillId },
     options.timeoutMs
   );
 }
@@ -188,15 +319,32 @@ function handleIncomingMessage(event: IpcRendererEvent, message: any): void {
     return;
   }
 
+  // Progress shares the request's correlationId but does not settle it
+  if (message.type === 'skill_progress') {
+    const handler = message.correlationId ? progressHandlers.get(message.correlationId) : undefined;
+    if (handler) {
+      try {
+        handler(message as SkillProgressMessage);
+      } catch (error) {
+        console.error('Error in skill progress handler:', error);
+      }
+    }
+    return;
+  }
+
   // Handle correlation responses
   if (message.correlationId && pendingRequests.has(message.correlationId)) {
     const request = pendingRequests.get(message.correlationId)!;
     clearTimeout(request.timeoutId);
     pendingRequests.delete(message.correlationId);
     
-    if (message.type === 'skill_execution_response' && (message as SkillExecutionResponse).status === 'error') {
-      const error = new Error((message as SkillExecutionResponse).error?.message || 'Unknown error');
-      request.reject(error);
+    const failed = (message.type === 'skill_execution_response' || message.type === 'skill_revert_response') &&
+      (message as SkillExecutionResponse | SkillRevertResponse).status === 'error';
+    if (failed) {
+      const { error } = message as SkillExecutionResponse | SkillRevertResponse;
+      request.reject(error?.code
+        ? new IPCError(error.code, error.message || 'Unknown error', { details: error.details })
+        : new Error('Unknown error'));
     } else {
       request.resolve(message);
     }
@@ -285,6 +433,7 @@ export function cleanupIPCListeners(): void {
     request.reject(new Error('IPC cleanup'));
   });
   pendingRequests.clear();
+  progressHandlers.clear();
 
   // Clear listeners
   responseListeners.clear();
@@ -0,0 +1,17 @@
+import { ipcMain } from 'electron';
+import { SkillApplicabilityInfo } from '../types/ipc';
+
+// Evaluates the preconditions of every installed skill
+type SkillApplicabilityProvider = () => Promise<SkillApplicabilityInfo[]>;
+
+/**
+ * Let the chat ask which skills apply to this device. No permission is
+ * needed: the answer only says which skills can be offered and why not.
+ */
+export function registerSkillApplicabilityHandlers(provider: SkillApplicabilityProvider): void {
+  ipcMain.handle('skills:applicability', async () => provider());
+}
+
+export function cleanupSkillApplicabilityHandlers(): void {
+  ipcMain.removeHandler('skills:applicability');
+}
@@ -0,0 +1,29 @@
+import { BrowserWindow, ipcMain } from 'electron';
+import { InstalledSkillInfo, SkillCatalogChange } from '../types/ipc';
+
+// Lists the skills currently loaded from the skills directory
+type InstalledSkillsProvider = () => InstalledSkillInfo[];
+
+/**
+ * Let the admin console list the installed skills. No permission is needed:
+ * the list only holds what the skill metadata declares.
+ */
+export function registerSkillCatalogHandlers(provider: InstalledSkillsProvider): void {
+  ipcMain.handle('skills:installed', async () => provider());
+}
+
+/**
+ * Tell every window that a skill package was reloaded, so the admin
+ * console's Skills tab refreshes
+ */
+export function notifySkillCatalogChanged(change: SkillCatalogChange): void {
+  for (const window of BrowserWindow.getAllWindows()) {
+    if (!window.isDestroyed()) {
+      window.webContents.send('skills:changed', change);
+    }
+  }
+}
+
+export function cleanupSkillCatalogHandlers(): void {
+  ipcMain.removeHandler('skills:installed');
+}
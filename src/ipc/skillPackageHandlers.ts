@@ -0,0 +1,44 @@
+import { ipcMain } from 'electron';
+import { SkillInstaller } from '../skills-engine/skill-installer';
+import { InstalledSkillPackage, SkillInstallRequest, SkillInstallResult } from '../types/skill-packages';
+import { hasAdminPermission } from './adminAuthHandlers';
+
+function assertCanManageSkills(senderId: number): void {
+  if (!hasAdminPermission(senderId, 'manage_skills')) {
+    throw new Error('PERMISSION_DENIED: Installing skill packages requires the manage_skills permission');
+  }
+}
+
+/**
+ * Let admins install, roll back and remove custom skill packages. The
+ * renderer sends the bytes of a .wtcskill file; refused packages are
+ * rejected with the SkillInstallError message.
+ */
+export function registerSkillPackageHandlers(installer: SkillInstaller): void {
+  ipcMain.handle('skill-packages:list', async (event): Promise<InstalledSkillPackage[]> => {
+    assertCanManageSkills(event.sender.id);
+    return installer.list();
+  });
+
+  ipcMain.handle('skill-packages:install', async (event, archive: Uint8Array, request?: SkillInstallRequest): Promise<SkillInstallResult> => {
+    assertCanManageSkills(event.sender.id);
+    return installer.install(Buffer.from(archive), request);
+  });
+
+  ipcMain.handle('skill-packages:rollback', async (event, skillId: string): Promise<SkillInstallResult> => {
+    assertCanManageSkills(event.sender.id);
+    return installer.rollback(skillId);
+  });
+
+  ipcMain.handle('skill-packages:uninstall', async (event, skillId: string): Promise<SkillInstallResult> => {
+    assertCanManageSkills(event.sender.id);
+    return installer.uninstall(skillId);
+  });
+}
+
+export function cleanupSkillPackageHandlers(): void {
+  ipcMain.removeHandler('skill-packages:list');
+  ipcMain.removeHandler('skill-packages:install');
+  ipcMain.removeHandler('skill-packages:rollback');
+  ipcMain.removeHandler('skill-packages:uninstall');
+}
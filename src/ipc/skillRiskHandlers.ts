@@ -0,0 +1,23 @@
+import { ipcMain } from 'electron';
+import { SkillRiskInfo } from '../types/ipc';
+import { hasAdminPermission } from './adminAuthHandlers';
+
+// Approves the current scripts of a skill and returns its analysis
+type SkillRiskApprover = (skillId: string) => SkillRiskInfo;
+
+/**
+ * Let admins approve a skill whose scripts the risk analyzer assessed above
+ * its declared risk level. The approval covers the scripts as they are now.
+ */
+export function registerSkillRiskHandlers(approve: SkillRiskApprover): void {
+  ipcMain.handle('skills:approve-risk', async (event, skillId: string): Promise<SkillRiskInfo> => {
+    if (!hasAdminPermission(event.sender.id, 'manage_skills')) {
+      throw new Error('PERMISSION_DENIED: Approving skills requires the manage_skills permission');
+    }
+    return approve(skillId);
+  });
+}
+
+export function cleanupSkillRiskHandlers(): void {
+  ipcMain.removeHandler('skills:approve-risk');
+}
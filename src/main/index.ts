@@ -1,14 +1,38 @@
-import { app, BrowserWindow, Tray, Menu, nativeImage, ipcMain, screen } from 'electron';
+import { app, BrowserWindow, Tray, Menu, Notification, nativeImage, ipcMain, screen } from 'electron';
 import { autoUpdater } from 'electron-updater';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { initializeIPCHandlers, registerSkill } from '../ipc/mainHandlers';
+import { initializeIPCHandlers, registerSkill, setExecutionScheduler, setRevertHandler, unregisterSkill } from '../ipc/mainHandlers';
 import { initializeAuthHandlers, cleanupAuthHandlers } from '../ipc/adminAuthHandlers';
 import { initializeSecurityIntegration, shutdownSecurityIntegration } from '../security/integration';
 import { OfflineQueue } from '../offline-queue/offline-queue';
 import { LogManager } from '../skills-engine/logging/LogManager';
 import { FeedbackService } from '../analytics/FeedbackService';
 import { registerFeedbackHandlers } from '../ipc/feedbackHandlers';
+import { CatalogSkill, SkillCatalog, SkillReloadResult, SkillRunServices, createSandboxedSkillHandler, getSkillApplicability, runCatalogSkillUndo } from '../skills-engine/skill-catalog';
+import { SkillCatalogWatcher } from '../skills-engine/skill-catalog-watcher';
+import { SkillInstaller } from '../skills-engine/skill-installer';
+import { SkillSignatureVerifier, SkillTrustPolicy, loadSkillTrustPolicy } from '../skills-engine/skill-signing';
+import { ResourceCleaner } from '../skills-engine/resource-cleaner';
+import { PlaybookEngine, createCatalogSkillRunner, createPlaybookHandler, loadPlaybooks } from '../skills-engine/playbook-engine';
+import { ResourceManager } from '../skills-engine/resource-manager';
+import { SkillUndoUnavailableError, UndoJournal } from '../skills-engine/undo-journal';
+import { ExecutionHistoryStore } from '../execution-history';
+import { ExecutionScheduler } from '../skills-engine/execution-scheduler';
+import { SkillResultCache } from '../skills-engine/result-cache';
+import { PythonRuntime } from '../skills-engine/python-runtime';
+import { PreconditionChecker } from '../skills-engine/skill-preconditions';
+import { SkillRiskAnalyzer } from '../skills-engine/skill-risk-analyzer';
+import { DiagnosticSchedule, DiagnosticScheduler, DiagnosticSchedulerConfig } from '../skills-engine/diagnostic-scheduler';
+import { ScheduledDiagnosticResult } from '../skills-engine/logging/types';
+import { registerExecutionHistoryHandlers, cleanupExecutionHistoryHandlers } from '../ipc/executionHistoryHandlers';
+import { registerSkillApplicabilityHandlers, cleanupSkillApplicabilityHandlers } from '../ipc/skillApplicabilityHandlers';
+import { registerDiagnosticScheduleHandlers, cleanupDiagnosticScheduleHandlers } from '../ipc/diagnosticScheduleHandlers';
+import { registerSkillCatalogHandlers, cleanupSkillCatalogHandlers, notifySkillCatalogChanged } from '../ipc/skillCatalogHandlers';
+import { registerSkillRiskHandlers, cleanupSkillRiskHandlers } from '../ipc/skillRiskHandlers';
+import { registerSkillPackageHandlers, cleanupSkillPackageHandlers } from '../ipc/skillPackageHandlers';
+import { SkillRiskInfo } from '../types/ipc';
 
 const isDev = process.env.NODE_ENV === 'development' || process.env.ELECTRON_IS_DEV === 'true';
 
@@ -20,6 +44,18 @@ let updateCheckInterval: NodeJS.Timeout | null = null;
 let offlineQueue: OfflineQueue | null = null;
 let feedbackService: FeedbackService | null = null;
 let logManager: LogManager | null = null;
+let skillCatalog: SkillCatalog | null = null;
+let skillCatalogWatcher: SkillCatalogWatcher | null = null;
+let skillInstaller: SkillInstaller | null = null;
+let installedSkillCatalog: SkillCatalog | null = null;
+let installedSkillCatalogWatcher: SkillCatalogWatcher | null = null;
+let skillResourceCleaner: ResourceCleaner | null = null;
+let playbookEngine: PlaybookEngine | null = null;
+let skillResourceManager: ResourceManager | null = null;
+let undoJournal: UndoJournal | null = null;
+let executionHistory: ExecutionHistoryStore | null = null;
+let executionScheduler: ExecutionScheduler | null = null;
+let diagnosticScheduler: DiagnosticScheduler | null = null;
 
 const WINDOW_MARGIN_X = 16;
 const WINDOW_MARGIN_Y = 20;
@@ -366,23 +402,370 @@ function quitApp(): void {
   app.quit();
 }
 
-// Register sample skills
-function registerSampleSkills(): void {
-  // Example skill: Get system information
-  registerSkill('system-info', async () => {
-    return JSON.stringify({
-      platform: process.platform,
-      arch: process.arch,
-      version: process.version,
-      uptime: process.uptime(),
-      memory: process.memoryUsage()
-    }, null, 2);
+function resolveSkillsDirectory(): string | null {
+  const candidatePaths = [
+    path.join(app.getAppPath(), 'skills'),
+    path.join(process.cwd(), 'skills')
+  ];
+
+  for (const candidate of candidatePaths) {
+    if (fs.existsSync(candidate) && fs.statSync(candidate).isDirectory()) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+// Load the organization's skill trust policy. Without one, development builds
+// accept unsigned skills and packaged builds refuse them.
+function resolveSkillTrustPolicy(): SkillTrustPolicy {
+  const candidatePaths = [
+    path.join(app.getPath('userData'), 'skill-trust-policy.json'),
+    path.join(app.getAppPath(), 'config', 'skill-trust-policy.json')
+  ];
+
+  for (const candidate of candidatePaths) {
+    if (fs.existsSync(candidate)) {
+      try {
+        return loadSkillTrustPolicy(candidate);
+      } catch (error) {
+        console.error(`[skills] Ignoring invalid trust policy ${candidate}:`, error);
+      }
+    }
+  }
+
+  if (app.isPackaged) {
+    console.error('[skills] No skill trust policy found; unsigned skills are refused. Sign the bundled skills with npm run sign:skills before packaging');
+  } else {
+    console.warn('[skills] No skill trust policy found; unsigned skills are allowed in development');
+  }
+  return {
+    organizationId: 'default',
+    trustedKeys: [],
+    allowUnsigned: !app.isPackaged
+  };
+}
+
+// Load packaged skills from disk and register them for sandboxed execution
+function registerCatalogSkills(): void {
+  const skillsDirectory = resolveSkillsDirectory();
+  if (!skillsDirectory) {
+    console.warn('[skills] Skills directory not found; no skills registered');
+    return;
+  }
+
+  const verifier = new SkillSignatureVerifier({ policy: resolveSkillTrustPolicy() });
+  // Picks interpreters for Python skills and builds their virtualenvs from lockfiles
+  const pythonRuntime = new PythonRuntime({
+    venvDirectory: path.join(app.getPath('userData'), 'python-venvs')
+  });
+  skillCatalog = new SkillCatalog({ skillsDirectory, verifier, pythonRuntime });
+  // Reclaims process trees of cancelled or abandoned skills
+  skillResourceCleaner = new ResourceCleaner();
+  // Keeps artifacts of revertible fixes out of cleanup until their undo window ends
+  skillResourceManager = new ResourceManager();
+  undoJournal = new UndoJournal({
+    journalPath: path.join(app.getPath('userData'), 'undo-journal.json'),
+    resourceManager: skillResourceManager
+  });
+
+  // Holds back skills whose scripts look riskier than declared until an admin approves them
+  const riskAnalyzer = new SkillRiskAnalyzer({
+    onMismatch: 'require_approval',
+    approvalsPath: path.join(app.getPath('userData'), 'skill-risk-approvals.json')
+  });
+
+  const services: SkillRunServices = {
+    verifier,
+    undoJournal,
+    history: executionHistory ?? undefined,
+    // Reuses results of cacheable diagnostics within one session
+    cache: new SkillResultCache({ maxSize: 50, ttlMs: 5 * 60 * 1000, strategy: 'lru' }),
+    python: pythonRuntime,
+    // Refuses skills whose required commands, services, power or network state this device lacks
+    preconditions: new PreconditionChecker(),
+    riskAnalyzer
+  };
+
+  try {
+    const { skills, rejected } = skillCatalog.load();
+
+    for (const skill of skills) {
+      registerSkill(
+        skill.metadata.id,
+        createSandboxedSkillHandler(skill, { resourceCleaner: skillResourceCleaner }, services)
+      );
+    }
+
+    for (const rejection of rejected) {
+      console.warn(`[skills] Skipped ${rejection.file} (${rejection.reason}): ${rejection.message}`);
+    }
+
+    console.log(`[skills] Registered ${skills.length} skill(s) from ${skillsDirectory}`);
+  } catch (error) {
+    console.error('[skills] Failed to load skill catalog:', error);
+    return;
+  }
+
+  registerSkillPackages(verifier, pythonRuntime, services);
+  registerSkillCatalogHandlers(() => getCatalogSkills().map(skill => ({
+    id: skill.metadata.id,
+    name: skill.metadata.name,
+    description: skill.metadata.description,
+    version: skill.metadata.version,
+    riskLevel: skill.metadata.riskLevel,
+    requiresAdmin: skill.metadata.requiresAdmin,
+    capabilities: skill.metadata.capabilities,
+    risk: getSkillRiskInfo(skill, riskAnalyzer)
+  })));
+  registerSkillRiskHandlers((skillId) => {
+    const skill = catalogSkills.get(skillId);
+    if (!skill) {
+      throw new Error(`Skill '${skillId}' is not installed`);
+    }
+    riskAnalyzer.approve(skill);
+    return getSkillRiskInfo(skill, riskAnalyzer)!;
+  });
+  skillCatalogWatcher = watchSkillsDirectory(skillCatalog, services);
+  registerRevertHandler(services);
+  registerApplicabilityHandler(services);
+  registerPlaybooks(path.join(skillsDirectory, 'playbooks'), services);
+  registerDiagnosticSchedules(services);
+}
+
+// Risk analysis for the Skills tab; undefined when a script cannot be read
+function getSkillRiskInfo(skill: CatalogSkill, analyzer: SkillRiskAnalyzer): SkillRiskInfo | undefined {
+  try {
+    const analysis = analyzer.analyze(skill);
+    return {
+      assessedRiskLevel: analysis.assessedRiskLevel,
+      score: analysis.score,
+      mismatch: analysis.mismatch,
+      approved: analysis.approved,
+      approvable: analyzer.getMismatchPolicy() === 'require_approval',
+      findings: analysis.findings.map(({ rule, description, severity, file, line }) => ({ rule, description, severity, file, line }))
+    };
+  } catch (error) {
+    console.warn(`[skills] Unable to analyze ${skill.metadata.id}:`, error);
+    return undefined;
+  }
+}
+
+// Packaged skills first, then admin-installed packages
+function getCatalogSkills(): CatalogSkill[] {
+  return [...(skillCatalog?.getAll() ?? []), ...(installedSkillCatalog?.getAll() ?? [])];
+}
+
+// Looks skills up in both catalogs, for runners and the revert handler
+const catalogSkills = {
+  get: (skillId: string): CatalogSkill | undefined => skillCatalog?.get(skillId) ?? installedSkillCatalog?.get(skillId)
+};
+
+// Load the custom skill packages admins installed and let them install more.
+// Installed packages may not reuse the id of a packaged skill.
+function registerSkillPackages(
+  verifier: SkillSignatureVerifier,
+  pythonRuntime: PythonRuntime,
+  services: SkillRunServices
+): void {
+  skillInstaller = new SkillInstaller({
+    installDirectory: path.join(app.getPath('userData'), 'skill-packages'),
+    verifier,
+    pythonRuntime,
+    reservedSkillIds: () => skillCatalog?.getAll().map(skill => skill.metadata.id) ?? []
+  });
+  installedSkillCatalog = new SkillCatalog({ skillsDirectory: skillInstaller.getActiveDirectory(), verifier, pythonRuntime });
+
+  try {
+    const { skills, rejected } = installedSkillCatalog.load();
+
+    for (const skill of skills) {
+      if (skillCatalog?.get(skill.metadata.id)) {
+        console.warn(`[skills] Skipped installed package ${skill.metadata.id}: a packaged skill has the same id`);
+        continue;
+      }
+      registerSkill(
+        skill.metadata.id,
+        createSandboxedSkillHandler(skill, { resourceCleaner: skillResourceCleaner ?? undefined }, services)
+      );
+    }
+
+    for (const rejection of rejected) {
+      console.warn(`[skills] Skipped installed package ${rejection.file} (${rejection.reason}): ${rejection.message}`);
+    }
+  } catch (error) {
+    console.error('[skills] Failed to load installed skill packages:', error);
+  }
+
+  registerSkillPackageHandlers(skillInstaller);
+  // Installs, rollbacks and uninstalls reach the registry through the watcher
+  installedSkillCatalogWatcher = watchSkillsDirectory(installedSkillCatalog, services);
+}
+
+// Swap skill packages edited or dropped into a skills directory into the
+// registry; runs already in flight keep the version they started with
+function watchSkillsDirectory(catalog: SkillCatalog, services: SkillRunServices): SkillCatalogWatcher {
+  const watcher = new SkillCatalogWatcher(catalog);
+  watcher.on('skillChanged', (result: SkillReloadResult) => {
+    if (result.status === 'rejected') {
+      console.warn(`[skills] Kept the previous version of ${result.file}: ${result.rejection?.message}`);
+    } else if (result.skillId) {
+      if (result.status === 'removed') {
+        unregisterSkill(result.skillId);
+      } else {
+        registerSkill(
+          result.skillId,
+          createSandboxedSkillHandler(result.skill!, { resourceCleaner: skillResourceCleaner ?? undefined }, services)
+        );
+      }
+      services.cache?.invalidateSkill(result.skillId);
+      console.log(`[skills] Skill ${result.skillId} ${result.status} from ${result.file}`);
+    }
+
+    notifySkillCatalogChanged({
+      file: result.file,
+      status: result.status,
+      skillId: result.skillId,
+      message: result.rejection?.message
+    });
+  });
+
+  watcher.on('error', (error: Error) => {
+    console.error(`[skills] Stopped watching ${catalog.getSkillsDirectory()}; changes need a restart:`, error);
+  });
+
+  try {
+    watcher.start();
+  } catch (error) {
+    console.error(`[skills] Unable to watch ${catalog.getSkillsDirectory()}; changes need a restart:`, error);
+  }
+  return watcher;
+}
+
+// Serve "revert last fix" from the undo journal
+function registerRevertHandler(services: SkillRunServices): void {
+  setRevertHandler(async (skillId, correlationId) => {
+    if (!skillCatalog || !undoJournal) {
+      throw new SkillUndoUnavailableError('Reverting fixes is not available', 'UNDO_NOT_AVAILABLE', skillId);
+    }
+
+    const { entry, result } = await undoJournal.revertLatest(async (latest) => {
+      const skill = catalogSkills.get(latest.skillId);
+      if (!skill) {
+        throw new SkillUndoUnavailableError(
+          `Skill '${latest.skillId}' is no longer installed`,
+          'UNDO_NOT_AVAILABLE',
+          latest.skillId
+        );
+      }
+      return runCatalogSkillUndo(
+        skill,
+        latest.artifacts,
+        { executionId: latest.executionId, correlationId },
+        { resourceCleaner: skillResourceCleaner ?? undefined },
+        services
+      );
+    }, skillId);
+
+    return { executionId: entry.executionId, skillId: entry.skillId, output: result.output };
+  });
+}
+
+// Tell the chat which skills apply to this device so it only offers those
+function registerApplicabilityHandler(services: SkillRunServices): void {
+  registerSkillApplicabilityHandlers(async () => {
+    const skills = getCatalogSkills();
+    return Promise.all(skills.map(async (skill) => {
+      const { applicable, reasons } = await getSkillApplicability(skill, services);
+      return { skillId: skill.metadata.id, name: skill.metadata.name, applicable, reasons };
+    }));
   });
+}
+
+// Load playbooks and register them next to the skills they run
+function registerPlaybooks(playbooksDirectory: string, services: SkillRunServices): void {
+  if (!skillCatalog) {
+    return;
+  }
 
-  // Example skill: Echo test
-  registerSkill('echo', async (params: Record<string, any>) => {
-    return `Echo: ${JSON.stringify(params)}`;
+  const runner = createCatalogSkillRunner(
+    catalogSkills,
+    { resourceCleaner: skillResourceCleaner ?? undefined },
+    services
+  );
+  playbookEngine = new PlaybookEngine({
+    runner,
+    ticketContext: () => ({ appVersion: APP_VERSION })
   });
+
+  try {
+    const { playbooks, rejected } = loadPlaybooks(playbooksDirectory, runner);
+
+    for (const playbook of playbooks) {
+      registerSkill(playbook.id, createPlaybookHandler(playbookEngine, playbook));
+    }
+
+    for (const rejection of rejected) {
+      console.warn(`[skills] Skipped playbook ${rejection.file}: ${rejection.message}`);
+    }
+
+    console.log(`[skills] Registered ${playbooks.length} playbook(s) from ${playbooksDirectory}`);
+  } catch (error) {
+    console.error('[skills] Failed to load playbooks:', error);
+  }
+}
+
+// Packaged default schedules; admins' changes are saved to userData instead
+function loadDiagnosticScheduleDefaults(): Partial<DiagnosticSchedulerConfig> {
+  const candidate = path.join(app.getAppPath(), 'config', 'diagnostic-schedules.json');
+  if (!fs.existsSync(candidate)) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(candidate, 'utf-8'));
+  } catch (error) {
+    console.error('[skills] Ignoring invalid diagnostic schedules:', error);
+    return {};
+  }
+}
+
+// Run diagnostics on their schedules at low priority, behind user-requested skills
+function registerDiagnosticSchedules(services: SkillRunServices): void {
+  if (!skillCatalog) {
+    return;
+  }
+
+  const catalogRunner = createCatalogSkillRunner(
+    catalogSkills,
+    { resourceCleaner: skillResourceCleaner ?? undefined },
+    services
+  );
+  diagnosticScheduler = new DiagnosticScheduler({
+    runner: {
+      ...catalogRunner,
+      run: (skillId, params, context) => executionScheduler
+        ? executionScheduler.schedule(skillId, () => catalogRunner.run(skillId, params, context), { priority: 'low' })
+        : catalogRunner.run(skillId, params, context)
+    },
+    configPath: path.join(app.getPath('userData'), 'diagnostic-schedules.json'),
+    defaults: loadDiagnosticScheduleDefaults()
+  });
+
+  diagnosticScheduler.on('thresholdExceeded', ({ result, schedule }: { result: ScheduledDiagnosticResult; schedule: DiagnosticSchedule }) => {
+    if (schedule.notify && Notification.isSupported()) {
+      const notification = new Notification({
+        title: 'Windows Troubleshooting Companion',
+        body: result.breaches.map(breach => breach.message).join('\n')
+      });
+      notification.on('click', () => showMainWindow());
+      notification.show();
+    }
+  });
+
+  registerDiagnosticScheduleHandlers(diagnosticScheduler);
+  diagnosticScheduler.start();
 }
 
 // App event handlers
@@ -390,8 +773,10 @@ app.whenReady().then(async () => {
   // Initialize security integration
   await initializeSecurityIntegration();
 
-  // Initialize IPC handlers
+  // Initialize IPC handlers; skill runs are rate limited and queued by the scheduler
   initializeIPCHandlers();
+  executionScheduler = new ExecutionScheduler();
+  setExecutionScheduler(executionScheduler);
 
   // Initialize authentication handlers
   initializeAuthHandlers();
@@ -414,8 +799,19 @@ app.whenReady().then(async () => {
   feedbackService = new FeedbackService(offlineQueue, logManager);
   registerFeedbackHandlers(feedbackService);
 
-  // Register sample skills
-  registerSampleSkills();
+  // Record every skill run for the admin console and support
+  try {
+    executionHistory = new ExecutionHistoryStore({
+      databasePath: path.join(app.getPath('userData'), 'execution-history.db'),
+      getUserId: () => os.userInfo().username
+    });
+    registerExecutionHistoryHandlers(executionHistory);
+  } catch (error) {
+    console.error('[skills] Execution history is unavailable:', error);
+  }
+
+  // Register packaged skills
+  registerCatalogSkills();
 
   // Configure auto-update channel handling
   initializeAutoUpdater();
@@ -478,6 +874,53 @@ app.on('will-quit', async (event) => {
     offlineQueue.shutdown();
     offlineQueue = null;
   }
+
+  if (playbookEngine) {
+    playbookEngine.dispose();
+    playbookEngine = null;
+  }
+
+  if (skillResourceCleaner) {
+    await skillResourceCleaner.dispose();
+    skillResourceCleaner = null;
+  }
+
+  setRevertHandler(null);
+  undoJournal = null;
+
+  setExecutionScheduler(null);
+  if (executionScheduler) {
+    executionScheduler.dispose();
+    executionScheduler = null;
+  }
+
+  cleanupExecutionHistoryHandlers();
+  cleanupSkillApplicabilityHandlers();
+  cleanupDiagnosticScheduleHandlers();
+  cleanupSkillCatalogHandlers();
+  cleanupSkillRiskHandlers();
+  cleanupSkillPackageHandlers();
+  if (installedSkillCatalogWatcher) {
+    installedSkillCatalogWatcher.stop();
+    installedSkillCatalogWatcher = null;
+  }
+  if (skillCatalogWatcher) {
+    skillCatalogWatcher.stop();
+    skillCatalogWatcher = null;
+  }
+  if (diagnosticScheduler) {
+    diagnosticScheduler.stop();
+    diagnosticScheduler = null;
+  }
+  if (executionHistory) {
+    executionHistory.close();
+    executionHistory = null;
+  }
+  if (skillResourceManager) {
+    await skillResourceManager.cleanup().catch(error => console.error('[skills] Artifact cleanup failed:', error));
+    skillResourceManager = null;
+  }
+
   console.log('Application quitting...');
 });
 
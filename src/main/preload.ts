@@ -1,4 +1,8 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
+import type { ExecutionHistoryPage, ExecutionHistoryQuery } from '../types/execution-history';
+import type { InstalledSkillInfo, SkillApplicabilityInfo, SkillCatalogChange, SkillRiskInfo } from '../types/ipc';
+import type { DiagnosticSchedule, DiagnosticSchedulerSettings, DiagnosticSchedulesOverview } from '../types/diagnostic-schedules';
+import type { InstalledSkillPackage, SkillInstallRequest, SkillInstallResult } from '../types/skill-packages';
 
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
@@ -17,7 +21,57 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('logout-admin'),
 
   changeAdminPassword: (username: string, currentPassword: string, newPassword: string) =>
-    ipcRenderer.invoke('change-admin-password', username, currentPassword, newPassword)
+    ipcRenderer.invoke('change-admin-password', username, currentPassword, newPassword),
+
+  // Skill execution history (requires the view_audit_logs permission)
+  queryExecutionHistory: (query: ExecutionHistoryQuery) =>
+    ipcRenderer.invoke('execution-history:query', query),
+
+  // Which skills apply to this device, with the preconditions the others fail
+  getSkillApplicability: () =>
+    ipcRenderer.invoke('skills:applicability'),
+
+  // Installed skills, and a subscription to packages reloaded from disk
+  getInstalledSkills: () =>
+    ipcRenderer.invoke('skills:installed'),
+
+  onSkillsChanged: (callback: (change: SkillCatalogChange) => void) => {
+    const listener = (_event: IpcRendererEvent, change: SkillCatalogChange) => callback(change);
+    ipcRenderer.on('skills:changed', listener);
+    return () => {
+      ipcRenderer.removeListener('skills:changed', listener);
+    };
+  },
+
+  // Let a skill whose scripts look riskier than declared run (requires the manage_skills permission)
+  approveSkillRisk: (skillId: string) =>
+    ipcRenderer.invoke('skills:approve-risk', skillId),
+
+  // Scheduled diagnostics (requires the manage_skills permission)
+  getDiagnosticSchedules: () =>
+    ipcRenderer.invoke('diagnostic-schedules:get'),
+
+  setDiagnosticSchedule: (schedule: DiagnosticSchedule) =>
+    ipcRenderer.invoke('diagnostic-schedules:set', schedule),
+
+  removeDiagnosticSchedule: (skillId: string) =>
+    ipcRenderer.invoke('diagnostic-schedules:remove', skillId),
+
+  updateDiagnosticScheduleSettings: (settings: Partial<DiagnosticSchedulerSettings>) =>
+    ipcRenderer.invoke('diagnostic-schedules:update-settings', settings),
+
+  // Custom skill packages (requires the manage_skills permission)
+  getSkillPackages: () =>
+    ipcRenderer.invoke('skill-packages:list'),
+
+  installSkillPackage: (archive: Uint8Array, request?: SkillInstallRequest) =>
+    ipcRenderer.invoke('skill-packages:install', archive, request),
+
+  rollbackSkillPackage: (skillId: string) =>
+    ipcRenderer.invoke('skill-packages:rollback', skillId),
+
+  uninstallSkillPackage: (skillId: string) =>
+    ipcRenderer.invoke('skill-packages:uninstall', skillId)
 });
 
 // Types for the exposed API
@@ -61,6 +115,24 @@ declare global {
         };
         error?: string;
       }>;
+
+      queryExecutionHistory: (query: ExecutionHistoryQuery) => Promise<ExecutionHistoryPage>;
+
+      getSkillApplicability: () => Promise<SkillApplicabilityInfo[]>;
+
+      getInstalledSkills: () => Promise<InstalledSkillInfo[]>;
+      onSkillsChanged: (callback: (change: SkillCatalogChange) => void) => () => void;
+      approveSkillRisk: (skillId: string) => Promise<SkillRiskInfo>;
+
+      getDiagnosticSchedules: () => Promise<DiagnosticSchedulesOverview>;
+      setDiagnosticSchedule: (schedule: DiagnosticSchedule) => Promise<boolean>;
+      removeDiagnosticSchedule: (skillId: string) => Promise<boolean>;
+      updateDiagnosticScheduleSettings: (settings: Partial<DiagnosticSchedulerSettings>) => Promise<boolean>;
+
+      getSkillPackages: () => Promise<InstalledSkillPackage[]>;
+      installSkillPackage: (archive: Uint8Array, request?: SkillInstallRequest) => Promise<SkillInstallResult>;
+      rollbackSkillPackage: (skillId: string) => Promise<SkillInstallResult>;
+      uninstallSkillPackage: (skillId: string) => Promise<SkillInstallResult>;
     };
   }
 }
\ No newline at end of file
@@ -3,6 +3,7 @@ import './AdminConsole.css';
 import { useSecurity } from './SecurityContext';
 import { validateColor, validateNumber, validateThemeConfig } from '../utils/validation';
 import type { FeedbackAnalyticsSummary } from '../types/feedback';
+import type { SkillCapabilitiesInfo, SkillRiskInfo } from '../types/ipc';
 
 // Types for Admin Console
 interface Skill {
@@ -13,6 +14,8 @@ interface Skill {
   riskLevel: 'low' | 'medium' | 'high';
   requiresAdmin: boolean;
   version: string;
+  capabilities?: SkillCapabilitiesInfo;
+  risk?: SkillRiskInfo;
 }
 
 interface ITSMConnection {
@@ -38,6 +41,8 @@ interface ThemeConfig {
 const AdminConsole: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'skills' | 'itsm' | 'health' | 'branding' | 'analytics'>('skills');
   const [skills, setSkills] = useState<Skill[]>([]);
+  const [pendingEnableSkillId, setPendingEnableSkillId] = useState<string | null>(null);
+  const [riskApprovalError, setRiskApprovalError] = useState<string | null>(null);
   const [connections, setConnections] = useState<ITSMConnection[]>([]);
   const [theme, setTheme] = useState<ThemeConfig>({
     primaryColor: '#2563eb',
@@ -110,6 +115,29 @@ const AdminConsole: React.FC = () => {
     ]);
   }, []);
 
+  // Load the installed skills and reload them when a package in the skills directory changes
+  useEffect(() => {
+    if (!window.electronAPI?.onSkillsChanged) {
+      return;
+    }
+
+    const refreshSkills = () => {
+      window.electronAPI.getInstalledSkills()
+        .then((installed) => {
+          setSkills(prev => installed.map(skill => ({
+            ...skill,
+            enabled: prev.find(existing => existing.id === skill.id)?.enabled ?? true
+          })));
+        })
+        .catch((error) => {
+          console.error('Failed to load installed skills', error);
+        });
+    };
+
+    refreshSkills();
+    return window.electronAPI.onSkillsChanged(refreshSkills);
+  }, []);
+
   useEffect(() => {
     if (activeTab !== 'analytics') {
       return;
@@ -135,12 +163,32 @@ const AdminConsole: React.FC = () => {
     };
   }, [activeTab]);
 
+  // Enabling a skill asks for confirmation of its declared capabilities first
   const toggleSkill = (skillId: string) => {
+    const skill = skills.find(candidate => candidate.id === skillId);
+    if (skill && !skill.enabled && pendingEnableSkillId !== skillId) {
+      setPendingEnableSkillId(skillId);
+      return;
+    }
+
+    setPendingEnableSkillId(null);
     setSkills(prev => prev.map(skill =>
       skill.id === skillId ? { ...skill, enabled: !skill.enabled } : skill
     ));
   };
 
+  // Approve the current scripts of a skill assessed riskier than declared
+  const approveSkillRisk = async (skillId: string) => {
+    setRiskApprovalError(null);
+    try {
+      const risk = await window.electronAPI.approveSkillRisk(skillId);
+      setSkills(prev => prev.map(skill => skill.id === skillId ? { ...skill, risk } : skill));
+    } catch (error) {
+      console.error('Failed to approve skill', error);
+      setRiskApprovalError('Unable to approve this skill right now.');
+    }
+  };
+
   const toggleConnection = (connectionId: string) => {
     setConnections(prev => prev.map(conn =>
       conn.id === connectionId ? { ...conn, enabled: !conn.enabled } : conn
@@ -244,9 +292,83 @@ const AdminConsole: React.FC = () => {
     }
   };
 
+  const renderCapabilities = (capabilities?: SkillCapabilitiesInfo) => {
+    if (!capabilities) {
+      return <p className="skill-capabilities-none">No capabilities declared; runs under the default sandbox policy</p>;
+    }
+
+    const network = capabilities.network
+      ? capabilities.network.hosts.map(host => capabilities.network!.ports?.length
+        ? `${host} (ports ${capabilities.network!.ports.join(', ')})`
+        : host)
+      : [];
+    const rows: Array<[string, string[]]> = [
+      ['Reads', capabilities.filesystem?.read ?? []],
+      ['Writes', capabilities.filesystem?.write ?? []],
+      ['Network', network],
+      ['Registry', capabilities.registry ?? []],
+      ['Services', capabilities.services ?? []],
+      ['Processes', capabilities.processes ?? []]
+    ];
+    const declared = rows.filter(([, values]) => values.length > 0);
+
+    return (
+      <dl className="skill-capabilities">
+        {declared.length === 0 && <dd>Nothing outside its own sandbox</dd>}
+        {declared.map(([label, values]) => (
+          <React.Fragment key={label}>
+            <dt>{label}</dt>
+            {values.map(value => <dd key={value}><code>{value}</code></dd>)}
+          </React.Fragment>
+        ))}
+      </dl>
+    );
+  };
+
+  const renderRisk = (skill: Skill) => {
+    const { risk } = skill;
+    if (!risk) {
+      return null;
+    }
+
+    return (
+      <div className="skill-risk">
+        <div className="skill-risk-summary">
+          <span>Assessed risk</span>
+          <span className={`risk-badge risk-${risk.assessedRiskLevel}`}>{risk.assessedRiskLevel.toUpperCase()}</span>
+          <span>score {risk.score}</span>
+          {risk.mismatch && risk.approved && <span className="skill-risk-approved">Approved</span>}
+        </div>
+        {risk.findings.length > 0 && (
+          <ul className="skill-risk-findings">
+            {risk.findings.map(finding => (
+              <li key={`${finding.file}:${finding.line}:${finding.rule}`} className={`finding-${finding.severity}`}>
+                {finding.description} <code>{finding.file}:{finding.line}</code>
+              </li>
+            ))}
+          </ul>
+        )}
+        {risk.mismatch && !risk.approved && (
+          <div className="skill-risk-warning">
+            <span>
+              Declared {skill.riskLevel} risk but assessed {risk.assessedRiskLevel};
+              {risk.approvable ? ' runs are held until approved.' : ' runs are blocked by policy.'}
+            </span>
+            {risk.approvable && (
+              <button className="test-button" onClick={() => approveSkillRisk(skill.id)}>
+                Approve
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const renderSkillsTab = () => (
     <div className="admin-section">
       <h2>Skill Management</h2>
+      {riskApprovalError && <div className="skill-risk-error">{riskApprovalError}</div>}
       <div className="skills-grid">
         {skills.map(skill => (
           <div key={skill.id} className="skill-card">
@@ -261,6 +383,19 @@ const AdminConsole: React.FC = () => {
               <span>v{skill.version}</span>
               {skill.requiresAdmin && <span className="admin-badge">Admin</span>}
             </div>
+            {renderCapabilities(skill.capabilities)}
+            {renderRisk(skill)}
+            {pendingEnableSkillId === skill.id && (
+              <div className="skill-enable-confirm">
+                <span>Allow {skill.name} the capabilities above?</span>
+                <button className="test-button" onClick={() => toggleSkill(skill.id)}>
+                  Enable
+                </button>
+                <button className="cancel-button" onClick={() => setPendingEnableSkillId(null)}>
+                  Cancel
+                </button>
+              </div>
+            )}
             <div className="skill-actions">
               <label className="toggle-switch">
                 <input
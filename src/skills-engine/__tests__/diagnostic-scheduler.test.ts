@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  DiagnosticScheduleError,
+  DiagnosticScheduler,
+  getNextCronTime,
+  getQuietHoursEnd,
+  parseCronExpression
+} from '../diagnostic-scheduler';
+import { PlaybookSkillRunner } from '../playbook-engine';
+import { parseSkillOutput } from '../skill-output-parser';
+import { SkillExecutionResult } from '../types';
+import { getLogManager } from '../logging';
+
+// Runner whose skills all report the same SUCCESS: line
+const fakeRunner = (stdout: string): PlaybookSkillRunner & { run: jest.Mock } => ({
+  has: skillId => ['disk-space', 'system-info'].includes(skillId),
+  getName: skillId => `${skillId} skill`,
+  run: jest.fn(async (): Promise<SkillExecutionResult> => {
+    const parsedOutput = parseSkillOutput(stdout);
+    return {
+      success: true,
+      output: JSON.stringify(parsedOutput.payload),
+      executionTimeMs: 5,
+      resourceUsage: { cpuPercentage: 0, memoryBytes: 0, diskWriteBytes: 0, networkBytes: 0 },
+      securityEvents: [],
+      parsedOutput
+    };
+  })
+});
+
+describe('DiagnosticScheduler', () => {
+  const tempDir = path.join(__dirname, '__temp_diagnostic_scheduler__');
+  const configPath = path.join(tempDir, 'diagnostic-schedules.json');
+  // Monday 19 October 2026, 06:30 local time
+  const start = new Date(2026, 9, 19, 6, 30);
+
+  beforeAll(() => {
+    // Create the log manager's timers before the fake ones are installed
+    getLogManager();
+  });
+
+  beforeEach(() => {
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await getLogManager().shutdown();
+  });
+
+  it('parses cron expressions and finds the next run and the end of quiet hours', () => {
+    const weekdays = parseCronExpression('*/20 9-17 * * 1-5');
+    expect(getNextCronTime(weekdays, new Date(2026, 9, 17, 12, 0))).toEqual(new Date(2026, 9, 19, 9, 0));
+    expect(getNextCronTime(weekdays, new Date(2026, 9, 19, 9, 45))).toEqual(new Date(2026, 9, 19, 10, 0));
+
+    // Day of month or Sunday (7)
+    const either = parseCronExpression('0 0 1 * 7');
+    expect(getNextCronTime(either, new Date(2026, 9, 19, 12, 0))).toEqual(new Date(2026, 9, 25, 0, 0));
+    expect(getNextCronTime(parseCronExpression('@monthly'), new Date(2026, 9, 19))).toEqual(new Date(2026, 10, 1));
+    expect(getNextCronTime(parseCronExpression('0 0 30 2 *'), start)).toBeNull();
+
+    expect(() => parseCronExpression('0 24 * * *')).toThrow(DiagnosticScheduleError);
+    expect(() => parseCronExpression('0 9 * *')).toThrow(/must have 5 fields/);
+
+    const quiet = { start: '22:00', end: '07:00' };
+    expect(getQuietHoursEnd(quiet, new Date(2026, 9, 19, 23, 15))).toEqual(new Date(2026, 9, 20, 7, 0));
+    expect(getQuietHoursEnd(quiet, start)).toEqual(new Date(2026, 9, 19, 7, 0));
+    expect(getQuietHoursEnd(quiet, new Date(2026, 9, 19, 12, 0))).toBeNull();
+  });
+
+  it('runs schedules with jitter outside quiet hours and reports crossed thresholds', async () => {
+    jest.useFakeTimers({ now: start });
+    const runner = fakeRunner('SUCCESS: {"disk":{"usedPercent":"93%"},"DiskInfo":{"DeviceID":"C:","FreePercent":8}}');
+    const scheduler = new DiagnosticScheduler({
+      runner,
+      configPath,
+      probes: { isOnBattery: async () => false },
+      getCpuPercent: () => 10,
+      random: () => 0.5,
+      defaults: {
+        quietHours: { start: '22:00', end: '07:00' },
+        schedules: [
+          {
+            skillId: 'disk-space',
+            schedule: '0 10 * * *',
+            dryRun: true,
+            jitterMinutes: 60,
+            thresholds: [
+              { path: 'payload.disk.usedPercent', above: 90 },
+              { path: 'payload.DiskInfo.*.FreePercent', below: 10, severity: 'critical', message: 'Drive is almost full' }
+            ]
+          },
+          { skillId: 'system-info', schedule: '@login' }
+        ]
+      }
+    });
+    const exceeded = jest.fn();
+    scheduler.on('thresholdExceeded', exceeded);
+
+    scheduler.start();
+    // @login waits for the quiet hours to end; the daily run gets 30 minutes of jitter
+    expect(scheduler.getStatus().map(status => [status.skillId, status.nextRunAt])).toEqual([
+      ['disk-space', new Date(2026, 9, 19, 10, 30).getTime()],
+      ['system-info', new Date(2026, 9, 19, 7, 0).getTime()]
+    ]);
+
+    await jest.advanceTimersByTimeAsync(30 * 60 * 1000);
+    expect(runner.run).toHaveBeenCalledTimes(1);
+    expect(runner.run).toHaveBeenLastCalledWith('system-info', {}, { dryRun: false, bypassCache: true });
+
+    await jest.advanceTimersByTimeAsync(3.5 * 60 * 60 * 1000);
+    expect(runner.run).toHaveBeenLastCalledWith('disk-space', {}, { dryRun: true, bypassCache: true });
+    expect(exceeded).toHaveBeenCalledTimes(1);
+    expect(exceeded.mock.calls[0][0].result.breaches).toEqual([
+      { path: 'payload.disk.usedPercent', value: 93, above: 90, severity: 'warning', message: 'disk-space skill: payload.disk.usedPercent is 93, above 90' },
+      { path: 'payload.DiskInfo.*.FreePercent', value: 8, below: 10, severity: 'critical', message: 'Drive is almost full' }
+    ]);
+
+    const alerts = getLogManager().getMonitoringSystem().getDashboardMetrics().alerts;
+    expect(alerts.find(alert => alert.id === 'scheduled-diagnostic-threshold')).toMatchObject({
+      severity: 'critical',
+      message: '2 threshold(s) crossed by scheduled diagnostics (disk-space).'
+    });
+
+    const [diskSpace] = scheduler.getStatus();
+    expect(diskSpace.nextRunAt).toBe(new Date(2026, 9, 20, 10, 30).getTime());
+    expect(diskSpace.lastResult).toMatchObject({ success: true });
+
+    // Admin changes are validated and saved over the defaults
+    expect(() => scheduler.setSchedule({ skillId: 'wifi-reset', schedule: '@daily' })).toThrow("Skill 'wifi-reset' is not installed");
+    scheduler.setSchedule({ skillId: 'disk-space', schedule: '0 14 * * 1-5' });
+    expect(scheduler.getStatus()[1]).toMatchObject({ skillId: 'disk-space', nextRunAt: new Date(2026, 9, 19, 14, 0).getTime() });
+    expect(scheduler.removeSchedule('system-info')).toBe(true);
+    scheduler.stop();
+
+    const reloaded = new DiagnosticScheduler({ runner, configPath, defaults: { schedules: [] } });
+    expect(reloaded.getConfig()).toEqual({
+      quietHours: { start: '22:00', end: '07:00' },
+      skipOnBattery: true,
+      maxCpuPercent: 80,
+      schedules: [{ skillId: 'disk-space', schedule: '0 14 * * 1-5' }]
+    });
+  });
+
+  it('puts off runs while the device is on battery or busy', async () => {
+    jest.useFakeTimers({ now: start });
+    const runner = fakeRunner('SUCCESS: {"os":"Windows"}');
+    let onBattery = true;
+    let cpuPercent = 10;
+    const scheduler = new DiagnosticScheduler({
+      runner,
+      probes: { isOnBattery: async () => onBattery },
+      getCpuPercent: () => cpuPercent,
+      defaults: { schedules: [{ skillId: 'system-info', schedule: '@login' }] }
+    });
+    const skipped = jest.fn();
+    scheduler.on('skipped', skipped);
+
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(skipped).toHaveBeenLastCalledWith({ skillId: 'system-info', reason: 'battery' });
+
+    onBattery = false;
+    cpuPercent = 95;
+    await jest.advanceTimersByTimeAsync(15 * 60 * 1000);
+    expect(skipped).toHaveBeenLastCalledWith({ skillId: 'system-info', reason: 'busy' });
+    expect(runner.run).not.toHaveBeenCalled();
+
+    cpuPercent = 20;
+    await jest.advanceTimersByTimeAsync(15 * 60 * 1000);
+    expect(runner.run).toHaveBeenCalledTimes(1);
+    expect(scheduler.getStatus()[0].nextRunAt).toBeUndefined();
+    scheduler.stop();
+  });
+});
@@ -0,0 +1,108 @@
+import { ExecutionScheduler, SkillRateLimitedError } from '../execution-scheduler';
+import { SkillCancelledError } from '../skill-catalog';
+import { getLogManager } from '../logging';
+
+const RELAXED = { maxRequestsPerMinute: 100, maxConcurrentExecutions: 1, burstCapacity: 100, refillRate: 10 };
+
+// Task that stays running until released
+const deferredTask = () => {
+  let release!: (value: string) => void;
+  const done = new Promise<string>(resolve => { release = resolve; });
+  return { task: () => done, release };
+};
+
+describe('ExecutionScheduler', () => {
+  afterAll(async () => {
+    await getLogManager().shutdown();
+  });
+
+  it('refuses bursts beyond the token bucket with a retry hint', async () => {
+    const scheduler = new ExecutionScheduler({
+      global: { ...RELAXED, maxConcurrentExecutions: 5 },
+      perSkill: { maxRequestsPerMinute: 10, maxConcurrentExecutions: 5, burstCapacity: 2, refillRate: 0.5 }
+    });
+    const run = () => scheduler.schedule('disk-space', async () => 'ok');
+
+    await expect(run()).resolves.toBe('ok');
+    await expect(run()).resolves.toBe('ok');
+
+    const error = await run().catch(caught => caught);
+    expect(error).toBeInstanceOf(SkillRateLimitedError);
+    expect(error).toMatchObject({ code: 'RATE_LIMITED', scope: 'skill', skillId: 'disk-space' });
+    expect(error.retryAfterMs).toBeGreaterThan(1000);
+    expect(error.retryAfterMs).toBeLessThanOrEqual(2000);
+
+    // Other skills have their own bucket
+    await expect(scheduler.schedule('system-info', async () => 'ok')).resolves.toBe('ok');
+  });
+
+  it('enforces the per-minute window on top of the bucket', async () => {
+    const scheduler = new ExecutionScheduler({
+      global: { ...RELAXED, maxRequestsPerMinute: 2, maxConcurrentExecutions: 5 },
+      perSkill: { ...RELAXED, maxConcurrentExecutions: 5 }
+    });
+
+    await scheduler.schedule('a', async () => 'ok');
+    await scheduler.schedule('b', async () => 'ok');
+    await expect(scheduler.schedule('c', async () => 'ok')).rejects.toMatchObject({ scope: 'global' });
+  });
+
+  it('queues by priority, reports positions and starts as slots free up', async () => {
+    const scheduler = new ExecutionScheduler({ global: RELAXED, perSkill: { ...RELAXED, maxConcurrentExecutions: 5 } });
+    const first = deferredTask();
+    const order: string[] = [];
+    const positions: Record<string, number[]> = { low: [], high: [] };
+
+    const running = scheduler.schedule('disk-space', first.task);
+    const low = scheduler.schedule('printer-queue-clear', async () => { order.push('low'); }, {
+      priority: 'low',
+      onQueuePosition: position => positions.low.push(position)
+    });
+    const high = scheduler.schedule('system-info', async () => { order.push('high'); }, {
+      priority: 'high',
+      onQueuePosition: position => positions.high.push(position)
+    });
+
+    expect(scheduler.getStats()).toMatchObject({ running: 1, queued: 2 });
+    expect(positions).toEqual({ low: [1, 2], high: [1] });
+
+    first.release('done');
+    await Promise.all([running, low, high]);
+
+    expect(order).toEqual(['high', 'low']);
+    expect(positions).toEqual({ low: [1, 2, 1, 0], high: [1, 0] });
+  });
+
+  it('runs one execution per skill at a time and refuses when the queue is full', async () => {
+    const scheduler = new ExecutionScheduler({ global: { ...RELAXED, maxConcurrentExecutions: 5 }, perSkill: RELAXED, maxQueueLength: 1 });
+    const first = deferredTask();
+
+    const running = scheduler.schedule('disk-space', first.task);
+    const queued = scheduler.schedule('disk-space', async () => 'second');
+    expect(scheduler.getStats()).toMatchObject({ running: 1, queued: 1 });
+
+    await expect(scheduler.schedule('disk-space', async () => 'third')).rejects.toMatchObject({ scope: 'queue' });
+
+    first.release('first');
+    await expect(running).resolves.toBe('first');
+    await expect(queued).resolves.toBe('second');
+  });
+
+  it('drops a queued execution when its signal aborts', async () => {
+    const scheduler = new ExecutionScheduler({ global: RELAXED, perSkill: RELAXED });
+    const first = deferredTask();
+    const controller = new AbortController();
+    const task = jest.fn(async () => 'never');
+
+    const running = scheduler.schedule('disk-space', first.task);
+    const queued = scheduler.schedule('system-info', task, { signal: controller.signal });
+    controller.abort();
+
+    await expect(queued).rejects.toBeInstanceOf(SkillCancelledError);
+    expect(scheduler.getStats().queued).toBe(0);
+
+    first.release('done');
+    await running;
+    expect(task).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,213 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FilesystemGuard, FilesystemGuardOptions } from '../filesystem-guard';
+import { getLogManager } from '../logging';
+
+const HOOKED_METHODS = [
+  'readFile', 'stat', 'access', 'readdir',
+  'writeFile', 'appendFile', 'unlink', 'rename', 'copyFile', 'mkdir', 'rmdir', 'rm',
+  'truncate', 'cp', 'symlink', 'link', 'mkdtemp', 'open'
+];
+const DESCRIPTOR_METHODS = ['close', 'write', 'writev'];
+
+describe('FilesystemGuard', () => {
+  const tempDir = path.join(__dirname, '__temp_filesystem_guard__');
+  const outsideDir = path.join(__dirname, '__temp_filesystem_guard_outside__');
+  const fsModule: Record<string, any> = require('fs');
+  let guard: FilesystemGuard | null = null;
+
+  const enableGuard = (options: Partial<FilesystemGuardOptions> = {}) => {
+    guard = new FilesystemGuard({
+      allowedDirectories: [tempDir],
+      readOnly: false,
+      blockedExtensions: [],
+      blockedPatterns: [],
+      ...options
+    });
+    guard.enableMonitoring();
+    return guard;
+  };
+
+  const inside = (name: string) => path.join(tempDir, name);
+  const outside = (name: string) => path.join(outsideDir, name);
+
+  beforeEach(() => {
+    fs.mkdirSync(tempDir, { recursive: true });
+    fs.mkdirSync(outsideDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    guard?.disableMonitoring();
+    guard = null;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    fs.rmSync(outsideDir, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await getLogManager().shutdown();
+  });
+
+  it('applies the policy to sync, callback, promise and stream APIs', async () => {
+    fs.writeFileSync(outside('secret.txt'), 'hidden');
+    const active = enableGuard();
+
+    fs.writeFileSync(inside('sync.txt'), 'sync');
+    expect(() => fs.writeFileSync(outside('sync.txt'), 'sync')).toThrow(/write access denied/);
+    expect(() => fs.rmSync(outside('secret.txt'))).toThrow(/write access denied/);
+
+    await new Promise<void>((resolve, reject) => fs.writeFile(inside('callback.txt'), 'callback', error => error ? reject(error) : resolve()));
+    const callbackError = await new Promise(resolve => fs.readFile(outside('secret.txt'), resolve));
+    expect(callbackError).toEqual(new Error(`Filesystem access denied: ${outside('secret.txt')}`));
+    const rmError = await new Promise(resolve => fs.rm(outside('secret.txt'), resolve));
+    expect(rmError).toEqual(expect.objectContaining({ message: expect.stringMatching(/write access denied/) }));
+
+    await fs.promises.appendFile(inside('callback.txt'), '+promise');
+    await expect(fs.promises.readFile(outside('secret.txt'))).rejects.toThrow(/access denied/);
+    await expect(fs.promises.rename(inside('sync.txt'), outside('moved.txt'))).rejects.toThrow(/write access denied/);
+    await expect(fs.promises.copyFile(inside('sync.txt'), outside('copied.txt'))).rejects.toThrow(/write access denied/);
+
+    await new Promise<void>((resolve, reject) => {
+      const stream = fs.createWriteStream(inside('stream.txt'));
+      stream.on('error', reject).on('finish', resolve);
+      stream.end('streamed');
+    });
+    expect(() => fs.createWriteStream(outside('stream.txt'))).toThrow(/write access denied/);
+    expect(() => fs.createReadStream(outside('secret.txt'))).toThrow(/access denied/);
+
+    active.disableMonitoring();
+    expect(fs.readFileSync(inside('callback.txt'), 'utf-8')).toBe('callback+promise');
+    expect(fs.readFileSync(inside('stream.txt'), 'utf-8')).toBe('streamed');
+    expect(fs.existsSync(outside('secret.txt'))).toBe(true);
+    expect(fs.readdirSync(outsideDir)).toEqual(['secret.txt']);
+    // Jest reads its own files while monitoring is on, so only the test's paths are compared
+    const denied = active.getAccessEvents().filter(event => !event.allowed && event.path.startsWith(outsideDir));
+    expect(denied.map(event => event.path)).toEqual([
+      outside('sync.txt'),
+      outside('secret.txt'),
+      outside('secret.txt'),
+      outside('secret.txt'),
+      outside('secret.txt'),
+      outside('moved.txt'),
+      outside('copied.txt'),
+      outside('stream.txt'),
+      outside('secret.txt')
+    ]);
+  });
+
+  it('counts bytes written through every API against maxDiskWriteBytes', async () => {
+    fs.writeFileSync(inside('source.txt'), '12345');
+    const limited = enableGuard({ maxDiskWriteBytes: 20 });
+
+    fs.writeFileSync(inside('a.txt'), '€€');
+    await fs.promises.copyFile(inside('source.txt'), inside('b.txt'));
+    await new Promise<void>((resolve, reject) => fs.appendFile(inside('a.txt'), Buffer.from('xyz'), error => error ? reject(error) : resolve()));
+    expect(limited.getBytesWritten()).toBe(14);
+
+    await expect(fs.promises.writeFile(inside('c.txt'), '1234567')).rejects.toThrow('Disk write limit exceeded: 20 bytes');
+
+    const streamError = await new Promise<Error>(resolve => {
+      const stream = fs.createWriteStream(inside('stream.txt'));
+      stream.on('error', resolve);
+      stream.write('12345', () => stream.end('67'));
+    });
+    expect(streamError.message).toBe('Disk write limit exceeded: 20 bytes');
+    expect(limited.getBytesWritten()).toBe(19);
+    expect(fs.readFileSync(inside('stream.txt'), 'utf-8')).toBe('12345');
+    expect(limited.getAccessEvents().filter(event => event.reason === 'Disk write limit exceeded')).toHaveLength(2);
+  });
+
+  it('blocks asynchronous writes in read-only mode', async () => {
+    const readOnly = enableGuard({ readOnly: true });
+
+    await expect(fs.promises.writeFile(inside('a.txt'), 'x')).rejects.toThrow('Write operation promises.writeFile is blocked in sandbox read-only mode');
+    const error = await new Promise(resolve => fs.mkdir(inside('dir'), resolve));
+    expect(error).toEqual(new Error('Write operation mkdir is blocked in sandbox read-only mode'));
+    expect(() => fs.createWriteStream(inside('a.txt'))).toThrow(/createWriteStream is blocked/);
+    await expect(fs.promises.open(inside('a.txt'), 'w')).rejects.toThrow(/promises.open is blocked/);
+    expect(() => fs.openSync(inside('a.txt'), 'r+')).toThrow(/openSync is blocked/);
+    await expect(fs.promises.readdir(tempDir)).resolves.toEqual([]);
+    expect(readOnly.getAccessEvents().filter(event => !event.allowed)).toHaveLength(5);
+  });
+
+  it('checks opened files, links, copies and temp directories and charges descriptor and FileHandle writes', async () => {
+    fs.writeFileSync(outside('secret.txt'), 'hidden');
+    fs.writeFileSync(inside('source.txt'), '12345');
+    // Load Node's cp before monitoring; its copies are charged once either way
+    await fs.promises.cp(inside('source.txt'), inside('warm.txt'));
+    const limited = enableGuard({ maxDiskWriteBytes: 40 });
+
+    expect(() => fs.openSync(outside('secret.txt'), 'r')).toThrow(/access denied/);
+    expect(() => fs.openSync(outside('new.txt'), fs.constants.O_WRONLY | fs.constants.O_CREAT)).toThrow(/write access denied/);
+    await expect(fs.promises.open(outside('secret.txt'), 'a')).rejects.toThrow(/write access denied/);
+    const openError = await new Promise(resolve => fs.open(outside('new.txt'), 'w', resolve));
+    expect(openError).toEqual(new Error(`Filesystem write access denied: ${outside('new.txt')}`));
+    await expect(fs.promises.symlink(outside('secret.txt'), inside('link.txt'))).rejects.toThrow(/write access denied/);
+    expect(() => fs.symlinkSync('../__temp_filesystem_guard_outside__/secret.txt', inside('relative.txt'))).toThrow(/write access denied/);
+    expect(() => fs.linkSync(outside('secret.txt'), inside('hard.txt'))).toThrow(/write access denied/);
+    await expect(fs.promises.cp(inside('source.txt'), outside('copied.txt'))).rejects.toThrow(/write access denied/);
+    expect(() => fs.truncateSync(outside('secret.txt'))).toThrow(/write access denied/);
+    expect(() => fs.mkdtempSync(outside('tmp-'))).toThrow(/write access denied/);
+    expect(fs.mkdtempSync(inside('tmp-'))).toMatch(/tmp-\w+$/);
+
+    const fd = fs.openSync(inside('fd.txt'), 'w');
+    fs.writeSync(fd, 'ab');
+    fs.writeSync(fd, Buffer.from('cdef'), 1, 2);
+    await new Promise<void>((resolve, reject) => fs.writev(fd, [Buffer.from('gh')], error => error ? reject(error) : resolve()));
+    fs.closeSync(fd);
+    fs.truncateSync(inside('source.txt'), 8);
+    await fs.promises.cp(inside('source.txt'), inside('copy.txt'));
+    expect(limited.getBytesWritten()).toBe(17);
+
+    const handle = await fs.promises.open(inside('handle.txt'), 'w');
+    await handle.writeFile('12345');
+    await handle.write('678');
+    await expect(handle.appendFile('x'.repeat(20))).rejects.toThrow('Disk write limit exceeded: 40 bytes');
+    await handle.close();
+    const late = fs.openSync(inside('late.txt'), 'w');
+    expect(() => fs.writeSync(late, 'x'.repeat(20))).toThrow('Disk write limit exceeded');
+    fs.closeSync(late);
+
+    limited.disableMonitoring();
+    expect(limited.getBytesWritten()).toBe(25);
+    expect(fs.readFileSync(inside('fd.txt'), 'utf-8')).toBe('abdegh');
+    expect(fs.readFileSync(inside('handle.txt'), 'utf-8')).toBe('12345678');
+    expect(fs.readFileSync(inside('late.txt'), 'utf-8')).toBe('');
+    expect(fs.readdirSync(outsideDir)).toEqual(['secret.txt']);
+    expect(fs.readFileSync(outside('secret.txt'), 'utf-8')).toBe('hidden');
+  });
+
+  it('passes hooks captured while monitoring straight through once it ends', async () => {
+    const readOnly = enableGuard({ readOnly: true });
+    const { writeFileSync, openSync } = fsModule;
+    const copyFile = fsModule.promises.copyFile;
+    expect(() => writeFileSync(inside('during.txt'), 'x')).toThrow(/read-only mode/);
+    readOnly.disableMonitoring();
+
+    writeFileSync(inside('after.txt'), 'after');
+    await copyFile(inside('after.txt'), inside('copied.txt'));
+    fs.closeSync(openSync(inside('opened.txt'), 'w'));
+    expect(fs.readFileSync(inside('copied.txt'), 'utf-8')).toBe('after');
+    expect(readOnly.getBytesWritten()).toBe(0);
+  });
+
+  it('restores every hooked API when monitoring is disabled', () => {
+    const names = [
+      ...HOOKED_METHODS.flatMap(name => [name, `${name}Sync`]),
+      ...DESCRIPTOR_METHODS.flatMap(name => [name, `${name}Sync`]),
+      'createReadStream',
+      'createWriteStream'
+    ];
+    const originals = names.map(name => fsModule[name]);
+    const originalPromises = HOOKED_METHODS.map(name => fsModule.promises[name]);
+
+    const hooked = enableGuard();
+    // Enabling twice must not back up the hooks as originals
+    hooked.enableMonitoring();
+    expect(names.filter((name, i) => fsModule[name] === originals[i])).toEqual([]);
+    expect(HOOKED_METHODS.filter((name, i) => fsModule.promises[name] === originalPromises[i])).toEqual([]);
+
+    hooked.disableMonitoring();
+    expect(names.filter((name, i) => fsModule[name] !== originals[i])).toEqual([]);
+    expect(HOOKED_METHODS.filter((name, i) => fsModule.promises[name] !== originalPromises[i])).toEqual([]);
+  });
+});
@@ -0,0 +1,24 @@
+#!/bin/sh
+# Lists volumes at or above THRESHOLD_PERCENT usage, skipping the mount
+# points listed in ignored-mounts.txt in the working directory
+set -eu
+
+threshold="${THRESHOLD_PERCENT:-90}"
+
+echo "PROGRESS: 20% Reading volume usage"
+if ! usage=$(df -P); then
+  echo "ERROR: Unable to read volume usage"
+  exit 1
+fi
+
+echo "$usage" | awk -v threshold="$threshold" -v ignored="ignored-mounts.txt" '
+  BEGIN { while ((getline line < ignored) > 0) skip[line] = 1 }
+  NR > 1 && !($6 in skip) {
+    gsub("%", "", $5)
+    if ($5 + 0 >= threshold) {
+      full++
+      printf "DATA: {\"mount\":\"%s\",\"usedPercent\":%d}\n", $6, $5
+    }
+  }
+  END { printf "SUCCESS: {\"threshold\":%d,\"volumesAboveThreshold\":%d}\n", threshold, full }
+'
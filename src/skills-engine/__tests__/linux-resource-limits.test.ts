@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import {
+  DEFAULT_KERNEL_LIMIT_OPTIONS,
+  KernelResourceLimits,
+  buildLimitedCommand,
+  createSandboxCgroup
+} from '../linux-resource-limits';
+import { SkillSandbox } from '../sandbox';
+import { getLogManager } from '../logging';
+
+const LIMITS: KernelResourceLimits = {
+  memoryBytes: 64 * 1024 * 1024,
+  cpuPercentage: 50,
+  addressSpaceBytes: 512 * 1024 * 1024,
+  maxProcesses: 16,
+  maxOpenFiles: 32,
+  maxFileSizeBytes: 1024 * 1024
+};
+
+const run = (command: string[]) => spawnSync(command[0], command.slice(1), { encoding: 'utf-8' });
+
+describe('Linux resource limits', () => {
+  const tempDir = path.join(__dirname, '__temp_kernel_limits__');
+
+  beforeEach(() => {
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await getLogManager().shutdown();
+  });
+
+  // Directory laid out like a delegated cgroup v2 parent. Parents are cached
+  // per path, so each test uses its own.
+  const fakeCgroupRoot = (parentName: string, controllers: string) => {
+    const parent = path.join(tempDir, parentName);
+    fs.mkdirSync(parent, { recursive: true });
+    fs.writeFileSync(path.join(tempDir, 'cgroup.controllers'), controllers);
+    fs.writeFileSync(path.join(parent, 'cgroup.controllers'), controllers);
+    fs.writeFileSync(path.join(parent, 'cgroup.subtree_control'), '');
+    return { ...DEFAULT_KERNEL_LIMIT_OPTIONS, cgroupRoot: tempDir, cgroupParent: parentName };
+  };
+
+  it('creates a cgroup with limits and reads its accounting back', () => {
+    const options = fakeCgroupRoot('accounting.slice', 'cpu io memory pids');
+    const cgroup = createSandboxCgroup('exec_1', LIMITS, options)!;
+
+    expect(cgroup.dir).toBe(path.join(tempDir, 'accounting.slice', 'wtc-exec_1'));
+    expect(cgroup.controllers).toEqual(['memory', 'pids', 'cpu', 'io']);
+    const read = (file: string) => fs.readFileSync(path.join(cgroup.dir, file), 'utf-8');
+    expect(read('memory.max')).toBe(String(64 * 1024 * 1024));
+    expect(read('pids.max')).toBe('16');
+    expect(read('cpu.max')).toMatch(/^\d+ 100000$/);
+
+    fs.writeFileSync(path.join(cgroup.dir, 'memory.current'), '4096\n');
+    fs.writeFileSync(path.join(cgroup.dir, 'memory.peak'), '8192\n');
+    fs.writeFileSync(path.join(cgroup.dir, 'cpu.stat'), 'usage_usec 250000\nuser_usec 200000\n');
+    fs.writeFileSync(path.join(cgroup.dir, 'memory.events'), 'low 0\nhigh 0\nmax 3\noom 1\noom_kill 1\n');
+    fs.writeFileSync(path.join(cgroup.dir, 'pids.events'), 'max 2\n');
+    fs.writeFileSync(path.join(cgroup.dir, 'io.stat'), '8:0 rbytes=10 wbytes=100 rios=1 wios=1\n8:16 rbytes=0 wbytes=50\n');
+
+    expect(cgroup.readUsage()).toEqual({
+      memoryCurrentBytes: 4096,
+      memoryPeakBytes: 8192,
+      cpuUsageUsec: 250000,
+      diskWriteBytes: 150,
+      oomKills: 1,
+      pidsLimitHits: 2
+    });
+  });
+
+  it('falls back when cgroup v2 or a required controller is missing', () => {
+    expect(createSandboxCgroup('exec_2', LIMITS, { ...DEFAULT_KERNEL_LIMIT_OPTIONS, cgroupRoot: tempDir })).toBeNull();
+
+    const options = fakeCgroupRoot('no-pids.slice', 'cpu memory');
+    expect(createSandboxCgroup('exec_3', LIMITS, options)).toBeNull();
+  });
+
+  if (process.platform === 'linux') {
+    it('sets rlimits and joins the cgroup before running the command', () => {
+      const options = fakeCgroupRoot('wrapper.slice', 'memory pids');
+      const cgroup = createSandboxCgroup('exec_4', LIMITS, options)!;
+
+      const result = run(buildLimitedCommand(['/bin/sh', '-c', 'ulimit -n; ulimit -f; ulimit -v; echo $$'], LIMITS, cgroup));
+
+      expect(result.status).toBe(0);
+      const [openFiles, fileBlocks, addressSpaceKb, pid] = result.stdout.trim().split('\n');
+      expect([openFiles, fileBlocks, addressSpaceKb]).toEqual(['32', '2048', String(512 * 1024)]);
+      // exec keeps the wrapper's pid, so the script itself is in the cgroup
+      expect(fs.readFileSync(cgroup.procsFile, 'utf-8').trim()).toBe(pid);
+    });
+
+    it('stops writes past the file size limit', () => {
+      const target = path.join(tempDir, 'large.bin');
+      const result = run(buildLimitedCommand(
+        ['/bin/sh', '-c', `head -c ${2 * 1024 * 1024} /dev/zero > "${target}"`],
+        LIMITS
+      ));
+
+      expect(result.status).not.toBe(0);
+      expect(fs.statSync(target).size).toBe(LIMITS.maxFileSizeBytes);
+    });
+
+    it('applies the sandbox open file limit to skill scripts', async () => {
+      const script = path.join(tempDir, 'limits.sh');
+      fs.writeFileSync(script, 'echo "SUCCESS: $(ulimit -n)"\n');
+
+      const sandbox = new SkillSandbox(script, 'shell', {
+        resourceLimits: { maxOpenFiles: 40 },
+        kernelLimits: { useCgroups: false }
+      });
+      const result = await sandbox.execute();
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout.trim()).toBe('SUCCESS: 40');
+    });
+  }
+});
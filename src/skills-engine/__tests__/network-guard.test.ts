@@ -0,0 +1,153 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { NetworkGuard, NetworkRuleError } from '../network-guard';
+import { getLogManager } from '../logging';
+
+describe('NetworkGuard rules', () => {
+  // Resolves every name to the given addresses, as a rebinding DNS server would
+  const resolveTo = (...addresses: string[]) =>
+    (_hostname: string, _options: unknown, callback: Function) =>
+      callback(null, addresses.map(address => ({ address, family: address.includes(':') ? 6 : 4 })));
+
+  const lookup = (guard: NetworkGuard, hostname: string, port: number, ...addresses: string[]) =>
+    new Promise<Error | null>(resolve => {
+      guard.createLookup('https_request', port, resolveTo(...addresses))(hostname, { all: true }, (error: Error | null) => resolve(error));
+    });
+
+  afterAll(async () => {
+    await getLogManager().shutdown();
+  });
+
+  it('matches wildcard domains, CIDR ranges and port ranges and records the deciding rule', async () => {
+    const guard = new NetworkGuard({
+      enabled: true,
+      allowedHosts: [],
+      rules: [
+        { action: 'deny', host: '10.20.0.0/16' },
+        { action: 'allow', host: '*.service-now.com', ports: [443] },
+        { action: 'allow', host: '10.0.0.0/8', ports: ['8000-8100'] }
+      ]
+    });
+
+    const attempt = (url: string) => {
+      try {
+        guard.authorizeRequest(new URL(url));
+      } catch {
+        // Recorded as a denied event
+      }
+    };
+    attempt('https://acme.service-now.com/api/now/table/incident');
+    // Other names could still resolve into 10.0.0.0/8, so their addresses decide
+    attempt('https://service-now.com/');
+    attempt('http://acme.service-now.com:8080/');
+    await lookup(guard, 'service-now.com', 443, '149.96.1.10');
+    await lookup(guard, 'acme.service-now.com', 8080, '149.96.1.10');
+    attempt('http://10.1.2.3:8080/');
+    attempt('http://10.1.2.3:9000/');
+    attempt('http://10.20.1.1:8080/');
+    attempt('http://[::ffff:10.20.1.1]:8080/');
+
+    expect(guard.getAccessEvents().map(({ host, port, allowed, rule }) => ({ host, port, allowed, rule }))).toEqual([
+      { host: 'acme.service-now.com', port: 443, allowed: true, rule: 'allow *.service-now.com ports 443' },
+      { host: 'service-now.com', port: 443, allowed: false, rule: undefined },
+      { host: 'acme.service-now.com', port: 8080, allowed: false, rule: undefined },
+      { host: '10.1.2.3', port: 8080, allowed: true, rule: 'allow 10.0.0.0/8 ports 8000-8100' },
+      { host: '10.1.2.3', port: 9000, allowed: false, rule: undefined },
+      { host: '10.20.1.1', port: 8080, allowed: false, rule: 'deny 10.20.0.0/16' },
+      { host: '::ffff:a14:101', port: 8080, allowed: false, rule: 'deny 10.20.0.0/16' }
+    ]);
+
+    expect(() => new NetworkGuard({ enabled: true, rules: [{ action: 'allow', host: '10.0.0.0/33' }] }))
+      .toThrow(new NetworkRuleError("Invalid CIDR range '10.0.0.0/33'"));
+    expect(() => new NetworkGuard({ enabled: true, rules: [{ action: 'allow', host: 'example.com', ports: ['90-80'] }] }))
+      .toThrow("Invalid port or port range '90-80'");
+    expect(() => new NetworkGuard({ enabled: true, blockedHosts: ['not a host'] })).toThrow(NetworkRuleError);
+  });
+
+  it('checks the addresses a name resolves to', async () => {
+    const guard = new NetworkGuard({
+      enabled: true,
+      allowedHosts: [],
+      rules: [
+        { action: 'deny', host: '169.254.0.0/16' },
+        { action: 'allow', host: '*.service-now.com' },
+        { action: 'allow', host: '10.0.0.0/8' }
+      ]
+    });
+
+    await expect(lookup(guard, 'acme.service-now.com', 443, '149.96.1.10')).resolves.toBeNull();
+    // An allowed name rebound to the metadata service
+    expect(await lookup(guard, 'acme.service-now.com', 443, '149.96.1.10', '169.254.169.254'))
+      .toEqual(new Error('Connection to acme.service-now.com (149.96.1.10, 169.254.169.254) blocked by sandbox: Denied by rule deny 169.254.0.0/16'));
+    // Rebound to loopback, which no rule denies but no address rule allows either
+    expect(await lookup(guard, 'acme.service-now.com', 443, '127.0.0.1'))
+      .toEqual(new Error('Connection to acme.service-now.com (127.0.0.1) blocked by sandbox: acme.service-now.com resolves to internal address 127.0.0.1'));
+    await expect(lookup(guard, 'acme.service-now.com', 443, '::ffff:192.168.1.1')).resolves.toBeInstanceOf(Error);
+    // Internal addresses an address rule allows are fine
+    await expect(lookup(guard, 'acme.service-now.com', 443, '10.4.0.12')).resolves.toBeNull();
+
+    // Names outside the name rules are decided once their addresses are known
+    expect(() => guard.authorizeRequest(new URL('http://intranet.corp/status'))).not.toThrow();
+    await expect(lookup(guard, 'intranet.corp', 80, '10.4.0.12')).resolves.toBeNull();
+    await expect(lookup(guard, 'intranet.corp', 80, '10.4.0.12', '93.184.216.34')).resolves.toBeInstanceOf(Error);
+
+    expect(guard.getAccessEvents().map(({ host, addresses, allowed, rule }) => ({ host, addresses, allowed, rule }))).toEqual([
+      { host: 'acme.service-now.com', addresses: ['149.96.1.10'], allowed: true, rule: 'allow *.service-now.com' },
+      { host: 'acme.service-now.com', addresses: ['149.96.1.10', '169.254.169.254'], allowed: false, rule: 'deny 169.254.0.0/16' },
+      { host: 'acme.service-now.com', addresses: ['127.0.0.1'], allowed: false, rule: undefined },
+      { host: 'acme.service-now.com', addresses: ['::ffff:192.168.1.1'], allowed: false, rule: undefined },
+      { host: 'acme.service-now.com', addresses: ['10.4.0.12'], allowed: true, rule: 'allow *.service-now.com' },
+      { host: 'intranet.corp', addresses: ['10.4.0.12'], allowed: true, rule: 'allow 10.0.0.0/8' },
+      { host: 'intranet.corp', addresses: ['10.4.0.12', '93.184.216.34'], allowed: false, rule: undefined }
+    ]);
+  });
+
+  it('refuses hooked requests whose name or literal address a rule denies', async () => {
+    const server = http.createServer((_req, res) => res.end('ok'));
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const port = (server.address() as AddressInfo).port;
+
+    const guard = new NetworkGuard({
+      enabled: true,
+      allowedHosts: ['localhost'],
+      rules: [{ action: 'deny', host: '127.0.0.0/8', ports: [`${port}-${port}`] }]
+    });
+    guard.enableMonitoring();
+    try {
+      expect(() => http.get(`http://127.0.0.1:${port}/`)).toThrow(/Denied by rule deny 127\.0\.0\.0\/8/);
+
+      const error = await new Promise<Error>(resolve => http.get(`http://localhost:${port}/`).on('error', resolve));
+      expect(error.message).toMatch(/Connection to localhost \(127\.0\.0\.1\) blocked by sandbox/);
+    } finally {
+      guard.disableMonitoring();
+    }
+
+    const allowing = new NetworkGuard({
+      enabled: true,
+      allowedHosts: [],
+      rules: [{ action: 'allow', host: 'localhost' }, { action: 'allow', host: '127.0.0.0/8' }, { action: 'allow', host: '::1' }]
+    });
+    allowing.enableMonitoring();
+    try {
+      const body = await new Promise<string>((resolve, reject) => {
+        http.get(`http://localhost:${port}/`, res => {
+          let data = '';
+          res.on('data', chunk => { data += chunk; });
+          res.on('end', () => resolve(data));
+        }).on('error', reject);
+      });
+      expect(body).toBe('ok');
+    } finally {
+      allowing.disableMonitoring();
+      await new Promise(resolve => server.close(resolve));
+    }
+
+    expect(guard.getAccessEvents().map(({ type, host, allowed, rule }) => ({ type, host, allowed, rule }))).toEqual([
+      { type: 'http_request', host: '127.0.0.1', allowed: false, rule: `deny 127.0.0.0/8 ports ${port}-${port}` },
+      { type: 'http_request', host: 'localhost', allowed: true, rule: 'allow localhost' },
+      { type: 'http_request', host: 'localhost', allowed: false, rule: `deny 127.0.0.0/8 ports ${port}-${port}` }
+    ]);
+    expect(allowing.getAccessEvents().filter(event => event.addresses).map(({ allowed, rule }) => ({ allowed, rule })))
+      .toEqual([{ allowed: true, rule: 'allow localhost' }]);
+  });
+});
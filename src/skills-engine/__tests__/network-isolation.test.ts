@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import { HostAllowlist, getNetworkIsolationPrefix, readBlockedAttempts } from '../network-isolation';
+import { SkillSandbox } from '../sandbox';
+import { getLogManager } from '../logging';
+
+describe('Network isolation', () => {
+  const tempDir = path.join(__dirname, '__temp_network__');
+
+  beforeEach(() => {
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await getLogManager().shutdown();
+  });
+
+  // Script that opens a TCP connection with Node and keeps it for a while
+  const writeConnectScript = (host: string, port: number, holdMs: number) => {
+    const script = path.join(tempDir, 'connect.sh');
+    const code = `const s=require('net').connect(${port},'${host}');s.on('error',()=>{});setTimeout(()=>{s.destroy();console.log('SUCCESS: done')},${holdMs})`;
+    fs.writeFileSync(script, `"${process.execPath}" -e "${code}"\n`);
+    return script;
+  };
+
+  it('counts refused attempts from the saved namespace counters', () => {
+    const report = path.join(tempDir, 'report.net');
+    fs.writeFileSync(report, [
+      'Ip: Forwarding DefaultTTL InReceives OutRequests OutNoRoutes ReasmTimeout',
+      'Ip: 2 64 0 0 4 0',
+      'Udp: InDatagrams NoPorts',
+      'Udp: 0 0',
+      'Ip6InReceives                   \t0',
+      'Ip6OutNoRoutes                  \t1'
+    ].join('\n'));
+
+    expect(readBlockedAttempts(report)).toBe(5);
+    expect(readBlockedAttempts(path.join(tempDir, 'missing.net'))).toBe(0);
+  });
+
+  it('allows listed addresses and the resolver on port 53 only', async () => {
+    const resolvConf = path.join(tempDir, 'resolv.conf');
+    fs.writeFileSync(resolvConf, '# test\nnameserver 10.0.0.53\n');
+
+    const allowlist = new HostAllowlist(['192.0.2.10', '2001:db8::1'], resolvConf);
+    await allowlist.refresh();
+
+    expect(allowlist.isAllowed('192.0.2.10', 443)).toBe(true);
+    expect(allowlist.isAllowed('::ffff:192.0.2.10', 443)).toBe(true);
+    expect(allowlist.isAllowed('2001:db8:0:0:0:0:0:1', 443)).toBe(true);
+    expect(allowlist.isAllowed('10.0.0.53', 53)).toBe(true);
+    expect(allowlist.isAllowed('10.0.0.53', 80)).toBe(false);
+    expect(allowlist.isAllowed('192.0.2.11', 443)).toBe(false);
+  });
+
+  if (process.platform === 'linux') {
+    const isolated = getNetworkIsolationPrefix() !== null;
+
+    (isolated ? it : it.skip)('runs scripts without network access in a private namespace', async () => {
+      const script = writeConnectScript('192.0.2.1', 80, 100);
+      fs.appendFileSync(script, 'grep -c ":" /proc/net/dev\n');
+
+      const result = await new SkillSandbox(script, 'shell', { networkAccess: false }).execute();
+
+      expect(result.exitCode).toBe(0);
+      // Only the loopback interface exists
+      expect(result.stdout.trim().split('\n').pop()).toBe('1');
+      expect(result.securityEvents).toEqual([
+        expect.objectContaining({ type: 'network_access', severity: 'medium' })
+      ]);
+    });
+
+    describe('with an allowlist', () => {
+      let server: net.Server;
+      let port: number;
+
+      beforeEach(async () => {
+        server = net.createServer(socket => socket.on('error', () => undefined));
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        port = (server.address() as net.AddressInfo).port;
+      });
+
+      afterEach(async () => {
+        await new Promise(resolve => server.close(resolve));
+      });
+
+      it('kills the script when it connects to a host that is not listed', async () => {
+        const script = writeConnectScript('127.0.0.1', port, 5000);
+
+        const result = await new SkillSandbox(script, 'shell', {
+          networkAccess: true,
+          allowedHosts: ['192.0.2.10']
+        }).execute();
+
+        expect(result.executionTimeMs).toBeLessThan(5000);
+        expect(result.securityEvents).toContainEqual(expect.objectContaining({
+          type: 'network_access',
+          severity: 'high',
+          details: expect.stringContaining(`127.0.0.1:${port}`)
+        }));
+      });
+
+      it('lets connections to listed hosts through', async () => {
+        const script = writeConnectScript('127.0.0.1', port, 600);
+
+        const result = await new SkillSandbox(script, 'shell', {
+          networkAccess: true,
+          allowedHosts: ['127.0.0.1']
+        }).execute();
+
+        expect(result.exitCode).toBe(0);
+        expect(result.securityEvents.filter(event => event.type === 'network_access')).toEqual([]);
+      });
+    });
+  }
+});
@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { SkillSandbox } from '../sandbox';
+import { parseSkillOutput } from '../skill-output-parser';
+import { getLogManager } from '../logging';
+
+describe('Node skills', () => {
+  const tempDir = path.join(__dirname, '__temp_node_skill__');
+  const outsideDir = path.join(__dirname, '__temp_node_skill_outside__');
+
+  const writeSkill = (source: string) => {
+    const scriptPath = path.join(tempDir, 'skill.js');
+    fs.writeFileSync(scriptPath, source);
+    return scriptPath;
+  };
+
+  beforeEach(() => {
+    fs.mkdirSync(tempDir, { recursive: true });
+    fs.mkdirSync(outsideDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    fs.rmSync(outsideDir, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await getLogManager().shutdown();
+  });
+
+  it('reads allowed files through the capability API and has no require', async () => {
+    fs.writeFileSync(path.join(tempDir, 'app.ini'), 'port=8080\n');
+    fs.writeFileSync(path.join(outsideDir, 'secret.txt'), 'hidden');
+    fs.symlinkSync(path.join(outsideDir, 'secret.txt'), path.join(tempDir, 'link.txt'));
+
+    const scriptPath = writeSkill(`
+      wtc.progress(10, 'Reading config');
+      const config = await wtc.readFile(wtc.params.config);
+      const refused = [];
+      for (const file of [${JSON.stringify(path.join(outsideDir, 'secret.txt'))}, ${JSON.stringify(path.join(tempDir, 'link.txt'))}]) {
+        await wtc.readFile(file).catch(error => refused.push(error.message));
+      }
+      const info = await wtc.systemInfo();
+      return {
+        port: Number(/port=(\\d+)/.exec(config)[1]),
+        refused: refused.length,
+        hasRequire: typeof require !== 'undefined',
+        hasProcess: typeof process !== 'undefined',
+        platform: info.platform,
+        dryRun: wtc.dryRun
+      };
+    `);
+    const sandbox = new SkillSandbox(scriptPath, 'node', { allowedDirectories: [tempDir], kernelLimits: false });
+    const progress = jest.fn();
+    sandbox.on('progress', progress);
+
+    const result = await sandbox.execute([`--config=${path.join(tempDir, 'app.ini')}`]);
+
+    expect(result.exitCode).toBe(0);
+    expect(parseSkillOutput(result.stdout).payload).toEqual({
+      port: 8080,
+      refused: 2,
+      hasRequire: false,
+      hasProcess: false,
+      platform: process.platform,
+      dryRun: false
+    });
+    expect(progress).toHaveBeenCalledWith(expect.objectContaining({ percent: 10, message: 'Reading config' }));
+    expect(result.securityEvents.filter(event => event.type === 'filesystem_access')).toHaveLength(2);
+  });
+
+  it('makes HTTP calls only to allowed hosts and reports thrown errors', async () => {
+    const server = http.createServer((_req, res) => res.end('{"status":"up"}'));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const scriptPath = writeSkill(`
+        const response = await wtc.http('http://127.0.0.1:${port}/health');
+        wtc.data(JSON.parse(response.body));
+        await wtc.http('http://localhost:${port}/health');
+      `);
+      const result = await new SkillSandbox(scriptPath, 'node', {
+        networkAccess: true,
+        allowedHosts: ['127.0.0.1'],
+        kernelLimits: false
+      }).execute();
+
+      expect(result.exitCode).toBe(1);
+      const parsed = parseSkillOutput(result.stdout);
+      expect(parsed.data).toEqual([{ status: 'up' }]);
+      expect(parsed.status).toBe('error');
+      expect(parsed.message).toMatch(/HTTP request to localhost:\d+ blocked by sandbox/);
+
+      const offline = await new SkillSandbox(scriptPath, 'node', { kernelLimits: false }).execute();
+      expect(parseSkillOutput(offline.stdout).message).toMatch(/network access is disabled/);
+    } finally {
+      server.close();
+    }
+  });
+
+  it('stops skills that run past the timeout', async () => {
+    const scriptPath = writeSkill('while (true) {}');
+    const sandbox = new SkillSandbox(scriptPath, 'node', { timeoutMs: 1000, kernelLimits: false });
+
+    await expect(sandbox.execute()).rejects.toThrow('Execution timeout after 1000ms');
+  });
+});
@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  SkillParameterError,
+  validateSkillParameters,
+  assertValidSkillParameters,
+  buildScriptArguments,
+  validateParameterDefinitions
+} from '../parameter-validator';
+import { SkillCatalog, createSandboxedSkillHandler } from '../skill-catalog';
+import { SkillParameterDefinition } from '../types';
+import { getLogManager } from '../logging';
+
+describe('Skill parameter validation', () => {
+  const definitions: SkillParameterDefinition[] = [
+    { name: 'printerName', type: 'string', required: true, pattern: '[A-Za-z0-9 _-]+', maxLength: 64 },
+    { name: 'retries', type: 'int', required: false, defaultValue: 2, min: 0, max: 5 },
+    { name: 'force', type: 'bool', required: false, defaultValue: false },
+    { name: 'scope', type: 'enum', required: false, values: ['user', 'machine'] },
+    { name: 'logPath', type: 'path', required: false }
+  ];
+
+  afterAll(async () => {
+    await getLogManager().shutdown();
+  });
+
+  it('coerces values and applies defaults', () => {
+    const result = validateSkillParameters(definitions, {
+      printerName: 'Office Laser',
+      retries: '4',
+      force: 'yes',
+      logPath: path.join(path.sep, 'tmp', 'logs', '..', 'printer.log')
+    });
+
+    expect(result.issues).toEqual([]);
+    expect(result.values).toEqual({
+      printerName: 'Office Laser',
+      retries: 4,
+      force: true,
+      logPath: path.join(path.sep, 'tmp', 'printer.log')
+    });
+  });
+
+  it('reports every problem with a per-field code', () => {
+    const result = validateSkillParameters(definitions, {
+      retries: 9,
+      force: 'maybe',
+      scope: 'global',
+      logPath: 'relative/file.log',
+      extra: true
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues.map(issue => [issue.parameter, issue.code])).toEqual([
+      ['extra', 'unknown'],
+      ['printerName', 'required'],
+      ['retries', 'range'],
+      ['force', 'type'],
+      ['scope', 'enum'],
+      ['logPath', 'type']
+    ]);
+  });
+
+  it('rejects strings that do not match the pattern or contain line breaks', () => {
+    const patternIssues = validateSkillParameters(definitions, { printerName: 'Laser; rm -rf /' }).issues;
+    expect(patternIssues[0]).toMatchObject({ parameter: 'printerName', code: 'pattern' });
+
+    const controlIssues = validateSkillParameters(
+      [{ name: 'note', type: 'string', required: true }],
+      { note: 'line one\nline two' }
+    ).issues;
+    expect(controlIssues[0]).toMatchObject({ parameter: 'note', code: 'unsafe' });
+  });
+
+  it('throws SKILL_INVALID_PARAMS with the issues attached', () => {
+    try {
+      assertValidSkillParameters(definitions, {}, 'printer-queue-clear');
+      fail('expected validation to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(SkillParameterError);
+      expect((error as SkillParameterError).code).toBe('SKILL_INVALID_PARAMS');
+      expect((error as SkillParameterError).skillId).toBe('printer-queue-clear');
+      expect((error as SkillParameterError).issues[0].code).toBe('required');
+    }
+  });
+
+  it('passes values as discrete arguments for each script type', () => {
+    const values = { printerName: 'Office $(whoami)', retries: 3, force: true };
+
+    expect(buildScriptArguments(definitions, values, 'powershell')).toEqual([
+      '-printerName:Office $(whoami)', '-retries:3', '-force:$true'
+    ]);
+    expect(buildScriptArguments(definitions, values, 'shell')).toEqual([
+      '--printerName=Office $(whoami)', '--retries=3', '--force=true'
+    ]);
+    expect(() => buildScriptArguments(definitions, { printerName: 'a & calc' }, 'batch')).toThrow(SkillParameterError);
+  });
+
+  it('validates parameter declarations in skill metadata', () => {
+    expect(validateParameterDefinitions(definitions)).toEqual([]);
+    expect(validateParameterDefinitions([
+      { name: 'bad name', type: 'string', required: true },
+      { name: 'mode', type: 'enum', required: false },
+      { name: 'count', type: 'int', required: false, defaultValue: 'many' }
+    ])).toEqual([
+      'parameters[0].name must start with a letter and contain only letters, digits or underscores',
+      'parameters[1].values must be a non-empty array of strings for enum parameters',
+      "parameters[2].defaultValue is invalid: 'count' must be a whole number"
+    ]);
+  });
+
+  if (process.platform !== 'win32') {
+    describe('sandboxed handler', () => {
+      const tempDir = path.join(__dirname, '__temp_params__');
+
+      beforeEach(() => {
+        fs.mkdirSync(tempDir, { recursive: true });
+        fs.writeFileSync(path.join(tempDir, 'greet.json'), JSON.stringify({
+          id: 'greet',
+          name: 'Greet',
+          description: 'Echoes its arguments',
+          os: ['linux', 'macos'],
+          riskLevel: 'low',
+          requiresAdmin: false,
+          unixScript: 'greet.sh',
+          version: '1.0.0',
+          parameters: [{ name: 'name', type: 'string', required: true }],
+          output: { success: 'Greeted', failure: 'Greeting failed' }
+        }));
+        fs.writeFileSync(path.join(tempDir, 'greet.sh'), 'echo "SUCCESS: $1"\n');
+      });
+
+      afterEach(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      });
+
+      it('hands shell metacharacters to the script as literal text', async () => {
+        const catalog = new SkillCatalog({ skillsDirectory: tempDir });
+        catalog.load();
+        const handler = createSandboxedSkillHandler(catalog.get('greet')!);
+
+        await expect(handler({ name: '$(touch pwned); `id`' })).resolves.toBe('--name=$(touch pwned); `id`');
+        await expect(handler({})).rejects.toMatchObject({ code: 'SKILL_INVALID_PARAMS' });
+      });
+    });
+  }
+});
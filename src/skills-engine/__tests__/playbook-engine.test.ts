@@ -0,0 +1,249 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  PlaybookDefinition,
+  PlaybookEngine,
+  PlaybookSkillRunner,
+  createPlaybookHandler,
+  evaluatePlaybookCondition,
+  loadPlaybooks,
+  validatePlaybookDefinition
+} from '../playbook-engine';
+import { SkillCancelledError } from '../skill-catalog';
+import { parseSkillOutput } from '../skill-output-parser';
+import { SkillExecutionResult } from '../types';
+import { getLogManager } from '../logging';
+
+const PLAYBOOK_ROOT = path.join(__dirname, '../../../skills/playbooks');
+
+// Runner that replays scripted stdout per skill, one entry per call
+const scriptedRunner = (script: Record<string, Array<string | 'hang'>>): PlaybookSkillRunner & { calls: string[] } => {
+  const calls: string[] = [];
+  return {
+    calls,
+    has: skillId => skillId in script,
+    getName: skillId => `${skillId} skill`,
+    run: async (skillId, _params, context) => {
+      calls.push(skillId);
+      const stdout = script[skillId].shift();
+
+      if (stdout === 'hang') {
+        return new Promise<SkillExecutionResult>((_, reject) => {
+          context.signal?.addEventListener('abort', () => reject(new SkillCancelledError('cancelled', '', skillId)));
+        });
+      }
+
+      const parsedOutput = parseSkillOutput(stdout ?? 'ERROR: no scripted output');
+      const output = parsedOutput.message ?? JSON.stringify(parsedOutput.payload);
+      return {
+        success: parsedOutput.status === 'success',
+        output,
+        error: parsedOutput.status === 'error' ? output : undefined,
+        executionTimeMs: 5,
+        resourceUsage: { cpuPercentage: 0, memoryBytes: 0, diskWriteBytes: 0, networkBytes: 0 },
+        securityEvents: [],
+        parsedOutput
+      };
+    }
+  };
+};
+
+const recoveryPlaybook: PlaybookDefinition = {
+  id: 'disk-recovery',
+  name: 'Disk Recovery',
+  description: 'Frees disk space and escalates when it stays low',
+  version: '1.0.0',
+  steps: [
+    { id: 'check', type: 'skill', skillId: 'disk-space' },
+    {
+      id: 'low',
+      type: 'branch',
+      cases: [{ when: { step: 'check', path: 'payload.usedPercent', operator: 'gte', value: 90 }, next: 'clear-cache' }],
+      otherwise: 'end'
+    },
+    { id: 'clear-cache', type: 'skill', skillId: 'app-cache-reset', onFailure: 'escalate' },
+    { id: 'recheck', type: 'skill', skillId: 'disk-space' },
+    {
+      id: 'still-low',
+      type: 'branch',
+      cases: [{ when: { step: 'recheck', path: 'payload.usedPercent', operator: 'gte', value: 90 }, next: 'escalate' }],
+      otherwise: 'end'
+    },
+    {
+      id: 'escalate',
+      type: 'escalate',
+      ticket: { summary: 'Disk still full', category: 'Hardware', priority: 'high' }
+    }
+  ]
+};
+
+describe('PlaybookEngine', () => {
+  afterAll(async () => {
+    await getLogManager().shutdown();
+  });
+
+  it('ends early when the first check passes', async () => {
+    const runner = scriptedRunner({ 'disk-space': ['SUCCESS: {"usedPercent":"40%"}'], 'app-cache-reset': [] });
+    const engine = new PlaybookEngine({ runner });
+
+    const result = await engine.run(recoveryPlaybook);
+
+    expect(result.status).toBe('resolved');
+    expect(result.steps.map(step => [step.stepId, step.status])).toEqual([['check', 'success'], ['low', 'success']]);
+    expect(runner.calls).toEqual(['disk-space']);
+    engine.dispose();
+  });
+
+  it('re-runs the check and escalates with the accumulated skill results', async () => {
+    const runner = scriptedRunner({
+      'disk-space': ['SUCCESS: {"usedPercent":95}', 'SUCCESS: {"usedPercent":93}'],
+      'app-cache-reset': ['SUCCESS: Caches reset']
+    });
+    const engine = new PlaybookEngine({
+      runner,
+      ticketContext: () => ({ appVersion: '2.1.0', user: { id: 'u1', name: 'Pat Doe' } })
+    });
+
+    const result = await engine.run(recoveryPlaybook, { correlationId: 'corr-1' });
+
+    expect(result.status).toBe('escalated');
+    expect(runner.calls).toEqual(['disk-space', 'app-cache-reset', 'disk-space']);
+
+    const ticket = result.ticket!;
+    expect(ticket).toMatchObject({
+      summary: 'Disk still full',
+      category: 'Hardware',
+      priority: 'high',
+      user: { id: 'u1', name: 'Pat Doe' },
+      customFields: { playbookId: 'disk-recovery', escalationStep: 'escalate' }
+    });
+    expect(ticket.skillResults.map(r => [r.skillId, r.skillName, r.status])).toEqual([
+      ['disk-space', 'disk-space skill', 'success'],
+      ['app-cache-reset', 'app-cache-reset skill', 'success'],
+      ['disk-space', 'disk-space skill', 'success']
+    ]);
+    expect(ticket.context).toMatchObject({
+      appVersion: '2.1.0',
+      correlationId: 'corr-1',
+      troubleshootingSession: { stepsAttempted: 3, stepsSuccessful: 3 }
+    });
+    expect(ticket.description).toContain('- clear-cache (app-cache-reset): success');
+    engine.dispose();
+  });
+
+  it('follows onFailure and stops on failures without it', async () => {
+    const escalating = scriptedRunner({
+      'disk-space': ['SUCCESS: {"usedPercent":97}'],
+      'app-cache-reset': ['ERROR: Outlook is still running']
+    });
+    const engine = new PlaybookEngine({ runner: escalating });
+    const escalated = await engine.run(recoveryPlaybook);
+    expect(escalated.status).toBe('escalated');
+    expect(escalated.ticket?.skillResults[1]).toMatchObject({
+      status: 'error',
+      error: { message: 'Outlook is still running' }
+    });
+
+    const failing = scriptedRunner({ 'disk-space': ['ERROR: df not found'], 'app-cache-reset': [] });
+    const failed = await new PlaybookEngine({ runner: failing }).run(recoveryPlaybook);
+    expect(failed.status).toBe('failed');
+    expect(failed.error).toBe("Step 'check' failed: df not found");
+    engine.dispose();
+  });
+
+  it('cancels a step that exceeds its timeout', async () => {
+    const runner = scriptedRunner({ 'disk-space': ['hang'], 'app-cache-reset': [] });
+    const engine = new PlaybookEngine({ runner });
+
+    const result = await engine.run({
+      ...recoveryPlaybook,
+      steps: [{ id: 'check', type: 'skill', skillId: 'disk-space', timeoutMs: 50 }]
+    });
+
+    expect(result.status).toBe('failed');
+    expect(result.steps[0]).toMatchObject({ status: 'timeout', error: { code: 'STEP_TIMEOUT' } });
+    engine.dispose();
+  });
+
+  it('stops runaway loops', async () => {
+    const runner = scriptedRunner({ 'disk-space': Array(10).fill('SUCCESS: {"usedPercent":99}') });
+    const engine = new PlaybookEngine({ runner, maxStepsPerRun: 6 });
+
+    const result = await engine.run({
+      ...recoveryPlaybook,
+      steps: [{ id: 'check', type: 'skill', skillId: 'disk-space', next: 'check' }]
+    });
+
+    expect(result.status).toBe('failed');
+    expect(result.error).toMatch(/exceeded 6 steps/);
+    engine.dispose();
+  });
+
+  it('evaluates status, comparison and combined conditions', () => {
+    const records = new Map([
+      ['check', {
+        stepId: 'check', type: 'skill' as const, status: 'success' as const,
+        payload: { disks: [{ id: 'C:', freePercent: 8 }], services: ['Spooler'] },
+        startedAt: 0, completedAt: 0, executionTimeMs: 0
+      }]
+    ]);
+
+    expect(evaluatePlaybookCondition({ step: 'check', status: ['success', 'skipped'] }, records)).toBe(true);
+    expect(evaluatePlaybookCondition({ step: 'check', path: 'payload.disks.0.freePercent', operator: 'lt', value: '10' }, records)).toBe(true);
+    expect(evaluatePlaybookCondition({ step: 'check', path: 'payload.services', operator: 'contains', value: 'Spooler' }, records)).toBe(true);
+    expect(evaluatePlaybookCondition({
+      all: [{ step: 'check', status: 'success' }, { not: { step: 'check', path: 'payload.missing' } }]
+    }, records)).toBe(true);
+    expect(evaluatePlaybookCondition({ step: 'other', status: 'success' }, records)).toBe(false);
+  });
+
+  it('validates definitions and loads the packaged playbooks', () => {
+    expect(validatePlaybookDefinition(recoveryPlaybook)).toEqual([]);
+    expect(validatePlaybookDefinition({
+      ...recoveryPlaybook,
+      steps: [
+        { id: 'check', type: 'skill', skillId: 'disk-space', next: 'missing' },
+        { id: 'fork', type: 'branch', cases: [{ when: { step: 'nowhere', status: 'done' }, next: 'end' }] },
+        { id: 'escalate', type: 'escalate', ticket: { summary: 'x', category: 'y', priority: 'urgent' } }
+      ]
+    })).toEqual([
+      "steps[0].next must name a step or 'end' (got 'missing')",
+      "steps[1].cases[0].when.step must name a step (got 'nowhere')",
+      'steps[1].cases[0].when.status must be one of success, error, timeout, cancelled, skipped',
+      'steps[2].ticket.priority must be one of low, medium, high, critical'
+    ]);
+
+    const available = scriptedRunner({ 'disk-space': [], 'app-cache-reset': [] });
+    expect(loadPlaybooks(PLAYBOOK_ROOT, available)).toMatchObject({ playbooks: [{ id: 'disk-space-recovery' }], rejected: [] });
+
+    const linux = scriptedRunner({ 'disk-space': [] });
+    const { playbooks, rejected } = loadPlaybooks(PLAYBOOK_ROOT, linux);
+    expect(playbooks).toEqual([]);
+    expect(rejected[0].message).toMatch(/'app-cache-reset' is not available on this device/);
+  });
+
+  it('runs as an IPC skill handler and reports cancellation', async () => {
+    const runner = scriptedRunner({ 'disk-space': ['SUCCESS: {"usedPercent":10}', 'hang'], 'app-cache-reset': [] });
+    const engine = new PlaybookEngine({ runner });
+    const handler = createPlaybookHandler(engine, recoveryPlaybook);
+
+    const onProgress = jest.fn();
+    const output = JSON.parse(await handler({}, { onProgress }));
+    expect(output).toMatchObject({ playbookId: 'disk-recovery', status: 'resolved' });
+    expect(onProgress).toHaveBeenCalledWith({ percent: 0, message: 'Step 1 of 6: check' });
+
+    await expect(handler({ force: true })).rejects.toMatchObject({ code: 'SKILL_INVALID_PARAMS' });
+
+    const controller = new AbortController();
+    const run = handler({}, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+    await expect(run).rejects.toBeInstanceOf(SkillCancelledError);
+    engine.dispose();
+  });
+
+  it('ignores a missing playbooks directory', () => {
+    const missing = path.join(__dirname, '__no_playbooks__');
+    expect(fs.existsSync(missing)).toBe(false);
+    expect(loadPlaybooks(missing)).toEqual({ playbooks: [], rejected: [] });
+  });
+});
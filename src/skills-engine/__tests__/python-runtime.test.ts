@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { PythonRuntime, PythonRuntimeError, isValidPythonVersionSpec, matchesPythonVersion } from '../python-runtime';
+import { SkillCatalog, createSandboxedSkillHandler } from '../skill-catalog';
+import { getLogManager } from '../logging';
+
+const hasPython = spawnSync('python3', ['--version']).status === 0;
+
+describe('PythonRuntime', () => {
+  const tempDir = path.join(__dirname, '__temp_python__');
+
+  beforeEach(() => {
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await getLogManager().shutdown();
+  });
+
+  it('matches version constraints', () => {
+    expect(matchesPythonVersion('3.11.7', '3.11')).toBe(true);
+    expect(matchesPythonVersion('3.11.7', '3.1')).toBe(false);
+    expect(matchesPythonVersion('3.11.7', '>=3.9,<3.12')).toBe(true);
+    expect(matchesPythonVersion('3.12.0', '>=3.9,<3.12')).toBe(false);
+    expect(matchesPythonVersion('3.11.7', '<=3.11')).toBe(true);
+    expect(matchesPythonVersion('3.11.7', '!=3.11')).toBe(false);
+
+    expect(isValidPythonVersionSpec('>=3.9, <3.13')).toBe(true);
+    expect(isValidPythonVersionSpec('~3')).toBe(false);
+  });
+
+  if (process.platform !== 'win32') {
+    it('picks an interpreter that satisfies the constraint', () => {
+      // Stand-in interpreter that answers the version probe
+      const fake = path.join(tempDir, 'fake-python');
+      fs.writeFileSync(fake, '#!/bin/sh\necho \'{"version": "3.7.9", "executable": ""}\'\n', { mode: 0o755 });
+
+      const runtime = new PythonRuntime({ interpreters: [[fake]] });
+      expect(runtime.findInterpreter('==3.7', 'legacy')).toEqual({ command: [fake], version: '3.7.9', executable: '' });
+
+      expect(() => runtime.findInterpreter('>=4', 'future')).toThrow(PythonRuntimeError);
+      expect(() => runtime.findInterpreter('>=4', 'future')).toThrow("No Python interpreter matching '>=4' was found");
+    });
+  }
+
+  if (hasPython) {
+    const writePythonSkill = (metadata: Record<string, unknown>, script: string) => {
+      fs.writeFileSync(path.join(tempDir, 'py-check.json'), JSON.stringify({
+        id: 'py-check',
+        name: 'Python Check',
+        description: 'Reports how Python was started',
+        os: ['windows', 'linux', 'macos'],
+        riskLevel: 'low',
+        requiresAdmin: false,
+        script: 'py-check.py',
+        version: '1.0.0',
+        parameters: [],
+        output: { success: 'Done', failure: 'Failed' },
+        ...metadata
+      }));
+      fs.writeFileSync(path.join(tempDir, 'py-check.py'), script);
+
+      const catalog = new SkillCatalog({ skillsDirectory: tempDir });
+      catalog.load();
+      return catalog.get('py-check')!;
+    };
+
+    it('runs Python skills in isolated mode with streamed progress', async () => {
+      const skill = writePythonSkill({ python: { version: '>=3.8' } }, [
+        'import json, sys, time',
+        'print("PROGRESS: 50% Checking flags")',
+        'time.sleep(0.3)',
+        'print("SUCCESS: " + json.dumps({"ignoreEnvironment": sys.flags.ignore_environment, "noUserSite": sys.flags.no_user_site}))'
+      ].join('\n'));
+
+      const onProgress = jest.fn();
+      const handler = createSandboxedSkillHandler(skill, {}, { python: new PythonRuntime() });
+      const output = await handler({}, { onProgress });
+
+      expect(JSON.parse(output as string)).toEqual({ ignoreEnvironment: 1, noUserSite: 1 });
+      expect(onProgress).toHaveBeenCalledWith({ percent: 50, message: 'Checking flags' });
+    });
+
+    it('builds a virtualenv from the lockfile once and runs the skill in it', async () => {
+      fs.writeFileSync(path.join(tempDir, 'py-check.lock'), '# no third-party packages\n');
+      const skill = writePythonSkill({ python: { requirements: 'py-check.lock' } }, [
+        'import sys',
+        'print("SUCCESS: " + str(sys.prefix != sys.base_prefix))'
+      ].join('\n'));
+
+      const runtime = new PythonRuntime({ venvDirectory: path.join(tempDir, 'venvs') });
+      const built = jest.fn();
+      runtime.on('virtualenvBuilt', built);
+      const handler = createSandboxedSkillHandler(skill, {}, { python: runtime });
+
+      await expect(handler({})).resolves.toBe('True');
+      await expect(handler({})).resolves.toBe('True');
+      expect(built).toHaveBeenCalledTimes(1);
+      expect(fs.readdirSync(path.join(tempDir, 'venvs'))).toEqual([expect.stringMatching(/^py-check-[0-9a-f]{16}$/)]);
+    }, 120000);
+  }
+});
@@ -0,0 +1,59 @@
+import { SkillResultCache, createSkillCacheKey } from '../result-cache';
+
+describe('SkillResultCache', () => {
+  const fill = (cache: SkillResultCache<string>, keys: string[], now: number) => {
+    keys.forEach((key, index) => cache.set(key, key, undefined, now + index));
+  };
+
+  it('normalizes parameter order in cache keys', () => {
+    expect(createSkillCacheKey('disk-space', '1.1.0', { drive: 'C:', verbose: true }))
+      .toBe(createSkillCacheKey('disk-space', '1.1.0', { verbose: true, drive: 'C:' }));
+    expect(createSkillCacheKey('disk-space', '1.1.0', {}))
+      .not.toBe(createSkillCacheKey('disk-space', '1.2.0', {}));
+  });
+
+  it('expires entries after their TTL', () => {
+    const cache = new SkillResultCache<string>({ ttlMs: 1000 });
+    cache.set('a', 'first', undefined, 0);
+    cache.set('b', 'second', 5000, 0);
+
+    expect(cache.get('a', 999)).toEqual({ value: 'first', storedAt: 0 });
+    expect(cache.get('a', 1000)).toBeUndefined();
+    expect(cache.get('b', 4000)?.value).toBe('second');
+    expect(cache.getStats()).toMatchObject({ size: 1, hits: 2, misses: 1 });
+  });
+
+  it.each([
+    ['lru', 'b'],
+    ['fifo', 'a'],
+    ['lfu', 'c']
+  ] as const)('evicts by %s', (strategy, evicted) => {
+    const cache = new SkillResultCache<string>({ maxSize: 3, ttlMs: 60000, strategy });
+    fill(cache, ['a', 'b', 'c'], 0);
+
+    // a was stored first, b was read least recently and c least often
+    cache.get('b', 10);
+    cache.get('b', 11);
+    cache.get('a', 12);
+    cache.get('a', 13);
+    cache.get('c', 14);
+    cache.set('d', 'd', undefined, 20);
+
+    const remaining = ['a', 'b', 'c', 'd'].filter(key => cache.get(key, 30));
+    expect(remaining).toEqual(['a', 'b', 'c', 'd'].filter(key => key !== evicted));
+    expect(cache.getStats().evictions).toBe(1);
+  });
+
+  it('invalidates every entry of one skill and does nothing when disabled', () => {
+    const cache = new SkillResultCache<string>();
+    cache.set(createSkillCacheKey('system-info', '1.0.0', {}), 'info');
+    cache.set(createSkillCacheKey('disk-space', '1.1.0', {}), 'disk');
+
+    expect(cache.invalidateSkill('system-info')).toBe(1);
+    expect(cache.getStats().size).toBe(1);
+
+    const disabled = new SkillResultCache<string>({ enabled: false });
+    disabled.set('a', 'value');
+    expect(disabled.get('a')).toBeUndefined();
+  });
+});
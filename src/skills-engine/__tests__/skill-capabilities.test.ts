@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SkillCapabilityPolicy, expandCapabilityPath, normalizeRegistryKey } from '../skill-capabilities';
+import { validateSkillMetadata } from '../skill-catalog';
+import { SkillSandbox } from '../sandbox';
+import { parseSkillOutput } from '../skill-output-parser';
+import { getLogManager } from '../logging';
+
+describe('Skill capabilities', () => {
+  const tempDir = path.join(__dirname, '__temp_skill_capabilities__');
+  const dataDir = path.join(__dirname, '__temp_skill_capabilities_data__');
+
+  beforeEach(() => {
+    fs.mkdirSync(tempDir, { recursive: true });
+    fs.mkdirSync(dataDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    delete process.env.WTC_TEST_SKILL_DATA;
+  });
+
+  afterAll(async () => {
+    await getLogManager().shutdown();
+  });
+
+  it('resolves declared paths, registry keys and programs for the device', () => {
+    const env = { LOCALAPPDATA: 'C:\\Users\\ana\\AppData\\Local' };
+    expect(expandCapabilityPath('%localappdata%\\Microsoft\\Teams', { platform: 'win32', env }))
+      .toBe('C:\\Users\\ana\\AppData\\Local\\Microsoft\\Teams');
+    expect(expandCapabilityPath('$HOME/.config/**', { platform: 'linux', env: {} })).toBeNull();
+    expect(normalizeRegistryKey('HKEY_LOCAL_MACHINE/SOFTWARE\\Policies')).toBe('HKLM\\SOFTWARE\\Policies');
+
+    const windows = new SkillCapabilityPolicy({
+      filesystem: {
+        read: ['C:\\ProgramData\\Teams\\*.json'],
+        write: ['%LOCALAPPDATA%\\Microsoft\\Teams\\**', '%UNSET%\\**']
+      },
+      registry: ['HKLM:\\SOFTWARE\\Microsoft\\Office'],
+      processes: ['ipconfig.exe']
+    }, { platform: 'win32', env });
+
+    // Windows paths cannot be resolved here, so the compiled globs are tested directly
+    const { allowedReadPatterns, allowedWritePatterns } = windows.getFilesystemGuardOptions();
+    expect(allowedWritePatterns).toHaveLength(1);
+    expect(allowedWritePatterns![0].test('c:/users/ana/appdata/local/microsoft/teams/Cache/f_0001')).toBe(true);
+    expect(allowedWritePatterns![0].test('C:\\Users\\ana\\AppData\\Local\\Microsoft\\Teams')).toBe(true);
+    expect(allowedReadPatterns![0].test('C:\\ProgramData\\Teams\\settings.json')).toBe(true);
+    expect(allowedReadPatterns![0].test('C:\\ProgramData\\Teams\\sub\\settings.json')).toBe(false);
+    expect(windows.allowsRegistryKey('HKEY_LOCAL_MACHINE\\Software\\Microsoft\\Office\\16.0')).toBe(true);
+    expect(windows.allowsRegistryKey('HKLM\\SOFTWARE\\Microsoft\\OfficeTools')).toBe(false);
+    expect(windows.allowsProcess('C:\\Windows\\System32\\IPCONFIG.EXE')).toBe(true);
+
+    const linux = new SkillCapabilityPolicy({ filesystem: { read: [`${dataDir}/**/*.log`] } }, { platform: 'linux' });
+    expect(linux.allowsPath(path.join(dataDir, 'app.log'), 'read')).toBe(true);
+    expect(linux.allowsPath(path.join(dataDir, 'a', 'b', 'app.log'), 'read')).toBe(true);
+    expect(linux.allowsPath(path.join(dataDir, 'app.log'), 'write')).toBe(false);
+  });
+
+  it('rejects malformed declarations in skill metadata', () => {
+    const metadata = {
+      id: 'capable',
+      name: 'Capable',
+      description: 'Declares capabilities',
+      os: ['linux'],
+      riskLevel: 'low',
+      requiresAdmin: false,
+      script: 'capable.sh',
+      version: '1.0.0',
+      parameters: [],
+      output: { success: 'ok', failure: 'failed' }
+    };
+
+    expect(validateSkillMetadata({ ...metadata, capabilities: { filesystem: { write: ['%TEMP%/wtc/**'] }, processes: ['df'] } }))
+      .toEqual([]);
+    expect(validateSkillMetadata({
+      ...metadata,
+      networkAccess: true,
+      capabilities: {
+        filesystem: { read: ['relative/**'] },
+        network: { hosts: [], ports: [0] },
+        registry: ['Software\\Microsoft']
+      }
+    })).toEqual([
+      expect.stringContaining(`'capabilities.filesystem.read' must be an array of absolute path globs`),
+      expect.stringContaining(`'capabilities.network.hosts' must be a non-empty array`),
+      `'capabilities.network.ports' must be an array of port numbers`,
+      expect.stringContaining(`'capabilities.registry' must be an array of registry keys`),
+      expect.stringContaining(`cannot be combined with 'capabilities'`)
+    ]);
+  });
+
+  it('lets node skills read only declared paths outside the sandbox', async () => {
+    process.env.WTC_TEST_SKILL_DATA = dataDir;
+    fs.writeFileSync(path.join(dataDir, 'teams.json'), '{"ring":"general"}');
+    fs.writeFileSync(path.join(dataDir, 'secret.txt'), 'hidden');
+    const scriptPath = path.join(tempDir, 'skill.js');
+    fs.writeFileSync(scriptPath, `
+      const config = JSON.parse(await wtc.readFile(${JSON.stringify(path.join(dataDir, 'teams.json'))}));
+      const refused = await wtc.readFile(${JSON.stringify(path.join(dataDir, 'secret.txt'))}).then(() => false, () => true);
+      return { ring: config.ring, refused };
+    `);
+
+    const result = await new SkillSandbox(scriptPath, 'node', {
+      kernelLimits: false,
+      capabilities: { filesystem: { read: ['$WTC_TEST_SKILL_DATA/*.json'] } }
+    }).execute();
+
+    expect(parseSkillOutput(result.stdout).payload).toEqual({ ring: 'general', refused: true });
+    expect(result.securityEvents).toEqual([expect.objectContaining({ type: 'filesystem_access' })]);
+  });
+
+  (process.platform === 'linux' ? it : it.skip)('kills scripts that start undeclared programs', async () => {
+    const scriptPath = path.join(tempDir, 'skill.sh');
+    fs.writeFileSync(scriptPath, 'sleep "$1"\necho "SUCCESS: done"\n');
+
+    const declared = await new SkillSandbox(scriptPath, 'shell', {
+      kernelLimits: false,
+      capabilities: { processes: ['sleep'] }
+    }).execute(['1']);
+    expect(declared.exitCode).toBe(0);
+    expect(declared.securityEvents.filter(event => event.type === 'suspicious_behavior')).toEqual([]);
+
+    // The undeclared sleep outlasts the test unless the monitor kills it
+    const startedAt = Date.now();
+    const undeclared = await new SkillSandbox(scriptPath, 'shell', {
+      kernelLimits: false,
+      capabilities: {}
+    }).execute(['60']);
+    expect(Date.now() - startedAt).toBeLessThan(10000);
+    expect(undeclared.exitCode).not.toBe(0);
+    expect(undeclared.securityEvents.filter(event => event.type === 'suspicious_behavior')).toEqual([expect.objectContaining({
+      type: 'suspicious_behavior',
+      details: expect.stringMatching(/Process \S*sleep \(\d+\) is not declared/)
+    })]);
+  }, 15000);
+});
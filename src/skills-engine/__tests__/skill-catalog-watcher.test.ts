@@ -0,0 +1,113 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SkillCatalog, SkillReloadResult } from '../skill-catalog';
+import { SkillCatalogWatcher } from '../skill-catalog-watcher';
+import { getLogManager } from '../logging';
+
+describe('Skill hot reload', () => {
+  const tempDir = path.join(__dirname, '__temp_catalog_watcher__');
+
+  const writeSkill = (file: string, overrides: Record<string, any> = {}) => {
+    fs.writeFileSync(path.join(tempDir, file), JSON.stringify({
+      id: 'echo-check',
+      name: 'Echo Check',
+      description: 'Emits a success line for reload testing',
+      os: ['windows', 'linux', 'macos'],
+      riskLevel: 'low',
+      requiresAdmin: false,
+      script: 'echo-check.sh',
+      version: '1.0.0',
+      parameters: [],
+      output: { success: 'Echo succeeded', failure: 'Echo failed' },
+      ...overrides
+    }));
+  };
+
+  const writeScript = (file: string) => {
+    fs.writeFileSync(path.join(tempDir, file), 'echo "SUCCESS: ok"\n');
+  };
+
+  beforeEach(() => {
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await getLogManager().shutdown();
+  });
+
+  it('swaps in valid edits and keeps the previous version when an edit is invalid', () => {
+    writeSkill('echo-check.json');
+    writeScript('echo-check.sh');
+    const catalog = new SkillCatalog({ skillsDirectory: tempDir, platform: 'linux' });
+    catalog.load();
+    const original = catalog.get('echo-check');
+
+    writeSkill('echo-check.json', { version: '1.1.0' });
+    expect(catalog.reloadSkillFile('echo-check.json')).toMatchObject([{ status: 'updated', skillId: 'echo-check' }]);
+    const updated = catalog.get('echo-check');
+    expect(updated?.metadata.version).toBe('1.1.0');
+    // Runs holding the previous version are unaffected
+    expect(original?.metadata.version).toBe('1.0.0');
+
+    fs.writeFileSync(path.join(tempDir, 'echo-check.json'), '{ "id": "echo-check",');
+    expect(catalog.reloadSkillFile('echo-check.json')).toMatchObject([{
+      status: 'rejected',
+      skillId: 'echo-check',
+      skill: updated,
+      rejection: { file: 'echo-check.json', reason: 'invalid_json' }
+    }]);
+    expect(catalog.get('echo-check')).toBe(updated);
+    expect(catalog.getRejected()).toHaveLength(1);
+
+    // Another package may not take over a loaded id
+    writeSkill('copy.json');
+    expect(catalog.reloadSkillFile('copy.json')).toMatchObject([{ status: 'rejected', rejection: { reason: 'duplicate_id' } }]);
+
+    // Renaming the id replaces the skill
+    writeSkill('echo-check.json', { id: 'echo-renamed' });
+    expect(catalog.reloadSkillFile('echo-check.json').map(result => [result.status, result.skillId])).toEqual([
+      ['removed', 'echo-check'],
+      ['added', 'echo-renamed']
+    ]);
+    expect(catalog.getRejected().map(rejection => rejection.file)).toEqual(['copy.json']);
+
+    fs.rmSync(path.join(tempDir, 'echo-check.json'));
+    expect(catalog.reloadSkillFile('echo-check.json')).toMatchObject([{ status: 'removed', skillId: 'echo-renamed' }]);
+    expect(catalog.getAll()).toEqual([]);
+  });
+
+  it('debounces changes to a package and retries packages rejected earlier', async () => {
+    writeSkill('echo-check.json');
+    writeScript('echo-check.sh');
+    writeSkill('late.json', { id: 'late-check', script: 'late.sh' });
+    const catalog = new SkillCatalog({ skillsDirectory: tempDir, platform: 'linux' });
+    catalog.load();
+    expect(catalog.getRejected()).toMatchObject([{ file: 'late.json', reason: 'missing_script' }]);
+
+    const watcher = new SkillCatalogWatcher(catalog, { debounceMs: 200 });
+    const changes: SkillReloadResult[] = [];
+    watcher.on('skillChanged', (result: SkillReloadResult) => changes.push(result));
+    const settled = () => new Promise(resolve => setTimeout(resolve, 600));
+
+    watcher.start();
+    try {
+      writeScript('echo-check.sh');
+      writeSkill('echo-check.json', { version: '1.0.1' });
+      writeScript('late.sh');
+      await settled();
+
+      expect(changes.map(change => [change.file, change.status])).toEqual([
+        ['echo-check.json', 'updated'],
+        ['late.json', 'added']
+      ]);
+      expect(catalog.get('echo-check')?.metadata.version).toBe('1.0.1');
+      expect(catalog.get('late-check')).toBeDefined();
+    } finally {
+      watcher.stop();
+    }
+  });
+});
@@ -0,0 +1,458 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import * as util from 'util';
+import {
+  SkillCatalog,
+  SkillCancelledError,
+  SkillDryRunUnsupportedError,
+  createSandboxedSkillHandler,
+  getSkillApplicability,
+  runCatalogSkillUndo,
+  validateSkillMetadata
+} from '../skill-catalog';
+import { ResourceCleaner } from '../resource-cleaner';
+import { UndoJournal } from '../undo-journal';
+import * as networkIsolation from '../network-isolation';
+import { SkillResultCache } from '../result-cache';
+import { SkillSignatureError, SkillSignatureVerifier } from '../skill-signing';
+import { PreconditionChecker, SkillNotApplicableError, createSystemProbes } from '../skill-preconditions';
+import { SkillExecutionResult } from '../types';
+import { getLogManager } from '../logging';
+
+const SKILL_ROOT = path.join(__dirname, '../../../skills');
+
+describe('SkillCatalog', () => {
+  const tempDir = path.join(__dirname, '__temp_catalog__');
+
+  const writeSkill = (file: string, metadata: Record<string, any>) => {
+    fs.writeFileSync(path.join(tempDir, file), JSON.stringify(metadata));
+  };
+
+  const baseMetadata = (overrides: Record<string, any> = {}) => ({
+    id: 'echo-check',
+    name: 'Echo Check',
+    description: 'Emits a success line for catalog testing',
+    os: ['linux', 'macos'],
+    riskLevel: 'low',
+    requiresAdmin: false,
+    unixScript: 'echo-check.sh',
+    version: '1.0.0',
+    parameters: [],
+    output: { success: 'Echo succeeded', failure: 'Echo failed' },
+    ...overrides
+  });
+
+  beforeEach(() => {
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await getLogManager().shutdown();
+  });
+
+  it('loads every packaged skill on Windows', () => {
+    const catalog = new SkillCatalog({ skillsDirectory: SKILL_ROOT, platform: 'win32' });
+    const { skills, rejected } = catalog.load();
+
+    expect(rejected).toEqual([]);
+    expect(skills.map(skill => skill.metadata.id).sort()).toEqual([
+      'app-cache-reset',
+      'disk-space',
+      'printer-queue-clear',
+      'system-info',
+      'wifi-reset',
+      'word-file-recovery'
+    ]);
+    expect(catalog.get('disk-space')?.scriptPath).toBe(path.join(SKILL_ROOT, 'disk-space.ps1'));
+    expect(catalog.get('disk-space')?.scriptType).toBe('powershell');
+    expect(catalog.get('app-cache-reset')?.undoScriptPath).toBe(path.join(SKILL_ROOT, 'app-cache-reset-undo.ps1'));
+  });
+
+  it('picks the unix script on Linux and explains why other skills are skipped', () => {
+    const catalog = new SkillCatalog({ skillsDirectory: SKILL_ROOT, platform: 'linux' });
+    const { skills, rejected } = catalog.load();
+
+    expect(skills.map(skill => skill.metadata.id)).toEqual(['disk-space']);
+    expect(skills[0].scriptType).toBe('shell');
+
+    const systemInfo = rejected.find(r => r.skillId === 'system-info');
+    expect(systemInfo?.reason).toBe('unsupported_script');
+    expect(systemInfo?.message).toMatch(/powershell/);
+
+    const wifi = rejected.find(r => r.skillId === 'wifi-reset');
+    expect(wifi?.reason).toBe('unsupported_platform');
+    expect(wifi?.message).toMatch(/windows/);
+  });
+
+  it('reports invalid, duplicate and incomplete packages', () => {
+    fs.writeFileSync(path.join(tempDir, 'broken.json'), '{ not json');
+    writeSkill('bad-risk.json', baseMetadata({ id: 'bad-risk', riskLevel: 'extreme' }));
+    writeSkill('echo-check.json', baseMetadata());
+    writeSkill('echo-copy.json', baseMetadata());
+    writeSkill('no-script.json', baseMetadata({ id: 'no-script', unixScript: 'missing.sh' }));
+    fs.writeFileSync(path.join(tempDir, 'echo-check.sh'), 'echo "SUCCESS: {}"\n');
+
+    const catalog = new SkillCatalog({ skillsDirectory: tempDir, platform: 'linux' });
+    const { skills, rejected } = catalog.load();
+
+    expect(skills.map(skill => skill.metadata.id)).toEqual(['echo-check']);
+    const reasons = Object.fromEntries(rejected.map(r => [r.file, r.reason]));
+    expect(reasons).toEqual({
+      'bad-risk.json': 'invalid_metadata',
+      'broken.json': 'invalid_json',
+      'echo-copy.json': 'duplicate_id',
+      'no-script.json': 'missing_script'
+    });
+  });
+
+  it('rejects script paths that escape the skills directory', () => {
+    const errors = validateSkillMetadata(baseMetadata({ unixScript: '../outside.sh' }));
+    expect(errors.join(' ')).toMatch(/file name inside the skills directory/);
+  });
+
+  it('validates undo declarations', () => {
+    expect(validateSkillMetadata(baseMetadata({
+      undo: { unixScript: '../undo.sh', artifacts: [{ name: 'archive', type: 'file', required: true }], expiryMinutes: 0 }
+    }))).toEqual([
+      "'undo.unixScript' must be a file name inside the skills directory (got '../undo.sh')",
+      'undo.parameters[0].type must be one of string, int, bool, enum, path',
+      "'undo.expiryMinutes' must be a positive integer"
+    ]);
+  });
+
+  it('validates network declarations', () => {
+    expect(validateSkillMetadata(baseMetadata({ networkAccess: true, allowedHosts: ['updates.example.com'] }))).toEqual([]);
+    expect(validateSkillMetadata(baseMetadata({ networkAccess: 'yes', allowedHosts: [''] }))).toEqual([
+      "'networkAccess' must be a boolean",
+      "'allowedHosts' must be an array of host names or addresses"
+    ]);
+    expect(validateSkillMetadata(baseMetadata({ allowedHosts: ['updates.example.com'] }))).toEqual([
+      "'allowedHosts' requires 'networkAccess': true"
+    ]);
+  });
+
+  it('validates Python requirements', () => {
+    expect(validateSkillMetadata(baseMetadata({ python: { version: '>=3.9,<3.13', requirements: 'echo.lock' } }))).toEqual([]);
+    expect(validateSkillMetadata(baseMetadata({ python: { version: 'latest', requirements: '../echo.lock' } }))).toEqual([
+      "'python.version' must be a version constraint such as 3.11 or >=3.9,<3.13",
+      "'python.requirements' must be a file name inside the skills directory (got '../echo.lock')"
+    ]);
+  });
+
+  it('validates preconditions', () => {
+    expect(validateSkillMetadata(baseMetadata({
+      preconditions: { commands: ['lpstat'], services: ['cups.service'], minOsBuild: '10.0.19041', notOnBattery: true }
+    }))).toEqual([]);
+    expect(validateSkillMetadata(baseMetadata({
+      preconditions: { commands: ['rm -rf'], minOsBuild: 'win11', admin: 'yes' }
+    }))).toEqual([
+      "'preconditions.commands' must be an array of names made of letters, digits, '.', '_', '@' and '-'",
+      "'preconditions.minOsBuild' must be a dotted version such as 10.0.19041",
+      "'preconditions.admin' must be a boolean"
+    ]);
+  });
+
+  if (process.platform !== 'win32') {
+    it('refuses skills whose preconditions are not met before spawning them', async () => {
+      writeSkill('echo-check.json', baseMetadata({ preconditions: { commands: ['sh', 'wtc-missing-tool'] } }));
+      const marker = path.join(tempDir, 'ran.txt');
+      fs.writeFileSync(path.join(tempDir, 'echo-check.sh'), `touch "${marker}"\necho "SUCCESS: ran"\n`);
+
+      const catalog = new SkillCatalog({ skillsDirectory: tempDir });
+      catalog.load();
+      const skill = catalog.get('echo-check')!;
+      const services = { preconditions: new PreconditionChecker({ probes: createSystemProbes() }) };
+
+      await expect(getSkillApplicability(skill, services)).resolves.toMatchObject({
+        applicable: false,
+        reasons: [{ check: 'command', subject: 'wtc-missing-tool', message: "The 'wtc-missing-tool' command is not installed" }]
+      });
+
+      const error = await createSandboxedSkillHandler(skill, {}, services)({}).catch(caught => caught);
+      expect(error).toBeInstanceOf(SkillNotApplicableError);
+      expect(error.code).toBe('SKILL_NOT_APPLICABLE');
+      expect(error.reasons).toHaveLength(1);
+      expect(fs.existsSync(marker)).toBe(false);
+    });
+
+    it('runs a catalog skill through the sandbox', async () => {
+      writeSkill('echo-check.json', baseMetadata());
+      fs.writeFileSync(path.join(tempDir, 'echo-check.sh'), 'echo "SUCCESS: {\\"ok\\":true}"\n');
+
+      const catalog = new SkillCatalog({ skillsDirectory: tempDir });
+      catalog.load();
+
+      const handler = createSandboxedSkillHandler(catalog.get('echo-check')!);
+      await expect(handler({})).resolves.toBe('{"ok":true}');
+    });
+
+    it('forwards stdout and progress lines while the skill runs', async () => {
+      writeSkill('echo-check.json', baseMetadata());
+      fs.writeFileSync(
+        path.join(tempDir, 'echo-check.sh'),
+        'echo "PROGRESS: 50% Halfway"\necho "working"\necho "SUCCESS: done"\n'
+      );
+
+      const catalog = new SkillCatalog({ skillsDirectory: tempDir });
+      catalog.load();
+
+      const onProgress = jest.fn();
+      const handler = createSandboxedSkillHandler(catalog.get('echo-check')!);
+      await expect(handler({}, { onProgress })).resolves.toBe('done');
+
+      expect(onProgress).toHaveBeenCalledWith({ percent: 50, message: 'Halfway' });
+      const streamed = onProgress.mock.calls.map(([update]) => update.output ?? '').join('');
+      expect(streamed).toContain('working\n');
+    });
+
+    // Dry runs of scripts need a read-only mount namespace
+    if (process.platform === 'linux') {
+      it('previews planned actions in dry-run mode without writing', async () => {
+        writeSkill('echo-check.json', baseMetadata({ supportsDryRun: true }));
+        fs.writeFileSync(
+          path.join(tempDir, 'echo-check.sh'),
+          'if [ "$DRY_RUN" = "1" ]; then\n' +
+          '  echo \'PLAN: {"action":"delete","target":"/tmp/cache","bytes":2048}\'\n' +
+          '  echo "SUCCESS: previewed"\n' +
+          'else\n' +
+          '  echo "SUCCESS: cleaned"\n' +
+          'fi\n'
+        );
+
+        const catalog = new SkillCatalog({ skillsDirectory: tempDir });
+        catalog.load();
+        const handler = createSandboxedSkillHandler(catalog.get('echo-check')!);
+
+        // The app itself keeps writing while a preview runs
+        const probe = path.join(tempDir, 'probe.txt');
+        const onProgress = () => fs.writeFileSync(probe, 'written during dry run');
+
+        await expect(handler({}, { dryRun: true, onProgress })).resolves.toEqual({
+          output: 'previewed',
+          preview: {
+            actions: [{ action: 'delete', target: '/tmp/cache', bytes: 2048 }],
+            totalBytes: 2048,
+            summary: 'This will remove 2.0 KB from 1 location (/tmp/cache) — continue?'
+          }
+        });
+        expect(fs.readFileSync(probe, 'utf-8')).toBe('written during dry run');
+        await expect(handler({})).resolves.toBe('cleaned');
+      });
+
+      it('fails every remount, write, rename and delete a dry run attempts', async () => {
+        const target = path.join(tempDir, 'changed.txt');
+        fs.writeFileSync(target, 'original');
+        writeSkill('echo-check.json', baseMetadata({ supportsDryRun: true }));
+        fs.writeFileSync(
+          path.join(tempDir, 'echo-check.sh'),
+          'mount -o remount,bind,rw / 2>/dev/null && exit 1\n' +
+          `echo "changed" >> "${target}" && exit 1\n` +
+          `mv "${target}" "${target}.moved" && exit 1\n` +
+          `rm -f "${target}" && exit 1\n` +
+          'echo "SUCCESS: previewed"\n'
+        );
+
+        const catalog = new SkillCatalog({ skillsDirectory: tempDir });
+        catalog.load();
+        const handler = createSandboxedSkillHandler(catalog.get('echo-check')!);
+
+        await expect(handler({}, { dryRun: true })).resolves.toMatchObject({ output: 'previewed' });
+        expect(fs.readdirSync(tempDir)).toContain('changed.txt');
+        expect(fs.readFileSync(target, 'utf-8')).toBe('original');
+      });
+    }
+
+    it('refuses dry runs the device cannot keep read-only', async () => {
+      const readOnly = jest.spyOn(networkIsolation, 'getReadOnlyIsolationPrefix').mockReturnValue(null);
+      try {
+        writeSkill('echo-check.json', baseMetadata({ supportsDryRun: true }));
+        fs.writeFileSync(path.join(tempDir, 'echo-check.sh'), 'echo "SUCCESS: cleaned"\n');
+
+        const catalog = new SkillCatalog({ skillsDirectory: tempDir });
+        catalog.load();
+        const handler = createSandboxedSkillHandler(catalog.get('echo-check')!);
+
+        await expect(handler({}, { dryRun: true })).rejects.toThrow(SkillDryRunUnsupportedError);
+        await expect(handler({}, { dryRun: true })).rejects.toThrow(/cannot be kept read-only on this device/);
+      } finally {
+        readOnly.mockRestore();
+      }
+    });
+
+    it('records revertible fixes and reverts them with the recorded artifacts', async () => {
+      const archive = path.join(tempDir, 'archive');
+      writeSkill('echo-check.json', baseMetadata({
+        undo: {
+          unixScript: 'echo-check-undo.sh',
+          artifacts: [{ name: 'archive', type: 'path', required: true }],
+          expiryMinutes: 60
+        }
+      }));
+      fs.writeFileSync(
+        path.join(tempDir, 'echo-check.sh'),
+        `mkdir -p "${archive}"\necho 'ARTIFACT: {"name":"archive","value":"${archive}"}'\necho "SUCCESS: archived"\n`
+      );
+      fs.writeFileSync(path.join(tempDir, 'echo-check-undo.sh'), 'rmdir "${1#--archive=}" && echo "SUCCESS: restored"\n');
+
+      const catalog = new SkillCatalog({ skillsDirectory: tempDir });
+      catalog.load();
+      const skill = catalog.get('echo-check')!;
+      const journal = new UndoJournal();
+      const handler = createSandboxedSkillHandler(skill, {}, { undoJournal: journal });
+
+      const response = await handler({});
+      expect(response).toMatchObject({ output: 'archived', undo: { executionId: expect.any(String) } });
+      expect(journal.getLatest()).toMatchObject({ skillId: 'echo-check', artifacts: { archive }, protectedPaths: [archive] });
+
+      const { result } = await journal.revertLatest(entry => runCatalogSkillUndo(skill, entry.artifacts));
+      expect(result.output).toBe('restored');
+      expect(fs.existsSync(archive)).toBe(false);
+    });
+
+    it('reports every run to the history recorder with redacted parameters', async () => {
+      writeSkill('echo-check.json', baseMetadata({
+        parameters: [
+          { name: 'label', type: 'string', required: true },
+          { name: 'accessKey', type: 'string', required: false, sensitive: true }
+        ]
+      }));
+      fs.writeFileSync(
+        path.join(tempDir, 'echo-check.sh'),
+        '[ "$1" = "--label=fail" ] && { echo "ERROR: label refused"; exit 1; }\necho "SUCCESS: ok"\n'
+      );
+
+      const catalog = new SkillCatalog({ skillsDirectory: tempDir });
+      catalog.load();
+      const history = { record: jest.fn() };
+      const handler = createSandboxedSkillHandler(catalog.get('echo-check')!, {}, { history });
+      const logged = (['debug', 'info', 'warn', 'error'] as const).map(level => jest.spyOn(getLogManager(), level));
+
+      await handler({ label: 'inbox', accessKey: 'hunter2' }, { correlationId: 'corr-7' });
+      await expect(handler({ label: 'fail' })).rejects.toThrow('label refused');
+
+      // Sensitive values reach the script but not the logs
+      expect(util.inspect(logged.map(spy => spy.mock.calls), { depth: 6 })).not.toContain('hunter2');
+      logged.forEach(spy => spy.mockRestore());
+
+      const [[succeeded], [failed]] = history.record.mock.calls;
+      expect(succeeded).toMatchObject({
+        skillId: 'echo-check',
+        mode: 'run',
+        status: 'success',
+        params: { label: 'inbox', accessKey: '[REDACTED]' },
+        correlationId: 'corr-7',
+        result: { exitCode: 0 }
+      });
+      expect(failed).toMatchObject({ status: 'error', error: 'label refused', result: { exitCode: 1 } });
+    });
+
+    it('serves cacheable skills from the result cache until bypassed or a fix runs', async () => {
+      const counter = path.join(tempDir, 'runs.txt');
+      writeSkill('echo-check.json', baseMetadata({
+        cacheable: true,
+        parameters: [{ name: 'drive', type: 'string', required: false, defaultValue: '/' }]
+      }));
+      fs.writeFileSync(path.join(tempDir, 'echo-check.sh'), `echo run >> "${counter}"\necho "SUCCESS: checked"\n`);
+      writeSkill('fix.json', baseMetadata({ id: 'fix', unixScript: 'fix.sh' }));
+      fs.writeFileSync(path.join(tempDir, 'fix.sh'), 'echo "SUCCESS: fixed"\n');
+
+      const catalog = new SkillCatalog({ skillsDirectory: tempDir });
+      catalog.load();
+      const history = { record: jest.fn() };
+      const services = { cache: new SkillResultCache<SkillExecutionResult>(), history };
+      const check = createSandboxedSkillHandler(catalog.get('echo-check')!, {}, services);
+      const fix = createSandboxedSkillHandler(catalog.get('fix')!, {}, services);
+      const runs = () => fs.readFileSync(counter, 'utf-8').trim().split('\n').length;
+
+      await expect(check({})).resolves.toBe('checked');
+      // Same normalized parameters: the default is applied before keying
+      await expect(check({ drive: '/' })).resolves.toEqual({ output: 'checked', cachedAt: expect.any(Number) });
+      expect(runs()).toBe(1);
+      expect(history.record).toHaveBeenCalledTimes(1);
+
+      await expect(check({}, { bypassCache: true })).resolves.toBe('checked');
+      expect(runs()).toBe(2);
+
+      await fix({});
+      await expect(check({})).resolves.toBe('checked');
+      expect(runs()).toBe(3);
+    });
+
+    it('verifies the signature before serving a cached result', async () => {
+      writeSkill('echo-check.json', baseMetadata({ cacheable: true }));
+      fs.writeFileSync(path.join(tempDir, 'echo-check.sh'), 'echo "SUCCESS: checked"\n');
+
+      const catalog = new SkillCatalog({ skillsDirectory: tempDir });
+      catalog.load();
+      const verify = jest.fn();
+      const cache = new SkillResultCache<SkillExecutionResult>();
+      const services = { cache, verifier: { verify } as unknown as SkillSignatureVerifier };
+      const check = createSandboxedSkillHandler(catalog.get('echo-check')!, {}, services);
+
+      await expect(check({})).resolves.toBe('checked');
+      await expect(check({})).resolves.toEqual({ output: 'checked', cachedAt: expect.any(Number) });
+      expect(verify).toHaveBeenCalledTimes(2);
+
+      verify.mockImplementation(() => {
+        throw new SkillSignatureError("Skill 'echo-check' was modified after signing", 'tampered', 'echo-check');
+      });
+      await expect(check({})).rejects.toThrow(/modified after signing/);
+      expect(cache.getStats()).toMatchObject({ size: 0 });
+    });
+
+    it('refuses dry runs for skills that do not declare support', async () => {
+      writeSkill('echo-check.json', baseMetadata());
+      fs.writeFileSync(path.join(tempDir, 'echo-check.sh'), 'echo "SUCCESS: cleaned"\n');
+
+      const catalog = new SkillCatalog({ skillsDirectory: tempDir });
+      catalog.load();
+      const handler = createSandboxedSkillHandler(catalog.get('echo-check')!);
+
+      await expect(handler({}, { dryRun: true })).rejects.toBeInstanceOf(SkillDryRunUnsupportedError);
+    });
+
+    it('kills the whole process tree when cancelled and keeps partial output', async () => {
+      writeSkill('echo-check.json', baseMetadata());
+      fs.writeFileSync(
+        path.join(tempDir, 'echo-check.sh'),
+        'echo "PROGRESS: 10 Started"\nsleep 30 &\necho "DATA: {\\"pid\\": $!}"\nwait\necho "SUCCESS: finished"\n'
+      );
+
+      const catalog = new SkillCatalog({ skillsDirectory: tempDir });
+      catalog.load();
+
+      const resourceCleaner = new ResourceCleaner({ autoCleanup: false });
+      const controller = new AbortController();
+      let childPid = 0;
+      const handler = createSandboxedSkillHandler(catalog.get('echo-check')!, { resourceCleaner });
+
+      const run = handler({}, {
+        signal: controller.signal,
+        onProgress: ({ output }) => {
+          const match = /"pid": (\d+)/.exec(output ?? '');
+          if (match) {
+            childPid = Number(match[1]);
+            controller.abort();
+          }
+        }
+      });
+
+      const error = await run.catch(caught => caught);
+      expect(error).toBeInstanceOf(SkillCancelledError);
+      expect(error.partialOutput).toContain('PROGRESS: 10 Started');
+      expect(resourceCleaner.getTrackedResources()).toEqual([]);
+
+      // The backgrounded grandchild must be gone (or at most an unreaped zombie)
+      expect(childPid).toBeGreaterThan(0);
+      const status = spawnSync('ps', ['-o', 'stat=', '-p', String(childPid)], { encoding: 'utf-8' }).stdout.trim();
+      expect(status === '' || status.startsWith('Z')).toBe(true);
+
+      await resourceCleaner.dispose();
+    });
+  }
+});
@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { SkillInstallError, SkillInstaller } from '../skill-installer';
+import { SkillPackageError, packSkillPackage, readSkillPackage } from '../skill-package';
+import { SkillCatalog } from '../skill-catalog';
+import { getLogManager } from '../logging';
+
+describe('SkillInstaller', () => {
+  const tempDir = path.join(__dirname, '__temp_skill_installer__');
+  const sourceDir = path.join(tempDir, 'source');
+  const installDir = path.join(tempDir, 'installed');
+
+  // Build a package for echo-check at the given version
+  const buildPackage = (version: string, overrides: Record<string, any> = {}): Buffer => {
+    fs.rmSync(sourceDir, { recursive: true, force: true });
+    fs.mkdirSync(path.join(sourceDir, 'assets', 'echo-check'), { recursive: true });
+    fs.writeFileSync(path.join(sourceDir, 'echo-check.json'), JSON.stringify({
+      id: 'echo-check',
+      name: 'Echo Check',
+      description: 'Emits a success line for install testing',
+      os: ['windows', 'linux', 'macos'],
+      riskLevel: 'low',
+      requiresAdmin: false,
+      script: `echo-check-${version}.sh`,
+      version,
+      parameters: [],
+      output: { success: 'Echo succeeded', failure: 'Echo failed' },
+      ...overrides
+    }));
+    fs.writeFileSync(path.join(sourceDir, `echo-check-${version}.sh`), `echo "SUCCESS: ${version}"\n`);
+    fs.writeFileSync(path.join(sourceDir, 'assets', 'echo-check', 'readme.txt'), version);
+    return packSkillPackage(sourceDir, 'echo-check.json');
+  };
+
+  const archive = (files: Array<{ path: string; data: string }>) => zlib.gzipSync(Buffer.from(JSON.stringify({
+    format: 'wtc-skill-package',
+    formatVersion: 1,
+    files: files.map(file => ({ path: file.path, data: Buffer.from(file.data).toString('base64') }))
+  })));
+
+  beforeEach(() => {
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await getLogManager().shutdown();
+  });
+
+  it('rejects archives with unsafe paths or misplaced metadata', () => {
+    const metadata = JSON.stringify({ id: 'echo-check', version: '1.0.0' });
+    expect(() => readSkillPackage(Buffer.from('not gzip'))).toThrow(SkillPackageError);
+    expect(() => readSkillPackage(archive([
+      { path: 'echo-check.json', data: metadata },
+      { path: '../escape.sh', data: 'echo' }
+    ]))).toThrow("Package path '../escape.sh' is not allowed");
+    expect(() => readSkillPackage(archive([
+      { path: 'echo-check.json', data: metadata },
+      { path: 'assets/other-skill/logo.png', data: 'x' }
+    ]))).toThrow(/must be a top-level file or under assets\/echo-check\//);
+    expect(() => readSkillPackage(archive([{ path: 'renamed.json', data: metadata }])))
+      .toThrow("Metadata file for 'echo-check' must be named echo-check.json");
+    expect(() => readSkillPackage(archive([
+      { path: 'echo-check.json', data: metadata },
+      { path: 'helpers.sh', data: 'echo' }
+    ]))).toThrow("'helpers.sh' is not a script, lockfile or signature of echo-check; other files belong under assets/echo-check/");
+  });
+
+  it('installs, upgrades, rolls back and uninstalls packages in the active directory', () => {
+    const installer = new SkillInstaller({
+      installDirectory: installDir,
+      platform: 'linux',
+      reservedSkillIds: () => ['disk-space']
+    });
+    const activeDir = installer.getActiveDirectory();
+    const catalog = new SkillCatalog({ skillsDirectory: activeDir, platform: 'linux' });
+
+    expect(installer.install(buildPackage('1.0.0'))).toEqual({ skillId: 'echo-check', action: 'installed', version: '1.0.0' });
+    catalog.load();
+    expect(catalog.get('echo-check')?.scriptPath).toBe(path.join(activeDir, 'echo-check-1.0.0.sh'));
+    expect(fs.readFileSync(path.join(activeDir, 'assets', 'echo-check', 'readme.txt'), 'utf-8')).toBe('1.0.0');
+
+    expect(() => installer.install(buildPackage('1.0.0'))).toThrow('echo-check 1.0.0 is already installed');
+    expect(installer.install(buildPackage('1.1.0'))).toMatchObject({ action: 'upgraded', previousVersion: '1.0.0' });
+    // The replaced script is gone from the active directory but kept for rollback
+    expect(fs.readdirSync(activeDir).sort()).toEqual(['assets', 'echo-check-1.1.0.sh', 'echo-check.json']);
+
+    const downgrade = buildPackage('0.9.0');
+    expect(() => installer.install(downgrade)).toThrow(expect.objectContaining({ reason: 'downgrade' }));
+    expect(() => installer.install(buildPackage('1.2.0', { riskLevel: 'extreme' })))
+      .toThrow(expect.objectContaining({ reason: 'invalid_skill' }));
+    expect(() => installer.install(archive([{ path: 'disk-space.json', data: JSON.stringify({ id: 'disk-space', version: '9.0.0' }) }])))
+      .toThrow("'disk-space' is a built-in skill and cannot be replaced");
+
+    expect(installer.rollback('echo-check')).toEqual({
+      skillId: 'echo-check',
+      action: 'rolled_back',
+      version: '1.0.0',
+      previousVersion: '1.1.0'
+    });
+    expect(catalog.reloadSkillFile('echo-check.json')).toMatchObject([{ status: 'updated' }]);
+    expect(catalog.get('echo-check')?.metadata.version).toBe('1.0.0');
+
+    expect(installer.install(downgrade, { allowDowngrade: true })).toMatchObject({ action: 'downgraded', version: '0.9.0' });
+    // Only the active version and the one it replaced are kept
+    expect(fs.readdirSync(path.join(installDir, 'versions', 'echo-check')).sort()).toEqual(['0.9.0', '1.0.0']);
+
+    // The registry survives a restart
+    const reopened = new SkillInstaller({ installDirectory: installDir, platform: 'linux' });
+    expect(reopened.list()).toMatchObject([{ skillId: 'echo-check', version: '0.9.0', previousVersion: '1.0.0' }]);
+
+    expect(reopened.uninstall('echo-check')).toEqual({ skillId: 'echo-check', action: 'uninstalled', previousVersion: '0.9.0' });
+    expect(fs.readdirSync(activeDir)).toEqual(['assets']);
+    expect(fs.readdirSync(path.join(activeDir, 'assets'))).toEqual([]);
+    expect(catalog.reloadSkillFile('echo-check.json')).toMatchObject([{ status: 'removed' }]);
+    expect(() => reopened.rollback('echo-check')).toThrow(SkillInstallError);
+  });
+
+  it('refuses ids and versions that would leave the install directory', () => {
+    const installer = new SkillInstaller({ installDirectory: installDir, platform: 'linux' });
+    // Where versions/echo-check/../../../x.staging would land
+    const outside = path.join(tempDir, 'x.staging');
+    fs.mkdirSync(outside, { recursive: true });
+    fs.writeFileSync(path.join(outside, 'keep.txt'), 'keep');
+
+    expect(() => installer.install(archive([
+      { path: 'echo-check.json', data: JSON.stringify({ id: 'echo-check', version: '../../../x' }) },
+      { path: 'escape.sh', data: 'echo' }
+    ]))).toThrow(expect.objectContaining({ reason: 'invalid_package', message: expect.stringContaining('major.minor.patch') }));
+    expect(() => readSkillPackage(archive([{ path: 'Echo.json', data: JSON.stringify({ id: 'Echo', version: '1.0.0' }) }])))
+      .toThrow("Skill id 'Echo' must be lowercase letters, digits and hyphens");
+    expect(fs.readFileSync(path.join(outside, 'keep.txt'), 'utf8')).toBe('keep');
+    expect(fs.existsSync(path.join(tempDir, 'x'))).toBe(false);
+  });
+});
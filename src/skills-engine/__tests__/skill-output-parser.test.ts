@@ -0,0 +1,134 @@
+import {
+  SkillOutputParser,
+  SkillOutputError,
+  parseSkillOutput,
+  createSkillExecutionResult,
+  summarizePlannedActions
+} from '../skill-output-parser';
+import { SandboxResult } from '../sandbox';
+
+describe('Skill output protocol', () => {
+  const sandboxResult = (overrides: Partial<SandboxResult> = {}): SandboxResult => ({
+    exitCode: 0,
+    stdout: '',
+    stderr: '',
+    executionTimeMs: 12,
+    resourceUsage: { cpuPercentage: 0, memoryBytes: 0, diskWriteBytes: 0, networkBytes: 0 },
+    securityEvents: [],
+    ...overrides
+  });
+
+  it('parses every record type into a typed result', () => {
+    const parsed = parseSkillOutput([
+      'Starting cleanup',
+      'PROGRESS: 25% Scanning temp folders',
+      'PROGRESS: {"percent":80,"message":"Removing files","removed":42}',
+      'WARN: C:\\Temp\\locked.tmp is in use',
+      'DATA: {"path":"C:\\\\Temp","freedBytes":1024}',
+      'INFO: Spooler restarted',
+      'ARTIFACT: {"name":"archivePath","value":"C:\\\\Temp\\\\archive"}',
+      'SUCCESS: {"freedBytes":1024,"paths":1}'
+    ].join('\r\n'));
+
+    expect(parsed).toEqual({
+      status: 'success',
+      payload: { freedBytes: 1024, paths: 1 },
+      message: undefined,
+      progress: [
+        { percent: 25, message: 'Scanning temp folders' },
+        { percent: 80, message: 'Removing files', data: { removed: 42 } }
+      ],
+      warnings: ['C:\\Temp\\locked.tmp is in use'],
+      data: [{ path: 'C:\\Temp', freedBytes: 1024 }],
+      plannedActions: [],
+      artifacts: { archivePath: 'C:\\Temp\\archive' },
+      logLines: ['Starting cleanup', 'INFO: Spooler restarted']
+    });
+  });
+
+  it('accepts text results and keeps earlier ERROR lines as warnings', () => {
+    const parsed = parseSkillOutput([
+      'ERROR: Failed to remove spool file job1.spl: access denied',
+      'WARNING: Spool directory not found',
+      'SUCCESS: Print spooler reset and queue cleared successfully.'
+    ].join('\n'));
+
+    expect(parsed.status).toBe('success');
+    expect(parsed.message).toBe('Print spooler reset and queue cleared successfully.');
+    expect(parsed.warnings).toEqual([
+      'Spool directory not found',
+      'Failed to remove spool file job1.spl: access denied'
+    ]);
+  });
+
+  it('emits progress as lines arrive across chunks', () => {
+    const parser = new SkillOutputParser();
+    const progress = jest.fn();
+    parser.on('progress', progress);
+
+    parser.push('PROGRESS: 1');
+    expect(progress).not.toHaveBeenCalled();
+    parser.push('0 Working\nSUCC');
+    expect(progress).toHaveBeenCalledWith({ percent: 10, message: 'Working' });
+    parser.push('ESS: done\n');
+
+    expect(parser.end().message).toBe('done');
+  });
+
+  it.each([
+    ['missing result', 'PROGRESS: 10\n', 'missing_result'],
+    ['malformed JSON payload', 'SUCCESS: {"ok":\n', 'malformed_json'],
+    ['non-JSON DATA record', 'DATA: not json\nSUCCESS: ok\n', 'malformed_json'],
+    ['records after SUCCESS', 'SUCCESS: ok\nERROR: late failure\n', 'conflicting_result'],
+    ['PLAN records without a target', 'PLAN: {"action":"delete"}\nSUCCESS: ok\n', 'invalid_record'],
+    ['ARTIFACT records with object values', 'ARTIFACT: {"name":"state","value":{}}\nSUCCESS: ok\n', 'invalid_record']
+  ])('rejects %s', (_label, stdout, reason) => {
+    expect(() => parseSkillOutput(stdout)).toThrow(expect.objectContaining({ reason }));
+  });
+
+  it('collects PLAN records and summarizes them for confirmation', () => {
+    const parsed = parseSkillOutput([
+      'PLAN: {"action":"delete","target":"/tmp","bytes":1073741824,"description":"Remove files older than 7 days"}',
+      'PLAN: {"action":"delete","target":"/var/tmp","bytes":214748365}',
+      'PLAN: {"action":"stop","target":"Teams (4312)"}',
+      'SUCCESS: {"dryRun":true}'
+    ].join('\n'));
+
+    expect(parsed.plannedActions).toEqual([
+      { action: 'delete', target: '/tmp', bytes: 1073741824, description: 'Remove files older than 7 days' },
+      { action: 'delete', target: '/var/tmp', bytes: 214748365 },
+      { action: 'stop', target: 'Teams (4312)' }
+    ]);
+
+    const preview = summarizePlannedActions(parsed.plannedActions);
+    expect(preview.totalBytes).toBe(1288490189);
+    expect(preview.summary).toBe(
+      'This will remove 1.2 GB from 2 locations and stop 1 process (/tmp, /var/tmp, Teams (4312)) — continue?'
+    );
+    expect(summarizePlannedActions([]).summary).toBe('No changes are needed.');
+  });
+
+  it('enforces size limits', () => {
+    expect(() => parseSkillOutput(`SUCCESS: ${'x'.repeat(200)}\n`, { maxLineLength: 100 }))
+      .toThrow(expect.objectContaining({ reason: 'line_too_long' }));
+    expect(() => parseSkillOutput('DATA: {}\n'.repeat(600), { maxOutputBytes: 4096 }))
+      .toThrow(expect.objectContaining({ reason: 'output_too_large' }));
+    expect(() => parseSkillOutput('DATA: {}\nDATA: {}\nSUCCESS: ok\n', { maxDataRecords: 1 }))
+      .toThrow(SkillOutputError);
+  });
+
+  it('builds a SkillExecutionResult from a sandbox run', () => {
+    const success = createSkillExecutionResult(sandboxResult({ stdout: 'SUCCESS: {"ok":true}\n' }));
+    expect(success).toMatchObject({ success: true, output: '{"ok":true}', executionTimeMs: 12 });
+    expect(success.parsedOutput?.payload).toEqual({ ok: true });
+
+    const failure = createSkillExecutionResult(sandboxResult({ exitCode: 1, stdout: 'ERROR: Adapter not found\n' }));
+    expect(failure).toMatchObject({ success: false, error: 'Adapter not found' });
+    expect(failure.parsedOutput?.status).toBe('error');
+
+    const malformed = createSkillExecutionResult(sandboxResult({ stdout: 'done\n' }));
+    expect(malformed.success).toBe(false);
+    expect(malformed.error).toMatch(/did not include a SUCCESS: or ERROR: line/);
+    expect(malformed.parsedOutput).toBeUndefined();
+  });
+});
@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PreconditionChecker, SystemProbes, compareOsBuilds, readLinuxPowerSupply } from '../skill-preconditions';
+import { SkillMetadata } from '../types';
+import { getLogManager } from '../logging';
+
+const metadata = (preconditions: SkillMetadata['preconditions']): SkillMetadata => ({
+  id: 'printer-queue-clear',
+  name: 'Printer Queue Reset',
+  description: 'Clears the print queue',
+  os: ['windows'],
+  riskLevel: 'medium',
+  requiresAdmin: true,
+  script: 'printer-queue-clear.ps1',
+  version: '1.0.0',
+  parameters: [],
+  preconditions,
+  output: { success: 'Done', failure: 'Failed' }
+});
+
+// Device with PowerShell, the NetAdapter module and no print spooler, on battery
+const fakeProbes = (): SystemProbes => ({
+  hasCommand: jest.fn(async (command: string) => command === 'powershell'),
+  hasModule: jest.fn(async (module: string) => module === 'NetAdapter'),
+  getOsBuild: jest.fn(async () => '10.0.19045'),
+  hasService: jest.fn(async () => false),
+  isElevated: jest.fn(async () => false),
+  isOnBattery: jest.fn(async () => true),
+  isMeteredNetwork: jest.fn(async () => null)
+});
+
+describe('PreconditionChecker', () => {
+  const tempDir = path.join(__dirname, '__temp_preconditions__');
+
+  beforeEach(() => {
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await getLogManager().shutdown();
+  });
+
+  it('reports every precondition the device does not meet', async () => {
+    const checker = new PreconditionChecker({ probes: fakeProbes() });
+
+    const result = await checker.evaluate(metadata({
+      commands: ['powershell', 'pnputil'],
+      modules: ['NetAdapter'],
+      minOsBuild: '10.0.22000',
+      services: ['Spooler'],
+      admin: true,
+      notOnBattery: true,
+      notOnMeteredNetwork: true
+    }), 'powershell');
+
+    expect(result.applicable).toBe(false);
+    expect(result.reasons).toEqual([
+      { check: 'admin', message: 'Administrator rights are required' },
+      { check: 'command', subject: 'pnputil', message: "The 'pnputil' command is not installed" },
+      { check: 'os_build', subject: '10.0.22000', message: 'OS build 10.0.22000 or later is required (this device has 10.0.19045)' },
+      { check: 'service', subject: 'Spooler', message: "The 'Spooler' service is not installed" },
+      { check: 'battery', message: 'The device is running on battery power' }
+    ]);
+
+    expect(await checker.evaluate(metadata(undefined), 'powershell')).toMatchObject({ applicable: true, reasons: [] });
+  });
+
+  it('reuses probe answers until they expire', async () => {
+    const probes = fakeProbes();
+    const checker = new PreconditionChecker({ probes, volatileCacheTtlMs: 0 });
+    const skill = metadata({ services: ['Spooler'], notOnBattery: true });
+
+    await checker.evaluate(skill, 'powershell');
+    await checker.evaluate(skill, 'powershell');
+
+    expect(probes.hasService).toHaveBeenCalledTimes(1);
+    expect(probes.isOnBattery).toHaveBeenCalledTimes(2);
+
+    checker.clearCache();
+    await checker.evaluate(skill, 'powershell');
+    expect(probes.hasService).toHaveBeenCalledTimes(2);
+  });
+
+  it('compares OS builds and reads the power supply from sysfs', async () => {
+    expect(compareOsBuilds('10.0.19045', '10.0.19041')).toBeGreaterThan(0);
+    expect(compareOsBuilds('6.5.0-27-generic', '6.5')).toBe(0);
+    expect(compareOsBuilds('5.15.0', '6.1')).toBeLessThan(0);
+
+    const supply = (name: string, files: Record<string, string>) => {
+      fs.mkdirSync(path.join(tempDir, name), { recursive: true });
+      for (const [file, value] of Object.entries(files)) {
+        fs.writeFileSync(path.join(tempDir, name, file), `${value}\n`);
+      }
+    };
+
+    expect(await readLinuxPowerSupply(path.join(tempDir, 'missing'))).toBeNull();
+    supply('BAT0', { type: 'Battery', status: 'Discharging' });
+    supply('AC', { type: 'Mains', online: '0' });
+    expect(await readLinuxPowerSupply(tempDir)).toBe(true);
+    supply('AC', { type: 'Mains', online: '1' });
+    expect(await readLinuxPowerSupply(tempDir)).toBe(false);
+  });
+});
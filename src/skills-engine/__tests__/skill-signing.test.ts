@@ -0,0 +1,190 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SkillSignatureVerifier, SkillTrustPolicy, signSkillPackage, loadSkillTrustPolicy } from '../skill-signing';
+import { SkillCatalog, createSandboxedSkillHandler } from '../skill-catalog';
+import { getLogManager } from '../logging';
+
+describe('Skill signing', () => {
+  const tempDir = path.join(__dirname, '__temp_signing__');
+  const metadataPath = path.join(tempDir, 'echo-check.json');
+  const scriptPath = path.join(tempDir, 'echo-check.sh');
+
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  const publisherKey = {
+    keyId: 'niftybyte-2025',
+    publisher: 'NiftyByte',
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString()
+  };
+
+  const policy = (overrides: Partial<SkillTrustPolicy> = {}): SkillTrustPolicy => ({
+    organizationId: 'contoso',
+    trustedKeys: [publisherKey],
+    allowUnsigned: false,
+    ...overrides
+  });
+
+  const createVerifier = (trustPolicy: SkillTrustPolicy) => {
+    const auditLogger = { logEvent: jest.fn().mockResolvedValue({}) };
+    return { verifier: new SkillSignatureVerifier({ policy: trustPolicy }, auditLogger), auditLogger };
+  };
+
+  const metadata = {
+    id: 'echo-check',
+    name: 'Echo Check',
+    description: 'Emits a success line for signing tests',
+    os: ['windows', 'linux', 'macos'],
+    riskLevel: 'low',
+    requiresAdmin: false,
+    unixScript: 'echo-check.sh',
+    version: '1.0.0',
+    parameters: [],
+    output: { success: 'Echo succeeded', failure: 'Echo failed' }
+  };
+
+  beforeEach(() => {
+    fs.mkdirSync(tempDir, { recursive: true });
+    fs.writeFileSync(metadataPath, JSON.stringify(metadata));
+    fs.writeFileSync(scriptPath, 'echo "SUCCESS: {}"\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await getLogManager().shutdown();
+  });
+
+  it('writes a manifest covering the metadata and every script', () => {
+    const manifest = signSkillPackage(metadataPath, privateKey, { publisher: 'NiftyByte', keyId: 'niftybyte-2025' });
+
+    expect(Object.keys(manifest.files)).toEqual(['echo-check.json', 'echo-check.sh']);
+    expect(fs.existsSync(path.join(tempDir, 'echo-check.manifest'))).toBe(true);
+    expect(fs.existsSync(path.join(tempDir, 'echo-check.manifest.sig'))).toBe(true);
+  });
+
+  it('signs every asset and refuses assets added or removed after signing', () => {
+    const assets = path.join(tempDir, 'assets', 'echo-check');
+    fs.mkdirSync(path.join(assets, 'modules'), { recursive: true });
+    fs.writeFileSync(path.join(assets, 'modules', 'helpers.sh'), 'helper() { :; }\n');
+    const manifest = signSkillPackage(metadataPath, privateKey, { publisher: 'NiftyByte', keyId: 'niftybyte-2025' });
+    const { verifier } = createVerifier(policy());
+
+    expect(Object.keys(manifest.files)).toEqual(['assets/echo-check/modules/helpers.sh', 'echo-check.json', 'echo-check.sh']);
+    expect(verifier.verify(metadataPath, metadata as any, 'execute')).toMatchObject({ signed: true });
+
+    fs.writeFileSync(path.join(assets, 'extra.sh'), 'rm -rf ~\n');
+    expect(() => verifier.verify(metadataPath, metadata as any, 'execute')).toThrow(/does not cover assets\/echo-check\/extra\.sh/);
+    fs.rmSync(path.join(assets, 'extra.sh'));
+    fs.rmSync(path.join(assets, 'modules'), { recursive: true });
+    expect(() => verifier.verify(metadataPath, metadata as any, 'execute')).toThrow(/no longer has the signed assets\/echo-check\/modules\/helpers\.sh/);
+  });
+
+  it('accepts a package signed by a trusted publisher', () => {
+    signSkillPackage(metadataPath, privateKey, { publisher: 'NiftyByte', keyId: 'niftybyte-2025' });
+    const { verifier, auditLogger } = createVerifier(policy());
+
+    const result = verifier.verify(metadataPath, metadata as any, 'register');
+
+    expect(result).toMatchObject({ signed: true, publisher: 'NiftyByte', keyId: 'niftybyte-2025' });
+    expect(auditLogger.logEvent).not.toHaveBeenCalled();
+  });
+
+  it('refuses unsigned packages and audits the refusal', () => {
+    const { verifier, auditLogger } = createVerifier(policy());
+
+    expect(() => verifier.verify(metadataPath, metadata as any, 'register')).toThrow(/not signed/);
+    expect(auditLogger.logEvent).toHaveBeenCalledWith(
+      'skill.signature_verification',
+      'skill:echo-check',
+      'register',
+      'failure',
+      expect.objectContaining({ reason: 'unsigned', organizationId: 'contoso' })
+    );
+  });
+
+  it('allows unsigned packages only when the organization opts in', () => {
+    const { verifier, auditLogger } = createVerifier(policy({ allowUnsigned: true }));
+
+    expect(verifier.verify(metadataPath, metadata as any, 'register').signed).toBe(false);
+    expect(auditLogger.logEvent).toHaveBeenCalledWith(
+      'skill.signature_verification', 'skill:echo-check', 'register', 'warning', expect.any(Object)
+    );
+  });
+
+  it('refuses packages signed with a key the organization does not trust', () => {
+    signSkillPackage(metadataPath, privateKey, { publisher: 'NiftyByte', keyId: 'niftybyte-2025' });
+    const { verifier } = createVerifier(policy({ organizationId: 'fabrikam', trustedKeys: [] }));
+
+    expect(() => verifier.verify(metadataPath, metadata as any, 'register')).toThrow(/not trusted by fabrikam/);
+  });
+
+  it('refuses a forged signature', () => {
+    const other = crypto.generateKeyPairSync('ed25519');
+    signSkillPackage(metadataPath, other.privateKey, { publisher: 'NiftyByte', keyId: 'niftybyte-2025' });
+    const { verifier } = createVerifier(policy());
+
+    expect(() => verifier.verify(metadataPath, metadata as any, 'register')).toThrow(/does not match its manifest/);
+  });
+
+  it('supports RSA publisher keys', () => {
+    const rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    signSkillPackage(metadataPath, rsa.privateKey, { publisher: 'Contoso IT', keyId: 'contoso-rsa' });
+    const { verifier } = createVerifier(policy({
+      trustedKeys: [{
+        keyId: 'contoso-rsa',
+        publisher: 'Contoso IT',
+        publicKey: rsa.publicKey.export({ type: 'spki', format: 'pem' }).toString()
+      }]
+    }));
+
+    expect(verifier.verify(metadataPath, metadata as any, 'register').signed).toBe(true);
+  });
+
+  it('keeps unsigned skills out of the catalog', () => {
+    const { verifier } = createVerifier(policy());
+    const catalog = new SkillCatalog({ skillsDirectory: tempDir, platform: 'linux', verifier });
+
+    const { skills, rejected } = catalog.load();
+
+    expect(skills).toEqual([]);
+    expect(rejected).toEqual([expect.objectContaining({ skillId: 'echo-check', reason: 'unsigned' })]);
+  });
+
+  it('refuses to execute a script modified after registration', async () => {
+    signSkillPackage(metadataPath, privateKey, { publisher: 'NiftyByte', keyId: 'niftybyte-2025' });
+    const { verifier, auditLogger } = createVerifier(policy());
+    const catalog = new SkillCatalog({ skillsDirectory: tempDir, platform: 'linux', verifier });
+    catalog.load();
+
+    const skill = catalog.get('echo-check')!;
+    expect(skill.verification?.signed).toBe(true);
+
+    fs.writeFileSync(scriptPath, 'echo "SUCCESS: {\\"owned\\":true}"\n');
+    const handler = createSandboxedSkillHandler(skill, {}, { verifier });
+
+    await expect(handler({})).rejects.toThrow(/does not match its signed hash/);
+    expect(auditLogger.logEvent).toHaveBeenCalledWith(
+      'skill.signature_verification',
+      'skill:echo-check',
+      'execute',
+      'failure',
+      expect.objectContaining({ reason: 'tampered' })
+    );
+  });
+
+  it('loads an organization trust policy from disk', () => {
+    const policyPath = path.join(tempDir, 'trust.json');
+    fs.writeFileSync(policyPath, JSON.stringify({ organizationId: 'contoso', trustedKeys: [publisherKey] }));
+
+    expect(loadSkillTrustPolicy(policyPath)).toEqual({
+      organizationId: 'contoso',
+      trustedKeys: [publisherKey],
+      allowUnsigned: false
+    });
+
+    fs.writeFileSync(policyPath, JSON.stringify({ trustedKeys: [] }));
+    expect(() => loadSkillTrustPolicy(policyPath)).toThrow(/organizationId/);
+  });
+});
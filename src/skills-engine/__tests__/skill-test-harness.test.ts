@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SkillTestHarness, findSkillTestFiles } from '../skill-test-harness';
+import { getLogManager } from '../logging';
+
+const FIXTURE_SKILLS = path.join(__dirname, 'fixtures', 'skill-tests');
+// scripts/test-skills.js points the skill tests at another skills directory
+const SKILLS_DIRECTORY = process.env.WTC_SKILLS_DIRECTORY ?? FIXTURE_SKILLS;
+
+afterAll(async () => {
+  await getLogManager().shutdown();
+});
+
+describe('SkillTestHarness', () => {
+  const tempDir = path.join(__dirname, '__temp_skill_tests__');
+  const testsDir = path.join(FIXTURE_SKILLS, 'tests');
+
+  beforeEach(() => {
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  if (process.platform !== 'win32') {
+    const loadCase = (file: string) => new SkillTestHarness({ skillsDirectory: FIXTURE_SKILLS })
+      .loadTestFile(path.join(testsDir, file));
+
+    it('reports golden differences, stub calls and unexpected security events', async () => {
+      const golden = path.join(tempDir, 'golden.json');
+      const expected = JSON.parse(fs.readFileSync(path.join(testsDir, 'golden', 'volume-report-above-threshold.json'), 'utf-8'));
+      expected.parsedOutput.payload.threshold = 75;
+      fs.writeFileSync(golden, JSON.stringify(expected));
+
+      const harness = new SkillTestHarness({ skillsDirectory: FIXTURE_SKILLS });
+      const result = await harness.run({
+        ...loadCase('volume-report-above-threshold.json'),
+        // Emptied by the sandbox's sanitization, which reports it
+        env: { THRESHOLD_PERCENT: '$;' },
+        golden,
+        expect: { calls: { df: [['-k']] } }
+      }, testsDir);
+
+      expect(result.passed).toBe(false);
+      expect(result.stubCalls).toEqual({ df: [['-P']] });
+      expect(result.failures).toEqual([
+        expect.stringMatching(/^Unexpected high suspicious_behavior security event: Environment variable validation failed/),
+        expect.stringContaining('$.parsedOutput.payload.threshold: expected 75, got 90'),
+        'Expected df to be called with [["-k"]], got [["-P"]]'
+      ]);
+    });
+
+    it('writes the golden file in update mode', async () => {
+      const golden = path.join(tempDir, 'golden', 'df-fails.json');
+      const harness = new SkillTestHarness({ skillsDirectory: FIXTURE_SKILLS, updateGolden: true });
+
+      const result = await harness.run({ ...loadCase('volume-report-df-fails.json'), golden }, testsDir);
+
+      expect(result).toMatchObject({ passed: true, goldenUpdated: true });
+      expect(JSON.parse(fs.readFileSync(golden, 'utf-8'))).toMatchObject({
+        success: false,
+        exitCode: 1,
+        parsedOutput: { status: 'error', message: 'Unable to read volume usage' }
+      });
+    });
+  }
+});
+
+describe('skill tests', () => {
+  const harness = new SkillTestHarness({
+    skillsDirectory: SKILLS_DIRECTORY,
+    updateGolden: process.env.WTC_UPDATE_GOLDEN === '1'
+  });
+
+  for (const file of findSkillTestFiles(path.join(SKILLS_DIRECTORY, 'tests'))) {
+    it(path.basename(file, '.json'), async () => {
+      const result = await harness.runFile(file);
+      expect(result.failures).toEqual([]);
+    });
+  }
+});
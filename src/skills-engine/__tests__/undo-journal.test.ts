@@ -0,0 +1,137 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SkillUndoUnavailableError, UndoJournal } from '../undo-journal';
+import { ResourceManager } from '../resource-manager';
+import { SkillExecutionResult } from '../types';
+import { getLogManager } from '../logging';
+
+const MINUTE = 60 * 1000;
+
+const executionResult = (success: boolean, output: string): SkillExecutionResult => ({
+  success,
+  output,
+  error: success ? undefined : output,
+  executionTimeMs: 5,
+  resourceUsage: { cpuPercentage: 0, memoryBytes: 0, diskWriteBytes: 0, networkBytes: 0 },
+  securityEvents: []
+});
+
+const createResourceManager = () => new ResourceManager({ freeMemory: false });
+
+describe('UndoJournal', () => {
+  const tempDir = path.join(__dirname, '__temp_undo__');
+
+  beforeEach(() => {
+    fs.mkdirSync(tempDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await getLogManager().shutdown();
+  });
+
+  it('reverts the latest fix once and reports what is left', async () => {
+    const journal = new UndoJournal();
+    const first = journal.record({ skillId: 'disk-space', skillName: 'Disk Space', artifacts: { run: 1 } });
+    const second = journal.record({ skillId: 'app-cache-reset', skillName: 'Cache Reset', artifacts: { run: 2 } });
+
+    expect(journal.getLatest()?.executionId).toBe(second.executionId);
+    expect(journal.getLatest('disk-space')?.executionId).toBe(first.executionId);
+
+    const revert = jest.fn(async () => executionResult(true, 'restored'));
+    const { entry, result } = await journal.revertLatest(revert);
+
+    expect(revert).toHaveBeenCalledWith(expect.objectContaining({ artifacts: { run: 2 } }));
+    expect(entry).toMatchObject({ executionId: second.executionId, status: 'reverted' });
+    expect(result.output).toBe('restored');
+    expect(journal.getLatest()?.executionId).toBe(first.executionId);
+
+    await journal.revertLatest(revert);
+    await expect(journal.revertLatest(revert)).rejects.toMatchObject({ code: 'UNDO_NOT_AVAILABLE' });
+  });
+
+  it('refuses fixes whose undo window has ended', async () => {
+    const journal = new UndoJournal({ defaultExpiryMinutes: 30 });
+    const now = Date.now();
+    journal.record({ skillId: 'app-cache-reset', skillName: 'Cache Reset', artifacts: {} }, now);
+
+    const error = await journal.revertLatest(async () => executionResult(true, 'restored'), undefined, now + 31 * MINUTE)
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(SkillUndoUnavailableError);
+    expect(error.code).toBe('UNDO_EXPIRED');
+    expect(journal.list()[0].status).toBe('expired');
+  });
+
+  it('keeps a failed revert available for another attempt', async () => {
+    const journal = new UndoJournal();
+    journal.record({ skillId: 'app-cache-reset', skillName: 'Cache Reset', artifacts: {} });
+
+    await expect(journal.revertLatest(async () => executionResult(false, 'Outlook is running')))
+      .rejects.toThrow('Reverting Cache Reset failed: Outlook is running');
+    expect(journal.getLatest()).toMatchObject({ status: 'available', lastError: 'Outlook is running' });
+
+    await expect(journal.revertLatest(async () => executionResult(true, 'restored')))
+      .resolves.toMatchObject({ entry: { status: 'reverted' } });
+  });
+
+  it('persists entries across sessions', () => {
+    const journalPath = path.join(tempDir, 'undo-journal.json');
+    const recorded = new UndoJournal({ journalPath })
+      .record({ skillId: 'app-cache-reset', skillName: 'Cache Reset', artifacts: { Timestamp: '20250101-120000' } });
+
+    const reloaded = new UndoJournal({ journalPath });
+    expect(reloaded.getLatest()).toEqual(recorded);
+  });
+
+  it('protects the artifacts of unexpired fixes again after a restart', () => {
+    const journalPath = path.join(tempDir, 'undo-journal.json');
+    const archive = path.join(tempDir, 'archive');
+    const stale = path.join(tempDir, 'stale');
+    const journal = new UndoJournal({ journalPath, resourceManager: createResourceManager() });
+    journal.record({ skillId: 'app-cache-reset', skillName: 'Cache Reset', artifacts: {}, protectedPaths: [stale], expiryMinutes: 60 },
+      Date.now() - 2 * 60 * MINUTE);
+    journal.record({ skillId: 'app-cache-reset', skillName: 'Cache Reset', artifacts: {}, protectedPaths: [archive], expiryMinutes: 60 });
+
+    // A new process starts with a ResourceManager that protects nothing
+    const resourceManager = createResourceManager();
+    const reopened = new UndoJournal({ journalPath, resourceManager });
+    expect(resourceManager.isPathProtected(archive)).toBe(true);
+    expect(resourceManager.isPathProtected(stale)).toBe(false);
+    expect(reopened.list().map(entry => entry.status)).toEqual(['available', 'expired']);
+  });
+
+  it('keeps protected artifacts out of cleanup until the window ends', async () => {
+    const archive = path.join(tempDir, 'archive');
+    const scratch = path.join(tempDir, 'scratch.tmp');
+    fs.mkdirSync(archive);
+    fs.writeFileSync(scratch, 'temporary');
+
+    const resourceManager = createResourceManager();
+    resourceManager.trackDirectory(archive, 'Cache archive');
+    resourceManager.trackFile(scratch, 'Scratch file');
+
+    const journal = new UndoJournal({ resourceManager, defaultExpiryMinutes: 30 });
+    const now = Date.now();
+    journal.record({
+      skillId: 'app-cache-reset',
+      skillName: 'Cache Reset',
+      artifacts: { BackupPath: archive },
+      protectedPaths: [archive]
+    }, now);
+
+    await resourceManager.cleanup();
+    expect(fs.existsSync(archive)).toBe(true);
+    expect(fs.existsSync(scratch)).toBe(false);
+    expect(resourceManager.findResourcesByType('directory').map(resource => resource.id)).toEqual([archive]);
+
+    // Expiry lifts the protection and the next cleanup reclaims the archive
+    journal.prune(now + 31 * MINUTE);
+    expect(resourceManager.isPathProtected(path.join(archive, 'Teams'))).toBe(false);
+    await resourceManager.cleanup();
+    expect(fs.existsSync(archive)).toBe(false);
+  });
+});
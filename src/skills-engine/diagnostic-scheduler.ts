@@ -0,0 +1,808 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { SkillExecutionResult } from './types';
+import { PlaybookSkillRunner } from './playbook-engine';
+import { SystemProbes, createSystemProbes } from './skill-preconditions';
+import { AlertSeverity, DiagnosticThresholdBreach, ScheduledDiagnosticResult, getLogManager } from './logging';
+
+// Value in a scheduled diagnostic's output to watch, e.g. payload.disk.usedPercent.
+// `*` matches every element of an array; a single object stands for a
+// one-element array, as PowerShell's ConvertTo-Json collapses those.
+export interface DiagnosticThreshold {
+  path: string;
+  above?: number;
+  below?: number;
+  severity?: AlertSeverity;
+  message?: string;
+}
+
+// When and how one diagnostic skill runs. `schedule` is a five-field cron
+// expression (minute hour day-of-month month day-of-week), @hourly, @daily,
+// @weekly, @monthly, or @login for once each time the app starts.
+export interface DiagnosticSchedule {
+  skillId: string;
+  schedule: string;
+  enabled?: boolean;
+  params?: Record<string, any>;
+  // Run in dry-run mode, e.g. to check disk space without cleaning up
+  dryRun?: boolean;
+  // Random delay added to every run so a fleet does not run at the same minute
+  jitterMinutes?: number;
+  thresholds?: DiagnosticThreshold[];
+  // Show a tray notification when a threshold is crossed
+  notify?: boolean;
+}
+
+// Local time window (HH:MM, may wrap midnight) in which nothing runs
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+// Settings that apply to every schedule
+export interface DiagnosticSchedulerSettings {
+  quietHours?: QuietHours;
+  skipOnBattery: boolean;
+  // Runs are put off while overall CPU usage is above this
+  maxCpuPercent: number;
+}
+
+// Schedules with their settings, as persisted for the admin console
+export interface DiagnosticSchedulerConfig extends DiagnosticSchedulerSettings {
+  schedules: DiagnosticSchedule[];
+}
+
+// Why a due run was put off
+export type DiagnosticSkipReason = 'battery' | 'busy';
+
+// Next and last run of a schedule
+export interface DiagnosticScheduleStatus {
+  skillId: string;
+  nextRunAt?: number;
+  lastResult?: ScheduledDiagnosticResult;
+}
+
+// Parsed cron expression
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+// Scheduler configuration. `defaults` applies until an admin saves a
+// configuration to `configPath`.
+export interface DiagnosticSchedulerOptions {
+  runner: PlaybookSkillRunner;
+  configPath?: string;
+  defaults: Partial<DiagnosticSchedulerConfig>;
+  probes: Pick<SystemProbes, 'isOnBattery'>;
+  // Overall CPU usage in percent since the previous call
+  getCpuPercent: () => number;
+  // How soon a run put off by battery or load is tried again
+  retryDelayMinutes: number;
+  random: () => number;
+}
+
+// Error raised for a schedule the scheduler cannot accept
+export class DiagnosticScheduleError extends Error {
+  public readonly code = 'INVALID_SCHEDULE';
+
+  constructor(message: string, public skillId?: string) {
+    super(message);
+    this.name = 'DiagnosticScheduleError';
+  }
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Longest delay setTimeout accepts; later runs are re-planned when it fires
+const MAX_TIMER_MS = 2 ** 31 - 1;
+const LOGIN_SCHEDULE = '@login';
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const CRON_MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *'
+};
+
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+const DEFAULT_SCHEDULER_SETTINGS: DiagnosticSchedulerSettings = {
+  skipOnBattery: true,
+  maxCpuPercent: 80
+};
+
+const DEFAULT_DIAGNOSTIC_SCHEDULER_OPTIONS: Omit<DiagnosticSchedulerOptions, 'runner' | 'probes' | 'getCpuPercent'> = {
+  defaults: {},
+  retryDelayMinutes: 15,
+  random: Math.random
+};
+
+/**
+ * Parse a five-field cron expression or one of the @hourly, @daily, @weekly
+ * and @monthly macros. Fields take numbers, `*`, ranges (1-5), lists (1,3)
+ * and steps (0-30/10); Sunday is 0 or 7.
+ * @throws {DiagnosticScheduleError} If the expression is invalid
+ */
+export function parseCronExpression(expression: string): CronExpression {
+  const fields = (CRON_MACROS[expression.trim()] ?? expression).trim().split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) {
+    throw new DiagnosticScheduleError(`Cron expression '${expression}' must have ${CRON_FIELDS.length} fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseCronField(field, CRON_FIELDS[index], expression)
+  );
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*'
+  };
+}
+
+function parseCronField(field: string, range: typeof CRON_FIELDS[number], expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new DiagnosticScheduleError(`Invalid ${range.name} '${part}' in cron expression '${expression}'`);
+    }
+
+    const start = match[1] === '*' ? range.min : Number(match[2]);
+    const end = match[1] === '*' ? range.max : match[3] !== undefined ? Number(match[3]) : match[4] ? range.max : start;
+    const step = match[4] !== undefined ? Number(match[4]) : 1;
+    if (start < range.min || end > range.max || start > end || step < 1) {
+      throw new DiagnosticScheduleError(
+        `${range.name[0].toUpperCase()}${range.name.slice(1)} '${part}' is outside ${range.min}-${range.max} in cron expression '${expression}'`
+      );
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * First minute after `after` (local time) that matches the expression, or
+ * null when none does within four years (e.g. 30 February). As in cron, a
+ * restricted day of month and day of week match when either one does.
+ */
+export function getNextCronTime(cron: CronExpression, after: Date): Date | null {
+  const next = new Date(after.getTime());
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+  const limit = after.getTime() + 4 * 366 * DAY_MS;
+
+  while (next.getTime() <= limit) {
+    if (!cron.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1, 0, 0);
+    } else {
+      return next;
+    }
+  }
+
+  return null;
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getDay());
+  if (!cron.anyDayOfMonth && !cron.anyDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * When the quiet hours that `date` falls in end, or null outside them
+ */
+export function getQuietHoursEnd(quietHours: QuietHours, date: Date): Date | null {
+  const start = toMinuteOfDay(quietHours.start);
+  const end = toMinuteOfDay(quietHours.end);
+  const minute = date.getHours() * 60 + date.getMinutes();
+  const quiet = start < end ? minute >= start && minute < end : minute >= start || minute < end;
+  if (start === end || !quiet) {
+    return null;
+  }
+
+  const endsAt = new Date(date.getTime());
+  endsAt.setHours(Math.floor(end / 60), end % 60, 0, 0);
+  if (endsAt.getTime() <= date.getTime()) {
+    endsAt.setDate(endsAt.getDate() + 1);
+  }
+  return endsAt;
+}
+
+function toMinuteOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Validate a schedule from the admin console or the configuration file and
+ * return every problem found
+ */
+export function validateDiagnosticSchedule(raw: unknown, runner?: PlaybookSkillRunner): string[] {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return ['Schedule must be an object'];
+  }
+
+  const schedule = raw as Record<string, any>;
+  const errors: string[] = [];
+
+  if (typeof schedule.skillId !== 'string' || !schedule.skillId) {
+    errors.push('skillId must be a non-empty string');
+  } else if (runner && !runner.has(schedule.skillId)) {
+    errors.push(`Skill '${schedule.skillId}' is not installed`);
+  }
+
+  if (typeof schedule.schedule !== 'string') {
+    errors.push('schedule must be a cron expression or @login');
+  } else if (schedule.schedule !== LOGIN_SCHEDULE) {
+    try {
+      parseCronExpression(schedule.schedule);
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
+
+  for (const key of ['enabled', 'dryRun', 'notify']) {
+    if (schedule[key] !== undefined && typeof schedule[key] !== 'boolean') {
+      errors.push(`${key} must be a boolean`);
+    }
+  }
+  if (schedule.params !== undefined && (typeof schedule.params !== 'object' || schedule.params === null || Array.isArray(schedule.params))) {
+    errors.push('params must be an object');
+  }
+  if (schedule.jitterMinutes !== undefined && !(Number.isFinite(schedule.jitterMinutes) && schedule.jitterMinutes >= 0)) {
+    errors.push('jitterMinutes must be a non-negative number');
+  }
+
+  if (schedule.thresholds !== undefined) {
+    if (!Array.isArray(schedule.thresholds)) {
+      errors.push('thresholds must be an array');
+    } else {
+      schedule.thresholds.forEach((threshold: any, index: number) => {
+        const label = `thresholds[${index}]`;
+        if (!threshold || typeof threshold.path !== 'string' || !threshold.path) {
+          errors.push(`${label}.path must be a non-empty string`);
+        }
+        if (typeof threshold?.above !== 'number' && typeof threshold?.below !== 'number') {
+          errors.push(`${label} must declare a numeric above or below`);
+        }
+        if (threshold?.severity !== undefined && !['info', 'warning', 'critical'].includes(threshold.severity)) {
+          errors.push(`${label}.severity must be info, warning or critical`);
+        }
+      });
+    }
+  }
+
+  return errors;
+}
+
+function validateSettings(settings: Partial<DiagnosticSchedulerSettings>): string[] {
+  const errors: string[] = [];
+  const { quietHours } = settings;
+  if (quietHours !== undefined && (
+    typeof quietHours !== 'object' || quietHours === null ||
+    !TIME_PATTERN.test(String(quietHours.start)) || !TIME_PATTERN.test(String(quietHours.end))
+  )) {
+    errors.push('quietHours must have start and end times as HH:MM');
+  }
+  if (settings.skipOnBattery !== undefined && typeof settings.skipOnBattery !== 'boolean') {
+    errors.push('skipOnBattery must be a boolean');
+  }
+  if (settings.maxCpuPercent !== undefined && !(Number.isFinite(settings.maxCpuPercent) && settings.maxCpuPercent > 0)) {
+    errors.push('maxCpuPercent must be a positive number');
+  }
+  return errors;
+}
+
+/**
+ * Check a result against the schedule's thresholds. Values read from the
+ * parsed output ({ status, output, payload, data, warnings }) compare as
+ * numbers, so "85%" counts as 85; paths that are missing are skipped.
+ */
+export function evaluateDiagnosticThresholds(
+  thresholds: DiagnosticThreshold[],
+  result: SkillExecutionResult,
+  skillName: string
+): DiagnosticThresholdBreach[] {
+  const parsed = result.parsedOutput;
+  const source = {
+    status: parsed?.status,
+    output: result.output,
+    payload: parsed?.payload,
+    data: parsed?.data,
+    warnings: parsed?.warnings
+  };
+  const breaches: DiagnosticThresholdBreach[] = [];
+
+  for (const threshold of thresholds) {
+    for (const raw of readValues(source, threshold.path.split('.'))) {
+      const value = toNumber(raw);
+      if (Number.isNaN(value)) {
+        continue;
+      }
+
+      const above = threshold.above !== undefined && value > threshold.above;
+      const below = threshold.below !== undefined && value < threshold.below;
+      if (!above && !below) {
+        continue;
+      }
+
+      breaches.push({
+        path: threshold.path,
+        value,
+        above: threshold.above,
+        below: threshold.below,
+        severity: threshold.severity ?? 'warning',
+        message: threshold.message ?? (above
+          ? `${skillName}: ${threshold.path} is ${value}, above ${threshold.above}`
+          : `${skillName}: ${threshold.path} is ${value}, below ${threshold.below}`)
+      });
+    }
+  }
+
+  return breaches;
+}
+
+function readValues(current: unknown, keys: string[]): unknown[] {
+  if (!keys.length) {
+    return [current];
+  }
+  if (current === null || current === undefined || typeof current !== 'object') {
+    return [];
+  }
+
+  const [key, ...rest] = keys;
+  if (key === '*') {
+    const items = Array.isArray(current) ? current : [current];
+    return items.flatMap(item => readValues(item, rest));
+  }
+  return readValues((current as Record<string, unknown>)[key], rest);
+}
+
+/**
+ * Numbers and numeric strings ("85", "85%") compare numerically
+ */
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && /^\s*-?\d+(\.\d+)?%?\s*$/.test(value)) {
+    return parseFloat(value);
+  }
+  return NaN;
+}
+
+/**
+ * Overall CPU usage since the previous call, from the os.cpus() counters
+ */
+function createCpuSampler(): () => number {
+  let previous = readCpuTimes();
+  return () => {
+    const current = readCpuTimes();
+    const total = current.total - previous.total;
+    const idle = current.idle - previous.idle;
+    previous = current;
+    return total > 0 ? ((total - idle) / total) * 100 : 0;
+  };
+}
+
+function readCpuTimes(): { total: number; idle: number } {
+  let total = 0;
+  let idle = 0;
+  for (const cpu of os.cpus()) {
+    total += cpu.times.user + cpu.times.nice + cpu.times.sys + cpu.times.irq + cpu.times.idle;
+    idle += cpu.times.idle;
+  }
+  return { total, idle };
+}
+
+/**
+ * Runs diagnostic skills on cron-like schedules in the main process. Every
+ * run gets its schedule's jitter; runs that fall in the quiet hours wait until
+ * they end, and runs due while the device is on battery or busy are tried
+ * again after `retryDelayMinutes` (or at the next regular time, if sooner).
+ * Results are checked against the schedule's thresholds and recorded in the
+ * MonitoringSystem, whose alert rules pick up crossed thresholds.
+ *
+ * Emits 'completed' with each ScheduledDiagnosticResult, 'thresholdExceeded'
+ * with the result and its schedule when a threshold was crossed, and
+ * 'skipped' when a due run is put off.
+ */
+export class DiagnosticScheduler extends EventEmitter {
+  private options: DiagnosticSchedulerOptions;
+  private config: DiagnosticSchedulerConfig;
+  private timers = new Map<string, NodeJS.Timeout>();
+  private nextRuns = new Map<string, number>();
+  private lastResults = new Map<string, ScheduledDiagnosticResult>();
+  private running = new Set<string>();
+  private started = false;
+  private logManager = getLogManager();
+
+  constructor(options: Partial<DiagnosticSchedulerOptions> & { runner: PlaybookSkillRunner }) {
+    super();
+    this.options = {
+      ...DEFAULT_DIAGNOSTIC_SCHEDULER_OPTIONS,
+      probes: options.probes ?? createSystemProbes(),
+      getCpuPercent: options.getCpuPercent ?? createCpuSampler(),
+      ...options
+    };
+    this.config = this.load();
+  }
+
+  /**
+   * Plan every enabled schedule; @login schedules run once now, after their jitter
+   */
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    for (const schedule of this.config.schedules) {
+      this.plan(schedule, schedule.schedule === LOGIN_SCHEDULE);
+    }
+  }
+
+  /**
+   * Cancel every planned run; runs in progress finish on their own
+   */
+  stop(): void {
+    this.started = false;
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.nextRuns.clear();
+  }
+
+  getConfig(): DiagnosticSchedulerConfig {
+    return JSON.parse(JSON.stringify(this.config));
+  }
+
+  getStatus(): DiagnosticScheduleStatus[] {
+    return this.config.schedules.map(schedule => ({
+      skillId: schedule.skillId,
+      nextRunAt: this.nextRuns.get(schedule.skillId),
+      lastResult: this.lastResults.get(schedule.skillId)
+    }));
+  }
+
+  /**
+   * Add or replace the schedule of a skill and persist the configuration
+   * @throws {DiagnosticScheduleError} If the schedule is invalid
+   */
+  setSchedule(schedule: DiagnosticSchedule): void {
+    const errors = validateDiagnosticSchedule(schedule, this.options.runner);
+    if (errors.length) {
+      throw new DiagnosticScheduleError(`Invalid schedule: ${errors.join('; ')}`, schedule?.skillId);
+    }
+
+    this.cancel(schedule.skillId);
+    this.config.schedules = [
+      ...this.config.schedules.filter(existing => existing.skillId !== schedule.skillId),
+      schedule
+    ];
+    this.save();
+    // A changed @login schedule waits for the next start
+    this.plan(schedule, false);
+  }
+
+  /**
+   * Remove the schedule of a skill; false when it had none
+   */
+  removeSchedule(skillId: string): boolean {
+    const remaining = this.config.schedules.filter(schedule => schedule.skillId !== skillId);
+    if (remaining.length === this.config.schedules.length) {
+      return false;
+    }
+
+    this.cancel(skillId);
+    this.lastResults.delete(skillId);
+    this.config.schedules = remaining;
+    this.save();
+    return true;
+  }
+
+  /**
+   * Change the quiet hours, battery or load settings and persist them
+   * @throws {DiagnosticScheduleError} If a setting is invalid
+   */
+  updateSettings(settings: Partial<DiagnosticSchedulerSettings>): void {
+    const errors = validateSettings(settings);
+    if (errors.length) {
+      throw new DiagnosticScheduleError(`Invalid scheduler settings: ${errors.join('; ')}`);
+    }
+
+    this.config = { ...this.config, ...settings };
+    if ('quietHours' in settings && !settings.quietHours) {
+      delete this.config.quietHours;
+    }
+    this.save();
+  }
+
+  private plan(schedule: DiagnosticSchedule, runNow: boolean): void {
+    if (!this.started || schedule.enabled === false) {
+      return;
+    }
+
+    const now = new Date();
+    let dueAt: number;
+    if (runNow) {
+      dueAt = now.getTime();
+    } else if (schedule.schedule === LOGIN_SCHEDULE) {
+      return;
+    } else {
+      const next = getNextCronTime(parseCronExpression(schedule.schedule), now);
+      if (!next) {
+        this.logManager.warn('Diagnostic schedule never matches', {
+          schedule: schedule.schedule
+        }, { component: 'diagnostic-scheduler', skillId: schedule.skillId });
+        return;
+      }
+      dueAt = next.getTime();
+    }
+
+    this.setTimer(schedule.skillId, this.adjust(schedule, dueAt));
+  }
+
+  /**
+   * Add the schedule's jitter and move runs out of the quiet hours
+   */
+  private adjust(schedule: DiagnosticSchedule, dueAt: number): number {
+    const jitter = () => Math.floor(this.options.random() * (schedule.jitterMinutes ?? 0) * MINUTE_MS);
+    let adjusted = dueAt + jitter();
+
+    if (this.config.quietHours) {
+      const quietEnd = getQuietHoursEnd(this.config.quietHours, new Date(adjusted));
+      if (quietEnd) {
+        adjusted = quietEnd.getTime() + jitter();
+      }
+    }
+    return adjusted;
+  }
+
+  private setTimer(skillId: string, dueAt: number): void {
+    this.cancel(skillId);
+    this.nextRuns.set(skillId, dueAt);
+
+    const delay = Math.max(0, dueAt - Date.now());
+    const timer = setTimeout(() => {
+      this.timers.delete(skillId);
+      if (dueAt > Date.now()) {
+        this.setTimer(skillId, dueAt);
+        return;
+      }
+      const schedule = this.config.schedules.find(candidate => candidate.skillId === skillId);
+      if (schedule) {
+        this.nextRuns.delete(skillId);
+        void this.runDue(schedule);
+      }
+    }, Math.min(delay, MAX_TIMER_MS));
+    timer.unref?.();
+    this.timers.set(skillId, timer);
+  }
+
+  private cancel(skillId: string): void {
+    const timer = this.timers.get(skillId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(skillId);
+    }
+    this.nextRuns.delete(skillId);
+  }
+
+  private async runDue(schedule: DiagnosticSchedule): Promise<void> {
+    // The previous run is still going; this one is dropped
+    if (this.running.has(schedule.skillId)) {
+      this.plan(schedule, false);
+      return;
+    }
+
+    const reason = await this.getSkipReason();
+    if (reason) {
+      this.logManager.info('Scheduled diagnostic put off', { reason }, {
+        component: 'diagnostic-scheduler',
+        skillId: schedule.skillId
+      });
+      this.emit('skipped', { skillId: schedule.skillId, reason });
+      this.retryLater(schedule);
+      return;
+    }
+
+    this.running.add(schedule.skillId);
+    try {
+      await this.execute(schedule);
+    } finally {
+      this.running.delete(schedule.skillId);
+    }
+
+    if (!this.timers.has(schedule.skillId) && this.isCurrent(schedule)) {
+      this.plan(schedule, false);
+    }
+  }
+
+  private async getSkipReason(): Promise<DiagnosticSkipReason | undefined> {
+    if (this.options.getCpuPercent() > this.config.maxCpuPercent) {
+      return 'busy';
+    }
+    if (this.config.skipOnBattery) {
+      try {
+        if (await this.options.probes.isOnBattery() === true) {
+          return 'battery';
+        }
+      } catch {
+        // An unknown power state does not hold runs back
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Try a put-off run again after the retry delay, or at the next regular
+   * time when that comes first
+   */
+  private retryLater(schedule: DiagnosticSchedule): void {
+    if (!this.started || !this.isCurrent(schedule)) {
+      return;
+    }
+
+    const retryAt = Date.now() + this.options.retryDelayMinutes * MINUTE_MS;
+    const next = schedule.schedule === LOGIN_SCHEDULE
+      ? null
+      : getNextCronTime(parseCronExpression(schedule.schedule), new Date());
+    if (next && next.getTime() <= retryAt) {
+      this.setTimer(schedule.skillId, this.adjust(schedule, next.getTime()));
+    } else {
+      this.setTimer(schedule.skillId, this.adjust({ ...schedule, jitterMinutes: 0 }, retryAt));
+    }
+  }
+
+  private async execute(schedule: DiagnosticSchedule): Promise<void> {
+    const { runner } = this.options;
+    const skillName = runner.getName(schedule.skillId) ?? schedule.skillId;
+    let record: ScheduledDiagnosticResult;
+
+    try {
+      const result = await runner.run(schedule.skillId, schedule.params ?? {}, {
+        dryRun: schedule.dryRun === true,
+        bypassCache: true
+      });
+      record = {
+        skillId: schedule.skillId,
+        success: result.success,
+        completedAt: Date.now(),
+        error: result.success ? undefined : result.error,
+        breaches: result.success ? evaluateDiagnosticThresholds(schedule.thresholds ?? [], result, skillName) : []
+      };
+    } catch (error) {
+      record = {
+        skillId: schedule.skillId,
+        success: false,
+        completedAt: Date.now(),
+        error: (error as Error).message,
+        breaches: []
+      };
+    }
+
+    this.lastResults.set(schedule.skillId, record);
+    this.logManager.recordScheduledDiagnostic(record);
+    this.emit('completed', record);
+
+    if (record.breaches.length) {
+      this.logManager.warn('Scheduled diagnostic crossed a threshold', {
+        breaches: record.breaches
+      }, { component: 'diagnostic-scheduler', skillId: schedule.skillId });
+      this.emit('thresholdExceeded', { result: record, schedule });
+    }
+  }
+
+  private isCurrent(schedule: DiagnosticSchedule): boolean {
+    return this.config.schedules.includes(schedule);
+  }
+
+  private load(): DiagnosticSchedulerConfig {
+    let source: Partial<DiagnosticSchedulerConfig> = this.options.defaults;
+
+    if (this.options.configPath && fs.existsSync(this.options.configPath)) {
+      try {
+        source = JSON.parse(fs.readFileSync(this.options.configPath, 'utf-8'));
+      } catch (error) {
+        this.logManager.error('Failed to load diagnostic schedules', error as Error, {
+          configPath: this.options.configPath
+        }, { component: 'diagnostic-scheduler' });
+      }
+    }
+
+    const config: DiagnosticSchedulerConfig = { ...DEFAULT_SCHEDULER_SETTINGS, schedules: [] };
+    const settingErrors = validateSettings(source);
+    if (settingErrors.length) {
+      this.logManager.warn('Ignoring invalid diagnostic scheduler settings', { errors: settingErrors }, {
+        component: 'diagnostic-scheduler'
+      });
+    } else {
+      if (source.quietHours) {
+        config.quietHours = source.quietHours;
+      }
+      config.skipOnBattery = source.skipOnBattery ?? config.skipOnBattery;
+      config.maxCpuPercent = source.maxCpuPercent ?? config.maxCpuPercent;
+    }
+
+    for (const schedule of Array.isArray(source.schedules) ? source.schedules : []) {
+      const errors = validateDiagnosticSchedule(schedule, this.options.runner);
+      if (errors.length) {
+        this.logManager.warn('Skipping invalid diagnostic schedule', { errors }, {
+          component: 'diagnostic-scheduler',
+          skillId: (schedule as DiagnosticSchedule)?.skillId
+        });
+        continue;
+      }
+      config.schedules.push(schedule);
+    }
+
+    return config;
+  }
+
+  private save(): void {
+    if (!this.options.configPath) {
+      return;
+    }
+
+    const tempPath = `${this.options.configPath}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.options.configPath), { recursive: true });
+      fs.writeFileSync(tempPath, JSON.stringify(this.config, null, 2));
+      fs.renameSync(tempPath, this.options.configPath);
+    } catch (error) {
+      this.logManager.error('Failed to persist diagnostic schedules', error as Error, {
+        configPath: this.options.configPath
+      }, { component: 'diagnostic-scheduler' });
+    }
+  }
+}
+
+/**
+ * Factory function to create a diagnostic scheduler
+ */
+export function createDiagnosticScheduler(
+  options: Partial<DiagnosticSchedulerOptions> & { runner: PlaybookSkillRunner }
+): DiagnosticScheduler {
+  return new DiagnosticScheduler(options);
+}
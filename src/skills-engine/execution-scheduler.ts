@@ -0,0 +1,339 @@
+import { EventEmitter } from 'events';
+import { RateLimitConfig } from './types';
+import { SkillCancelledError } from './skill-catalog';
+import { getLogManager } from './logging';
+
+// Queue order for executions waiting on a concurrency slot
+export type ExecutionPriority = 'low' | 'normal' | 'high';
+
+// Which limit refused an execution
+export type RateLimitScope = 'global' | 'skill' | 'queue';
+
+// Scheduler configuration. `global` covers all skills together, `perSkill`
+// each skill on its own unless `skillLimits` overrides it.
+export interface ExecutionSchedulerOptions {
+  global: RateLimitConfig;
+  perSkill: RateLimitConfig;
+  skillLimits: Record<string, Partial<RateLimitConfig>>;
+  maxQueueLength: number;
+}
+
+// Per-call scheduling options
+export interface ScheduleOptions {
+  priority?: ExecutionPriority;
+  // Aborting removes a queued execution; a running one is left to the task
+  signal?: AbortSignal;
+  // 1-based position while queued, then 0 when the execution starts
+  onQueuePosition?: (position: number) => void;
+}
+
+// Snapshot of scheduler load
+export interface ExecutionSchedulerStats {
+  running: number;
+  queued: number;
+  runningBySkill: Record<string, number>;
+}
+
+// Error raised when an execution is refused by a rate or queue limit
+export class SkillRateLimitedError extends Error {
+  public readonly code = 'RATE_LIMITED';
+
+  constructor(
+    message: string,
+    public scope: RateLimitScope,
+    public retryAfterMs?: number,
+    public skillId?: string
+  ) {
+    super(message);
+    this.name = 'SkillRateLimitedError';
+  }
+
+  /**
+   * What the chat UI needs to tell the user when to retry
+   */
+  toDetails(): { scope: RateLimitScope; retryAfterMs?: number } {
+    return { scope: this.scope, retryAfterMs: this.retryAfterMs };
+  }
+}
+
+const DEFAULT_SCHEDULER_OPTIONS: ExecutionSchedulerOptions = {
+  global: {
+    maxRequestsPerMinute: 60,
+    maxConcurrentExecutions: 3,
+    burstCapacity: 10,
+    refillRate: 1 // tokens per second
+  },
+  perSkill: {
+    maxRequestsPerMinute: 10,
+    maxConcurrentExecutions: 1,
+    burstCapacity: 3,
+    refillRate: 0.2
+  },
+  skillLimits: {},
+  maxQueueLength: 20
+};
+
+const PRIORITY_RANK: Record<ExecutionPriority, number> = { high: 2, normal: 1, low: 0 };
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Token bucket holding `burstCapacity` tokens, refilled at `refillRate` per
+ * second, combined with a sliding one-minute window of admitted requests
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private admitted: number[] = [];
+
+  constructor(private config: RateLimitConfig, now: number) {
+    this.tokens = config.burstCapacity;
+    this.lastRefill = now;
+  }
+
+  /**
+   * Milliseconds until a request can be admitted; 0 when it can be now
+   */
+  retryAfter(now: number): number {
+    this.refill(now);
+    while (this.admitted.length > 0 && this.admitted[0] <= now - MINUTE_MS) {
+      this.admitted.shift();
+    }
+
+    const tokenWait = this.tokens >= 1
+      ? 0
+      : this.config.refillRate > 0 ? Math.ceil(((1 - this.tokens) / this.config.refillRate) * 1000) : MINUTE_MS;
+    const windowWait = this.admitted.length >= this.config.maxRequestsPerMinute
+      ? this.admitted[0] + MINUTE_MS - now
+      : 0;
+
+    return Math.max(tokenWait, windowWait);
+  }
+
+  take(now: number): void {
+    this.tokens -= 1;
+    this.admitted.push(now);
+  }
+
+  private refill(now: number): void {
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.config.burstCapacity, this.tokens + elapsedSeconds * this.config.refillRate);
+    this.lastRefill = now;
+  }
+}
+
+// Execution waiting for a concurrency slot
+interface QueuedExecution {
+  skillId: string;
+  priority: ExecutionPriority;
+  position?: number;
+  start: () => void;
+  cancel: () => void;
+  onQueuePosition?: (position: number) => void;
+}
+
+/**
+ * Admits skill executions through global and per-skill token buckets and runs
+ * them within the configured concurrency limits. Admitted executions that
+ * cannot start yet wait in a priority queue (FIFO within a priority) and are
+ * told their position as it changes. Executions over a rate limit, or arriving
+ * when the queue is full, are refused with SkillRateLimitedError.
+ */
+export class ExecutionScheduler extends EventEmitter {
+  private options: ExecutionSchedulerOptions;
+  private globalBucket: TokenBucket;
+  private skillBuckets = new Map<string, TokenBucket>();
+  private running = 0;
+  private runningBySkill = new Map<string, number>();
+  private queue: QueuedExecution[] = [];
+  private logManager = getLogManager();
+
+  constructor(options: Partial<ExecutionSchedulerOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+    this.globalBucket = new TokenBucket(this.options.global, Date.now());
+  }
+
+  /**
+   * Run `task` for a skill once the limits allow it
+   * @throws {SkillRateLimitedError} If a rate limit or the queue length is exceeded
+   * @throws {SkillCancelledError} If the signal aborts while the execution is queued
+   */
+  schedule<T>(skillId: string, task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    if (options.signal?.aborted) {
+      return Promise.reject(new SkillCancelledError(`Skill '${skillId}' was cancelled before it started`, '', skillId));
+    }
+
+    const now = Date.now();
+    const skillBucket = this.getSkillBucket(skillId, now);
+    const globalWait = this.globalBucket.retryAfter(now);
+    const skillWait = skillBucket.retryAfter(now);
+
+    if (globalWait > 0) {
+      return Promise.reject(this.refuse(
+        'Too many skill executions; try again shortly', 'global', skillId, globalWait
+      ));
+    }
+    if (skillWait > 0) {
+      return Promise.reject(this.refuse(
+        `Skill '${skillId}' was run too often; try again shortly`, 'skill', skillId, skillWait
+      ));
+    }
+    if (!this.canStart(skillId) && this.queue.length >= this.options.maxQueueLength) {
+      return Promise.reject(this.refuse(
+        `Execution queue is full (${this.options.maxQueueLength} waiting)`, 'queue', skillId
+      ));
+    }
+
+    this.globalBucket.take(now);
+    skillBucket.take(now);
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => entry.cancel();
+
+      const entry: QueuedExecution = {
+        skillId,
+        priority: options.priority ?? 'normal',
+        onQueuePosition: options.onQueuePosition,
+        start: () => {
+          options.signal?.removeEventListener('abort', onAbort);
+          if (entry.position !== undefined) {
+            this.notify(entry, 0);
+          }
+
+          this.running++;
+          this.runningBySkill.set(skillId, (this.runningBySkill.get(skillId) ?? 0) + 1);
+          this.emit('started', { skillId });
+
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              this.running--;
+              const remaining = (this.runningBySkill.get(skillId) ?? 1) - 1;
+              if (remaining > 0) {
+                this.runningBySkill.set(skillId, remaining);
+              } else {
+                this.runningBySkill.delete(skillId);
+              }
+              this.emit('completed', { skillId });
+              this.drain();
+            });
+        },
+        cancel: () => {
+          const index = this.queue.indexOf(entry);
+          if (index === -1) {
+            return;
+          }
+          this.queue.splice(index, 1);
+          options.signal?.removeEventListener('abort', onAbort);
+          reject(new SkillCancelledError(`Skill '${skillId}' was cancelled while queued`, '', skillId));
+          this.drain();
+        }
+      };
+
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      this.enqueue(entry);
+      this.drain();
+    });
+  }
+
+  /**
+   * Current load, for diagnostics and the admin console
+   */
+  getStats(): ExecutionSchedulerStats {
+    return {
+      running: this.running,
+      queued: this.queue.length,
+      runningBySkill: Object.fromEntries(this.runningBySkill)
+    };
+  }
+
+  /**
+   * Refuse everything still queued; running executions finish on their own
+   */
+  dispose(): void {
+    for (const entry of this.queue.slice()) {
+      entry.cancel();
+    }
+    this.removeAllListeners();
+  }
+
+  /**
+   * Insert after every queued execution of the same or higher priority
+   */
+  private enqueue(entry: QueuedExecution): void {
+    const rank = PRIORITY_RANK[entry.priority];
+    const index = this.queue.findIndex(queued => PRIORITY_RANK[queued.priority] < rank);
+    this.queue.splice(index === -1 ? this.queue.length : index, 0, entry);
+  }
+
+  /**
+   * Start queued executions that fit the concurrency limits, in queue order,
+   * and report the new position of those still waiting
+   */
+  private drain(): void {
+    for (let i = 0; i < this.queue.length && this.running < this.options.global.maxConcurrentExecutions;) {
+      const entry = this.queue[i];
+      if (this.canStart(entry.skillId)) {
+        this.queue.splice(i, 1);
+        entry.start();
+      } else {
+        i++;
+      }
+    }
+
+    this.queue.forEach((entry, index) => {
+      if (entry.position !== index + 1) {
+        this.notify(entry, index + 1);
+      }
+    });
+  }
+
+  private canStart(skillId: string): boolean {
+    return this.running < this.options.global.maxConcurrentExecutions &&
+      (this.runningBySkill.get(skillId) ?? 0) < this.getSkillLimits(skillId).maxConcurrentExecutions;
+  }
+
+  private notify(entry: QueuedExecution, position: number): void {
+    entry.position = position;
+    try {
+      entry.onQueuePosition?.(position);
+    } catch (error) {
+      this.logManager.warn('Queue position callback failed', {
+        error: (error as Error).message
+      }, { component: 'execution-scheduler', skillId: entry.skillId });
+    }
+  }
+
+  private refuse(message: string, scope: RateLimitScope, skillId: string, retryAfterMs?: number): SkillRateLimitedError {
+    this.logManager.warn('Skill execution rate limited', {
+      scope,
+      retryAfterMs
+    }, { component: 'execution-scheduler', skillId });
+
+    const error = new SkillRateLimitedError(message, scope, retryAfterMs, skillId);
+    this.emit('rateLimited', error);
+    return error;
+  }
+
+  private getSkillLimits(skillId: string): RateLimitConfig {
+    return { ...this.options.perSkill, ...this.options.skillLimits[skillId] };
+  }
+
+  private getSkillBucket(skillId: string, now: number): TokenBucket {
+    let bucket = this.skillBuckets.get(skillId);
+    if (!bucket) {
+      bucket = new TokenBucket(this.getSkillLimits(skillId), now);
+      this.skillBuckets.set(skillId, bucket);
+    }
+    return bucket;
+  }
+}
+
+/**
+ * Factory function to create an execution scheduler
+ */
+export function createExecutionScheduler(options?: Partial<ExecutionSchedulerOptions>): ExecutionScheduler {
+  return new ExecutionScheduler(options);
+}
@@ -1,10 +1,17 @@
 // Core sandbox components
-export { SkillSandbox, SandboxOptions, SandboxResult, SecurityEvent, ScriptType } from './sandbox';
+export { SkillSandbox, SandboxOptions, SandboxResult, SecurityEvent, ScriptType, canEnforceDryRun } from './sandbox';
 export { PowerShellSandbox, PowerShellSandboxOptions } from './powershell-sandbox';
+export { NodeSkillHost, NodeSkillHostOptions, NodeSkillRunResult, NodeSkillCapabilityEvent, NodeSkillHttpRequest, NodeSkillHttpResponse, NodeSkillSystemInfo, createNodeSkillHost } from './node-skill-runtime';
+export { KernelLimitOptions, KernelResourceLimits, CgroupUsage, SandboxCgroup } from './linux-resource-limits';
 
 // Security guards and monitors
 export { FilesystemGuard, FilesystemGuardOptions, FilesystemAccessEvent } from './filesystem-guard';
-export { NetworkGuard, NetworkGuardOptions, NetworkAccessEvent } from './network-guard';
+export { NetworkGuard, NetworkGuardOptions, NetworkAccessEvent, NetworkRule, NetworkRuleError } from './network-guard';
+export { HostAllowlist, ProcessConnection, ProcessImage, getNetworkIsolationPrefix } from './network-isolation';
+export { SkillCapabilityPolicy, SkillCapabilityPolicyOptions, expandCapabilityPath, capabilityGlobToRegExp, normalizeRegistryKey, createSkillCapabilityPolicy } from './skill-capabilities';
+export { SkillRiskAnalyzer, SkillRiskAnalyzerOptions, SkillRiskError, analyzeSkillScript, findUndeclaredReferences, scoreSkillRisk, createSkillRiskAnalyzer } from './skill-risk-analyzer';
+export { PreconditionChecker, PreconditionCheckerOptions, SystemProbes, SkillNotApplicableError, compareOsBuilds, createSystemProbes, createPreconditionChecker } from './skill-preconditions';
+export { PythonRuntime, PythonRuntimeOptions, PythonInterpreter, PythonRuntimeError, createPythonRuntime } from './python-runtime';
 export { BehaviorMonitor, BehaviorMonitorOptions, BehaviorEvent, ProcessSpawnInfo } from './behavior-monitor';
 
 // Resource management
@@ -23,6 +30,21 @@ export { ResourceCleaner, ResourceCleanerOptions, CleanupEvent, ResourceType, cr
 export { ErrorHooks, ErrorHooksOptions, HookEvent, HookType, HookPriority, createErrorHooks } from './error-hooks';
 export { ResilienceManager, ResilienceManagerOptions, ExecutionContext, createResilienceManager } from './resilience-manager';
 
+// Skill catalog
+export { SkillCatalog, SkillCatalogOptions, SkillCatalogLoadResult, SkillReloadResult, SkillCatalogError, SkillCancelledError, SkillDryRunUnsupportedError, CatalogSkill, CatalogRejection, CatalogRejectionReason, SkillPlatform, SkillRunContext, SkillRunServices, SkillExecutionRecord, SkillExecutionRecorder, SkillDryRunResult, SkillRevertibleResult, SkillCachedResult, createSkillCatalog, createSandboxedSkillHandler, runCatalogSkill, getSkillApplicability, runCatalogSkillUndo, recordSkillUndo, validateSkillMetadata, resolveSkillScript, resolveUndoScript } from './skill-catalog';
+export { SkillCatalogWatcher, SkillCatalogWatcherOptions, createSkillCatalogWatcher } from './skill-catalog-watcher';
+export { SkillPackageArchive, SkillPackageEntry, SkillPackageContents, SkillPackageError, SkillPackageErrorReason, SKILL_PACKAGE_EXTENSION, packSkillPackage, readSkillPackage, extractSkillPackage } from './skill-package';
+export { SkillInstaller, SkillInstallerOptions, SkillInstallError, SkillInstallErrorReason, SkillInstallRequest, SkillInstallResult, InstalledSkillPackage, compareSkillVersions, createSkillInstaller } from './skill-installer';
+export { UndoJournal, UndoJournalOptions, UndoJournalEntry, UndoEntryStatus, UndoRecordInput, UndoRevertResult, SkillUndoUnavailableError, createUndoJournal } from './undo-journal';
+export { SkillSignatureVerifier, SkillSignatureVerifierOptions, SkillSignatureError, SkillSignatureFailureReason, SkillVerificationResult, SkillVerificationStage, SkillManifest, SkillTrustPolicy, TrustedPublisherKey, createSkillSignatureVerifier, signSkillPackage, loadSkillTrustPolicy } from './skill-signing';
+export { SkillParameterError, SkillParameterIssue, SkillParameterValue, SkillParameterValidationResult, validateSkillParameters, assertValidSkillParameters, buildScriptArguments, redactSkillParameters, validateParameterDefinitions } from './parameter-validator';
+export { SkillOutputParser, SkillOutputParserOptions, SkillOutputError, SkillOutputErrorReason, parseSkillOutput, createSkillExecutionResult, summarizePlannedActions, createSkillOutputParser } from './skill-output-parser';
+export { SkillTestHarness, SkillTestHarnessOptions, SkillTestCase, SkillTestStub, SkillTestExpectations, ExpectedSecurityEvent, SkillTestResult, SkillTestError, findSkillTestFiles, createSkillTestHarness } from './skill-test-harness';
+export { PlaybookEngine, PlaybookEngineOptions, PlaybookDefinition, PlaybookStep, PlaybookSkillStep, PlaybookBranchStep, PlaybookEscalateStep, PlaybookCondition, PlaybookOperator, PlaybookStepStatus, PlaybookStepRecord, PlaybookRunStatus, PlaybookRunResult, PlaybookRunContext, PlaybookTicketContext, PlaybookSkillRunner, PlaybookRejection, PlaybookLoadResult, validatePlaybookDefinition, loadPlaybooks, evaluatePlaybookCondition, createCatalogSkillRunner, createPlaybookHandler, createPlaybookEngine } from './playbook-engine';
+export { ExecutionScheduler, ExecutionSchedulerOptions, ExecutionSchedulerStats, ExecutionPriority, ScheduleOptions, RateLimitScope, SkillRateLimitedError, createExecutionScheduler } from './execution-scheduler';
+export { DiagnosticScheduler, DiagnosticSchedulerOptions, DiagnosticSchedulerConfig, DiagnosticSchedulerSettings, DiagnosticSchedule, DiagnosticScheduleStatus, DiagnosticThreshold, DiagnosticSkipReason, DiagnosticScheduleError, QuietHours, CronExpression, parseCronExpression, getNextCronTime, getQuietHoursEnd, validateDiagnosticSchedule, evaluateDiagnosticThresholds, createDiagnosticScheduler } from './diagnostic-scheduler';
+export { SkillResultCache, SkillResultCacheStats, SkillCacheHit, createSkillCacheKey, createSkillResultCache } from './result-cache';
+
 // IPC communication
 export { IPCBridge, IPCBridgeOptions, IPCMessage, IPCConnectionState } from './ipc-bridge';
 
@@ -63,6 +85,7 @@ export const DEFAULT_FILESYSTEM_GUARD_OPTIONS: FilesystemGuardOptions = {
   allowedDirectories: [],
   readOnly: true,
   maxFileSizeBytes: 10 * 1024 * 1024, // 10MB
+  maxDiskWriteBytes: 10 * 1024 * 1024, // 10MB
   blockedExtensions: [
     '.exe', '.dll', '.bat', '.cmd', '.ps1', '.sh',
     '.js', '.vbs', '.com', '.scr', '.pif', '.msi',
@@ -88,6 +111,7 @@ export const DEFAULT_FILESYSTEM_GUARD_OPTIONS: FilesystemGuardOptions = {
 
 export const DEFAULT_NETWORK_GUARD_OPTIONS: NetworkGuardOptions = {
   enabled: true,
+  rules: [],
   allowedHosts: ['localhost', '127.0.0.1', '::1'],
   blockedHosts: [],
   allowedPorts: [],
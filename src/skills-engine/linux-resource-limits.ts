@@ -0,0 +1,428 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { getLogManager } from './logging';
+
+// How the sandbox applies kernel limits on Linux
+export interface KernelLimitOptions {
+  // Create a cgroup v2 per execution when the hierarchy is writable
+  useCgroups: boolean;
+  // Mount point of the cgroup v2 hierarchy
+  cgroupRoot: string;
+  // Delegated cgroup (relative to cgroupRoot) that sandboxes are created
+  // under; defaults to the cgroup this process runs in
+  cgroupParent?: string;
+  // Move the processes of the parent into a leaf so controllers can be
+  // enabled for its children (cgroup v2 "no internal processes" rule)
+  relocateProcesses: boolean;
+  // Processes the script may run at once, itself included
+  maxProcesses: number;
+  // Address space rlimit as a multiple of the memory limit; virtual
+  // reservations are far larger than what a process actually touches
+  addressSpaceFactor: number;
+}
+
+// Limits applied to one execution
+export interface KernelResourceLimits {
+  memoryBytes: number;
+  cpuPercentage: number;
+  addressSpaceBytes: number;
+  maxProcesses: number;
+  maxOpenFiles: number;
+  maxFileSizeBytes: number;
+}
+
+// Accounting read back from an execution's cgroup
+export interface CgroupUsage {
+  memoryCurrentBytes: number;
+  // memory.peak needs Linux 5.19
+  memoryPeakBytes?: number;
+  cpuUsageUsec: number;
+  // Only when the io controller is enabled
+  diskWriteBytes?: number;
+  oomKills: number;
+  pidsLimitHits: number;
+}
+
+export const DEFAULT_KERNEL_LIMIT_OPTIONS: KernelLimitOptions = {
+  useCgroups: true,
+  cgroupRoot: '/sys/fs/cgroup',
+  relocateProcesses: false,
+  maxProcesses: 64,
+  addressSpaceFactor: 4
+};
+
+// Exit status of the wrapper when it cannot apply the limits
+export const KERNEL_LIMITS_FAILED_EXIT_CODE = 125;
+
+const MIN_ADDRESS_SPACE_BYTES = 256 * 1024 * 1024; // 256MB
+const CPU_PERIOD_USEC = 100000;
+const REQUIRED_CONTROLLERS = ['memory', 'pids'];
+const OPTIONAL_CONTROLLERS = ['cpu', 'io'];
+const APP_LEAF_CGROUP = 'wtc-app';
+
+// Parent cgroup with the controllers enabled for its children
+interface CgroupParent {
+  dir: string;
+  controllers: string[];
+}
+
+const logManager = getLogManager();
+const parentCache = new Map<string, CgroupParent | null>();
+
+/**
+ * Limits for one execution derived from the sandbox resource limits
+ */
+export function resolveKernelLimits(
+  limits: { maxMemoryBytes: number; maxCpuPercentage: number; maxOpenFiles: number; maxDiskWriteBytes: number },
+  options: KernelLimitOptions
+): KernelResourceLimits {
+  return {
+    memoryBytes: limits.maxMemoryBytes,
+    cpuPercentage: limits.maxCpuPercentage,
+    addressSpaceBytes: Math.max(MIN_ADDRESS_SPACE_BYTES, limits.maxMemoryBytes * options.addressSpaceFactor),
+    maxProcesses: options.maxProcesses,
+    maxOpenFiles: limits.maxOpenFiles,
+    maxFileSizeBytes: limits.maxDiskWriteBytes
+  };
+}
+
+/**
+ * Wrap a command in a shell that joins the cgroup (if any) and sets the
+ * rlimits before exec'ing it, so the limits hold from the first instruction
+ * and are inherited by every descendant. The wrapper exits with
+ * KERNEL_LIMITS_FAILED_EXIT_CODE instead of running the command unconfined.
+ */
+export function buildLimitedCommand(
+  command: string[],
+  limits: KernelResourceLimits,
+  cgroup: SandboxCgroup | null = null
+): string[] {
+  const rlimits = [
+    `ulimit -v ${Math.floor(limits.addressSpaceBytes / 1024)}`,
+    `ulimit -n ${limits.maxOpenFiles}`,
+    // 512-byte blocks in POSIX shells
+    `ulimit -f ${Math.max(1, Math.floor(limits.maxFileSizeBytes / 512))}`
+  ];
+
+  // RLIMIT_NPROC counts every process of the user and is ignored for root,
+  // so it is only a backstop here; pids.max is the real limit
+  const uid = process.getuid?.();
+  if (uid !== undefined && uid !== 0) {
+    rlimits.push(`ulimit -u ${countUserProcesses(uid) + limits.maxProcesses}`);
+  }
+
+  const script = [
+    `[ -z "$1" ] || echo $$ > "$1" || { echo "sandbox: could not join cgroup" >&2; exit ${KERNEL_LIMITS_FAILED_EXIT_CODE}; }`,
+    `${rlimits.join(' && ')} || { echo "sandbox: could not set resource limits" >&2; exit ${KERNEL_LIMITS_FAILED_EXIT_CODE}; }`,
+    'shift',
+    'exec "$@"'
+  ].join('\n');
+
+  return ['/bin/sh', '-c', script, 'wtc-sandbox', cgroup?.procsFile ?? '', ...command];
+}
+
+/**
+ * Create a cgroup v2 for one execution with memory, pids and (when
+ * available) cpu limits. Returns null when cgroup v2 is not mounted, the
+ * parent is not writable or a required controller is missing, in which
+ * case the sandbox falls back to polling.
+ */
+export function createSandboxCgroup(
+  executionId: string,
+  limits: KernelResourceLimits,
+  options: KernelLimitOptions = DEFAULT_KERNEL_LIMIT_OPTIONS
+): SandboxCgroup | null {
+  if (!options.useCgroups) {
+    return null;
+  }
+
+  const parent = resolveCgroupParent(options);
+  if (!parent) {
+    return null;
+  }
+
+  const dir = path.join(parent.dir, `wtc-${executionId}`);
+  try {
+    fs.mkdirSync(dir);
+    writeCgroupFile(dir, 'memory.max', String(limits.memoryBytes));
+    writeCgroupFile(dir, 'pids.max', String(limits.maxProcesses));
+    writeOptionalCgroupFile(dir, 'memory.swap.max', '0');
+    // Kill the whole group on OOM rather than one arbitrary process
+    writeOptionalCgroupFile(dir, 'memory.oom.group', '1');
+
+    if (parent.controllers.includes('cpu')) {
+      // Percentages are of the whole machine, like the poller's
+      const quota = Math.max(1000, Math.round(limits.cpuPercentage / 100 * CPU_PERIOD_USEC * os.cpus().length));
+      writeCgroupFile(dir, 'cpu.max', `${quota} ${CPU_PERIOD_USEC}`);
+    }
+  } catch (error) {
+    logManager.warn('Could not create sandbox cgroup, falling back to polling', {
+      cgroup: dir,
+      error: (error as Error).message
+    }, { component: 'sandbox', executionId });
+    removeCgroupDir(dir);
+    return null;
+  }
+
+  return new SandboxCgroup(dir, parent.controllers, executionId);
+}
+
+/**
+ * Cgroup holding one execution's process tree
+ */
+export class SandboxCgroup {
+  constructor(
+    readonly dir: string,
+    readonly controllers: string[],
+    private executionId: string
+  ) {}
+
+  get procsFile(): string {
+    return path.join(this.dir, 'cgroup.procs');
+  }
+
+  readMemoryBytes(): number {
+    return readNumber(this.dir, 'memory.current') ?? 0;
+  }
+
+  readCpuUsageUsec(): number {
+    return readKeyedValues(this.dir, 'cpu.stat').usage_usec ?? 0;
+  }
+
+  readUsage(): CgroupUsage {
+    const usage: CgroupUsage = {
+      memoryCurrentBytes: this.readMemoryBytes(),
+      memoryPeakBytes: readNumber(this.dir, 'memory.peak'),
+      cpuUsageUsec: this.readCpuUsageUsec(),
+      oomKills: readKeyedValues(this.dir, 'memory.events').oom_kill ?? 0,
+      pidsLimitHits: readKeyedValues(this.dir, 'pids.events').max ?? 0
+    };
+
+    if (this.controllers.includes('io')) {
+      usage.diskWriteBytes = readIoWriteBytes(this.dir);
+    }
+
+    return usage;
+  }
+
+  /**
+   * Kill every process in the group, including ones that escaped the
+   * process tree by double-forking
+   */
+  kill(): void {
+    try {
+      writeCgroupFile(this.dir, 'cgroup.kill', '1');
+      return;
+    } catch {
+      // cgroup.kill needs Linux 5.14; signal the members one by one
+    }
+
+    for (const pid of readPids(this.dir)) {
+      try {
+        process.kill(pid, 'SIGKILL');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ESRCH') {
+          logManager.warn('Failed to kill cgroup member', {
+            pid,
+            error: (error as Error).message
+          }, { component: 'sandbox', executionId: this.executionId });
+        }
+      }
+    }
+  }
+
+  /**
+   * Kill anything left and remove the group. Members that are still exiting
+   * keep the group busy briefly, so removal is retried once.
+   */
+  destroy(): void {
+    if (readPids(this.dir).length > 0) {
+      this.kill();
+    }
+
+    if (!removeCgroupDir(this.dir)) {
+      setTimeout(() => {
+        if (!removeCgroupDir(this.dir)) {
+          logManager.warn('Failed to remove sandbox cgroup', {
+            cgroup: this.dir
+          }, { component: 'sandbox', executionId: this.executionId });
+        }
+      }, 500).unref();
+    }
+  }
+}
+
+/**
+ * Find the parent cgroup and enable the controllers sandboxes need. The
+ * outcome is cached; the reason for falling back is logged once.
+ */
+function resolveCgroupParent(options: KernelLimitOptions): CgroupParent | null {
+  const cacheKey = `${options.cgroupRoot}:${options.cgroupParent ?? ''}`;
+  if (parentCache.has(cacheKey)) {
+    return parentCache.get(cacheKey)!;
+  }
+
+  let parent: CgroupParent | null = null;
+  try {
+    parent = enableControllers(options);
+  } catch (error) {
+    logManager.info('cgroup v2 limits unavailable, using polled resource limits', {
+      cgroupRoot: options.cgroupRoot,
+      reason: (error as Error).message
+    }, { component: 'sandbox' });
+  }
+
+  parentCache.set(cacheKey, parent);
+  return parent;
+}
+
+function enableControllers(options: KernelLimitOptions): CgroupParent {
+  if (!fs.existsSync(path.join(options.cgroupRoot, 'cgroup.controllers'))) {
+    throw new Error('cgroup v2 is not mounted');
+  }
+
+  const dir = path.join(options.cgroupRoot, options.cgroupParent ?? readOwnCgroup());
+  const available = fs.readFileSync(path.join(dir, 'cgroup.controllers'), 'utf-8').trim().split(/\s+/);
+  const missing = REQUIRED_CONTROLLERS.filter(controller => !available.includes(controller));
+  if (missing.length > 0) {
+    throw new Error(`controllers not delegated: ${missing.join(', ')}`);
+  }
+
+  const wanted = [...REQUIRED_CONTROLLERS, ...OPTIONAL_CONTROLLERS.filter(controller => available.includes(controller))];
+  const enabled: string[] = [];
+  for (const controller of wanted) {
+    try {
+      enableController(dir, controller, options.relocateProcesses);
+      enabled.push(controller);
+    } catch (error) {
+      if (REQUIRED_CONTROLLERS.includes(controller)) {
+        throw error;
+      }
+    }
+  }
+
+  return { dir, controllers: enabled };
+}
+
+function enableController(dir: string, controller: string, relocateProcesses: boolean): void {
+  try {
+    writeCgroupFile(dir, 'cgroup.subtree_control', `+${controller}`);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EBUSY' || !relocateProcesses) {
+      throw error;
+    }
+
+    // The parent still has member processes; move them into a leaf and retry
+    const leaf = path.join(dir, APP_LEAF_CGROUP);
+    fs.mkdirSync(leaf, { recursive: true });
+    for (const pid of readPids(dir)) {
+      writeCgroupFile(leaf, 'cgroup.procs', String(pid));
+    }
+    writeCgroupFile(dir, 'cgroup.subtree_control', `+${controller}`);
+  }
+}
+
+/**
+ * Path of this process's cgroup from the unified ("0::") line
+ */
+function readOwnCgroup(): string {
+  const line = fs.readFileSync('/proc/self/cgroup', 'utf-8')
+    .split('\n')
+    .find(entry => entry.startsWith('0::'));
+  if (!line) {
+    throw new Error('process is not in a cgroup v2 hierarchy');
+  }
+  return line.slice(3).trim();
+}
+
+/**
+ * Processes owned by a user, for the per-user RLIMIT_NPROC
+ */
+function countUserProcesses(uid: number): number {
+  let count = 0;
+  try {
+    for (const entry of fs.readdirSync('/proc')) {
+      if (!/^\d+$/.test(entry)) continue;
+      try {
+        if (fs.statSync(path.join('/proc', entry)).uid === uid) {
+          count++;
+        }
+      } catch {
+        // Exited while listing
+      }
+    }
+  } catch {
+    // No procfs; the caller's allowance still applies on top of zero
+  }
+  return count;
+}
+
+function writeCgroupFile(dir: string, file: string, value: string): void {
+  fs.writeFileSync(path.join(dir, file), value);
+}
+
+function writeOptionalCgroupFile(dir: string, file: string, value: string): void {
+  try {
+    writeCgroupFile(dir, file, value);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+}
+
+function readCgroupFile(dir: string, file: string): string | undefined {
+  try {
+    return fs.readFileSync(path.join(dir, file), 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+function readNumber(dir: string, file: string): number | undefined {
+  const content = readCgroupFile(dir, file);
+  const value = Number(content?.trim());
+  return content !== undefined && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Parse "key value" lines such as cpu.stat and memory.events
+ */
+function readKeyedValues(dir: string, file: string): Record<string, number> {
+  const values: Record<string, number> = {};
+  for (const line of (readCgroupFile(dir, file) ?? '').split('\n')) {
+    const [key, value] = line.trim().split(/\s+/);
+    if (key && value !== undefined && Number.isFinite(Number(value))) {
+      values[key] = Number(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Sum wbytes over every device in io.stat
+ */
+function readIoWriteBytes(dir: string): number {
+  let total = 0;
+  for (const match of (readCgroupFile(dir, 'io.stat') ?? '').matchAll(/\bwbytes=(\d+)/g)) {
+    total += Number(match[1]);
+  }
+  return total;
+}
+
+function readPids(dir: string): number[] {
+  return (readCgroupFile(dir, 'cgroup.procs') ?? '')
+    .split('\n')
+    .map(Number)
+    .filter(pid => pid > 0);
+}
+
+function removeCgroupDir(dir: string): boolean {
+  try {
+    fs.rmdirSync(dir);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'ENOENT';
+  }
+}
@@ -1,5 +1,5 @@
 import { Logger } from './Logger';
-import { LoggerConfig, EndpointHealthStatus, QueueHealthStatus, AlertRule, NotificationChannelConfig } from './types';
+import { LoggerConfig, EndpointHealthStatus, QueueHealthStatus, AlertRule, NotificationChannelConfig, ScheduledDiagnosticResult } from './types';
 import { MonitoringSystem } from './MonitoringSystem';
 import { SearchCriteria, SearchResult, LogFilter } from './types';
 
@@ -86,6 +86,10 @@ export class LogManager {
     this.monitoringSystem.updateQueueHealth(stats);
   }
 
+  recordScheduledDiagnostic(result: ScheduledDiagnosticResult): void {
+    this.monitoringSystem.recordScheduledDiagnostic(result);
+  }
+
   configureAlerting(options: { rules?: AlertRule[]; channels?: NotificationChannelConfig[] }): void {
     this.monitoringSystem.configureAlerting(options);
   }
@@ -9,7 +9,8 @@ import {
   QueueHealthStatus,
   NotificationChannelConfig,
   DashboardAlert,
-  AlertViolation
+  AlertViolation,
+  ScheduledDiagnosticResult
 } from './types';
 import { Logger } from './Logger';
 import { AlertManager } from './AlertManager';
@@ -75,6 +76,26 @@ const DEFAULT_ALERT_RULES: AlertRule[] = [
       }
       return null;
     }
+  },
+  {
+    id: 'scheduled-diagnostic-threshold',
+    description: 'A scheduled diagnostic reported a value beyond its threshold',
+    severity: 'warning',
+    cooldownMinutes: 60,
+    evaluate: ({ scheduledDiagnostics }): AlertViolation | null => {
+      const breached = (scheduledDiagnostics ?? []).filter((result) => result.breaches.length > 0);
+      if (!breached.length) return null;
+      const breaches = breached.flatMap((result) => result.breaches);
+      return {
+        ruleId: 'scheduled-diagnostic-threshold',
+        severity: breaches.some((breach) => breach.severity === 'critical') ? 'critical' : 'warning',
+        message: breaches.length === 1
+          ? breaches[0].message
+          : `${breaches.length} threshold(s) crossed by scheduled diagnostics (${breached.map((result) => result.skillId).join(', ')}).`,
+        timestamp: Date.now(),
+        details: { results: breached }
+      };
+    }
   }
 ];
 
@@ -95,6 +116,7 @@ export class MonitoringSystem {
   private alertManager: AlertManager;
   private endpointHealth: Map<string, EndpointHealthStatus> = new Map();
   private queueHealth?: QueueHealthStatus;
+  private scheduledDiagnostics: Map<string, ScheduledDiagnosticResult> = new Map();
 
   private notificationChannels: NotificationChannelConfig[] = [];
 
@@ -249,6 +271,16 @@ export class MonitoringSystem {
     this.evaluateAlerts();
   }
 
+  recordScheduledDiagnostic(result: ScheduledDiagnosticResult): void {
+    this.scheduledDiagnostics.set(result.skillId, result);
+    this.logger.info('Scheduled diagnostic recorded', {
+      skillId: result.skillId,
+      success: result.success,
+      breaches: result.breaches.length
+    }, { component: 'monitoring', skillId: result.skillId });
+    this.evaluateAlerts();
+  }
+
   updateExecutionMetrics(
     executionId: string,
     updates: Partial<PerformanceMetrics>
@@ -436,6 +468,7 @@ export class MonitoringSystem {
       monitoringStats: this.stats,
       endpointHealth: Array.from(this.endpointHealth.values()),
       queueHealth: this.queueHealth,
+      scheduledDiagnostics: Array.from(this.scheduledDiagnostics.values()),
       lastAlerts: this.alertManager.getActiveAlerts()
     };
 
@@ -495,7 +528,8 @@ export class MonitoringSystem {
       historical: { ...this.stats },
       alerts: [...this.alerts],
       endpointHealth: Array.from(this.endpointHealth.values()),
-      queueHealth: this.queueHealth
+      queueHealth: this.queueHealth,
+      scheduledDiagnostics: Array.from(this.scheduledDiagnostics.values())
     };
   }
 
@@ -170,6 +170,23 @@ export interface QueueHealthStatus {
 
 export type AlertSeverity = 'info' | 'warning' | 'critical';
 
+export interface DiagnosticThresholdBreach {
+  path: string;
+  value: number;
+  above?: number;
+  below?: number;
+  severity: AlertSeverity;
+  message: string;
+}
+
+export interface ScheduledDiagnosticResult {
+  skillId: string;
+  success: boolean;
+  completedAt: number;
+  error?: string;
+  breaches: DiagnosticThresholdBreach[];
+}
+
 export interface AlertRule {
   id: string;
   description: string;
@@ -182,6 +199,8 @@ export interface AlertEvaluationContext {
   monitoringStats: MonitoringStats;
   endpointHealth: EndpointHealthStatus[];
   queueHealth?: QueueHealthStatus;
+  // Latest result of each scheduled diagnostic
+  scheduledDiagnostics?: ScheduledDiagnosticResult[];
   lastAlerts: AlertViolation[];
 }
 
@@ -247,4 +266,5 @@ export interface DashboardMetrics {
   alerts: DashboardAlert[];
   endpointHealth: EndpointHealthStatus[];
   queueHealth?: QueueHealthStatus;
+  scheduledDiagnostics?: ScheduledDiagnosticResult[];
 }
@@ -4,15 +4,41 @@ import * as https from 'https';
 import * as dns from 'dns';
 import { EventEmitter } from 'events';
 
-// Network access control configuration
+// Hooks are installed on the shared modules so every importer sees them;
+// namespace imports compile to read-only copies
+const hookableNet: Record<string, any> = require('net');
+const hookableHttp: Record<string, any> = require('http');
+const hookableHttps: Record<string, any> = require('https');
+const hookableDns: Record<string, any> = require('dns');
+
+// A network rule. host is a name, which also covers its subdomains, a
+// wildcard domain such as *.service-now.com, which covers only subdomains,
+// an IP address, a CIDR range such as 10.0.0.0/8, or * for any host. ports
+// lists ports and inclusive ranges such as [443, '8000-8100']; without it
+// the rule covers every port.
+export interface NetworkRule {
+  action: 'allow' | 'deny';
+  host: string;
+  ports?: Array<number | string>;
+}
+
+// Network access control configuration. allowedHosts and blockedHosts take
+// the same host patterns as rules and apply to every port; addresses in
+// allowedHosts only allow connections to those literal addresses. Deny rules
+// win: a connection is refused if a deny rule matches its host name or any
+// address the name resolves to, and otherwise needs an allow rule for the
+// name, or for all of its addresses, when there are allow rules at all.
 export interface NetworkGuardOptions {
   enabled: boolean;
+  rules?: NetworkRule[];
   allowedHosts?: string[];
   blockedHosts?: string[];
   allowedPorts?: number[];
   blockedPorts?: number[];
   maxConnections?: number;
   maxBandwidthBytes?: number;
+  // Whether code under the guard may call dns functions itself; the guard
+  // resolves names it checks regardless
   dnsResolution?: boolean;
 }
 
@@ -21,12 +47,58 @@ export interface NetworkAccessEvent {
   type: 'tcp_connection' | 'http_request' | 'https_request' | 'dns_lookup';
   host: string;
   port?: number;
+  // Addresses the host resolved to, when they were checked
+  addresses?: string[];
   timestamp: number;
   allowed: boolean;
+  // The rule that decided, such as "allow *.service-now.com ports 443"
+  rule?: string;
   bytesTransferred?: number;
   reason?: string;
 }
 
+// Error raised for a rule the guard cannot parse
+export class NetworkRuleError extends Error {
+  constructor(message: string, public rule?: string) {
+    super(message);
+    this.name = 'NetworkRuleError';
+  }
+}
+
+// A rule ready to match: one of the name, address or any-host matchers
+interface CompiledNetworkRule {
+  action: NetworkRule['action'];
+  label: string;
+  name?: string;
+  wildcardSuffix?: string;
+  addresses?: net.BlockList;
+  anyHost?: boolean;
+  // Whether the addresses a name resolves to count, not only literal ones
+  matchesResolved: boolean;
+  ports: Array<[number, number]>;
+}
+
+// Outcome of checking a connection against the rules. A deferred decision
+// is made by the lookup once the host name is resolved.
+interface NetworkDecision {
+  allowed: boolean;
+  deferred?: boolean;
+  rule?: string;
+  reason?: string;
+}
+
+// Lookup functions created by a guard are marked so they are not wrapped twice
+const guardLookups = new WeakSet<Function>();
+
+// Loopback, link-local and private ranges an allowed name may not resolve into
+const INTERNAL_ADDRESSES = new net.BlockList();
+for (const [address, prefix] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16]] as const) {
+  INTERNAL_ADDRESSES.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10]] as const) {
+  INTERNAL_ADDRESSES.addSubnet(address, prefix, 'ipv6');
+}
+
 /**
  * Network access guard for sandbox environment
  * Monitors and controls network access during script execution
@@ -36,15 +108,21 @@ export class NetworkGuard extends EventEmitter {
   private bandwidthUsage = 0;
   private activeConnections = new Set<any>();
   private originalMethods: any = {};
+  private denyRules: CompiledNetworkRule[] = [];
+  private allowRules: CompiledNetworkRule[] = [];
 
+  /**
+   * @throws {NetworkRuleError} If a rule or host pattern is malformed
+   */
   constructor(private options: NetworkGuardOptions) {
     super();
     this.setDefaultOptions();
+    this.compileRules();
   }
 
   private setDefaultOptions(): void {
     this.options = {
-      enabled: true,
+      rules: [],
       allowedHosts: ['localhost', '127.0.0.1', '::1'],
       blockedHosts: [],
       allowedPorts: [],
@@ -73,6 +151,67 @@ export class NetworkGuard extends EventEmitter {
     this.restoreOriginalMethods();
   }
 
+  /**
+   * Check a request made on a skill's behalf, such as a node skill's
+   * capability call, against the policy without hooking http, and record it.
+   * The request must resolve names through createLookup: its addresses are
+   * only checked there.
+   * @throws {Error} If network access is disabled or the host is not allowed
+   */
+  authorizeRequest(url: URL): void {
+    const type = url.protocol === 'https:' ? 'https_request' : 'http_request';
+    const port = parseInt(url.port) || (url.protocol === 'https:' ? 443 : 80);
+    const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+
+    if (!this.options.enabled) {
+      this.recordAccessEvent(type, host, port, false, 'Network access is disabled');
+      throw new Error(`HTTP request to ${host}:${port} blocked: network access is disabled`);
+    }
+
+    const decision = this.evaluate(host, port);
+    this.recordDecision(type, host, port, decision);
+    if (!decision.allowed) {
+      throw new Error(`HTTP request to ${host}:${port} blocked by sandbox: ${decision.reason}`);
+    }
+  }
+
+  /**
+   * A dns.lookup replacement for connections to the given port that checks
+   * the addresses a name resolves to, so the address actually connected to
+   * is the one checked. Pass it as the `lookup` option of net or http.
+   */
+  createLookup(type: NetworkAccessEvent['type'], port: number, resolver?: Function): net.LookupFunction {
+    const lookup = (hostname: string, options: dns.LookupOptions, callback: Function) => {
+      const resolve: Function = resolver ?? this.originalMethods.lookup ?? dns.lookup;
+      resolve(hostname, options, (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => {
+        if (error) {
+          callback(error, address, family);
+          return;
+        }
+
+        const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+        const decision = this.evaluate(hostname, port, addresses);
+        this.recordDecision(type, hostname, port, decision, addresses);
+        if (!decision.allowed) {
+          callback(new Error(`Connection to ${hostname} (${addresses.join(', ')}) blocked by sandbox: ${decision.reason}`));
+          return;
+        }
+        callback(null, address, family);
+      });
+    };
+
+    guardLookups.add(lookup);
+    return lookup as net.LookupFunction;
+  }
+
+  /**
+   * Count bytes transferred on a skill's behalf against the bandwidth limit
+   * @throws {Error} If the limit is exceeded
+   */
+  recordTransfer(bytes: number): void {
+    this.trackBandwidthUsage(bytes);
+  }
+
   /**
    * Backup original network methods
    */
@@ -95,22 +234,22 @@ export class NetworkGuard extends EventEmitter {
    * Restore original network methods
    */
   private restoreOriginalMethods(): void {
-    Object.assign(net, {
+    Object.assign(hookableNet, {
       createConnection: this.originalMethods.createConnection,
       createServer: this.originalMethods.createServer
     });
 
-    Object.assign(http, {
+    Object.assign(hookableHttp, {
       request: this.originalMethods.request,
       get: this.originalMethods.get
     });
 
-    Object.assign(https, {
+    Object.assign(hookableHttps, {
       request: this.originalMethods.httpsRequest,
       get: this.originalMethods.httpsGet
     });
 
-    Object.assign(dns, {
+    Object.assign(hookableDns, {
       lookup: this.originalMethods.lookup,
       resolve: this.originalMethods.resolve,
       resolve4: this.originalMethods.resolve4,
@@ -123,15 +262,15 @@ export class NetworkGuard extends EventEmitter {
    */
   private installHooks(): void {
     // TCP connections
-    net.createConnection = this.createTcpConnectionHook(net.createConnection);
+    hookableNet.createConnection = this.createTcpConnectionHook(net.createConnection);
 
     // HTTP requests
-    http.request = this.createHttpRequestHook(http.request);
-    http.get = this.createHttpRequestHook(http.get);
+    hookableHttp.request = this.createHttpRequestHook(http.request, 'http_request');
+    hookableHttp.get = this.createHttpRequestHook(http.get, 'http_request');
 
     // HTTPS requests
-    https.request = this.createHttpRequestHook(https.request);
-    https.get = this.createHttpRequestHook(https.get);
+    hookableHttps.request = this.createHttpRequestHook(https.request, 'https_request');
+    hookableHttps.get = this.createHttpRequestHook(https.get, 'https_request');
 
     // DNS resolution
     if (!this.options.dnsResolution) {
@@ -146,15 +285,10 @@ export class NetworkGuard extends EventEmitter {
     return (...args: any[]) => {
       const connectionInfo = this.parseConnectionArgs(args);
 
-      if (!this.isConnectionAllowed(connectionInfo.host, connectionInfo.port, 'tcp')) {
-        this.recordAccessEvent(
-          'tcp_connection',
-          connectionInfo.host,
-          connectionInfo.port,
-          false,
-          'TCP connection blocked by sandbox policy'
-        );
-        throw new Error(`TCP connection to ${connectionInfo.host}:${connectionInfo.port} blocked by sandbox`);
+      const decision = this.evaluate(connectionInfo.host, connectionInfo.port);
+      if (!decision.allowed) {
+        this.recordDecision('tcp_connection', connectionInfo.host, connectionInfo.port, decision);
+        throw new Error(`TCP connection to ${connectionInfo.host}:${connectionInfo.port} blocked by sandbox: ${decision.reason}`);
       }
 
       if (this.activeConnections.size >= this.options.maxConnections!) {
@@ -168,12 +302,12 @@ export class NetworkGuard extends EventEmitter {
         throw new Error('Maximum network connections exceeded');
       }
 
-      this.recordAccessEvent(
-        'tcp_connection',
-        connectionInfo.host,
-        connectionInfo.port,
-        true
-      );
+      this.recordDecision('tcp_connection', connectionInfo.host, connectionInfo.port, decision);
+
+      // Names are checked again once resolved, before the socket connects
+      if (net.isIP(connectionInfo.host) === 0) {
+        args = this.withLookup(args, 'tcp_connection', connectionInfo.port);
+      }
 
       const socket = originalMethod.apply(net, args);
       this.monitorSocket(socket);
@@ -184,34 +318,26 @@ export class NetworkGuard extends EventEmitter {
   /**
    * Create HTTP request hook
    */
-  private createHttpRequestHook(originalMethod: Function): any {
+  private createHttpRequestHook(originalMethod: Function, type: 'http_request' | 'https_request'): any {
     return (...args: any[]) => {
-      const url = this.getUrlFromRequestArgs(args);
+      const url = this.getUrlFromRequestArgs(args, type === 'https_request' ? 'https:' : 'http:');
 
       if (!url) {
         return originalMethod.apply(this, args);
       }
 
-      const host = url.hostname;
+      const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
       const port = parseInt(url.port) || (url.protocol === 'https:' ? 443 : 80);
 
-      if (!this.isConnectionAllowed(host, port, 'http')) {
-        this.recordAccessEvent(
-          'http_request',
-          host,
-          port,
-          false,
-          'HTTP request blocked by sandbox policy'
-        );
-        throw new Error(`HTTP request to ${host}:${port} blocked by sandbox`);
+      const decision = this.evaluate(host, port);
+      this.recordDecision(type, host, port, decision);
+      if (!decision.allowed) {
+        throw new Error(`HTTP request to ${host}:${port} blocked by sandbox: ${decision.reason}`);
       }
 
-      this.recordAccessEvent(
-        'http_request',
-        host,
-        port,
-        true
-      );
+      if (net.isIP(host) === 0) {
+        args = this.withLookup(args, type, port);
+      }
 
       const req = originalMethod.apply(this, args);
       this.monitorHttpRequest(req);
@@ -234,18 +360,18 @@ export class NetworkGuard extends EventEmitter {
       };
     };
 
-    dns.lookup = blockMethod('lookup');
-    dns.resolve = blockMethod('resolve');
-    dns.resolve4 = blockMethod('resolve4');
-    dns.resolve6 = blockMethod('resolve6');
+    hookableDns.lookup = blockMethod('lookup');
+    hookableDns.resolve = blockMethod('resolve');
+    hookableDns.resolve4 = blockMethod('resolve4');
+    hookableDns.resolve6 = blockMethod('resolve6');
   }
 
   /**
    * Parse connection arguments
    */
   private parseConnectionArgs(args: any[]): { host: string; port: number } {
-    if (args.length >= 2 && typeof args[0] === 'number') {
-      return { host: 'localhost', port: args[0] };
+    if (typeof args[0] === 'number' || (typeof args[0] === 'string' && /^\d+$/.test(args[0]))) {
+      return { host: typeof args[1] === 'string' ? args[1] : 'localhost', port: Number(args[0]) };
     } else if (args.length >= 1 && typeof args[0] === 'object') {
       const options = args[0];
       return { host: options.host || 'localhost', port: options.port || 0 };
@@ -255,15 +381,46 @@ export class NetworkGuard extends EventEmitter {
     return { host: 'unknown', port: 0 };
   }
 
+  /**
+   * Connection arguments with a lookup that checks resolved addresses. A
+   * lookup the caller supplied does the resolving.
+   */
+  private withLookup(args: any[], type: NetworkAccessEvent['type'], port: number): any[] {
+    const addLookup = (options: Record<string, any>) => guardLookups.has(options.lookup)
+      ? options
+      : { ...options, lookup: this.createLookup(type, port, options.lookup) };
+
+    if (typeof args[0] === 'number' || (typeof args[0] === 'string' && /^\d+$/.test(args[0]))) {
+      const host = typeof args[1] === 'string' ? args[1] : undefined;
+      return [addLookup({ port: Number(args[0]), host }), ...args.slice(host === undefined ? 1 : 2)];
+    }
+    if (typeof args[0] === 'string' || args[0] instanceof URL) {
+      return typeof args[1] === 'object' && args[1] !== null
+        ? [args[0], addLookup(args[1]), ...args.slice(2)]
+        : [args[0], addLookup({}), ...args.slice(1)];
+    }
+    if (typeof args[0] === 'object' && args[0] !== null) {
+      return [addLookup(args[0]), ...args.slice(1)];
+    }
+    return args;
+  }
+
   /**
    * Get URL from HTTP request arguments
    */
-  private getUrlFromRequestArgs(args: any[]): URL | null {
+  private getUrlFromRequestArgs(args: any[], protocol: string): URL | null {
     try {
       if (typeof args[0] === 'string') {
         return new URL(args[0]);
-      } else if (typeof args[0] === 'object' && args[0].host) {
-        return new URL(`http://${args[0].host}`);
+      } else if (args[0] instanceof URL) {
+        return args[0];
+      } else if (typeof args[0] === 'object' && (args[0].hostname || args[0].host)) {
+        const host = String(args[0].hostname || args[0].host);
+        const url = new URL(`${args[0].protocol || protocol}//${net.isIPv6(host) ? `[${host}]` : host}`);
+        if (args[0].port) {
+          url.port = String(args[0].port);
+        }
+        return url;
       } else if (typeof args[0] === 'object' && args[0].href) {
         return new URL(args[0].href);
       }
@@ -274,41 +431,78 @@ export class NetworkGuard extends EventEmitter {
   }
 
   /**
-   * Check if connection is allowed
+   * Compile the rules, blockedHosts and allowedHosts
+   * @throws {NetworkRuleError} If one is malformed
    */
-  private isConnectionAllowed(host: string, port: number, type: string): boolean {
-    // Check blocked hosts
-    for (const blockedHost of this.options.blockedHosts || []) {
-      if (host === blockedHost || host.endsWith(`.${blockedHost}`)) {
+  private compileRules(): void {
+    const compiled = [
+      ...(this.options.rules ?? []).map(rule => compileNetworkRule(rule, true)),
+      ...(this.options.blockedHosts ?? []).map(host => compileNetworkRule({ action: 'deny', host }, true)),
+      ...(this.options.allowedHosts ?? []).map(host => compileNetworkRule({ action: 'allow', host }, false))
+    ];
+    this.denyRules = compiled.filter(rule => rule.action === 'deny');
+    this.allowRules = compiled.filter(rule => rule.action === 'allow');
+  }
+
+  /**
+   * Check a connection against the rules. A host name is matched by name,
+   * plus by its resolved addresses once they are known; an IP address only
+   * by address. A name allowed by name may only resolve to internal
+   * addresses an address rule allows, so rebinding it to one is caught.
+   */
+  private evaluate(host: string, port: number, resolvedAddresses?: string[]): NetworkDecision {
+    const name = net.isIP(host) === 0 ? host.toLowerCase().replace(/\.$/, '') : null;
+    const addresses = name === null ? [host] : resolvedAddresses ?? [];
+
+    const matchesPort = (rule: CompiledNetworkRule) =>
+      rule.ports.length === 0 || rule.ports.some(([from, to]) => port >= from && port <= to);
+    const internal = addresses.find(address => isInternalAddress(address) &&
+      !this.allowRules.some(rule => (rule.addresses || rule.anyHost) && matchesPort(rule) && matchesAddress(rule, address)));
+
+    const matches = (rule: CompiledNetworkRule, addressesMustAllMatch: boolean) => {
+      if (!matchesPort(rule)) {
+        return false;
+      }
+      if (name !== null && matchesName(rule, name)) {
+        return rule.action === 'deny' || internal === undefined;
+      }
+      if (name !== null && !rule.matchesResolved) {
         return false;
       }
+      return addresses.length > 0 && (addressesMustAllMatch
+        ? addresses.every(address => matchesAddress(rule, address))
+        : addresses.some(address => matchesAddress(rule, address)));
+    };
+
+    const denied = this.denyRules.find(rule => matches(rule, false));
+    if (denied) {
+      return { allowed: false, rule: denied.label, reason: `Denied by rule ${denied.label}` };
     }
 
-    // Check blocked ports
     if (this.options.blockedPorts?.includes(port)) {
-      return false;
+      return { allowed: false, rule: `deny port ${port}`, reason: `Port ${port} is blocked` };
     }
 
-    // Check allowed hosts (if specified)
-    if (this.options.allowedHosts && this.options.allowedHosts.length > 0) {
-      let isAllowed = false;
-      for (const allowedHost of this.options.allowedHosts) {
-        if (host === allowedHost || host.endsWith(`.${allowedHost}`)) {
-          isAllowed = true;
-          break;
-        }
-      }
-      if (!isAllowed) return false;
+    if (this.options.allowedPorts && this.options.allowedPorts.length > 0 && !this.options.allowedPorts.includes(port)) {
+      return { allowed: false, reason: `Port ${port} is not in the allowed ports` };
     }
 
-    // Check allowed ports (if specified)
-    if (this.options.allowedPorts && this.options.allowedPorts.length > 0) {
-      if (!this.options.allowedPorts.includes(port)) {
-        return false;
-      }
+    if (this.allowRules.length === 0) {
+      return { allowed: true };
     }
 
-    return true;
+    const allowed = this.allowRules.find(rule => matches(rule, true));
+    if (allowed) {
+      return { allowed: true, rule: allowed.label };
+    }
+    if (name !== null && internal !== undefined && this.allowRules.some(rule => matchesPort(rule) && matchesName(rule, name))) {
+      return { allowed: false, reason: `${host} resolves to internal address ${internal}` };
+    }
+    // A name may still resolve into an allowed address range
+    if (name !== null && resolvedAddresses === undefined && this.allowRules.some(rule => rule.addresses && rule.matchesResolved)) {
+      return { allowed: true, deferred: true };
+    }
+    return { allowed: false, reason: `No rule allows ${host}:${port}` };
   }
 
   /**
@@ -325,7 +519,7 @@ export class NetworkGuard extends EventEmitter {
       } else if (Buffer.isBuffer(data)) {
         this.trackBandwidthUsage(data.length);
       }
-      return originalWrite.apply(socket, args);
+      return (originalWrite as Function).apply(socket, args);
     };
 
     socket.on('data', (data: Buffer) => {
@@ -353,9 +547,10 @@ export class NetworkGuard extends EventEmitter {
 
     req.on('finish', () => {
       // Track request body size if available
-      if (req.outputData && req.outputData.length > 0) {
+      const outputData: any[] | undefined = (req as any).outputData;
+      if (outputData && outputData.length > 0) {
         let totalSize = 0;
-        for (const chunk of req.outputData) {
+        for (const chunk of outputData) {
           totalSize += chunk.length;
         }
         this.trackBandwidthUsage(totalSize);
@@ -391,6 +586,19 @@ export class NetworkGuard extends EventEmitter {
     }
   }
 
+  private recordDecision(
+    type: NetworkAccessEvent['type'],
+    host: string,
+    port: number,
+    decision: NetworkDecision,
+    addresses?: string[]
+  ): void {
+    if (decision.deferred) {
+      return;
+    }
+    this.recordAccessEvent(type, host, port, decision.allowed, decision.reason, decision.rule, addresses);
+  }
+
   /**
    * Record network access event
    */
@@ -399,14 +607,18 @@ export class NetworkGuard extends EventEmitter {
     host: string,
     port: number | undefined,
     allowed: boolean,
-    reason?: string
+    reason?: string,
+    rule?: string,
+    addresses?: string[]
   ): void {
     const event: NetworkAccessEvent = {
       type,
       host,
       port,
+      addresses,
       timestamp: Date.now(),
       allowed,
+      rule,
       reason
     };
 
@@ -452,4 +664,90 @@ export class NetworkGuard extends EventEmitter {
   getActiveConnections(): number {
     return this.activeConnections.size;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Parse a rule's host pattern and ports
+ * @throws {NetworkRuleError} If either is malformed
+ */
+function compileNetworkRule(rule: NetworkRule, matchesResolved: boolean): CompiledNetworkRule {
+  const host = rule.host.trim().toLowerCase();
+  const label = `${rule.action} ${rule.host}${rule.ports?.length ? ` ports ${rule.ports.join(',')}` : ''}`;
+  const compiled: CompiledNetworkRule = {
+    action: rule.action,
+    label,
+    matchesResolved,
+    ports: (rule.ports ?? []).map(port => parsePortRange(port, label))
+  };
+
+  if (rule.action !== 'allow' && rule.action !== 'deny') {
+    throw new NetworkRuleError(`Network rule action must be 'allow' or 'deny' (got '${rule.action}')`, label);
+  }
+
+  if (host === '*') {
+    compiled.anyHost = true;
+  } else if (host.includes('/')) {
+    const [address, prefix] = host.split('/');
+    const family = net.isIP(address);
+    const bits = Number(prefix);
+    if (family === 0 || !/^\d+$/.test(prefix) || bits > (family === 4 ? 32 : 128)) {
+      throw new NetworkRuleError(`Invalid CIDR range '${rule.host}'`, label);
+    }
+    compiled.addresses = new net.BlockList();
+    compiled.addresses.addSubnet(address, bits, family === 4 ? 'ipv4' : 'ipv6');
+  } else if (net.isIP(host) !== 0) {
+    compiled.addresses = new net.BlockList();
+    compiled.addresses.addAddress(host, net.isIP(host) === 4 ? 'ipv4' : 'ipv6');
+  } else if (host.startsWith('*.')) {
+    compiled.wildcardSuffix = host.slice(1);
+    if (!isHostName(compiled.wildcardSuffix.slice(1))) {
+      throw new NetworkRuleError(`Invalid wildcard domain '${rule.host}'`, label);
+    }
+  } else if (isHostName(host)) {
+    compiled.name = host.replace(/\.$/, '');
+  } else {
+    throw new NetworkRuleError(`Invalid host pattern '${rule.host}'`, label);
+  }
+
+  return compiled;
+}
+
+/**
+ * A port or an inclusive range such as '8000-8100'
+ */
+function parsePortRange(port: number | string, label: string): [number, number] {
+  const match = /^(\d+)(?:-(\d+))?$/.exec(String(port).trim());
+  const from = match ? Number(match[1]) : NaN;
+  const to = match?.[2] !== undefined ? Number(match[2]) : from;
+  if (!match || from < 1 || to > 65535 || from > to) {
+    throw new NetworkRuleError(`Invalid port or port range '${port}'`, label);
+  }
+  return [from, to];
+}
+
+function isHostName(value: string): boolean {
+  return /^[a-z0-9_]([a-z0-9_-]*[a-z0-9_])?(\.[a-z0-9_]([a-z0-9_-]*[a-z0-9_])?)*\.?$/.test(value);
+}
+
+function matchesName(rule: CompiledNetworkRule, name: string): boolean {
+  if (rule.anyHost) {
+    return true;
+  }
+  if (rule.wildcardSuffix) {
+    return name.endsWith(rule.wildcardSuffix);
+  }
+  return rule.name !== undefined && (name === rule.name || name.endsWith(`.${rule.name}`));
+}
+
+function isInternalAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family !== 0 && INTERNAL_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+function matchesAddress(rule: CompiledNetworkRule, address: string): boolean {
+  if (rule.anyHost) {
+    return true;
+  }
+  const family = net.isIP(address);
+  return rule.addresses !== undefined && family !== 0 && rule.addresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
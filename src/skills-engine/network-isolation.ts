@@ -0,0 +1,375 @@
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as net from 'net';
+import { promises as dnsPromises } from 'dns';
+
+// Socket of a sandboxed process with a remote end, read from /proc
+export interface ProcessConnection {
+  protocol: 'tcp' | 'udp';
+  remoteAddress: string;
+  remotePort: number;
+  pid: number;
+}
+
+// Program run by a sandboxed process, read from /proc
+export interface ProcessImage {
+  pid: number;
+  executable: string;
+  command: string;
+}
+
+// Shell run inside the private namespace: run the command, then save the
+// namespace's IP counters so refused connection attempts can be reported.
+// Only builtins run after the command, so no program outside the skill's
+// declared capabilities shows up in its process tree.
+const NETNS_REPORT_SCRIPT = [
+  'report=$1',
+  'shift',
+  '"$@"',
+  'status=$?',
+  '{ for counters in /proc/net/snmp /proc/net/snmp6; do',
+  '  [ -r "$counters" ] || continue',
+  '  while IFS= read -r line; do printf \'%s\\n\' "$line"; done < "$counters"',
+  'done; } > "$report" 2>/dev/null',
+  'exit $status'
+].join('\n');
+
+// Shell run inside a private mount namespace: remount every mount
+// read-only, refusing to run the command if any cannot be, then run it
+// without capabilities so it cannot remount them writable
+const READ_ONLY_SCRIPT = [
+  'while read -r device point rest; do',
+  '  mount -o remount,bind,ro "$(printf \'%b\' "$point")" || exit 1',
+  'done < /proc/self/mounts',
+  'exec setpriv --bounding-set=-all --inh-caps=-all --no-new-privs "$@"'
+].join('\n');
+
+// Seatbelt profile for macOS: everything but networking
+const DARWIN_NO_NETWORK_PROFILE = '(version 1)(allow default)(deny network*)';
+
+const PROBE_TIMEOUT_MS = 2000;
+const DNS_PORT = 53;
+
+let isolationPrefix: string[] | null | undefined;
+let readOnlyPrefix: string[] | null | undefined;
+
+/**
+ * Command prefix that runs a program without network access, or null when
+ * the platform offers no way to do so for this user. On Linux that is a
+ * private network namespace (a user namespace as well when not root, which
+ * needs no privileges where the kernel allows it); on macOS a sandbox-exec
+ * profile. The probe runs once.
+ */
+export function getNetworkIsolationPrefix(): string[] | null {
+  if (isolationPrefix !== undefined) {
+    return isolationPrefix;
+  }
+
+  let candidates: string[][] = [];
+  if (process.platform === 'linux') {
+    candidates = [
+      ...(process.getuid?.() === 0 ? [['unshare', '--net']] : []),
+      ['unshare', '--user', '--map-current-user', '--net'],
+      ['unshare', '--user', '--map-root-user', '--net']
+    ];
+  } else if (process.platform === 'darwin') {
+    candidates = [['/usr/bin/sandbox-exec', '-p', DARWIN_NO_NETWORK_PROFILE]];
+  }
+
+  isolationPrefix = candidates.find(prefix => {
+    const probe = spawnSync(prefix[0], [...prefix.slice(1), '/bin/sh', '-c', 'exit 0'], {
+      stdio: 'ignore',
+      timeout: PROBE_TIMEOUT_MS
+    });
+    return probe.status === 0;
+  }) ?? null;
+
+  return isolationPrefix;
+}
+
+/**
+ * Run a command behind an isolation prefix. On Linux the namespace's IP
+ * counters are written to `reportFile` when the command exits.
+ */
+export function buildIsolatedCommand(command: string[], prefix: string[], reportFile?: string): string[] {
+  if (!reportFile || prefix[0] !== 'unshare') {
+    return [...prefix, ...command];
+  }
+  return [...prefix, '/bin/sh', '-c', NETNS_REPORT_SCRIPT, 'wtc-netns', reportFile, ...command];
+}
+
+/**
+ * Command prefix that runs a program with every filesystem mounted
+ * read-only, or null when this user cannot. Linux only: a private mount
+ * namespace (in a user namespace when not root) whose mounts are remounted
+ * read-only, with the program started without capabilities; writes then
+ * fail with EROFS whenever they are made. The probe runs once.
+ */
+export function getReadOnlyIsolationPrefix(): string[] | null {
+  if (readOnlyPrefix !== undefined) {
+    return readOnlyPrefix;
+  }
+
+  const candidates = process.platform !== 'linux' ? [] : [
+    ...(process.getuid?.() === 0 ? [['unshare', '--mount']] : []),
+    ['unshare', '--user', '--map-root-user', '--mount']
+  ];
+  readOnlyPrefix = candidates
+    .map(prefix => [...prefix, '/bin/sh', '-c', READ_ONLY_SCRIPT, 'wtc-readonly'])
+    .find(prefix => {
+      const probe = spawnSync(prefix[0], [...prefix.slice(1), '/bin/sh', '-c', 'exit 0'], {
+        stdio: 'ignore',
+        timeout: PROBE_TIMEOUT_MS
+      });
+      return probe.status === 0;
+    }) ?? null;
+
+  return readOnlyPrefix;
+}
+
+/**
+ * Outbound attempts the namespace refused for lack of a route, from the
+ * counters saved by the wrapper. 0 when the report is missing.
+ */
+export function readBlockedAttempts(reportFile: string): number {
+  let report: string;
+  try {
+    report = fs.readFileSync(reportFile, 'utf-8');
+  } catch {
+    return 0;
+  }
+
+  let attempts = 0;
+  const lines = report.split('\n');
+  const ipHeader = lines.findIndex(line => line.startsWith('Ip: Forwarding'));
+  if (ipHeader !== -1 && lines[ipHeader + 1]?.startsWith('Ip:')) {
+    const names = lines[ipHeader].split(/\s+/);
+    const values = lines[ipHeader + 1].split(/\s+/);
+    attempts += Number(values[names.indexOf('OutNoRoutes')]) || 0;
+  }
+
+  const ip6 = /^Ip6OutNoRoutes\s+(\d+)/m.exec(report);
+  if (ip6) {
+    attempts += Number(ip6[1]);
+  }
+
+  return attempts;
+}
+
+/**
+ * Pid of a process and all of its descendants
+ */
+export function listProcessTree(rootPid: number): number[] {
+  const children = new Map<number, number[]>();
+  for (const entry of safeReaddir('/proc')) {
+    if (!/^\d+$/.test(entry)) continue;
+    try {
+      // The command name may contain spaces; fields resume after its ')'
+      const stat = fs.readFileSync(path.join('/proc', entry, 'stat'), 'utf-8');
+      const parentPid = Number(stat.slice(stat.lastIndexOf(')') + 2).split(' ')[1]);
+      children.set(parentPid, [...(children.get(parentPid) ?? []), Number(entry)]);
+    } catch {
+      // Exited while listing
+    }
+  }
+
+  const pids = [rootPid];
+  for (let i = 0; i < pids.length; i++) {
+    pids.push(...(children.get(pids[i]) ?? []));
+  }
+  return pids;
+}
+
+/**
+ * Connected TCP and UDP sockets held by the given processes
+ */
+export function listProcessConnections(pids: number[]): ProcessConnection[] {
+  const owners = new Map<string, number>();
+  for (const pid of pids) {
+    for (const fd of safeReaddir(`/proc/${pid}/fd`)) {
+      try {
+        const match = /^socket:\[(\d+)\]$/.exec(fs.readlinkSync(`/proc/${pid}/fd/${fd}`));
+        if (match) {
+          owners.set(match[1], pid);
+        }
+      } catch {
+        // Closed while listing
+      }
+    }
+  }
+
+  if (owners.size === 0) {
+    return [];
+  }
+
+  const connections: ProcessConnection[] = [];
+  const tables: Array<[ProcessConnection['protocol'], string]> = [['tcp', 'tcp'], ['tcp', 'tcp6'], ['udp', 'udp'], ['udp', 'udp6']];
+  for (const [protocol, table] of tables) {
+    let content = '';
+    try {
+      // The tables are per network namespace, so read them through the process
+      content = fs.readFileSync(`/proc/${pids[0]}/net/${table}`, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    for (const line of content.split('\n').slice(1)) {
+      const fields = line.trim().split(/\s+/);
+      const pid = owners.get(fields[9]);
+      if (pid === undefined || !fields[2]) continue;
+
+      const [hexAddress, hexPort] = fields[2].split(':');
+      const remotePort = parseInt(hexPort, 16);
+      if (remotePort === 0) continue; // Listening or not connected
+
+      connections.push({ protocol, remoteAddress: decodeProcAddress(hexAddress), remotePort, pid });
+    }
+  }
+
+  return connections;
+}
+
+/**
+ * Program each of the given processes runs: the resolved executable and the
+ * kernel's (possibly truncated) command name
+ */
+export function listProcessImages(pids: number[]): ProcessImage[] {
+  const images: ProcessImage[] = [];
+  for (const pid of pids) {
+    try {
+      const command = fs.readFileSync(`/proc/${pid}/comm`, 'utf-8').trim();
+      let executable = '';
+      try {
+        executable = fs.readlinkSync(`/proc/${pid}/exe`);
+      } catch {
+        // Not readable for this user; the command name still identifies it
+      }
+      images.push({ pid, executable, command });
+    } catch {
+      // Exited while listing
+    }
+  }
+  return images;
+}
+
+/**
+ * Regular files the given processes hold open for writing
+ */
+export function listFilesOpenForWriting(pids: number[]): Array<{ pid: number; path: string }> {
+  const files: Array<{ pid: number; path: string }> = [];
+  for (const pid of pids) {
+    for (const fd of safeReaddir(`/proc/${pid}/fd`)) {
+      try {
+        const target = fs.readlinkSync(`/proc/${pid}/fd/${fd}`);
+        if (!target.startsWith('/') || target.startsWith('/dev/') || target.startsWith('/proc/')) continue;
+
+        const flags = /^flags:\s+([0-7]+)/m.exec(fs.readFileSync(`/proc/${pid}/fdinfo/${fd}`, 'utf-8'));
+        // O_WRONLY or O_RDWR in the access mode bits
+        if (flags && (parseInt(flags[1], 8) & 3) !== 0) {
+          files.push({ pid, path: target.replace(/ \(deleted\)$/, '') });
+        }
+      } catch {
+        // Closed while listing
+      }
+    }
+  }
+  return files;
+}
+
+/**
+ * Hosts a networked skill may connect to. Names are resolved up front; the
+ * resolver's nameservers are allowed on port 53 so the names can be looked up.
+ */
+export class HostAllowlist {
+  private addresses = new Set<string>();
+  private nameservers = new Set<string>();
+
+  // With `ports`, connections to the allowed hosts are limited to them
+  constructor(
+    private hosts: string[],
+    private resolvConfPath: string = '/etc/resolv.conf',
+    private ports: number[] = []
+  ) {}
+
+  /**
+   * Resolve the allowed names again; addresses already known are kept
+   */
+  async refresh(): Promise<void> {
+    for (const host of this.hosts) {
+      if (net.isIP(host)) {
+        this.addresses.add(normalizeAddress(host));
+        continue;
+      }
+      try {
+        for (const { address } of await dnsPromises.lookup(host, { all: true })) {
+          this.addresses.add(normalizeAddress(address));
+        }
+      } catch {
+        // Unresolvable hosts allow nothing
+      }
+    }
+
+    try {
+      for (const match of fs.readFileSync(this.resolvConfPath, 'utf-8').matchAll(/^\s*nameserver\s+(\S+)/gm)) {
+        this.nameservers.add(normalizeAddress(match[1]));
+      }
+    } catch {
+      // No resolver configuration
+    }
+  }
+
+  isAllowed(address: string, port: number): boolean {
+    const normalized = normalizeAddress(address);
+    return (this.addresses.has(normalized) && (this.ports.length === 0 || this.ports.includes(port))) ||
+      (port === DNS_PORT && this.nameservers.has(normalized));
+  }
+}
+
+/**
+ * Decode an address from /proc/net/{tcp,udp}[6]: 32-bit words in host
+ * (little-endian) byte order
+ */
+function decodeProcAddress(hex: string): string {
+  const words = hex.match(/.{8}/g) ?? [];
+  const bytes = words.flatMap(word => (word.match(/../g) ?? []).reverse().map(byte => parseInt(byte, 16)));
+
+  if (bytes.length === 4) {
+    return bytes.join('.');
+  }
+
+  const groups: string[] = [];
+  for (let i = 0; i < bytes.length; i += 2) {
+    groups.push(((bytes[i] << 8) | bytes[i + 1]).toString(16));
+  }
+  return normalizeAddress(groups.join(':'));
+}
+
+/**
+ * Canonical form for comparison: IPv4-mapped IPv6 as IPv4, IPv6 compressed
+ */
+function normalizeAddress(address: string): string {
+  const mapped = /^(?:0:0:0:0:0:|::)ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return mapped[1];
+  }
+  if (net.isIPv6(address)) {
+    const groups = address.split(':');
+    if (groups.length === 8) {
+      const [hi, lo] = [groups[6], groups[7]].map(group => parseInt(group, 16));
+      if (groups.slice(0, 5).every(group => parseInt(group, 16) === 0) && parseInt(groups[5], 16) === 0xffff) {
+        return [hi >> 8, hi & 0xff, lo >> 8, lo & 0xff].join('.');
+      }
+    }
+    return new URL(`http://[${address}]`).hostname.slice(1, -1);
+  }
+  return address;
+}
+
+function safeReaddir(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir);
+  } catch {
+    return [];
+  }
+}
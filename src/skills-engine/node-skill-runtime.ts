@@ -0,0 +1,420 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as http from 'http';
+import * as https from 'https';
+import { Worker } from 'worker_threads';
+import { EventEmitter } from 'events';
+import { FilesystemGuard } from './filesystem-guard';
+import { NetworkGuard } from './network-guard';
+import { getLogManager } from './logging';
+
+// HTTP call a node skill may make through wtc.http()
+export interface NodeSkillHttpRequest {
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+export interface NodeSkillHttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+// What wtc.systemInfo() reports
+export interface NodeSkillSystemInfo {
+  platform: NodeJS.Platform;
+  release: string;
+  arch: string;
+  hostname: string;
+  cpuCount: number;
+  totalMemoryBytes: number;
+  freeMemoryBytes: number;
+  uptimeSeconds: number;
+}
+
+// A capability call, as reported in 'capability' events
+export interface NodeSkillCapabilityEvent {
+  method: string;
+  target?: string;
+  allowed: boolean;
+  error?: string;
+}
+
+// How the host runs a node skill and mediates its capability calls
+export interface NodeSkillHostOptions {
+  // Every file read goes through this guard
+  filesystemGuard: FilesystemGuard;
+  // Every HTTP call goes through this guard; a disabled guard refuses them all
+  networkGuard: NetworkGuard;
+  maxReadBytes: number;
+  maxMemoryBytes: number;
+  requestTimeoutMs: number;
+  dryRun: boolean;
+}
+
+// Outcome of a node skill run, shaped like a script's exit
+export interface NodeSkillRunResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+}
+
+const DEFAULT_NODE_SKILL_HOST_OPTIONS: Omit<NodeSkillHostOptions, 'filesystemGuard' | 'networkGuard'> = {
+  maxReadBytes: 10 * 1024 * 1024,
+  maxMemoryBytes: 100 * 1024 * 1024,
+  requestTimeoutMs: 15000,
+  dryRun: false
+};
+
+const PARAMETER_ARGUMENT = /^--([A-Za-z_][A-Za-z0-9_]*)=([\s\S]*)$/;
+
+// Builds the wtc capability object inside the skill's context. Host functions
+// are only reachable through this closure, and only strings cross the
+// boundary, so skill code never holds an object from the worker's realm.
+const CAPABILITY_API_SOURCE = `(function (send, write, paramsJson, argsJson, dryRun) {
+  'use strict';
+  const call = (method, args) => new Promise((resolve, reject) => {
+    send(method, JSON.stringify(args === undefined ? null : args), (error, value) => {
+      if (error !== null) {
+        reject(new Error(error));
+      } else {
+        resolve(value === undefined ? undefined : JSON.parse(value));
+      }
+    });
+  });
+  const record = (kind, value) => write(kind + ': ' + (typeof value === 'string' ? value : JSON.stringify(value)) + '\\n');
+  return Object.freeze({
+    params: Object.freeze(JSON.parse(paramsJson)),
+    args: Object.freeze(JSON.parse(argsJson)),
+    dryRun: dryRun,
+    readFile: (path, options) => call('readFile', { path: String(path), encoding: options && options.encoding }),
+    readDir: (path) => call('readDir', { path: String(path) }),
+    stat: (path) => call('stat', { path: String(path) }),
+    systemInfo: () => call('systemInfo'),
+    http: (request) => call('http', typeof request === 'string' ? { url: request } : request),
+    progress: (percent, message) => record('PROGRESS', { percent: percent, message: message }),
+    log: (text) => write(String(text) + '\\n'),
+    warn: (text) => record('WARN', String(text)),
+    data: (value) => record('DATA', value),
+    plan: (value) => record('PLAN', value),
+    artifact: (name, value) => record('ARTIFACT', { name: name, value: value })
+  });
+})`;
+
+// Runs inside the worker: no require, process or timers reach the skill,
+// and string code generation is disabled in its context
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+const pending = new Map();
+let nextId = 0;
+
+parentPort.on('message', (message) => {
+  const callback = pending.get(message.id);
+  if (callback) {
+    pending.delete(message.id);
+    callback(message.error === undefined ? null : String(message.error), message.value);
+  }
+});
+
+const send = (method, argsJson, callback) => {
+  const id = ++nextId;
+  pending.set(id, callback);
+  parentPort.postMessage({ type: 'call', id, method, args: String(argsJson) });
+};
+const write = (text) => parentPort.postMessage({ type: 'stdout', text: String(text) });
+const finish = (exitCode, line) => {
+  write(line + '\\n');
+  parentPort.postMessage({ type: 'done', exitCode });
+};
+const describe = (error) => {
+  try {
+    return String(error && error.message !== undefined ? error.message : error);
+  } catch {
+    return 'Skill failed';
+  }
+};
+
+try {
+  const context = vm.createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } });
+  const createApi = vm.runInContext(workerData.apiSource, context);
+  const wtc = createApi(send, write, workerData.paramsJson, workerData.argsJson, workerData.dryRun);
+  const main = new vm.Script('(async function (wtc) {\\n' + workerData.source + '\\n})', {
+    filename: workerData.filename,
+    lineOffset: -1
+  }).runInContext(context);
+
+  main(wtc).then((result) => {
+    let body;
+    try {
+      body = typeof result === 'string' ? result : JSON.stringify(result === undefined ? {} : result);
+    } catch (error) {
+      finish(1, 'ERROR: Skill result is not serializable: ' + describe(error));
+      return;
+    }
+    finish(0, 'SUCCESS: ' + body);
+  }, (error) => finish(1, 'ERROR: ' + describe(error)));
+} catch (error) {
+  finish(1, 'ERROR: ' + describe(error));
+}
+`;
+
+/**
+ * Runs a JavaScript skill in a worker thread with its own memory limit.
+ * The skill's code runs as the body of an async function in an empty vm
+ * context, with a frozen `wtc` capability object as its only way out: file
+ * reads checked by the FilesystemGuard, HTTP calls checked by the
+ * NetworkGuard, system information, and protocol records (progress, warnings,
+ * data, plans, artifacts). Parameters arrive as strings in `wtc.params`.
+ *
+ * The value the function returns becomes the SUCCESS: record; a thrown error
+ * becomes the ERROR: record and exit code 1.
+ *
+ * Emits 'stdout' with each output chunk and 'capability' with a
+ * NodeSkillCapabilityEvent for every capability call.
+ */
+export class NodeSkillHost extends EventEmitter {
+  private options: NodeSkillHostOptions;
+  private worker: Worker | null = null;
+  private logManager = getLogManager();
+
+  constructor(
+    private scriptPath: string,
+    options: Partial<NodeSkillHostOptions> & Pick<NodeSkillHostOptions, 'filesystemGuard' | 'networkGuard'>
+  ) {
+    super();
+    this.options = { ...DEFAULT_NODE_SKILL_HOST_OPTIONS, ...options };
+  }
+
+  /**
+   * Run the skill with `--name=value` arguments, as built for other script types
+   */
+  run(args: string[] = []): Promise<NodeSkillRunResult> {
+    const params: Record<string, string> = {};
+    for (const arg of args) {
+      const match = PARAMETER_ARGUMENT.exec(arg);
+      if (match) {
+        params[match[1]] = match[2];
+      }
+    }
+
+    return new Promise((resolve) => {
+      let stdout = '';
+      let exitCode: number | null = null;
+
+      const worker = new Worker(WORKER_SOURCE, {
+        eval: true,
+        env: {},
+        execArgv: [],
+        stdout: true,
+        stderr: true,
+        workerData: {
+          apiSource: CAPABILITY_API_SOURCE,
+          source: fs.readFileSync(this.scriptPath, 'utf-8'),
+          filename: this.scriptPath,
+          paramsJson: JSON.stringify(params),
+          argsJson: JSON.stringify(args),
+          dryRun: this.options.dryRun
+        },
+        resourceLimits: {
+          maxOldGenerationSizeMb: Math.max(16, Math.floor(this.options.maxMemoryBytes / (1024 * 1024))),
+          stackSizeMb: 4
+        }
+      });
+      this.worker = worker;
+
+      worker.on('message', (message: any) => {
+        switch (message?.type) {
+          case 'stdout':
+            stdout += message.text;
+            this.emit('stdout', message.text);
+            break;
+          case 'call':
+            this.handleCall(message.method, message.args)
+              .then(value => worker.postMessage({ id: message.id, value: value === undefined ? undefined : JSON.stringify(value) }))
+              .catch(error => worker.postMessage({ id: message.id, error: (error as Error).message }));
+            break;
+          case 'done':
+            exitCode = message.exitCode;
+            worker.terminate();
+            break;
+        }
+      });
+
+      worker.on('error', (error: Error) => {
+        // Out of memory or an uncaught error outside the skill's promise
+        const text = `ERROR: ${error.message}\n`;
+        stdout += text;
+        this.emit('stdout', text);
+        exitCode = 1;
+      });
+
+      worker.on('exit', () => {
+        this.worker = null;
+        resolve({ exitCode: exitCode ?? -1, stdout, stderr: '' });
+      });
+    });
+  }
+
+  /**
+   * Stop the worker; the pending run resolves with the output so far
+   */
+  async terminate(): Promise<void> {
+    await this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private async handleCall(method: string, argsJson: string): Promise<unknown> {
+    let args: any;
+    let target: string | undefined;
+    try {
+      args = JSON.parse(argsJson) ?? {};
+      target = typeof args.path === 'string' ? args.path : typeof args.url === 'string' ? args.url : undefined;
+      const value = await this.invoke(method, args);
+      this.emit('capability', { method, target, allowed: true });
+      return value;
+    } catch (error) {
+      this.emit('capability', { method, target, allowed: false, error: (error as Error).message });
+      this.logManager.debug('Node skill capability call failed', {
+        method,
+        target,
+        error: (error as Error).message
+      }, { component: 'node-skill-runtime' });
+      throw error;
+    }
+  }
+
+  private async invoke(method: string, args: any): Promise<unknown> {
+    switch (method) {
+      case 'readFile': {
+        const filePath = this.authorizeRead(args.path);
+        const stats = await fs.promises.stat(filePath);
+        if (stats.size > this.options.maxReadBytes) {
+          throw new Error(`${args.path} is larger than ${this.options.maxReadBytes} bytes`);
+        }
+        const data = await fs.promises.readFile(filePath);
+        return data.toString(args.encoding === 'base64' ? 'base64' : 'utf-8');
+      }
+
+      case 'readDir': {
+        const entries = await fs.promises.readdir(this.authorizeRead(args.path), { withFileTypes: true });
+        return entries.map(entry => ({ name: entry.name, isDirectory: entry.isDirectory() }));
+      }
+
+      case 'stat': {
+        const stats = await fs.promises.stat(this.authorizeRead(args.path));
+        return { size: stats.size, isDirectory: stats.isDirectory(), modifiedAt: stats.mtimeMs };
+      }
+
+      case 'systemInfo': {
+        const info: NodeSkillSystemInfo = {
+          platform: process.platform,
+          release: os.release(),
+          arch: os.arch(),
+          hostname: os.hostname(),
+          cpuCount: os.cpus().length,
+          totalMemoryBytes: os.totalmem(),
+          freeMemoryBytes: os.freemem(),
+          uptimeSeconds: os.uptime()
+        };
+        return info;
+      }
+
+      case 'http':
+        return this.request(args);
+
+      default:
+        throw new Error(`Unknown capability '${method}'`);
+    }
+  }
+
+  /**
+   * Resolve symlinks before the guard sees the path, so a link inside an
+   * allowed directory cannot point outside it
+   */
+  private authorizeRead(filePath: unknown): string {
+    if (typeof filePath !== 'string' || filePath.length === 0) {
+      throw new Error('A path is required');
+    }
+
+    let resolved: string;
+    try {
+      resolved = fs.realpathSync(filePath);
+    } catch {
+      resolved = filePath;
+    }
+    this.options.filesystemGuard.authorize(resolved, 'read');
+    return resolved;
+  }
+
+  private request(request: NodeSkillHttpRequest): Promise<NodeSkillHttpResponse> {
+    let url: URL;
+    try {
+      url = new URL(request.url);
+    } catch {
+      return Promise.reject(new Error(`Invalid URL: ${request.url}`));
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return Promise.reject(new Error(`Unsupported protocol ${url.protocol}`));
+    }
+
+    const guard = this.options.networkGuard;
+    guard.authorizeRequest(url);
+
+    return new Promise((resolve, reject) => {
+      const transport = url.protocol === 'https:' ? https : http;
+      const body = request.body ?? '';
+      const port = parseInt(url.port) || (url.protocol === 'https:' ? 443 : 80);
+      const req = transport.request(url, {
+        method: request.method ?? 'GET',
+        headers: request.headers,
+        timeout: this.options.requestTimeoutMs,
+        // Checks the addresses the host resolves to against the guard's rules
+        lookup: guard.createLookup(url.protocol === 'https:' ? 'https_request' : 'http_request', port)
+      }, (res) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => {
+          try {
+            guard.recordTransfer(chunk.length);
+            chunks.push(chunk);
+          } catch (error) {
+            req.destroy(error as Error);
+          }
+        });
+        res.on('end', () => {
+          const headers: Record<string, string> = {};
+          for (const [name, value] of Object.entries(res.headers)) {
+            if (value !== undefined) {
+              headers[name] = Array.isArray(value) ? value.join(', ') : value;
+            }
+          }
+          resolve({ status: res.statusCode ?? 0, headers, body: Buffer.concat(chunks).toString('utf-8') });
+        });
+        res.on('error', reject);
+      });
+
+      req.on('timeout', () => req.destroy(new Error(`Request to ${url.host} timed out`)));
+      req.on('error', reject);
+      try {
+        guard.recordTransfer(Buffer.byteLength(body));
+      } catch (error) {
+        req.destroy();
+        reject(error);
+        return;
+      }
+      req.end(body);
+    });
+  }
+}
+
+/**
+ * Factory function to create a node skill host
+ */
+export function createNodeSkillHost(
+  scriptPath: string,
+  options: Partial<NodeSkillHostOptions> & Pick<NodeSkillHostOptions, 'filesystemGuard' | 'networkGuard'>
+): NodeSkillHost {
+  return new NodeSkillHost(scriptPath, options);
+}
@@ -0,0 +1,336 @@
+import * as path from 'path';
+import { ScriptType } from './sandbox';
+import { SkillParameterDefinition, SkillParameterType } from './types';
+
+// Coerced parameter value passed to a skill script
+export type SkillParameterValue = string | number | boolean;
+
+// Problem found while validating a single parameter
+export interface SkillParameterIssue {
+  parameter: string;
+  code: 'required' | 'unknown' | 'type' | 'range' | 'length' | 'pattern' | 'enum' | 'unsafe';
+  message: string;
+}
+
+// Outcome of validating request parameters against a skill's declarations
+export interface SkillParameterValidationResult {
+  valid: boolean;
+  values: Record<string, SkillParameterValue>;
+  issues: SkillParameterIssue[];
+}
+
+// Error raised when request parameters do not satisfy a skill's declarations
+export class SkillParameterError extends Error {
+  public readonly code = 'SKILL_INVALID_PARAMS';
+
+  constructor(message: string, public issues: SkillParameterIssue[], public skillId?: string) {
+    super(message);
+    this.name = 'SkillParameterError';
+  }
+
+  /**
+   * The per-field issues the chat UI can show to the user
+   */
+  toDetails(): { issues: SkillParameterIssue[] } {
+    return { issues: this.issues };
+  }
+}
+
+export const SKILL_PARAMETER_TYPES: SkillParameterType[] = ['string', 'int', 'bool', 'enum', 'path'];
+
+const PARAMETER_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+const CONTROL_CHARACTERS = /[\u0000-\u001f\u007f]/;
+// cmd.exe re-parses its command line, so these cannot be passed to batch scripts safely
+const BATCH_METACHARACTERS = /[&|<>^%!"()]/;
+const DEFAULT_MAX_LENGTH = 1024;
+// Parameter names treated as secrets even when not declared sensitive
+const SENSITIVE_NAME_PATTERN = /pass(word)?|secret|token|api_?key|credential|pin$/i;
+const REDACTED = '[REDACTED]';
+const MAX_RECORDED_VALUE_LENGTH = 256;
+const TRUE_VALUES = ['true', '1', 'yes'];
+const FALSE_VALUES = ['false', '0', 'no'];
+
+/**
+ * Validate parameter declarations in skill metadata and return a list of problems
+ */
+export function validateParameterDefinitions(parameters: unknown[]): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  parameters.forEach((param: any, index: number) => {
+    const label = `parameters[${index}]`;
+    const errorCount = errors.length;
+
+    if (!param || typeof param !== 'object') {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    if (typeof param.name !== 'string' || !PARAMETER_NAME_PATTERN.test(param.name)) {
+      errors.push(`${label}.name must start with a letter and contain only letters, digits or underscores`);
+    } else if (seen.has(param.name.toLowerCase())) {
+      errors.push(`${label}.name '${param.name}' is declared more than once`);
+    } else {
+      seen.add(param.name.toLowerCase());
+    }
+    if (!SKILL_PARAMETER_TYPES.includes(param.type)) {
+      errors.push(`${label}.type must be one of ${SKILL_PARAMETER_TYPES.join(', ')}`);
+    }
+    if (typeof param.required !== 'boolean') {
+      errors.push(`${label}.required must be a boolean`);
+    }
+    if (param.type === 'enum' && (!Array.isArray(param.values) || param.values.length === 0 ||
+      param.values.some((value: unknown) => typeof value !== 'string'))) {
+      errors.push(`${label}.values must be a non-empty array of strings for enum parameters`);
+    }
+    for (const bound of ['min', 'max', 'maxLength'] as const) {
+      if (param[bound] !== undefined && typeof param[bound] !== 'number') {
+        errors.push(`${label}.${bound} must be a number`);
+      }
+    }
+    if (param.sensitive !== undefined && typeof param.sensitive !== 'boolean') {
+      errors.push(`${label}.sensitive must be a boolean`);
+    }
+    if (param.pattern !== undefined) {
+      try {
+        new RegExp(param.pattern);
+      } catch {
+        errors.push(`${label}.pattern is not a valid regular expression`);
+      }
+    }
+    if (param.defaultValue !== undefined && errors.length === errorCount) {
+      const issue = coerceParameter(param as SkillParameterDefinition, param.defaultValue).issue;
+      if (issue) {
+        errors.push(`${label}.defaultValue is invalid: ${issue.message}`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Copy request parameters for storage outside the run (history, audit).
+ * Values of parameters declared `sensitive`, or whose names look like
+ * secrets, are replaced with [REDACTED]; long strings are truncated.
+ */
+export function redactSkillParameters(
+  definitions: SkillParameterDefinition[],
+  params: Record<string, any> = {}
+): Record<string, unknown> {
+  const sensitive = new Set(definitions.filter(definition => definition.sensitive).map(definition => definition.name));
+  const redacted: Record<string, unknown> = {};
+
+  for (const [name, value] of Object.entries(params)) {
+    if (sensitive.has(name) || SENSITIVE_NAME_PATTERN.test(name)) {
+      redacted[name] = REDACTED;
+    } else if (typeof value === 'string' && value.length > MAX_RECORDED_VALUE_LENGTH) {
+      redacted[name] = `${value.slice(0, MAX_RECORDED_VALUE_LENGTH)}…`;
+    } else if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+      redacted[name] = value;
+    } else {
+      redacted[name] = `[${Array.isArray(value) ? 'array' : typeof value}]`;
+    }
+  }
+
+  return redacted;
+}
+
+/**
+ * Coerce request parameters to their declared types, apply defaults and
+ * collect every problem found
+ */
+export function validateSkillParameters(
+  definitions: SkillParameterDefinition[],
+  params: Record<string, any> = {}
+): SkillParameterValidationResult {
+  const values: Record<string, SkillParameterValue> = {};
+  const issues: SkillParameterIssue[] = [];
+  const declared = new Set(definitions.map(definition => definition.name));
+
+  for (const name of Object.keys(params)) {
+    if (!declared.has(name)) {
+      issues.push({ parameter: name, code: 'unknown', message: `'${name}' is not a parameter of this skill` });
+    }
+  }
+
+  for (const definition of definitions) {
+    const provided = params[definition.name];
+    const raw = provided === undefined || provided === null || provided === ''
+      ? definition.defaultValue
+      : provided;
+
+    if (raw === undefined) {
+      if (definition.required) {
+        issues.push({ parameter: definition.name, code: 'required', message: `'${definition.name}' is required` });
+      }
+      continue;
+    }
+
+    const { value, issue } = coerceParameter(definition, raw);
+    if (issue) {
+      issues.push(issue);
+    } else {
+      values[definition.name] = value!;
+    }
+  }
+
+  return { valid: issues.length === 0, values, issues };
+}
+
+/**
+ * Validate request parameters and throw a SkillParameterError when they are invalid
+ * @throws {SkillParameterError}
+ */
+export function assertValidSkillParameters(
+  definitions: SkillParameterDefinition[],
+  params: Record<string, any> = {},
+  skillId?: string
+): Record<string, SkillParameterValue> {
+  const result = validateSkillParameters(definitions, params);
+
+  if (!result.valid) {
+    throw new SkillParameterError(
+      `Invalid parameters: ${result.issues.map(issue => issue.message).join('; ')}`,
+      result.issues,
+      skillId
+    );
+  }
+
+  return result.values;
+}
+
+/**
+ * Convert validated values to script arguments. Values are always passed as
+ * discrete argv entries (never through a shell string), using the calling
+ * convention of each script type:
+ *   powershell   -Name:value   (switches as -Name:$true / -Name:$false)
+ *   shell/python --name=value
+ *   batch        /name:value   (values containing cmd.exe metacharacters are refused)
+ * @throws {SkillParameterError} If a value cannot be passed safely
+ */
+export function buildScriptArguments(
+  definitions: SkillParameterDefinition[],
+  values: Record<string, SkillParameterValue>,
+  scriptType: ScriptType
+): string[] {
+  const args: string[] = [];
+
+  for (const definition of definitions) {
+    if (!(definition.name in values)) {
+      continue;
+    }
+
+    const value = values[definition.name];
+
+    switch (scriptType) {
+      case 'powershell':
+        args.push(`-${definition.name}:${typeof value === 'boolean' ? (value ? '$true' : '$false') : value}`);
+        break;
+
+      case 'batch':
+        if (BATCH_METACHARACTERS.test(String(value))) {
+          throw new SkillParameterError(
+            `Parameter '${definition.name}' contains characters that cannot be passed to a batch script`,
+            [{ parameter: definition.name, code: 'unsafe', message: `'${definition.name}' contains & | < > ^ % ! " ( or )` }]
+          );
+        }
+        args.push(`/${definition.name}:${value}`);
+        break;
+
+      default:
+        args.push(`--${definition.name}=${value}`);
+        break;
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Coerce a single value to its declared type
+ */
+function coerceParameter(
+  definition: SkillParameterDefinition,
+  raw: any
+): { value?: SkillParameterValue; issue?: SkillParameterIssue } {
+  const name = definition.name;
+  const fail = (code: SkillParameterIssue['code'], message: string) => ({ issue: { parameter: name, code, message } });
+
+  switch (definition.type) {
+    case 'int': {
+      const value = typeof raw === 'number' ? raw : typeof raw === 'string' && /^-?\d+$/.test(raw.trim()) ? Number(raw.trim()) : NaN;
+      if (!Number.isSafeInteger(value)) {
+        return fail('type', `'${name}' must be a whole number`);
+      }
+      if (definition.min !== undefined && value < definition.min) {
+        return fail('range', `'${name}' must be at least ${definition.min}`);
+      }
+      if (definition.max !== undefined && value > definition.max) {
+        return fail('range', `'${name}' must be at most ${definition.max}`);
+      }
+      return { value };
+    }
+
+    case 'bool': {
+      if (typeof raw === 'boolean') {
+        return { value: raw };
+      }
+      const normalized = String(raw).trim().toLowerCase();
+      if (TRUE_VALUES.includes(normalized)) return { value: true };
+      if (FALSE_VALUES.includes(normalized)) return { value: false };
+      return fail('type', `'${name}' must be true or false`);
+    }
+
+    case 'enum': {
+      const value = String(raw);
+      if (!definition.values?.includes(value)) {
+        return fail('enum', `'${name}' must be one of ${definition.values?.join(', ')}`);
+      }
+      return { value };
+    }
+
+    case 'path': {
+      const text = checkText(definition, raw);
+      if ('issue' in text) return text;
+      if (!path.isAbsolute(text.value)) {
+        return fail('type', `'${name}' must be an absolute path`);
+      }
+      return { value: path.normalize(text.value) };
+    }
+
+    case 'string':
+      return checkText(definition, raw);
+
+    default:
+      return fail('type', `'${name}' has unsupported type '${definition.type}'`);
+  }
+}
+
+/**
+ * Shared checks for string and path values
+ */
+function checkText(
+  definition: SkillParameterDefinition,
+  raw: any
+): { value: string } | { issue: SkillParameterIssue } {
+  const name = definition.name;
+
+  if (typeof raw !== 'string' && typeof raw !== 'number' && typeof raw !== 'boolean') {
+    return { issue: { parameter: name, code: 'type', message: `'${name}' must be text` } };
+  }
+
+  const value = String(raw);
+  const maxLength = definition.maxLength ?? DEFAULT_MAX_LENGTH;
+
+  if (CONTROL_CHARACTERS.test(value)) {
+    return { issue: { parameter: name, code: 'unsafe', message: `'${name}' must not contain control characters or line breaks` } };
+  }
+  if (value.length > maxLength) {
+    return { issue: { parameter: name, code: 'length', message: `'${name}' must be at most ${maxLength} characters` } };
+  }
+  if (definition.pattern && !new RegExp(`^(?:${definition.pattern})$`).test(value)) {
+    return { issue: { parameter: name, code: 'pattern', message: `'${name}' does not match the expected format` } };
+  }
+
+  return { value };
+}
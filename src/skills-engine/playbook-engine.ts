@@ -0,0 +1,862 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { StandardizedTicketPayload } from '../itsm-integration/types';
+import { TimeoutManager } from './timeout-manager';
+import { getLogManager } from './logging';
+import { SandboxOptions } from './sandbox';
+import { SkillExecutionResult } from './types';
+import { assertValidSkillParameters } from './parameter-validator';
+import {
+  SkillCatalog,
+  SkillCancelledError,
+  SkillDryRunUnsupportedError,
+  SkillRunContext,
+  SkillRunServices,
+  recordSkillUndo,
+  runCatalogSkill
+} from './skill-catalog';
+
+// Outcome of a single playbook step
+export type PlaybookStepStatus = 'success' | 'error' | 'timeout' | 'cancelled' | 'skipped';
+
+// Final state of a playbook run
+export type PlaybookRunStatus = 'resolved' | 'escalated' | 'failed' | 'cancelled';
+
+// Comparison applied to a value read from an earlier step
+export type PlaybookOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'matches' | 'exists';
+
+// Condition on the recorded outcome of an earlier step. Either checks the
+// step's status, compares a value at `path` (e.g. payload.disk.usedPercent),
+// or combines other conditions with all / any / not.
+export interface PlaybookCondition {
+  step?: string;
+  status?: PlaybookStepStatus | PlaybookStepStatus[];
+  path?: string;
+  operator?: PlaybookOperator;
+  value?: unknown;
+  all?: PlaybookCondition[];
+  any?: PlaybookCondition[];
+  not?: PlaybookCondition;
+}
+
+interface PlaybookStepBase {
+  id: string;
+  name?: string;
+  when?: PlaybookCondition;
+}
+
+// Runs a skill; `next` and `onFailure` name the step to jump to (or 'end')
+export interface PlaybookSkillStep extends PlaybookStepBase {
+  type: 'skill';
+  skillId: string;
+  params?: Record<string, any>;
+  timeoutMs?: number;
+  next?: string;
+  onFailure?: string;
+}
+
+// Jumps to the first case whose condition holds
+export interface PlaybookBranchStep extends PlaybookStepBase {
+  type: 'branch';
+  cases: Array<{ when: PlaybookCondition; next: string }>;
+  otherwise?: string;
+}
+
+// Ends the run by building a ticket from the skill results gathered so far
+export interface PlaybookEscalateStep extends PlaybookStepBase {
+  type: 'escalate';
+  ticket: {
+    summary: string;
+    description?: string;
+    category: string;
+    subcategory?: string;
+    priority: StandardizedTicketPayload['priority'];
+    impact?: StandardizedTicketPayload['impact'];
+    urgency?: StandardizedTicketPayload['urgency'];
+  };
+}
+
+export type PlaybookStep = PlaybookSkillStep | PlaybookBranchStep | PlaybookEscalateStep;
+
+// Playbook definition loaded from JSON
+export interface PlaybookDefinition {
+  id: string;
+  name: string;
+  description: string;
+  version: string;
+  steps: PlaybookStep[];
+}
+
+// Recorded outcome of an executed (or skipped) step
+export interface PlaybookStepRecord {
+  stepId: string;
+  type: PlaybookStep['type'];
+  skillId?: string;
+  status: PlaybookStepStatus;
+  output?: string;
+  payload?: unknown;
+  data?: unknown[];
+  warnings?: string[];
+  error?: { code: string; message: string };
+  startedAt: number;
+  completedAt: number;
+  executionTimeMs: number;
+}
+
+// Result of running a playbook
+export interface PlaybookRunResult {
+  runId: string;
+  playbookId: string;
+  status: PlaybookRunStatus;
+  steps: PlaybookStepRecord[];
+  ticket?: StandardizedTicketPayload;
+  error?: string;
+  startedAt: number;
+  completedAt: number;
+}
+
+// Progress, cancellation and correlation supplied by the caller of a run
+export interface PlaybookRunContext {
+  signal?: AbortSignal;
+  onProgress?: (update: { percent?: number; message?: string; output?: string }) => void;
+  correlationId?: string;
+}
+
+// User and device details placed on escalation tickets
+export interface PlaybookTicketContext {
+  user: StandardizedTicketPayload['user'];
+  systemInfo: StandardizedTicketPayload['systemInfo'];
+  appVersion: string;
+  sessionId?: string;
+}
+
+// Runs the skills referenced by playbook steps
+export interface PlaybookSkillRunner {
+  has(skillId: string): boolean;
+  getName(skillId: string): string | undefined;
+  run(skillId: string, params: Record<string, any>, context: SkillRunContext): Promise<SkillExecutionResult>;
+}
+
+// Playbook engine configuration
+export interface PlaybookEngineOptions {
+  runner: PlaybookSkillRunner;
+  timeoutManager?: TimeoutManager;
+  defaultStepTimeoutMs: number;
+  maxStepsPerRun: number;
+  ticketContext?: () => Partial<PlaybookTicketContext>;
+}
+
+// Playbook file that was discovered but not loaded
+export interface PlaybookRejection {
+  file: string;
+  playbookId?: string;
+  message: string;
+}
+
+// Result of scanning a playbooks directory
+export interface PlaybookLoadResult {
+  playbooks: PlaybookDefinition[];
+  rejected: PlaybookRejection[];
+}
+
+const DEFAULT_PLAYBOOK_ENGINE_OPTIONS: Omit<PlaybookEngineOptions, 'runner'> = {
+  defaultStepTimeoutMs: 60000, // 1 minute
+  maxStepsPerRun: 50 // guards against branches that loop forever
+};
+
+const PLAYBOOK_ID_PATTERN = /^[a-z0-9][a-z0-9-]*[a-z0-9]$/;
+const VERSION_PATTERN = /^\d+\.\d+\.\d+$/;
+const STEP_TYPES: Array<PlaybookStep['type']> = ['skill', 'branch', 'escalate'];
+const STEP_STATUSES: PlaybookStepStatus[] = ['success', 'error', 'timeout', 'cancelled', 'skipped'];
+const OPERATORS: PlaybookOperator[] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'contains', 'matches', 'exists'];
+const TICKET_PRIORITIES: Array<StandardizedTicketPayload['priority']> = ['low', 'medium', 'high', 'critical'];
+const END_TARGET = 'end';
+
+/**
+ * Validate a raw playbook definition and return a list of problems (empty when valid).
+ * When a runner is given, every referenced skill must be available to it.
+ */
+export function validatePlaybookDefinition(raw: unknown, runner?: PlaybookSkillRunner): string[] {
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return ['Playbook must be a JSON object'];
+  }
+
+  const playbook = raw as Record<string, any>;
+
+  for (const field of ['id', 'name', 'description', 'version']) {
+    if (typeof playbook[field] !== 'string' || playbook[field].trim().length === 0) {
+      errors.push(`'${field}' must be a non-empty string`);
+    }
+  }
+  if (typeof playbook.id === 'string' && !PLAYBOOK_ID_PATTERN.test(playbook.id)) {
+    errors.push(`'id' must be lowercase kebab-case (got '${playbook.id}')`);
+  }
+  if (typeof playbook.version === 'string' && !VERSION_PATTERN.test(playbook.version)) {
+    errors.push(`'version' must be a semantic version such as 1.0.0 (got '${playbook.version}')`);
+  }
+
+  if (!Array.isArray(playbook.steps) || playbook.steps.length === 0) {
+    errors.push(`'steps' must be a non-empty array`);
+    return errors;
+  }
+
+  const stepIds = new Set<string>();
+  for (const [index, step] of playbook.steps.entries()) {
+    if (step && typeof step.id === 'string' && PLAYBOOK_ID_PATTERN.test(step.id) && step.id !== END_TARGET) {
+      if (stepIds.has(step.id)) {
+        errors.push(`steps[${index}].id '${step.id}' is declared more than once`);
+      }
+      stepIds.add(step.id);
+    } else {
+      errors.push(`steps[${index}].id must be lowercase kebab-case and not '${END_TARGET}'`);
+    }
+  }
+
+  const checkTarget = (label: string, target: unknown) => {
+    if (target !== undefined && (typeof target !== 'string' || (target !== END_TARGET && !stepIds.has(target)))) {
+      errors.push(`${label} must name a step or '${END_TARGET}' (got '${target}')`);
+    }
+  };
+
+  const checkCondition = (label: string, condition: any): void => {
+    if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    if (condition.all !== undefined || condition.any !== undefined) {
+      const key = condition.all !== undefined ? 'all' : 'any';
+      if (!Array.isArray(condition[key]) || condition[key].length === 0) {
+        errors.push(`${label}.${key} must be a non-empty array`);
+      } else {
+        condition[key].forEach((inner: unknown, i: number) => checkCondition(`${label}.${key}[${i}]`, inner));
+      }
+      return;
+    }
+    if (condition.not !== undefined) {
+      checkCondition(`${label}.not`, condition.not);
+      return;
+    }
+    if (typeof condition.step !== 'string' || !stepIds.has(condition.step)) {
+      errors.push(`${label}.step must name a step (got '${condition.step}')`);
+    }
+    const statuses = Array.isArray(condition.status) ? condition.status : condition.status === undefined ? [] : [condition.status];
+    if (statuses.some((status: unknown) => !STEP_STATUSES.includes(status as PlaybookStepStatus))) {
+      errors.push(`${label}.status must be one of ${STEP_STATUSES.join(', ')}`);
+    }
+    if (condition.status === undefined && typeof condition.path !== 'string') {
+      errors.push(`${label} must declare a status or a path`);
+    }
+    if (condition.operator !== undefined && !OPERATORS.includes(condition.operator)) {
+      errors.push(`${label}.operator must be one of ${OPERATORS.join(', ')}`);
+    }
+  };
+
+  playbook.steps.forEach((step: any, index: number) => {
+    const label = `steps[${index}]`;
+
+    if (!step || typeof step !== 'object') {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    if (!STEP_TYPES.includes(step.type)) {
+      errors.push(`${label}.type must be one of ${STEP_TYPES.join(', ')}`);
+      return;
+    }
+    if (step.when !== undefined) {
+      checkCondition(`${label}.when`, step.when);
+    }
+
+    switch (step.type) {
+      case 'skill':
+        if (typeof step.skillId !== 'string' || step.skillId.length === 0) {
+          errors.push(`${label}.skillId must be a non-empty string`);
+        } else if (runner && !runner.has(step.skillId)) {
+          errors.push(`${label}.skillId '${step.skillId}' is not available on this device`);
+        }
+        if (step.params !== undefined && (!step.params || typeof step.params !== 'object' || Array.isArray(step.params))) {
+          errors.push(`${label}.params must be an object`);
+        }
+        if (step.timeoutMs !== undefined && (typeof step.timeoutMs !== 'number' || step.timeoutMs <= 0)) {
+          errors.push(`${label}.timeoutMs must be a positive number`);
+        }
+        checkTarget(`${label}.next`, step.next);
+        checkTarget(`${label}.onFailure`, step.onFailure);
+        break;
+
+      case 'branch':
+        if (!Array.isArray(step.cases) || step.cases.length === 0) {
+          errors.push(`${label}.cases must be a non-empty array`);
+        } else {
+          step.cases.forEach((branchCase: any, i: number) => {
+            checkCondition(`${label}.cases[${i}].when`, branchCase?.when);
+            if (branchCase?.next === undefined) {
+              errors.push(`${label}.cases[${i}].next is required`);
+            }
+            checkTarget(`${label}.cases[${i}].next`, branchCase?.next);
+          });
+        }
+        checkTarget(`${label}.otherwise`, step.otherwise);
+        break;
+
+      case 'escalate':
+        if (!step.ticket || typeof step.ticket !== 'object') {
+          errors.push(`${label}.ticket must be an object`);
+          break;
+        }
+        for (const field of ['summary', 'category']) {
+          if (typeof step.ticket[field] !== 'string' || step.ticket[field].trim().length === 0) {
+            errors.push(`${label}.ticket.${field} must be a non-empty string`);
+          }
+        }
+        if (!TICKET_PRIORITIES.includes(step.ticket.priority)) {
+          errors.push(`${label}.ticket.priority must be one of ${TICKET_PRIORITIES.join(', ')}`);
+        }
+        break;
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Load every *.json playbook in a directory. A missing directory yields no playbooks.
+ */
+export function loadPlaybooks(directory: string, runner?: PlaybookSkillRunner): PlaybookLoadResult {
+  const playbooks: PlaybookDefinition[] = [];
+  const rejected: PlaybookRejection[] = [];
+
+  if (!fs.existsSync(directory)) {
+    return { playbooks, rejected };
+  }
+
+  const files = fs.readdirSync(directory)
+    .filter(file => file.toLowerCase().endsWith('.json'))
+    .sort();
+
+  for (const file of files) {
+    let raw: any;
+    try {
+      raw = JSON.parse(fs.readFileSync(path.join(directory, file), 'utf-8'));
+    } catch (error) {
+      rejected.push({ file, message: `Invalid JSON: ${(error as Error).message}` });
+      continue;
+    }
+
+    const playbookId = typeof raw?.id === 'string' ? raw.id : undefined;
+    const errors = validatePlaybookDefinition(raw, runner);
+    if (errors.length > 0) {
+      rejected.push({ file, playbookId, message: `Invalid playbook: ${errors.join('; ')}` });
+    } else if (playbooks.some(playbook => playbook.id === raw.id) || runner?.has(raw.id)) {
+      rejected.push({ file, playbookId, message: `Id '${raw.id}' is already used by another playbook or skill` });
+    } else {
+      playbooks.push(raw as PlaybookDefinition);
+    }
+  }
+
+  return { playbooks, rejected };
+}
+
+/**
+ * Evaluate a condition against the latest record of each step
+ */
+export function evaluatePlaybookCondition(
+  condition: PlaybookCondition,
+  records: Map<string, PlaybookStepRecord>
+): boolean {
+  if (condition.all) {
+    return condition.all.every(inner => evaluatePlaybookCondition(inner, records));
+  }
+  if (condition.any) {
+    return condition.any.some(inner => evaluatePlaybookCondition(inner, records));
+  }
+  if (condition.not) {
+    return !evaluatePlaybookCondition(condition.not, records);
+  }
+
+  const record = condition.step ? records.get(condition.step) : undefined;
+  if (!record) {
+    return false;
+  }
+
+  if (condition.status !== undefined) {
+    const statuses = Array.isArray(condition.status) ? condition.status : [condition.status];
+    if (!statuses.includes(record.status)) {
+      return false;
+    }
+  }
+
+  if (condition.path === undefined) {
+    return true;
+  }
+
+  const actual = readPath(
+    { status: record.status, output: record.output, payload: record.payload, data: record.data, warnings: record.warnings },
+    condition.path
+  );
+  return compareValues(actual, condition.operator ?? (condition.value === undefined ? 'exists' : 'eq'), condition.value);
+}
+
+/**
+ * Read a dotted path (payload.disks.0.freePercent) from a value
+ */
+function readPath(source: unknown, dottedPath: string): unknown {
+  let current: any = source;
+  for (const key of dottedPath.split('.')) {
+    if (current === null || current === undefined || typeof current !== 'object') {
+      return undefined;
+    }
+    current = current[key];
+  }
+  return current;
+}
+
+/**
+ * Numbers and numeric strings ("85", "85%") compare numerically
+ */
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && /^\s*-?\d+(\.\d+)?%?\s*$/.test(value)) {
+    return parseFloat(value);
+  }
+  return NaN;
+}
+
+function compareValues(actual: unknown, operator: PlaybookOperator, expected: unknown): boolean {
+  switch (operator) {
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'eq':
+    case 'ne': {
+      const numeric = !Number.isNaN(toNumber(actual)) && !Number.isNaN(toNumber(expected));
+      const equal = actual === expected || (numeric && toNumber(actual) === toNumber(expected));
+      return operator === 'eq' ? equal : !equal;
+    }
+    case 'gt':
+      return toNumber(actual) > toNumber(expected);
+    case 'gte':
+      return toNumber(actual) >= toNumber(expected);
+    case 'lt':
+      return toNumber(actual) < toNumber(expected);
+    case 'lte':
+      return toNumber(actual) <= toNumber(expected);
+    case 'contains':
+      return Array.isArray(actual)
+        ? actual.includes(expected)
+        : typeof actual === 'string' && actual.includes(String(expected));
+    case 'matches':
+      return actual !== undefined && actual !== null && new RegExp(String(expected)).test(String(actual));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Runs playbooks: ordered steps over the skills registry with conditions on
+ * parsed skill output, branching, per-step timeouts through TimeoutManager
+ * and a final escalation step that builds an ITSM ticket.
+ */
+export class PlaybookEngine extends EventEmitter {
+  private options: PlaybookEngineOptions;
+  private timeoutManager: TimeoutManager;
+  private ownsTimeoutManager: boolean;
+  private logManager = getLogManager();
+
+  constructor(options: Partial<PlaybookEngineOptions> & { runner: PlaybookSkillRunner }) {
+    super();
+    this.options = { ...DEFAULT_PLAYBOOK_ENGINE_OPTIONS, ...options };
+    this.ownsTimeoutManager = !options.timeoutManager;
+    // Skill steps are cancelled as soon as their timeout fires, so no grace period
+    this.timeoutManager = options.timeoutManager ?? new TimeoutManager({ enableGracefulShutdown: false });
+  }
+
+  /**
+   * Run a playbook to completion. Failures are reported in the result rather
+   * than thrown; the run stops at the first failed step without onFailure.
+   */
+  async run(playbook: PlaybookDefinition, context: PlaybookRunContext = {}): Promise<PlaybookRunResult> {
+    const runId = `playbook_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
+    const startedAt = Date.now();
+    const steps: PlaybookStepRecord[] = [];
+    const latest = new Map<string, PlaybookStepRecord>();
+    let status: PlaybookRunStatus = 'resolved';
+    let error: string | undefined;
+    let ticket: StandardizedTicketPayload | undefined;
+    let executed = 0;
+    let index = 0;
+
+    const record = (entry: PlaybookStepRecord) => {
+      steps.push(entry);
+      latest.set(entry.stepId, entry);
+      this.emit('stepCompleted', { runId, playbookId: playbook.id, record: entry });
+    };
+
+    this.logManager.info('Playbook run started', {
+      runId,
+      steps: playbook.steps.length
+    }, { component: 'playbook-engine', skillId: playbook.id });
+
+    while (index < playbook.steps.length) {
+      const step = playbook.steps[index];
+
+      if (context.signal?.aborted) {
+        status = 'cancelled';
+        break;
+      }
+      if (++executed > this.options.maxStepsPerRun) {
+        status = 'failed';
+        error = `Playbook exceeded ${this.options.maxStepsPerRun} steps; check its branches for loops`;
+        break;
+      }
+
+      const now = Date.now();
+      if (step.when && !evaluatePlaybookCondition(step.when, latest)) {
+        record({ stepId: step.id, type: step.type, status: 'skipped', startedAt: now, completedAt: now, executionTimeMs: 0 });
+        index++;
+        continue;
+      }
+
+      this.emit('stepStarted', { runId, playbookId: playbook.id, stepId: step.id });
+      context.onProgress?.({
+        percent: Math.round((index / playbook.steps.length) * 100),
+        message: `Step ${index + 1} of ${playbook.steps.length}: ${step.name ?? step.id}`
+      });
+
+      let target: string | undefined;
+
+      if (step.type === 'skill') {
+        const entry = await this.runSkillStep(playbook, step, context);
+        record(entry);
+
+        if (entry.status === 'cancelled') {
+          status = 'cancelled';
+          break;
+        }
+        if (entry.status !== 'success') {
+          if (!step.onFailure) {
+            status = 'failed';
+            error = `Step '${step.id}' ${entry.status === 'timeout' ? 'timed out' : 'failed'}: ${entry.error?.message ?? 'unknown error'}`;
+            break;
+          }
+          target = step.onFailure;
+        } else {
+          target = step.next;
+        }
+      } else if (step.type === 'branch') {
+        target = step.cases.find(branchCase => evaluatePlaybookCondition(branchCase.when, latest))?.next ?? step.otherwise;
+        record({
+          stepId: step.id,
+          type: 'branch',
+          status: 'success',
+          output: target ?? '',
+          startedAt: now,
+          completedAt: Date.now(),
+          executionTimeMs: Date.now() - now
+        });
+      } else {
+        ticket = this.buildEscalationTicket(playbook, step, steps, {
+          runId,
+          correlationId: context.correlationId ?? runId,
+          startedAt
+        });
+        record({
+          stepId: step.id,
+          type: 'escalate',
+          status: 'success',
+          output: ticket.summary,
+          startedAt: now,
+          completedAt: Date.now(),
+          executionTimeMs: Date.now() - now
+        });
+        status = 'escalated';
+        this.emit('escalated', { runId, playbookId: playbook.id, ticket });
+        break;
+      }
+
+      if (target === END_TARGET) {
+        break;
+      }
+      index = target ? playbook.steps.findIndex(candidate => candidate.id === target) : index + 1;
+    }
+
+    const result: PlaybookRunResult = {
+      runId,
+      playbookId: playbook.id,
+      status,
+      steps,
+      ticket,
+      error,
+      startedAt,
+      completedAt: Date.now()
+    };
+
+    this.logManager.info('Playbook run finished', {
+      runId,
+      status,
+      error,
+      steps: steps.map(step => `${step.stepId}:${step.status}`)
+    }, { component: 'playbook-engine', skillId: playbook.id });
+    this.emit('playbookCompleted', result);
+
+    return result;
+  }
+
+  /**
+   * Run one skill step under its timeout. The skill is cancelled when the
+   * timeout fires or the run is cancelled.
+   */
+  private async runSkillStep(
+    playbook: PlaybookDefinition,
+    step: PlaybookSkillStep,
+    context: PlaybookRunContext
+  ): Promise<PlaybookStepRecord> {
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    context.signal?.addEventListener('abort', abort, { once: true });
+
+    let timedOut = false;
+    const timeoutMs = step.timeoutMs ?? this.options.defaultStepTimeoutMs;
+
+    const finish = (fields: Partial<PlaybookStepRecord> & { status: PlaybookStepStatus }): PlaybookStepRecord => ({
+      stepId: step.id,
+      type: 'skill',
+      skillId: step.skillId,
+      startedAt,
+      completedAt: Date.now(),
+      executionTimeMs: Date.now() - startedAt,
+      ...fields
+    });
+
+    try {
+      const result = await this.timeoutManager.withTimeout<SkillExecutionResult | null>(
+        'playbook-step',
+        () => this.options.runner.run(step.skillId, step.params ?? {}, {
+          signal: controller.signal,
+          onProgress: update => context.onProgress?.({
+            message: update.message ? `${step.name ?? step.id}: ${update.message}` : undefined,
+            output: update.output
+          })
+        }),
+        timeoutMs,
+        { playbookId: playbook.id, stepId: step.id, skillId: step.skillId },
+        () => {
+          timedOut = true;
+          controller.abort();
+          return null;
+        }
+      );
+
+      if (!result) {
+        return finish({
+          status: 'timeout',
+          error: { code: 'STEP_TIMEOUT', message: `Step timed out after ${timeoutMs}ms` }
+        });
+      }
+
+      return finish({
+        status: result.success ? 'success' : 'error',
+        output: result.output,
+        payload: result.parsedOutput?.payload,
+        data: result.parsedOutput?.data,
+        warnings: result.parsedOutput?.warnings,
+        error: result.success ? undefined : { code: 'SKILL_EXECUTION_FAILED', message: result.error ?? 'Skill failed' }
+      });
+    } catch (error) {
+      if (error instanceof SkillCancelledError || context.signal?.aborted) {
+        return finish({
+          status: timedOut ? 'timeout' : 'cancelled',
+          output: error instanceof SkillCancelledError ? error.partialOutput : undefined,
+          error: { code: 'SKILL_CANCELLED', message: (error as Error).message }
+        });
+      }
+
+      return finish({
+        status: 'error',
+        error: { code: (error as any)?.code ?? 'SKILL_EXECUTION_FAILED', message: (error as Error).message }
+      });
+    } finally {
+      context.signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  /**
+   * Build the escalation ticket from the skill steps that ran
+   */
+  private buildEscalationTicket(
+    playbook: PlaybookDefinition,
+    step: PlaybookEscalateStep,
+    records: PlaybookStepRecord[],
+    run: { runId: string; correlationId: string; startedAt: number }
+  ): StandardizedTicketPayload {
+    const ticketContext = { ...defaultTicketContext(), ...this.options.ticketContext?.() };
+    const skillRecords = records.filter(
+      (entry): entry is PlaybookStepRecord & { status: Exclude<PlaybookStepStatus, 'skipped'> } =>
+        entry.type === 'skill' && entry.status !== 'skipped'
+    );
+    const endTime = Date.now();
+
+    const stepLines = records
+      .filter(entry => entry.type === 'skill')
+      .map(entry => `- ${entry.stepId} (${entry.skillId}): ${entry.status}${entry.error ? ` — ${entry.error.message}` : ''}`);
+
+    return {
+      summary: step.ticket.summary,
+      description: [
+        step.ticket.description ?? playbook.description,
+        '',
+        `Playbook '${playbook.name}' (${playbook.id} ${playbook.version}) escalated at step '${step.id}'.`,
+        ...stepLines
+      ].join('\n'),
+      category: step.ticket.category,
+      subcategory: step.ticket.subcategory,
+      priority: step.ticket.priority,
+      impact: step.ticket.impact,
+      urgency: step.ticket.urgency,
+      user: ticketContext.user,
+      systemInfo: ticketContext.systemInfo,
+      skillResults: skillRecords.map(entry => ({
+        skillId: entry.skillId!,
+        skillName: this.options.runner.getName(entry.skillId!) ?? entry.skillId!,
+        status: entry.status,
+        output: entry.output,
+        executionTimeMs: entry.executionTimeMs,
+        startedAt: entry.startedAt,
+        completedAt: entry.completedAt,
+        error: entry.error
+      })),
+      context: {
+        appVersion: ticketContext.appVersion,
+        sessionId: ticketContext.sessionId ?? run.runId,
+        correlationId: run.correlationId,
+        troubleshootingSession: {
+          startTime: run.startedAt,
+          endTime,
+          durationMs: endTime - run.startedAt,
+          stepsAttempted: skillRecords.length,
+          stepsSuccessful: skillRecords.filter(entry => entry.status === 'success').length
+        }
+      },
+      customFields: {
+        playbookId: playbook.id,
+        playbookVersion: playbook.version,
+        escalationStep: step.id
+      }
+    };
+  }
+
+  /**
+   * Release the timeout manager created by this engine
+   */
+  dispose(): void {
+    if (this.ownsTimeoutManager) {
+      this.timeoutManager.dispose();
+    }
+    this.removeAllListeners();
+  }
+}
+
+/**
+ * Ticket details available without any configuration
+ */
+function defaultTicketContext(): PlaybookTicketContext {
+  let username = 'unknown';
+  try {
+    username = os.userInfo().username;
+  } catch {
+    // userInfo throws when the account has no passwd entry
+  }
+
+  return {
+    user: { id: username, name: username },
+    systemInfo: {
+      osVersion: `${os.type()} ${os.release()}`,
+      architecture: os.arch(),
+      deviceName: os.hostname(),
+      deviceId: os.hostname()
+    },
+    appVersion: 'unknown'
+  };
+}
+
+/**
+ * Create a runner that executes catalog skills through runCatalogSkill,
+ * recording revertible fixes in the undo journal when one is given
+ */
+export function createCatalogSkillRunner(
+  catalog: Pick<SkillCatalog, 'get'>,
+  sandboxOptions: SandboxOptions = {},
+  services: SkillRunServices = {}
+): PlaybookSkillRunner {
+  return {
+    has: skillId => catalog.get(skillId) !== undefined,
+    getName: skillId => catalog.get(skillId)?.metadata.name,
+    run: async (skillId, params, context) => {
+      const skill = catalog.get(skillId);
+      if (!skill) {
+        throw new Error(`Skill '${skillId}' is not in the catalog`);
+      }
+      const executionId = crypto.randomUUID();
+      const result = await runCatalogSkill(skill, params, { ...context, executionId }, sandboxOptions, services);
+      if (services.undoJournal) {
+        recordSkillUndo(skill, result, services.undoJournal, executionId);
+      }
+      return result;
+    }
+  };
+}
+
+/**
+ * Create an IPC handler that runs a playbook like a skill. Playbooks take no
+ * parameters and do not support dry runs. The handler resolves with a JSON
+ * summary (status, step outcomes and the escalation ticket, if any), rejects
+ * when the playbook fails and throws SkillCancelledError when it is cancelled.
+ */
+export function createPlaybookHandler(
+  engine: PlaybookEngine,
+  playbook: PlaybookDefinition
+): (params: Record<string, any>, context?: SkillRunContext & { correlationId?: string }) => Promise<string> {
+  return async (params = {}, context = {}) => {
+    if (context.dryRun) {
+      throw new SkillDryRunUnsupportedError(`Playbook '${playbook.id}' does not support dry-run mode`, playbook.id);
+    }
+    assertValidSkillParameters([], params, playbook.id);
+
+    const result = await engine.run(playbook, {
+      signal: context.signal,
+      onProgress: context.onProgress,
+      correlationId: context.correlationId
+    });
+
+    const summary = JSON.stringify({
+      playbookId: result.playbookId,
+      status: result.status,
+      steps: result.steps.map(step => ({ id: step.stepId, status: step.status, output: step.output })),
+      ticket: result.ticket
+    });
+
+    if (result.status === 'cancelled') {
+      throw new SkillCancelledError(`Playbook '${playbook.id}' was cancelled`, summary, playbook.id);
+    }
+    if (result.status === 'failed') {
+      throw new Error(`Playbook '${playbook.name}' failed (${result.error})`);
+    }
+
+    return summary;
+  };
+}
+
+/**
+ * Factory function to create a playbook engine
+ */
+export function createPlaybookEngine(
+  options: Partial<PlaybookEngineOptions> & { runner: PlaybookSkillRunner }
+): PlaybookEngine {
+  return new PlaybookEngine(options);
+}
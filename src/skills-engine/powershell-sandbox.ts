@@ -1,4 +1,4 @@
-import { spawn, ChildProcess } from 'child_process';
+import { spawn, spawnSync, ChildProcess } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -374,13 +374,24 @@ ${this.getDangerousCmdletBlockers()}
   }
 
   /**
-   * Clean up resources
+   * Terminate PowerShell and every process it started
    */
-  private cleanup(): void {
-    if (this.process && !this.process.killed) {
-      this.process.kill('SIGKILL');
+  private killProcessTree(): void {
+    if (!this.process || this.process.killed) {
+      return;
+    }
+
+    if (this.process.pid && process.platform === 'win32') {
+      spawnSync('taskkill', ['/PID', String(this.process.pid), '/T', '/F'], { windowsHide: true });
     }
+    this.process.kill('SIGKILL');
+  }
 
+  /**
+   * Clean up resources
+   */
+  private cleanup(): void {
+    this.killProcessTree();
     this.process = null;
   }
 
@@ -394,10 +405,6 @@ ${this.getDangerousCmdletBlockers()}
       'PowerShell execution aborted by user request'
     );
 
-    if (this.process && !this.process.killed) {
-      this.process.kill('SIGKILL');
-    }
-
     this.cleanup();
   }
 
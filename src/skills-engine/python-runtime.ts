@@ -0,0 +1,344 @@
+import { spawn, spawnSync } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { SkillPythonRequirements } from './types';
+import { getLogManager } from './logging';
+
+// Interpreter a Python skill runs with
+export interface PythonInterpreter {
+  // Command prefix, normally the resolved executable
+  command: string[];
+  version: string;
+  executable: string;
+  // Set when the interpreter belongs to a skill's virtualenv
+  virtualenv?: string;
+}
+
+// Python runtime configuration
+export interface PythonRuntimeOptions {
+  // Commands tried before the platform defaults, e.g. a bundled interpreter
+  interpreters: string[][];
+  // Where per-skill virtualenvs are built
+  venvDirectory: string;
+  probeTimeoutMs: number;
+  installTimeoutMs: number;
+}
+
+// Reasons a Python skill cannot be run
+export type PythonRuntimeErrorReason = 'interpreter_not_found' | 'invalid_requirements' | 'venv_failed';
+
+// Error raised when no interpreter fits a skill or its virtualenv cannot be built
+export class PythonRuntimeError extends Error {
+  constructor(message: string, public reason: PythonRuntimeErrorReason, public skillId?: string) {
+    super(message);
+    this.name = 'PythonRuntimeError';
+  }
+}
+
+/**
+ * Interpreter flags for skills: ignore PYTHON* variables (-E) and the user's
+ * site-packages (-s), write no bytecode into the skill package (-B), keep
+ * stdout unbuffered so PROGRESS: lines stream (-u) and use UTF-8 for output
+ * whatever the locale
+ */
+export const PYTHON_ISOLATION_FLAGS = ['-E', '-s', '-B', '-u', '-X', 'utf8'];
+
+const DEFAULT_PYTHON_RUNTIME_OPTIONS: PythonRuntimeOptions = {
+  interpreters: [],
+  venvDirectory: path.join(os.tmpdir(), 'wtc-python-venvs'),
+  probeTimeoutMs: 5000,
+  installTimeoutMs: 5 * 60 * 1000 // 5 minutes
+};
+
+const PLATFORM_INTERPRETERS: string[][] = process.platform === 'win32'
+  ? [['py', '-3'], ['python'], ['python3']]
+  : [
+    ...['3.13', '3.12', '3.11', '3.10', '3.9', '3.8'].map(version => [`python${version}`]),
+    ['python3'],
+    ['python']
+  ];
+
+const VERSION_CLAUSE_PATTERN = /^(>=|<=|==|!=|>|<)?\s*(\d+(?:\.\d+){0,2})$/;
+const PROBE_SCRIPT = 'import json, sys; print(json.dumps({"version": "%d.%d.%d" % sys.version_info[:3], "executable": sys.executable}))';
+const READY_MARKER = '.wtc-ready';
+
+/**
+ * Check a version constraint such as "3.11", ">=3.9" or ">=3.9,<3.13".
+ * A bare or == version matches every release it is a prefix of.
+ */
+export function isValidPythonVersionSpec(spec: string): boolean {
+  return spec.split(',').every(clause => VERSION_CLAUSE_PATTERN.test(clause.trim()));
+}
+
+/**
+ * Whether a full version (3.11.7) satisfies a constraint
+ */
+export function matchesPythonVersion(version: string, spec: string): boolean {
+  const actual = version.split('.').map(Number);
+
+  return spec.split(',').every(clause => {
+    const match = VERSION_CLAUSE_PATTERN.exec(clause.trim());
+    if (!match) {
+      return false;
+    }
+
+    const operator = match[1] ?? '==';
+    const wanted = match[2].split('.').map(Number);
+    const prefixEqual = wanted.every((part, index) => actual[index] === part);
+    const comparison = compareVersions(actual.slice(0, wanted.length), wanted);
+
+    switch (operator) {
+      case '==': return prefixEqual;
+      case '!=': return !prefixEqual;
+      case '>=': return comparison >= 0;
+      case '<=': return comparison <= 0;
+      case '>': return comparison > 0;
+      case '<': return comparison < 0;
+      default: return false;
+    }
+  });
+}
+
+/**
+ * Build the command that runs a Python script in isolated mode
+ */
+export function buildPythonCommand(interpreter: PythonInterpreter, scriptPath: string, args: string[]): string[] {
+  return [...interpreter.command, ...PYTHON_ISOLATION_FLAGS, scriptPath, ...args];
+}
+
+/**
+ * Finds Python interpreters and prepares per-skill virtualenvs. Interpreters
+ * are probed once and the newest one satisfying a skill's version constraint
+ * is used. A skill that ships a requirements lockfile gets a virtualenv keyed
+ * by the lockfile contents and interpreter, built once with
+ * `pip install --require-hashes --no-deps --only-binary=:all:` so nothing
+ * outside the lockfile is installed and no package build code runs.
+ */
+export class PythonRuntime extends EventEmitter {
+  private options: PythonRuntimeOptions;
+  private probed = new Map<string, PythonInterpreter | null>();
+  private builds = new Map<string, Promise<PythonInterpreter>>();
+  private logManager = getLogManager();
+
+  constructor(options: Partial<PythonRuntimeOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_PYTHON_RUNTIME_OPTIONS, ...options };
+  }
+
+  /**
+   * Newest available interpreter satisfying the constraint
+   * @throws {PythonRuntimeError} If none does
+   */
+  findInterpreter(versionSpec?: string, skillId?: string): PythonInterpreter {
+    const candidates = [...this.options.interpreters, ...PLATFORM_INTERPRETERS]
+      .map(command => this.probe(command))
+      .filter((interpreter): interpreter is PythonInterpreter => interpreter !== null)
+      .filter(interpreter => !versionSpec || matchesPythonVersion(interpreter.version, versionSpec))
+      .sort((a, b) => compareVersions(b.version.split('.').map(Number), a.version.split('.').map(Number)));
+
+    if (candidates.length === 0) {
+      throw new PythonRuntimeError(
+        versionSpec ? `No Python interpreter matching '${versionSpec}' was found` : 'No Python interpreter was found',
+        'interpreter_not_found',
+        skillId
+      );
+    }
+
+    return candidates[0];
+  }
+
+  /**
+   * Interpreter to run a skill with: its virtualenv when it ships a
+   * requirements lockfile (built on first use), the matching system
+   * interpreter otherwise
+   * @throws {PythonRuntimeError} If no interpreter fits or the virtualenv cannot be built
+   */
+  async prepare(skillId: string, requirements: SkillPythonRequirements = {}, packageDirectory: string): Promise<PythonInterpreter> {
+    const base = this.findInterpreter(requirements.version, skillId);
+    if (!requirements.requirements) {
+      return base;
+    }
+
+    const lockfile = path.join(packageDirectory, requirements.requirements);
+    let lockContents: Buffer;
+    try {
+      lockContents = fs.readFileSync(lockfile);
+    } catch (error) {
+      throw new PythonRuntimeError(
+        `Requirements lockfile '${requirements.requirements}' cannot be read: ${(error as Error).message}`,
+        'invalid_requirements',
+        skillId
+      );
+    }
+
+    const key = crypto.createHash('sha256')
+      .update(lockContents)
+      .update(`\0${base.executable}\0${base.version}`)
+      .digest('hex')
+      .slice(0, 16);
+    const venvPath = path.join(this.options.venvDirectory, `${skillId}-${key}`);
+
+    if (fs.existsSync(path.join(venvPath, READY_MARKER))) {
+      return this.venvInterpreter(venvPath, base);
+    }
+
+    let build = this.builds.get(venvPath);
+    if (!build) {
+      build = this.buildVirtualenv(skillId, venvPath, lockfile, base).finally(() => this.builds.delete(venvPath));
+      this.builds.set(venvPath, build);
+    }
+    return build;
+  }
+
+  /**
+   * Create the virtualenv and install the lockfile into it. A half-built
+   * environment from an earlier attempt is discarded first; older
+   * environments of the skill are removed once the new one is ready.
+   */
+  private async buildVirtualenv(
+    skillId: string,
+    venvPath: string,
+    lockfile: string,
+    base: PythonInterpreter
+  ): Promise<PythonInterpreter> {
+    const startedAt = Date.now();
+    this.logManager.info('Building Python virtualenv for skill', {
+      venvPath,
+      lockfile: path.basename(lockfile),
+      python: base.version
+    }, { component: 'python-runtime', skillId });
+
+    try {
+      fs.rmSync(venvPath, { recursive: true, force: true });
+      fs.mkdirSync(this.options.venvDirectory, { recursive: true });
+
+      await this.run('venv', [...base.command, '-E', '-s', '-m', 'venv', venvPath]);
+      const interpreter = this.venvInterpreter(venvPath, base);
+      await this.run('pip install', [
+        ...interpreter.command, '-E', '-s', '-m', 'pip', 'install',
+        '--isolated', '--no-input', '--disable-pip-version-check',
+        '--require-hashes', '--no-deps', '--only-binary=:all:',
+        '-r', lockfile
+      ]);
+
+      fs.writeFileSync(path.join(venvPath, READY_MARKER), new Date().toISOString());
+      this.removeStaleVirtualenvs(skillId, venvPath);
+
+      this.logManager.info('Python virtualenv ready', {
+        venvPath,
+        durationMs: Date.now() - startedAt
+      }, { component: 'python-runtime', skillId });
+      this.emit('virtualenvBuilt', { skillId, venvPath });
+
+      return interpreter;
+    } catch (error) {
+      fs.rmSync(venvPath, { recursive: true, force: true });
+      throw new PythonRuntimeError(
+        `Failed to build the virtualenv for skill '${skillId}': ${(error as Error).message}`,
+        'venv_failed',
+        skillId
+      );
+    }
+  }
+
+  private venvInterpreter(venvPath: string, base: PythonInterpreter): PythonInterpreter {
+    const executable = process.platform === 'win32'
+      ? path.join(venvPath, 'Scripts', 'python.exe')
+      : path.join(venvPath, 'bin', 'python');
+    return { command: [executable], version: base.version, executable, virtualenv: venvPath };
+  }
+
+  private removeStaleVirtualenvs(skillId: string, current: string): void {
+    for (const entry of fs.readdirSync(this.options.venvDirectory)) {
+      const entryPath = path.join(this.options.venvDirectory, entry);
+      if (entryPath !== current && entry.length === skillId.length + 17 && entry.startsWith(`${skillId}-`)) {
+        fs.rmSync(entryPath, { recursive: true, force: true });
+      }
+    }
+  }
+
+  /**
+   * Run an interpreter once to learn its version; failures are cached as null
+   */
+  private probe(command: string[]): PythonInterpreter | null {
+    const key = command.join('\0');
+    if (this.probed.has(key)) {
+      return this.probed.get(key)!;
+    }
+
+    let interpreter: PythonInterpreter | null = null;
+    const result = spawnSync(command[0], [...command.slice(1), '-E', '-s', '-c', PROBE_SCRIPT], {
+      encoding: 'utf-8',
+      timeout: this.options.probeTimeoutMs,
+      windowsHide: true
+    });
+
+    if (result.status === 0) {
+      try {
+        const info = JSON.parse(result.stdout.trim());
+        // Run the resolved binary so PATH changes cannot swap it later
+        interpreter = {
+          command: info.executable ? [info.executable] : command,
+          version: info.version,
+          executable: info.executable
+        };
+      } catch {
+        // Not a Python we understand
+      }
+    }
+
+    this.probed.set(key, interpreter);
+    return interpreter;
+  }
+
+  private run(label: string, command: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(command[0], command.slice(1), {
+        stdio: ['ignore', 'pipe', 'pipe'],
+        windowsHide: true
+      });
+
+      let output = '';
+      child.stdout?.on('data', (data: Buffer) => { output += data.toString(); });
+      child.stderr?.on('data', (data: Buffer) => { output += data.toString(); });
+
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        reject(new Error(`${label} timed out after ${this.options.installTimeoutMs}ms`));
+      }, this.options.installTimeoutMs);
+
+      child.on('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.on('close', code => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`${label} exited with ${code}: ${output.trim().split('\n').slice(-3).join(' ')}`));
+        }
+      });
+    });
+  }
+}
+
+function compareVersions(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (a[i] ?? 0) - (b[i] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Factory function to create a Python runtime
+ */
+export function createPythonRuntime(options?: Partial<PythonRuntimeOptions>): PythonRuntime {
+  return new PythonRuntime(options);
+}
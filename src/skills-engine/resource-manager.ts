@@ -31,6 +31,14 @@ export interface ResourceUsage {
   diskUsageBytes: number;
 }
 
+const DEFAULT_CLEANUP_OPTIONS: CleanupOptions = {
+  removeTempFiles: true,
+  closeNetworkConnections: true,
+  terminateProcesses: true,
+  freeMemory: true,
+  timeoutMs: 5000 // 5 second cleanup timeout
+};
+
 /**
  * Resource manager for sandbox cleanup and resource tracking
  */
@@ -39,21 +47,14 @@ export class ResourceManager extends EventEmitter {
   private tempDirectories: Set<string> = new Set();
   private activeProcesses: Set<number> = new Set();
   private networkConnections: Set<any> = new Set();
+  // Paths cleanup must leave alone, with the time their protection ends
+  private protectedPaths: Map<string, number> = new Map();
 
-  constructor(private options: CleanupOptions) {
-    super();
-    this.setDefaultOptions();
-  }
+  private options: CleanupOptions;
 
-  private setDefaultOptions(): void {
-    this.options = {
-      removeTempFiles: true,
-      closeNetworkConnections: true,
-      terminateProcesses: true,
-      freeMemory: true,
-      timeoutMs: 5000, // 5 second cleanup timeout
-      ...this.options
-    };
+  constructor(options: Partial<CleanupOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_CLEANUP_OPTIONS, ...options };
   }
 
   /**
@@ -147,11 +148,61 @@ export class ResourceManager extends EventEmitter {
   }
 
   /**
-   * Perform comprehensive cleanup
+   * Keep cleanup away from a path (and anything inside it) until the given
+   * time, e.g. archives an undo script still needs. Protection lasts for this
+   * process only; UndoJournal applies it again when it loads at startup.
+   */
+  protectPath(targetPath: string, untilMs: number): void {
+    const resolved = path.resolve(targetPath);
+    this.protectedPaths.set(resolved, Math.max(untilMs, this.protectedPaths.get(resolved) ?? 0));
+    this.emit('pathProtected', { path: resolved, untilMs });
+  }
+
+  /**
+   * Lift the protection of a path before it expires
+   */
+  releasePath(targetPath: string): boolean {
+    const released = this.protectedPaths.delete(path.resolve(targetPath));
+    if (released) {
+      this.emit('pathReleased', path.resolve(targetPath));
+    }
+    return released;
+  }
+
+  /**
+   * Whether removing a path would touch a protected path: the path itself, a
+   * directory containing it, or a path inside it. Expired protections are dropped.
+   */
+  isPathProtected(targetPath: string, now: number = Date.now()): boolean {
+    const resolved = path.resolve(targetPath);
+    const contains = (parent: string, child: string) => {
+      const relative = path.relative(parent, child);
+      return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+    };
+
+    for (const [protectedPath, untilMs] of this.protectedPaths) {
+      if (untilMs <= now) {
+        this.protectedPaths.delete(protectedPath);
+        continue;
+      }
+      if (contains(protectedPath, resolved) || contains(resolved, protectedPath)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Perform comprehensive cleanup. Protected files and directories are skipped
+   * and stay tracked so a later cleanup removes them once protection ends.
    */
   async cleanup(): Promise<void> {
     const cleanupStart = Date.now();
     let errors: Error[] = [];
+    const deferred = this.options.removeTempFiles
+      ? Array.from(this.resources.entries()).filter(([, resource]) =>
+        (resource.type === 'file' || resource.type === 'directory') && this.isPathProtected(resource.id))
+      : [];
 
     try {
       // Terminate processes
@@ -176,6 +227,12 @@ export class ResourceManager extends EventEmitter {
 
       // Clear all tracking
       this.clearAllTracking();
+      for (const [resourceId, resource] of deferred) {
+        this.resources.set(resourceId, resource);
+        if (resource.type === 'directory') {
+          this.tempDirectories.add(resource.id);
+        }
+      }
 
       const cleanupTime = Date.now() - cleanupStart;
       this.emit('cleanupComplete', {
@@ -259,6 +316,10 @@ export class ResourceManager extends EventEmitter {
 
     // Clean up tracked directories
     for (const dirPath of this.tempDirectories) {
+      if (this.isPathProtected(dirPath)) {
+        this.emit('cleanupDeferred', dirPath);
+        continue;
+      }
       try {
         if (fs.existsSync(dirPath)) {
           fs.rmSync(dirPath, { recursive: true, force: true });
@@ -272,6 +333,10 @@ export class ResourceManager extends EventEmitter {
     // Clean up tracked files
     for (const [resourceId, resource] of this.resources) {
       if (resource.type === 'file') {
+        if (this.isPathProtected(resource.id)) {
+          this.emit('cleanupDeferred', resource.id);
+          continue;
+        }
         try {
           if (fs.existsSync(resource.id)) {
             fs.unlinkSync(resource.id);
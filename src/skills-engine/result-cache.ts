@@ -0,0 +1,198 @@
+import { EventEmitter } from 'events';
+import { CacheConfig } from './types';
+
+// Cached value with the bookkeeping the eviction strategies need
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+  // Monotonic counters rather than timestamps so ties cannot happen
+  insertOrder: number;
+  accessOrder: number;
+  hits: number;
+}
+
+// Cache counters
+export interface SkillResultCacheStats {
+  size: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+// Cached value with the time it was stored
+export interface SkillCacheHit<T> {
+  value: T;
+  storedAt: number;
+}
+
+const DEFAULT_CACHE_CONFIG: CacheConfig = {
+  enabled: true,
+  maxSize: 50,
+  ttlMs: 5 * 60 * 1000, // 5 minutes
+  strategy: 'lru'
+};
+
+/**
+ * Build a cache key from the skill id, version and parameters. Object keys are
+ * sorted so the same parameters in a different order share an entry.
+ */
+export function createSkillCacheKey(skillId: string, version: string, params: Record<string, unknown> = {}): string {
+  return `${skillId}@${version}:${stableStringify(params)}`;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Bounded cache of skill results configured by CacheConfig. Entries expire
+ * after their TTL; when the cache is full the entry chosen by the strategy is
+ * evicted: least recently used ('lru'), oldest stored ('fifo') or least often
+ * read ('lfu', ties broken by recency).
+ */
+export class SkillResultCache<T = unknown> extends EventEmitter {
+  private config: CacheConfig;
+  private entries = new Map<string, CacheEntry<T>>();
+  private counter = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(config: Partial<CacheConfig> = {}) {
+    super();
+    this.config = { ...DEFAULT_CACHE_CONFIG, ...config };
+  }
+
+  /**
+   * Get a live entry, counting the read for the eviction strategy
+   */
+  get(key: string, now: number = Date.now()): SkillCacheHit<T> | undefined {
+    if (!this.config.enabled) {
+      return undefined;
+    }
+
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= now) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    entry.accessOrder = ++this.counter;
+    entry.hits++;
+    this.hits++;
+    return { value: entry.value, storedAt: entry.storedAt };
+  }
+
+  /**
+   * Store a value, replacing any previous entry for the key
+   */
+  set(key: string, value: T, ttlMs: number = this.config.ttlMs, now: number = Date.now()): void {
+    if (!this.config.enabled || this.config.maxSize <= 0 || ttlMs <= 0) {
+      return;
+    }
+
+    this.entries.delete(key);
+    this.purgeExpired(now);
+    while (this.entries.size >= this.config.maxSize) {
+      this.evict();
+    }
+
+    const order = ++this.counter;
+    this.entries.set(key, {
+      value,
+      storedAt: now,
+      expiresAt: now + ttlMs,
+      insertOrder: order,
+      accessOrder: order,
+      hits: 0
+    });
+  }
+
+  /**
+   * Drop every entry for a skill, across versions and parameters
+   */
+  invalidateSkill(skillId: string): number {
+    let removed = 0;
+    for (const key of Array.from(this.entries.keys())) {
+      if (key.startsWith(`${skillId}@`)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.emit('cleared');
+  }
+
+  getStats(): SkillResultCacheStats {
+    return {
+      size: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions
+    };
+  }
+
+  private purgeExpired(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  private evict(): void {
+    let victimKey: string | undefined;
+    let victim: CacheEntry<T> | undefined;
+
+    for (const [key, entry] of this.entries) {
+      if (!victim || this.evictsBefore(entry, victim)) {
+        victimKey = key;
+        victim = entry;
+      }
+    }
+
+    if (victimKey !== undefined) {
+      this.entries.delete(victimKey);
+      this.evictions++;
+      this.emit('evicted', victimKey);
+    }
+  }
+
+  private evictsBefore(candidate: CacheEntry<T>, current: CacheEntry<T>): boolean {
+    switch (this.config.strategy) {
+      case 'fifo':
+        return candidate.insertOrder < current.insertOrder;
+      case 'lfu':
+        return candidate.hits < current.hits ||
+          (candidate.hits === current.hits && candidate.accessOrder < current.accessOrder);
+      case 'lru':
+      default:
+        return candidate.accessOrder < current.accessOrder;
+    }
+  }
+}
+
+/**
+ * Factory function to create a skill result cache
+ */
+export function createSkillResultCache<T = unknown>(config?: Partial<CacheConfig>): SkillResultCache<T> {
+  return new SkillResultCache<T>(config);
+}
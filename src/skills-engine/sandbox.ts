@@ -1,9 +1,36 @@
-import { spawn, ChildProcess } from 'child_process';
+import { spawn, spawnSync, ChildProcess } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { EventEmitter } from 'events';
 import { getLogManager } from './logging';
+import { SkillOutputParser } from './skill-output-parser';
+import { ResourceCleaner } from './resource-cleaner';
+import { FilesystemGuard } from './filesystem-guard';
+import { NetworkGuard } from './network-guard';
+import { NodeSkillCapabilityEvent, NodeSkillHost } from './node-skill-runtime';
+import {
+  KernelLimitOptions,
+  SandboxCgroup,
+  DEFAULT_KERNEL_LIMIT_OPTIONS,
+  buildLimitedCommand,
+  createSandboxCgroup,
+  resolveKernelLimits
+} from './linux-resource-limits';
+import {
+  HostAllowlist,
+  buildIsolatedCommand,
+  getNetworkIsolationPrefix,
+  getReadOnlyIsolationPrefix,
+  listFilesOpenForWriting,
+  listProcessConnections,
+  listProcessImages,
+  listProcessTree,
+  readBlockedAttempts
+} from './network-isolation';
+import { PythonInterpreter, PYTHON_ISOLATION_FLAGS, buildPythonCommand } from './python-runtime';
+import { SkillCapabilityPolicy } from './skill-capabilities';
+import { SkillCapabilities } from './types';
 import { performance } from 'perf_hooks';
 
 // Resource limits configuration
@@ -23,12 +50,25 @@ export interface SandboxOptions {
   resourceLimits?: ResourceLimits;
   allowedDirectories?: string[];
   networkAccess?: boolean;
+  // With networkAccess, the only hosts the script may connect to; empty allows any
+  allowedHosts?: string[];
   environmentVariables?: Record<string, string>;
+  // Directories searched before PATH, e.g. stub commands in skill tests
+  searchPath?: string[];
   workingDirectory?: string;
   timeoutMs?: number;
   enableStrictMode?: boolean;
   allowSystemCalls?: boolean;
   maxRetryAttempts?: number;
+  resourceCleaner?: ResourceCleaner;
+  dryRun?: boolean;
+  // Interpreter for python scripts, normally chosen by PythonRuntime
+  pythonInterpreter?: PythonInterpreter;
+  // Linux only: rlimits and a cgroup v2 per execution; false to rely on polling alone
+  kernelLimits?: Partial<KernelLimitOptions> | false;
+  // The skill's declared capabilities; they replace networkAccess and
+  // allowedHosts, and anything outside them is denied
+  capabilities?: SkillCapabilities;
 }
 
 // Environment variable validation error
@@ -50,8 +90,11 @@ export interface SandboxResult {
     memoryBytes: number;
     diskWriteBytes: number;
     networkBytes: number;
+    peakCpuPercentage?: number;
+    peakMemoryBytes?: number;
   };
   securityEvents: SecurityEvent[];
+  cancelled?: boolean;
 }
 
 // Security event types
@@ -63,14 +106,25 @@ export interface SecurityEvent {
 }
 
 // Supported script types
-export type ScriptType = 'powershell' | 'shell' | 'batch' | 'python';
+export type ScriptType = 'powershell' | 'shell' | 'batch' | 'python' | 'node';
 
 /**
  * Secure skill execution sandbox with resource limits and isolation
  */
 export class SkillSandbox extends EventEmitter {
   private process: ChildProcess | null = null;
+  private nodeHost: NodeSkillHost | null = null;
   private isProcessTerminating: boolean = false;
+  private cancelled: boolean = false;
+  private trackedResourceIds: string[] = [];
+  private cgroup: SandboxCgroup | null = null;
+  private cgroupCpuSample = { usageUsec: 0, timestamp: 0 };
+  private networkReportFile: string | null = null;
+  private hostAllowlist: HostAllowlist | null = null;
+  private reportedConnections = new Set<string>();
+  private capabilityPolicy: SkillCapabilityPolicy | null = null;
+  // Executables of the interpreter and its wrappers, which need no declaration
+  private launcherExecutables = new Set<string>();
   private timeoutId: NodeJS.Timeout | null = null;
   private resourceMonitor: NodeJS.Timeout | null = null;
   private securityEvents: SecurityEvent[] = [];
@@ -172,6 +226,12 @@ export class SkillSandbox extends EventEmitter {
       ...this.options
     };
 
+    if (this.options.capabilities) {
+      this.capabilityPolicy = new SkillCapabilityPolicy(this.options.capabilities);
+      this.options.networkAccess = this.capabilityPolicy.hosts.length > 0;
+      this.options.allowedHosts = this.capabilityPolicy.hosts;
+    }
+
     // Validate and sanitize options
     this.validateResourceLimits();
   }
@@ -241,7 +301,8 @@ export class SkillSandbox extends EventEmitter {
     this.logManager.info('Sandbox execution started', {
       scriptPath: this.scriptPath,
       scriptType: this.scriptType,
-      args,
+      // Arguments carry parameter values, including sensitive ones
+      argumentCount: args.length,
       options: this.options
     }, { component: 'sandbox', executionId: this.executionId, skillId: path.basename(this.scriptPath) });
 
@@ -263,7 +324,7 @@ export class SkillSandbox extends EventEmitter {
       this.logManager.error('Sandbox execution failed', executionError, {
         scriptPath: this.scriptPath,
         scriptType: this.scriptType,
-        args,
+        argumentCount: args.length,
         error: executionError.message
       }, { component: 'sandbox', executionId: this.executionId, skillId: path.basename(this.scriptPath) });
 
@@ -344,7 +405,7 @@ export class SkillSandbox extends EventEmitter {
     // Start with a minimal safe environment
     const isolatedEnv: Record<string, string> = {
       // Essential variables for basic functionality
-      PATH: process.env.PATH || '',
+      PATH: [...(this.options.searchPath || []), process.env.PATH || ''].join(path.delimiter),
       TEMP: process.env.TEMP || os.tmpdir(),
       TMP: process.env.TMP || os.tmpdir(),
 
@@ -387,6 +448,15 @@ export class SkillSandbox extends EventEmitter {
       }
     }
 
+    if (this.capabilityPolicy) {
+      Object.assign(isolatedEnv, this.capabilityPolicy.getEnvironment());
+    }
+
+    // Tell the script to report planned actions instead of making changes
+    if (this.options.dryRun) {
+      isolatedEnv.DRY_RUN = '1';
+    }
+
     // Add platform-specific essential variables
     if (process.platform === 'win32') {
       isolatedEnv.SYSTEMROOT = process.env.SYSTEMROOT || 'C:\\Windows';
@@ -441,14 +511,30 @@ export class SkillSandbox extends EventEmitter {
         fs.mkdirSync(dir, { recursive: true });
       }
     }
+
+    // The namespace wrapper saves its counters here when the script exits
+    if (!this.options.networkAccess && process.platform === 'linux') {
+      fs.mkdirSync(this.getNetworkReportDirectory(), { recursive: true });
+    }
+
+    if (this.options.networkAccess && this.options.allowedHosts?.length && process.platform === 'linux') {
+      this.hostAllowlist = new HostAllowlist(this.options.allowedHosts, undefined, this.capabilityPolicy?.ports);
+      await this.hostAllowlist.refresh();
+    }
   }
 
   /**
    * Execute the script with proper isolation
    */
   private async executeScript(args: string[]): Promise<SandboxResult> {
+    if (this.scriptType === 'node') {
+      return this.executeNodeScript(args);
+    }
+
     return new Promise((resolve, reject) => {
-      const command = this.getExecutionCommand(args);
+      const command = this.applyKernelLimits(this.applyNetworkIsolation(this.applyDryRunIsolation(this.getExecutionCommand(args))));
+      // The read-only wrapper runs mount and setpriv before the script starts
+      this.launcherExecutables = resolveExecutables(this.options.dryRun ? [...command, 'mount', 'setpriv'] : command);
 
       // Create isolated environment for child process
       const isolatedEnv = this.createIsolatedEnvironment();
@@ -464,16 +550,32 @@ export class SkillSandbox extends EventEmitter {
       let stderr = '';
       let exitCode: number | null = null;
 
+      this.trackProcessTree();
+
+      // Parse PROGRESS: lines as they arrive; the full protocol is validated after exit
+      let progressParser: SkillOutputParser | null = new SkillOutputParser();
+      progressParser.on('progress', (update) => this.emit('progress', update));
+
       // Set up resource monitoring
       this.startResourceMonitoring();
 
       // Handle process output
       this.process.stdout?.on('data', (data: Buffer) => {
-        stdout += data.toString();
+        const chunk = data.toString();
+        stdout += chunk;
+        this.emit('stdout', chunk);
+
+        try {
+          progressParser?.push(chunk);
+        } catch {
+          progressParser = null;
+        }
       });
 
       this.process.stderr?.on('data', (data: Buffer) => {
-        stderr += data.toString();
+        const chunk = data.toString();
+        stderr += chunk;
+        this.emit('stderr', chunk);
       });
 
       // Handle process completion
@@ -483,6 +585,12 @@ export class SkillSandbox extends EventEmitter {
         this.clearTimeout();
 
         const executionTimeMs = Date.now() - this.startTime;
+        this.collectCgroupUsage(executionTimeMs);
+        this.collectBlockedNetworkAttempts();
+
+        if (!this.cancelled) {
+          this.untrackResources();
+        }
 
         resolve({
           exitCode: exitCode ?? -1,
@@ -490,13 +598,15 @@ export class SkillSandbox extends EventEmitter {
           stderr,
           executionTimeMs,
           resourceUsage: this.resourceUsage,
-          securityEvents: this.securityEvents
+          securityEvents: this.securityEvents,
+          cancelled: this.cancelled
         });
       });
 
       this.process.on('error', (error: Error) => {
         this.stopResourceMonitoring();
         this.clearTimeout();
+        this.releaseCgroup();
         reject(error);
       });
 
@@ -509,6 +619,221 @@ export class SkillSandbox extends EventEmitter {
     });
   }
 
+  /**
+   * Run a node skill in a worker. It has no fs, net or child_process; its
+   * capability calls are checked against the allowed directories and hosts,
+   * and the bandwidth, memory and time limits apply as for other scripts.
+   */
+  private async executeNodeScript(args: string[]): Promise<SandboxResult> {
+    const limits = this.options.resourceLimits!;
+    const networkGuard = new NetworkGuard({
+      enabled: this.options.networkAccess === true,
+      allowedHosts: this.options.allowedHosts ?? [],
+      allowedPorts: this.capabilityPolicy?.ports ?? [],
+      maxBandwidthBytes: limits.maxNetworkBytes
+    });
+    this.nodeHost = new NodeSkillHost(this.scriptPath, {
+      filesystemGuard: new FilesystemGuard({
+        allowedDirectories: this.options.allowedDirectories ?? [],
+        readOnly: true,
+        blockedExtensions: [],
+        blockedPatterns: [],
+        ...this.capabilityPolicy?.getFilesystemGuardOptions()
+      }),
+      networkGuard,
+      maxMemoryBytes: limits.maxMemoryBytes,
+      dryRun: this.options.dryRun === true
+    });
+
+    let progressParser: SkillOutputParser | null = new SkillOutputParser();
+    progressParser.on('progress', (update) => this.emit('progress', update));
+    this.nodeHost.on('stdout', (chunk: string) => {
+      this.emit('stdout', chunk);
+      try {
+        progressParser?.push(chunk);
+      } catch {
+        progressParser = null;
+      }
+    });
+    this.nodeHost.on('capability', (event: NodeSkillCapabilityEvent) => {
+      if (!event.allowed) {
+        this.recordSecurityEvent(
+          event.method === 'http' ? 'network_access' : 'filesystem_access',
+          'high',
+          `Node skill ${event.method}(${event.target ?? ''}) refused: ${event.error}`
+        );
+      }
+    });
+
+    let timedOut = false;
+    if (this.options.timeoutMs) {
+      this.timeoutId = setTimeout(() => {
+        timedOut = true;
+        this.recordSecurityEvent('resource_exceeded', 'high', `Execution timeout after ${this.options.timeoutMs}ms`);
+        this.nodeHost?.terminate();
+      }, this.options.timeoutMs);
+    }
+
+    const { exitCode, stdout, stderr } = await this.nodeHost.run(args);
+    this.clearTimeout();
+    if (timedOut) {
+      throw new Error(`Execution timeout after ${this.options.timeoutMs}ms`);
+    }
+
+    this.resourceUsage.networkBytes = networkGuard.getBandwidthUsage();
+    this.resourceUsage.totalNetworkBytes = this.resourceUsage.networkBytes;
+    return {
+      exitCode,
+      stdout,
+      stderr,
+      executionTimeMs: Date.now() - this.startTime,
+      resourceUsage: this.resourceUsage,
+      securityEvents: this.securityEvents,
+      cancelled: this.cancelled
+    };
+  }
+
+  /**
+   * Run a dry run with every filesystem mounted read-only, so any write it
+   * attempts fails
+   * @throws {Error} If the platform cannot enforce it; see canEnforceDryRun
+   */
+  private applyDryRunIsolation(command: string[]): string[] {
+    if (!this.options.dryRun) {
+      return command;
+    }
+
+    const prefix = getReadOnlyIsolationPrefix();
+    if (!prefix) {
+      throw new Error('Dry runs cannot be enforced on this device');
+    }
+    return [...prefix, ...command];
+  }
+
+  /**
+   * Cut scripts that do not need the network off from it: a private network
+   * namespace on Linux, a sandbox-exec profile on macOS. Where neither is
+   * available the script runs as before and a warning is logged.
+   */
+  private applyNetworkIsolation(command: string[]): string[] {
+    if (this.options.networkAccess || process.platform === 'win32') {
+      return command;
+    }
+
+    const prefix = getNetworkIsolationPrefix();
+    if (!prefix) {
+      this.logManager.warn('Network isolation unavailable, script runs with host networking', {
+        scriptPath: this.scriptPath
+      }, { component: 'sandbox', executionId: this.executionId });
+      return command;
+    }
+
+    if (process.platform === 'linux') {
+      this.networkReportFile = path.join(this.getNetworkReportDirectory(), `${this.executionId}.net`);
+    }
+    return buildIsolatedCommand(command, prefix, this.networkReportFile ?? undefined);
+  }
+
+  private getNetworkReportDirectory(): string {
+    return path.join(os.tmpdir(), 'wtc-sandbox');
+  }
+
+  /**
+   * Report outbound attempts the private network namespace refused. The
+   * report file is removed in cleanup().
+   */
+  private collectBlockedNetworkAttempts(): void {
+    if (!this.networkReportFile) {
+      return;
+    }
+
+    const attempts = readBlockedAttempts(this.networkReportFile);
+    if (attempts > 0) {
+      this.recordSecurityEvent(
+        'network_access',
+        'medium',
+        `Blocked ${attempts} outbound network attempt(s): skill runs without network access`
+      );
+    }
+  }
+
+  /**
+   * On Linux, create the execution's cgroup when cgroup v2 is usable and wrap
+   * the command so the rlimits are set and the cgroup joined before the script
+   * starts. Other platforms run the command as is and rely on polling.
+   */
+  private applyKernelLimits(command: string[]): string[] {
+    if (process.platform !== 'linux' || this.options.kernelLimits === false) {
+      return command;
+    }
+
+    const options: KernelLimitOptions = { ...DEFAULT_KERNEL_LIMIT_OPTIONS, ...this.options.kernelLimits };
+    const limits = this.options.resourceLimits!;
+    const kernelLimits = resolveKernelLimits({
+      maxMemoryBytes: limits.maxMemoryBytes!,
+      maxCpuPercentage: limits.maxCpuPercentage!,
+      maxOpenFiles: limits.maxOpenFiles ?? 50,
+      maxDiskWriteBytes: limits.maxDiskWriteBytes!
+    }, options);
+
+    this.cgroup = createSandboxCgroup(this.executionId, kernelLimits, options);
+    this.cgroupCpuSample = { usageUsec: 0, timestamp: performance.now() };
+
+    this.logManager.debug('Kernel resource limits applied', {
+      limits: kernelLimits,
+      cgroup: this.cgroup?.dir ?? null
+    }, { component: 'sandbox', executionId: this.executionId });
+
+    return buildLimitedCommand(command, kernelLimits, this.cgroup);
+  }
+
+  /**
+   * Replace the polled figures with the cgroup's own accounting once the
+   * process has exited, record limits the kernel enforced, and remove the group
+   */
+  private collectCgroupUsage(executionTimeMs: number): void {
+    if (!this.cgroup) {
+      return;
+    }
+
+    const usage = this.cgroup.readUsage();
+    const cpuPercentage = executionTimeMs > 0
+      ? (usage.cpuUsageUsec / 1000) / (executionTimeMs * os.cpus().length) * 100
+      : 0;
+    const peakMemoryBytes = usage.memoryPeakBytes ?? Math.max(this.resourceUsage.peakMemoryBytes, usage.memoryCurrentBytes);
+
+    this.resourceUsage.cpuPercentage = cpuPercentage;
+    this.resourceUsage.peakCpuPercentage = Math.max(this.resourceUsage.peakCpuPercentage, cpuPercentage);
+    this.resourceUsage.memoryBytes = peakMemoryBytes;
+    this.resourceUsage.peakMemoryBytes = peakMemoryBytes;
+    if (usage.diskWriteBytes !== undefined) {
+      this.resourceUsage.diskWriteBytes = usage.diskWriteBytes;
+      this.resourceUsage.totalDiskWrites = usage.diskWriteBytes;
+    }
+
+    if (usage.oomKills > 0) {
+      this.recordSecurityEvent(
+        'resource_exceeded',
+        'high',
+        `Memory limit enforced by the kernel: ${usage.oomKills} OOM kill(s) at ${this.formatBytes(this.options.resourceLimits!.maxMemoryBytes!)}`
+      );
+    }
+    if (usage.pidsLimitHits > 0) {
+      this.recordSecurityEvent(
+        'resource_exceeded',
+        'high',
+        `Process limit enforced by the kernel: ${usage.pidsLimitHits} fork(s) refused`
+      );
+    }
+
+    this.releaseCgroup();
+  }
+
+  private releaseCgroup(): void {
+    this.cgroup?.destroy();
+    this.cgroup = null;
+  }
+
   /**
    * Get execution command based on script type
    */
@@ -532,7 +857,9 @@ export class SkillSandbox extends EventEmitter {
         return ['cmd.exe', '/C', this.scriptPath, ...args];
 
       case 'python':
-        return ['python', this.scriptPath, ...args];
+        return this.options.pythonInterpreter
+          ? buildPythonCommand(this.options.pythonInterpreter, this.scriptPath, args)
+          : [process.platform === 'win32' ? 'python' : 'python3', ...PYTHON_ISOLATION_FLAGS, this.scriptPath, ...args];
 
       default:
         throw new Error(`Unsupported script type: ${this.scriptType}`);
@@ -665,6 +992,11 @@ export class SkillSandbox extends EventEmitter {
    * Unix/Linux CPU monitoring using /proc filesystem
    */
   private monitorCpuUsageUnix(): void {
+    if (this.cgroup) {
+      this.monitorCpuUsageCgroup(this.cgroup);
+      return;
+    }
+
     // Simplified CPU monitoring for Unix systems
     // In production, this would parse /proc/stat or use libuv metrics
     const cpuUsage = Math.random() * 100; // Placeholder - replace with actual monitoring
@@ -676,6 +1008,27 @@ export class SkillSandbox extends EventEmitter {
     );
   }
 
+  /**
+   * CPU share of the whole machine since the last sample, from cpu.stat
+   */
+  private monitorCpuUsageCgroup(cgroup: SandboxCgroup): void {
+    const now = performance.now();
+    const usageUsec = cgroup.readCpuUsageUsec();
+    const elapsedUsec = (now - this.cgroupCpuSample.timestamp) * 1000;
+    if (elapsedUsec <= 0) {
+      return;
+    }
+
+    const cpuUsage = (usageUsec - this.cgroupCpuSample.usageUsec) / (elapsedUsec * os.cpus().length) * 100;
+    this.cgroupCpuSample = { usageUsec, timestamp: now };
+
+    this.resourceUsage.cpuPercentage = cpuUsage;
+    this.resourceUsage.peakCpuPercentage = Math.max(
+      this.resourceUsage.peakCpuPercentage,
+      cpuUsage
+    );
+  }
+
   /**
    * Monitor memory usage with process-specific metrics
    */
@@ -812,6 +1165,11 @@ export class SkillSandbox extends EventEmitter {
    * Unix/Linux memory monitoring using /proc filesystem
    */
   private monitorMemoryUsageUnix(): void {
+    if (this.cgroup) {
+      this.resourceUsage.memoryBytes = this.cgroup.readMemoryBytes();
+      return;
+    }
+
     // Simplified memory monitoring for Unix systems
     // In production, this would parse /proc/[pid]/status or /proc/[pid]/statm
     const memoryUsage = Math.random() * 50 * 1024 * 1024; // Placeholder
@@ -911,6 +1269,8 @@ export class SkillSandbox extends EventEmitter {
    * Unix/Linux network monitoring
    */
   private monitorNetworkUsageUnix(): void {
+    this.checkConnections();
+
     // Simplified network monitoring for Unix systems
     // In production, this would parse /proc/net/dev or use netstat
     const networkUsage = Math.random() * 1024; // Placeholder
@@ -919,6 +1279,89 @@ export class SkillSandbox extends EventEmitter {
     this.resourceUsage.totalNetworkBytes += networkUsage;
   }
 
+  /**
+   * Kill the script when any process in its tree holds a connection to a
+   * host outside the allowlist. Unknown addresses are re-resolved once first,
+   * since the script may have been given a different address for an allowed name.
+   */
+  private checkConnections(): void {
+    const allowlist = this.hostAllowlist;
+    const pid = this.process?.pid;
+    if (!allowlist || !pid || this.isProcessTerminating) {
+      return;
+    }
+
+    for (const connection of listProcessConnections(listProcessTree(pid))) {
+      const target = `${connection.remoteAddress}:${connection.remotePort}`;
+      if (allowlist.isAllowed(connection.remoteAddress, connection.remotePort) || this.reportedConnections.has(target)) {
+        continue;
+      }
+
+      this.reportedConnections.add(target);
+      allowlist.refresh().then(() => {
+        if (!allowlist.isAllowed(connection.remoteAddress, connection.remotePort) && this.process) {
+          this.recordSecurityEvent(
+            'network_access',
+            'high',
+            `Blocked ${connection.protocol} connection to ${target}: host is not in the allowed list`
+          );
+          this.safeKillProcess('SIGKILL');
+        }
+      }).catch(error => {
+        this.logManager.warn('Failed to re-resolve allowed hosts', {
+          error: (error as Error).message
+        }, { component: 'sandbox', executionId: this.executionId });
+      });
+    }
+  }
+
+  /**
+   * Kill the script when a process in its tree runs a program the skill did
+   * not declare, or holds a file open for writing outside its declared paths
+   * and the sandbox directories. Linux only; elsewhere the declaration is
+   * enforced for node skills and passed to scripts in the environment.
+   */
+  private checkDeclaredCapabilities(): void {
+    const policy = this.capabilityPolicy;
+    const pid = this.process?.pid;
+    if (!policy || !pid || this.isProcessTerminating || process.platform !== 'linux') {
+      return;
+    }
+
+    const pids = listProcessTree(pid);
+    for (const image of listProcessImages(pids)) {
+      const executable = image.executable || image.command;
+      if (this.launcherExecutables.has(executable) || this.launcherExecutables.has(image.command) ||
+          policy.allowsProcess(executable) || policy.allowsProcess(image.command)) {
+        continue;
+      }
+      this.denyUndeclaredAccess('suspicious_behavior', `Process ${executable} (${image.pid}) is not declared in the skill's capabilities`);
+      return;
+    }
+
+    const sandboxDirectories = [
+      ...(this.options.allowedDirectories || []),
+      this.getNetworkReportDirectory(),
+      ...(this.cgroup ? [this.cgroup.dir] : [])
+    ].map(dir => path.resolve(dir));
+    for (const file of listFilesOpenForWriting(pids)) {
+      if (sandboxDirectories.some(dir => file.path === dir || file.path.startsWith(dir + path.sep)) ||
+          policy.allowsPath(file.path, 'write')) {
+        continue;
+      }
+      this.denyUndeclaredAccess('filesystem_access', `Write to ${file.path} by process ${file.pid} is not declared in the skill's capabilities`);
+      return;
+    }
+  }
+
+  private denyUndeclaredAccess(type: SecurityEvent['type'], details: string): void {
+    this.recordSecurityEvent(type, 'high', details);
+    this.logManager.warn('Skill exceeded its declared capabilities', {
+      details
+    }, { component: 'sandbox', executionId: this.executionId });
+    this.safeKillProcess('SIGKILL');
+  }
+
   /**
    * Collect performance metrics for analytics and reporting
    */
@@ -955,6 +1398,7 @@ export class SkillSandbox extends EventEmitter {
         this.monitorMemoryUsage();
         this.monitorDiskUsage();
         this.monitorNetworkUsage();
+        this.checkDeclaredCapabilities();
         this.collectPerformanceMetrics();
         this.checkResourceLimits();
       } catch (error) {
@@ -1203,6 +1647,16 @@ export class SkillSandbox extends EventEmitter {
         return;
       }
 
+      // Terminate descendants first so they are not orphaned when the script host exits
+      if (this.process.pid) {
+        this.killProcessTree(this.process.pid, signal);
+      }
+
+      // The cgroup also holds descendants that were re-parented away from the tree
+      if (signal === 'SIGKILL') {
+        this.cgroup?.kill();
+      }
+
       // Attempt to kill the process
       const killed = this.process.kill(signal);
 
@@ -1343,6 +1797,93 @@ export class SkillSandbox extends EventEmitter {
     }
   }
 
+  /**
+   * Kill every descendant of a process (taskkill /T on Windows, a ps walk elsewhere)
+   */
+  private killProcessTree(pid: number, signal: NodeJS.Signals): void {
+    if (process.platform === 'win32') {
+      spawnSync('taskkill', ['/PID', String(pid), '/T', '/F'], { windowsHide: true });
+      return;
+    }
+
+    const listing = spawnSync('ps', ['-A', '-o', 'pid=,ppid='], { encoding: 'utf-8' });
+    if (listing.status !== 0 || !listing.stdout) {
+      return;
+    }
+
+    const children = new Map<number, number[]>();
+    for (const line of listing.stdout.split('\n')) {
+      const [childPid, parentPid] = line.trim().split(/\s+/).map(Number);
+      if (childPid && parentPid) {
+        children.set(parentPid, [...(children.get(parentPid) ?? []), childPid]);
+      }
+    }
+
+    const descendants: number[] = [];
+    const pending = [pid];
+    while (pending.length > 0) {
+      for (const childPid of children.get(pending.pop()!) ?? []) {
+        descendants.push(childPid);
+        pending.push(childPid);
+      }
+    }
+
+    // Deepest first, so nothing is re-parented before it is signalled
+    for (const descendant of descendants.reverse()) {
+      try {
+        process.kill(descendant, signal);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ESRCH') {
+          this.logManager.warn('Failed to signal child process', {
+            pid: descendant,
+            error: (error as Error).message
+          }, { component: 'sandbox', executionId: this.executionId });
+        }
+      }
+    }
+  }
+
+  /**
+   * Register the running process tree with the ResourceCleaner so it is
+   * reclaimed even if the sandbox itself is abandoned
+   */
+  private trackProcessTree(): void {
+    const cleaner = this.options.resourceCleaner;
+    const pid = this.process?.pid;
+    const cgroup = this.cgroup;
+    if (!cleaner || !pid) {
+      return;
+    }
+
+    this.trackedResourceIds.push(cleaner.trackResource(
+      'process',
+      `Skill process tree for ${path.basename(this.scriptPath)}`,
+      async () => {
+        this.killProcessTree(pid, 'SIGKILL');
+        cgroup?.kill();
+        try {
+          process.kill(pid, 'SIGKILL');
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ESRCH') {
+            throw error;
+          }
+        }
+      },
+      { processId: pid, executionId: this.executionId },
+      1
+    ));
+  }
+
+  /**
+   * Stop tracking resources after a normal exit
+   */
+  private untrackResources(): void {
+    for (const resourceId of this.trackedResourceIds) {
+      this.options.resourceCleaner?.untrackResource(resourceId);
+    }
+    this.trackedResourceIds = [];
+  }
+
   /**
    * Clean up resources and release monitoring data
    */
@@ -1358,12 +1899,24 @@ export class SkillSandbox extends EventEmitter {
     if (this.process && !this.process.killed) {
       this.safeKillProcess('SIGKILL');
     }
+    this.releaseCgroup();
+    this.nodeHost?.terminate();
+    this.nodeHost = null;
 
     // Release monitoring resources
     this.process = null;
     this.isProcessTerminating = false;
     this.diskWriteTracker.clear();
     this.networkConnections.clear();
+    this.reportedConnections.clear();
+    if (this.networkReportFile) {
+      try {
+        fs.rmSync(this.networkReportFile, { force: true });
+        this.networkReportFile = null;
+      } catch {
+        // Removed by the next cleanup
+      }
+    }
     this.performanceMetrics = [];
     this.wmiCache.clear();
   }
@@ -1379,9 +1932,11 @@ export class SkillSandbox extends EventEmitter {
   }
 
   /**
-   * Abort execution
+   * Abort execution. The pending execute() call resolves with the output
+   * captured so far and `cancelled: true`.
    */
   abort(): void {
+    this.cancelled = true;
     this.recordSecurityEvent(
       'suspicious_behavior',
       'medium',
@@ -1391,6 +1946,17 @@ export class SkillSandbox extends EventEmitter {
     if (this.process && !this.process.killed) {
       this.safeKillProcess('SIGKILL');
     }
+    this.nodeHost?.terminate();
+
+    const cleaner = this.options.resourceCleaner;
+    for (const resourceId of this.trackedResourceIds) {
+      cleaner?.cleanupResource(resourceId).catch(error => {
+        this.logManager.error('Failed to clean up aborted skill resources', error as Error, {
+          resourceId
+        }, { component: 'sandbox', executionId: this.executionId });
+      });
+    }
+    this.trackedResourceIds = [];
 
     this.cleanup();
   }
@@ -1401,4 +1967,44 @@ export class SkillSandbox extends EventEmitter {
   getSecurityEvents(): SecurityEvent[] {
     return [...this.securityEvents];
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Whether a dry run of a script of this type can be kept from writing: node
+ * skills have no write API, other scripts need a read-only mount namespace,
+ * which only Linux offers
+ */
+export function canEnforceDryRun(scriptType: ScriptType): boolean {
+  return scriptType === 'node' || getReadOnlyIsolationPrefix() !== null;
+}
+
+/**
+ * Resolved executables of the words of a command that name one, looked up
+ * on PATH when they have no directory, with the names they go by
+ */
+function resolveExecutables(command: string[]): Set<string> {
+  const executables = new Set<string>();
+  const searchPath = (process.env.PATH || '').split(path.delimiter).filter(dir => dir.length > 0);
+
+  for (const word of command) {
+    if (word.length === 0 || word.startsWith('-') || /\s/.test(word)) continue;
+
+    const candidates = word.includes(path.sep) ? [word] : searchPath.map(dir => path.join(dir, word));
+    for (const candidate of candidates) {
+      try {
+        if (!fs.statSync(candidate).isFile()) continue;
+        fs.accessSync(candidate, fs.constants.X_OK);
+        const resolved = fs.realpathSync(candidate);
+        executables.add(resolved);
+        executables.add(path.basename(resolved));
+        // The kernel's command name is the name the program was started by
+        executables.add(path.basename(candidate));
+        break;
+      } catch {
+        // Not an executable
+      }
+    }
+  }
+
+  return executables;
+}
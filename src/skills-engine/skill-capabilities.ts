@@ -0,0 +1,216 @@
+import * as os from 'os';
+import * as path from 'path';
+import { SkillCapabilities } from './types';
+import { FilesystemGuardOptions } from './filesystem-guard';
+
+// Where a capability declaration is resolved: variables in path globs are
+// expanded from `env`, and paths, services and processes compare without
+// case on Windows and macOS
+export interface SkillCapabilityPolicyOptions {
+  platform: NodeJS.Platform;
+  env: Record<string, string | undefined>;
+  homeDirectory: string;
+}
+
+const DEFAULT_SKILL_CAPABILITY_POLICY_OPTIONS: SkillCapabilityPolicyOptions = {
+  platform: process.platform,
+  env: process.env,
+  homeDirectory: os.homedir()
+};
+
+// Registry hives by every name reg.exe and PowerShell accept
+const REGISTRY_HIVES: Record<string, string> = {
+  HKLM: 'HKLM',
+  HKEY_LOCAL_MACHINE: 'HKLM',
+  HKCU: 'HKCU',
+  HKEY_CURRENT_USER: 'HKCU',
+  HKCR: 'HKCR',
+  HKEY_CLASSES_ROOT: 'HKCR',
+  HKU: 'HKU',
+  HKEY_USERS: 'HKU',
+  HKCC: 'HKCC',
+  HKEY_CURRENT_CONFIG: 'HKCC'
+};
+
+// A leading variable or home directory, as accepted in path globs
+const PATH_VARIABLE_PREFIX = /^(%[A-Za-z_][A-Za-z0-9_()]*%|\$\{[A-Za-z_][A-Za-z0-9_]*\}|\$[A-Za-z_][A-Za-z0-9_]*|~)(?=[\\/]|$)/;
+
+/**
+ * Whether a declared path glob is absolute once its leading variable is expanded
+ */
+export function isCapabilityPathPattern(pattern: string): boolean {
+  return PATH_VARIABLE_PREFIX.test(pattern) || path.posix.isAbsolute(pattern) || /^[A-Za-z]:[\\/]|^\\\\/.test(pattern);
+}
+
+/**
+ * Canonical form of a registry key, e.g. HKLM\SOFTWARE\Microsoft for
+ * HKEY_LOCAL_MACHINE\SOFTWARE\Microsoft or HKLM:/SOFTWARE/Microsoft, or null
+ * when it does not start with a known hive
+ */
+export function normalizeRegistryKey(key: string): string | null {
+  const segments = key.replace(/^Registry::/i, '').split(/[\\/]+/).filter(segment => segment.length > 0);
+  const hive = REGISTRY_HIVES[(segments[0] ?? '').replace(/:$/, '').toUpperCase()];
+  return hive ? [hive, ...segments.slice(1)].join('\\') : null;
+}
+
+/**
+ * Expand the variables in a path glob: %NAME%, $NAME, ${NAME} and a leading
+ * ~. Returns null when a variable is not set, so the glob allows nothing.
+ */
+export function expandCapabilityPath(
+  pattern: string,
+  options: Partial<SkillCapabilityPolicyOptions> = {}
+): string | null {
+  const { platform, env, homeDirectory } = { ...DEFAULT_SKILL_CAPABILITY_POLICY_OPTIONS, ...options };
+  const lookup = (name: string): string | undefined => {
+    if (env[name] !== undefined || platform !== 'win32') {
+      return env[name];
+    }
+    const key = Object.keys(env).find(candidate => candidate.toUpperCase() === name.toUpperCase());
+    return key === undefined ? undefined : env[key];
+  };
+
+  let unresolved = false;
+  const expanded = pattern
+    .replace(/^~(?=[\\/]|$)/, () => homeDirectory)
+    .replace(/%([A-Za-z_][A-Za-z0-9_()]*)%|\$\{([A-Za-z_][A-Za-z0-9_]*)\}|\$([A-Za-z_][A-Za-z0-9_]*)/g,
+      (_match, percent?: string, braced?: string, bare?: string) => {
+        const value = lookup((percent ?? braced ?? bare)!);
+        if (!value) {
+          unresolved = true;
+          return '';
+        }
+        return value;
+      });
+
+  return unresolved ? null : expanded;
+}
+
+/**
+ * Compile an expanded path glob: `*` and `?` stay within one directory, a
+ * `**` segment spans any number of them, including none
+ */
+export function capabilityGlobToRegExp(pattern: string, platform: NodeJS.Platform = process.platform): RegExp {
+  const windows = platform === 'win32';
+  const separator = windows ? '[\\\\/]' : '/';
+  const notSeparator = windows ? '[^\\\\/]' : '[^/]';
+  const segmentSource = (segment: string) => segment
+    .split('')
+    .map(char => char === '*' ? `${notSeparator}*` : char === '?' ? notSeparator : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+
+  const segments = pattern.split(windows ? /[\\/]/ : '/');
+  let source = segmentSource(segments[0]);
+  for (const segment of segments.slice(1)) {
+    source += segment === '**' ? `(?:${separator}.*)?` : separator + segmentSource(segment);
+  }
+
+  return new RegExp(`^${source}$`, windows || platform === 'darwin' ? 'i' : '');
+}
+
+/**
+ * A skill's capability declaration resolved for this device. Anything the
+ * declaration does not name is denied.
+ */
+export class SkillCapabilityPolicy {
+  private options: SkillCapabilityPolicyOptions;
+  private readPatterns: RegExp[];
+  private writePatterns: RegExp[];
+  private registryKeys: string[];
+
+  constructor(private capabilities: SkillCapabilities, options: Partial<SkillCapabilityPolicyOptions> = {}) {
+    this.options = { ...DEFAULT_SKILL_CAPABILITY_POLICY_OPTIONS, ...options };
+    this.readPatterns = this.compilePatterns(capabilities.filesystem?.read ?? []);
+    this.writePatterns = this.compilePatterns(capabilities.filesystem?.write ?? []);
+    this.registryKeys = (capabilities.registry ?? [])
+      .map(normalizeRegistryKey)
+      .filter((key): key is string => key !== null);
+  }
+
+  // Hosts the skill may connect to; none means no network access
+  get hosts(): string[] {
+    return this.capabilities.network?.hosts ?? [];
+  }
+
+  // Ports the skill may connect to; none means any port of an allowed host
+  get ports(): number[] {
+    return this.capabilities.network?.ports ?? [];
+  }
+
+  /**
+   * Whether a path was declared; write access includes read access
+   */
+  allowsPath(filePath: string, operation: 'read' | 'write'): boolean {
+    const resolved = path.resolve(filePath);
+    const patterns = operation === 'read' ? [...this.readPatterns, ...this.writePatterns] : this.writePatterns;
+    return patterns.some(pattern => pattern.test(resolved));
+  }
+
+  allowsPort(port: number): boolean {
+    return this.ports.length === 0 || this.ports.includes(port);
+  }
+
+  /**
+   * Whether a key is one of the declared keys or below one
+   */
+  allowsRegistryKey(key: string): boolean {
+    const normalized = normalizeRegistryKey(key)?.toUpperCase();
+    return normalized !== undefined && this.registryKeys.some(declared => {
+      const prefix = declared.toUpperCase();
+      return normalized === prefix || normalized.startsWith(`${prefix}\\`);
+    });
+  }
+
+  allowsService(name: string): boolean {
+    return (this.capabilities.services ?? []).some(service => this.sameName(service, name));
+  }
+
+  /**
+   * Whether a program may be started, by name or path; `.exe` is optional
+   */
+  allowsProcess(nameOrPath: string): boolean {
+    const name = path.basename(nameOrPath.replace(/\\/g, '/')).replace(/\.exe$/i, '');
+    return (this.capabilities.processes ?? []).some(process => this.sameName(process.replace(/\.exe$/i, ''), name));
+  }
+
+  /**
+   * Path patterns for a FilesystemGuard enforcing this declaration
+   */
+  getFilesystemGuardOptions(): Pick<FilesystemGuardOptions, 'allowedReadPatterns' | 'allowedWritePatterns'> {
+    return { allowedReadPatterns: this.readPatterns, allowedWritePatterns: this.writePatterns };
+  }
+
+  /**
+   * Declarations a script can read, since the sandbox cannot watch registry
+   * or service access itself: WTC_ALLOWED_REGISTRY, WTC_ALLOWED_SERVICES and
+   * WTC_ALLOWED_PROCESSES, separated by ';'
+   */
+  getEnvironment(): Record<string, string> {
+    return {
+      WTC_ALLOWED_REGISTRY: this.registryKeys.join(';'),
+      WTC_ALLOWED_SERVICES: (this.capabilities.services ?? []).join(';'),
+      WTC_ALLOWED_PROCESSES: (this.capabilities.processes ?? []).join(';')
+    };
+  }
+
+  private compilePatterns(patterns: string[]): RegExp[] {
+    return patterns
+      .map(pattern => expandCapabilityPath(pattern, this.options))
+      .filter((expanded): expanded is string => expanded !== null)
+      .map(expanded => capabilityGlobToRegExp(expanded, this.options.platform));
+  }
+
+  private sameName(a: string, b: string): boolean {
+    return this.options.platform === 'linux' ? a === b : a.toLowerCase() === b.toLowerCase();
+  }
+}
+
+/**
+ * Factory function to create a capability policy
+ */
+export function createSkillCapabilityPolicy(
+  capabilities: SkillCapabilities,
+  options?: Partial<SkillCapabilityPolicyOptions>
+): SkillCapabilityPolicy {
+  return new SkillCapabilityPolicy(capabilities, options);
+}
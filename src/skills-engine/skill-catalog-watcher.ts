@@ -0,0 +1,168 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { SkillCatalog, SkillReloadResult } from './skill-catalog';
+import { getSignaturePaths, getSkillPackageFiles } from './skill-signing';
+import { getLogManager } from './logging';
+
+// Watcher configuration
+export interface SkillCatalogWatcherOptions {
+  // Quiet period after the last change before packages are re-validated,
+  // so copying a package file by file triggers one reload
+  debounceMs: number;
+}
+
+const DEFAULT_WATCHER_OPTIONS: SkillCatalogWatcherOptions = {
+  debounceMs: 500
+};
+
+/**
+ * Watches the skills directory and reloads the packages whose files changed.
+ * A change to a script, lockfile or signature re-validates every package
+ * that includes it; packages rejected earlier are retried on every change,
+ * since the file they were missing may just have arrived.
+ *
+ * Emits 'skillChanged' with each SkillReloadResult, and 'error' when the
+ * directory can no longer be watched.
+ */
+export class SkillCatalogWatcher extends EventEmitter {
+  private options: SkillCatalogWatcherOptions;
+  private watcher: fs.FSWatcher | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private pending = new Set<string>();
+  // Set when the platform did not say which file changed
+  private pendingAll = false;
+  private logManager = getLogManager();
+
+  constructor(private catalog: SkillCatalog, options: Partial<SkillCatalogWatcherOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_WATCHER_OPTIONS, ...options };
+  }
+
+  start(): void {
+    if (this.watcher) {
+      return;
+    }
+
+    this.watcher = fs.watch(this.catalog.getSkillsDirectory(), (_event, filename) => {
+      if (filename) {
+        this.pending.add(filename.toString());
+      } else {
+        this.pendingAll = true;
+      }
+      this.schedule();
+    });
+    this.watcher.on('error', (error) => {
+      this.logManager.error('Skills directory watcher failed', error, {
+        skillsDirectory: this.catalog.getSkillsDirectory()
+      }, { component: 'skill-catalog-watcher' });
+      this.stop();
+      this.emit('error', error);
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.watcher?.close();
+    this.watcher = null;
+    this.pending.clear();
+    this.pendingAll = false;
+  }
+
+  /**
+   * Reload the packages affected by the changes seen so far without waiting
+   * for the debounce period
+   */
+  flush(): SkillReloadResult[] {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const files = this.getAffectedFiles();
+    this.pending.clear();
+    this.pendingAll = false;
+
+    const results = files.flatMap(file => this.catalog.reloadSkillFile(file));
+    for (const result of results) {
+      this.emit('skillChanged', result);
+    }
+    return results;
+  }
+
+  private schedule(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      try {
+        this.flush();
+      } catch (error) {
+        this.logManager.error('Failed to reload skill packages', error as Error, {}, {
+          component: 'skill-catalog-watcher'
+        });
+      }
+    }, this.options.debounceMs);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Metadata files to re-validate for the pending changes
+   */
+  private getAffectedFiles(): string[] {
+    const files = new Set<string>();
+    const directory = this.catalog.getSkillsDirectory();
+
+    if (this.pendingAll) {
+      for (const file of fs.readdirSync(directory)) {
+        if (file.toLowerCase().endsWith('.json')) {
+          files.add(file);
+        }
+      }
+      // Deleted packages are no longer listed
+      for (const skill of this.catalog.getAll()) {
+        files.add(path.basename(skill.metadataPath));
+      }
+    }
+
+    for (const skill of this.catalog.getAll()) {
+      const { manifestPath, signaturePath } = getSignaturePaths(skill.metadataPath);
+      const packageFiles = [
+        ...getSkillPackageFiles(skill.metadataPath, skill.metadata),
+        path.basename(manifestPath),
+        path.basename(signaturePath)
+      ];
+      if (packageFiles.some(file => this.pending.has(file))) {
+        files.add(path.basename(skill.metadataPath));
+      }
+    }
+
+    for (const file of this.pending) {
+      if (file.toLowerCase().endsWith('.json')) {
+        files.add(file);
+      }
+    }
+
+    if (this.pending.size > 0 || this.pendingAll) {
+      for (const rejection of this.catalog.getRejected()) {
+        files.add(rejection.file);
+      }
+    }
+
+    return Array.from(files).sort();
+  }
+}
+
+/**
+ * Factory function to create a skills directory watcher
+ */
+export function createSkillCatalogWatcher(
+  catalog: SkillCatalog,
+  options?: Partial<SkillCatalogWatcherOptions>
+): SkillCatalogWatcher {
+  return new SkillCatalogWatcher(catalog, options);
+}
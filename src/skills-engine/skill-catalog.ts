@@ -0,0 +1,1226 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { SkillSandbox, SandboxOptions, ScriptType, canEnforceDryRun } from './sandbox';
+import { SkillApplicability, SkillDryRunPreview, SkillExecutionResult, SkillMetadata, SkillProgressUpdate } from './types';
+import { getLogManager } from './logging';
+import { createSkillExecutionResult, summarizePlannedActions } from './skill-output-parser';
+import {
+  assertValidSkillParameters,
+  buildScriptArguments,
+  redactSkillParameters,
+  validateParameterDefinitions,
+  validateSkillParameters
+} from './parameter-validator';
+import { SkillSignatureVerifier, SkillSignatureError, SkillVerificationResult } from './skill-signing';
+import { SkillUndoUnavailableError, UndoJournal, UndoJournalEntry } from './undo-journal';
+import { SkillResultCache, createSkillCacheKey } from './result-cache';
+import { PythonRuntime, PythonRuntimeError, isValidPythonVersionSpec } from './python-runtime';
+import { PreconditionChecker } from './skill-preconditions';
+import { isCapabilityPathPattern, normalizeRegistryKey } from './skill-capabilities';
+import { SkillRiskAnalyzer } from './skill-risk-analyzer';
+
+// Operating system identifiers used in skill metadata
+export type SkillPlatform = 'windows' | 'linux' | 'macos';
+
+// Reasons a skill package can be rejected by the catalog
+export type CatalogRejectionReason =
+  | 'invalid_json'
+  | 'invalid_metadata'
+  | 'duplicate_id'
+  | 'unsupported_platform'
+  | 'unsupported_script'
+  | 'missing_script'
+  | 'unsigned'
+  | 'invalid_signature';
+
+// A skill that passed validation and can run on this machine
+export interface CatalogSkill {
+  metadata: SkillMetadata;
+  metadataPath: string;
+  scriptPath: string;
+  scriptType: ScriptType;
+  undoScriptPath?: string;
+  undoScriptType?: ScriptType;
+  verification?: SkillVerificationResult;
+}
+
+// A skill package that was discovered but not loaded
+export interface CatalogRejection {
+  file: string;
+  skillId?: string;
+  reason: CatalogRejectionReason;
+  message: string;
+}
+
+// Progress callback, cancellation signal and dry-run flag supplied by the caller of a sandboxed skill handler.
+// executionId names the run in the history and undo journal; correlationId is the IPC request it serves.
+export interface SkillRunContext {
+  onProgress?: (update: { percent?: number; message?: string; output?: string }) => void;
+  signal?: AbortSignal;
+  dryRun?: boolean;
+  // Run a cacheable skill even when a cached result exists
+  bypassCache?: boolean;
+  executionId?: string;
+  correlationId?: string;
+}
+
+// A finished catalog skill run, as reported to the history recorder
+export interface SkillExecutionRecord {
+  executionId: string;
+  skillId: string;
+  skillName: string;
+  mode: 'run' | 'dry_run' | 'undo';
+  status: 'success' | 'error' | 'timeout' | 'cancelled';
+  params: Record<string, unknown>;
+  result?: SkillExecutionResult;
+  error?: string;
+  correlationId?: string;
+  startedAt: number;
+  completedAt: number;
+}
+
+// Receives every catalog skill run, e.g. the execution history store
+export interface SkillExecutionRecorder {
+  record(execution: SkillExecutionRecord): void;
+}
+
+// Services shared by catalog skill runs: signature checks, undo journal, history, result cache,
+// the Python runtime that picks interpreters and builds virtualenvs, the precondition checker
+// and the analyzer that refuses scripts riskier than their declared risk level
+export interface SkillRunServices {
+  verifier?: SkillSignatureVerifier;
+  undoJournal?: UndoJournal;
+  history?: SkillExecutionRecorder;
+  cache?: SkillResultCache<SkillExecutionResult>;
+  python?: PythonRuntime;
+  preconditions?: PreconditionChecker;
+  riskAnalyzer?: SkillRiskAnalyzer;
+}
+
+// Result of a dry run: the script's result line plus the actions it would take
+export interface SkillDryRunResult {
+  output: string;
+  preview: SkillDryRunPreview;
+}
+
+// Result of a run recorded in the undo journal: the output plus the entry the user can revert
+export interface SkillRevertibleResult {
+  output: string;
+  undo: { executionId: string; expiresAt: number };
+}
+
+// Result served from the result cache, with the time the skill actually ran
+export interface SkillCachedResult {
+  output: string;
+  cachedAt: number;
+}
+
+// Catalog configuration
+export interface SkillCatalogOptions {
+  skillsDirectory: string;
+  platform: NodeJS.Platform;
+  verifier?: SkillSignatureVerifier;
+  // Rejects Python skills no installed interpreter can run
+  pythonRuntime?: PythonRuntime;
+}
+
+// Result of a catalog scan
+export interface SkillCatalogLoadResult {
+  skills: CatalogSkill[];
+  rejected: CatalogRejection[];
+}
+
+// What re-validating a changed package did to the catalog. A rejected edit
+// carries the rejection and, in `skill`, the previous version still loaded.
+export interface SkillReloadResult {
+  file: string;
+  status: 'added' | 'updated' | 'removed' | 'rejected';
+  skillId?: string;
+  skill?: CatalogSkill;
+  rejection?: CatalogRejection;
+}
+
+// Error raised when a running skill is cancelled; carries the output captured so far
+export class SkillCancelledError extends Error {
+  public readonly code = 'SKILL_CANCELLED';
+
+  constructor(message: string, public partialOutput: string = '', public skillId?: string) {
+    super(message);
+    this.name = 'SkillCancelledError';
+  }
+}
+
+// Error raised when a dry run is requested for a skill that does not support
+// it, or on a device that cannot keep it from writing
+export class SkillDryRunUnsupportedError extends Error {
+  public readonly code = 'SKILL_DRY_RUN_UNSUPPORTED';
+
+  constructor(message: string, public skillId?: string) {
+    super(message);
+    this.name = 'SkillDryRunUnsupportedError';
+  }
+}
+
+// Error raised when a single skill package fails to load
+export class SkillCatalogError extends Error {
+  constructor(message: string, public reason: CatalogRejectionReason, public skillId?: string) {
+    super(message);
+    this.name = 'SkillCatalogError';
+  }
+}
+
+export const SKILL_ID_PATTERN = /^[a-z0-9][a-z0-9-]*[a-z0-9]$/;
+export const VERSION_PATTERN = /^\d+\.\d+\.\d+$/;
+const KNOWN_PLATFORMS: SkillPlatform[] = ['windows', 'linux', 'macos'];
+const RISK_LEVELS: Array<SkillMetadata['riskLevel']> = ['low', 'medium', 'high'];
+const PRECONDITION_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._@-]*$/;
+const OS_BUILD_PATTERN = /^\d+(\.\d+)*$/;
+
+const SCRIPT_EXTENSIONS: Record<string, ScriptType> = {
+  '.ps1': 'powershell',
+  '.sh': 'shell',
+  '.bat': 'batch',
+  '.cmd': 'batch',
+  '.py': 'python',
+  '.js': 'node'
+};
+
+// Script types each platform can execute through SkillSandbox
+const PLATFORM_SCRIPT_TYPES: Record<SkillPlatform, ScriptType[]> = {
+  windows: ['powershell', 'batch', 'python', 'node'],
+  linux: ['shell', 'python', 'node'],
+  macos: ['shell', 'python', 'node']
+};
+
+/**
+ * Map a Node.js platform identifier to the names used in skill metadata
+ */
+export function toSkillPlatform(platform: NodeJS.Platform): SkillPlatform | null {
+  switch (platform) {
+    case 'win32':
+      return 'windows';
+    case 'darwin':
+      return 'macos';
+    case 'linux':
+      return 'linux';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Determine the script type from a script file name
+ */
+export function getScriptType(scriptFile: string): ScriptType | null {
+  return SCRIPT_EXTENSIONS[path.extname(scriptFile).toLowerCase()] ?? null;
+}
+
+/**
+ * Validate raw skill metadata and return a list of problems (empty when valid)
+ */
+export function validateSkillMetadata(raw: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return ['Skill metadata must be a JSON object'];
+  }
+
+  const metadata = raw as Record<string, any>;
+
+  const requireString = (field: string) => {
+    if (typeof metadata[field] !== 'string' || metadata[field].trim().length === 0) {
+      errors.push(`'${field}' must be a non-empty string`);
+      return false;
+    }
+    return true;
+  };
+
+  if (requireString('id') && !SKILL_ID_PATTERN.test(metadata.id)) {
+    errors.push(`'id' must be lowercase kebab-case (got '${metadata.id}')`);
+  }
+  requireString('name');
+  requireString('description');
+  if (requireString('version') && !VERSION_PATTERN.test(metadata.version)) {
+    errors.push(`'version' must be a semantic version such as 1.0.0 (got '${metadata.version}')`);
+  }
+
+  if (!Array.isArray(metadata.os) || metadata.os.length === 0) {
+    errors.push(`'os' must be a non-empty array`);
+  } else {
+    for (const os of metadata.os) {
+      if (!KNOWN_PLATFORMS.includes(os)) {
+        errors.push(`'os' contains unknown platform '${os}'`);
+      }
+    }
+  }
+
+  if (!RISK_LEVELS.includes(metadata.riskLevel)) {
+    errors.push(`'riskLevel' must be one of ${RISK_LEVELS.join(', ')}`);
+  }
+
+  if (typeof metadata.requiresAdmin !== 'boolean') {
+    errors.push(`'requiresAdmin' must be a boolean`);
+  }
+
+  const scriptFields = ['script', 'windowsScript', 'unixScript'];
+  const declaredScripts = scriptFields.filter(field => metadata[field] !== undefined);
+  if (declaredScripts.length === 0) {
+    errors.push(`One of ${scriptFields.join(', ')} must be declared`);
+  }
+  for (const field of declaredScripts) {
+    const value = metadata[field];
+    if (typeof value !== 'string' || value.length === 0) {
+      errors.push(`'${field}' must be a non-empty string`);
+    } else if (path.basename(value) !== value) {
+      errors.push(`'${field}' must be a file name inside the skills directory (got '${value}')`);
+    }
+  }
+
+  if (!Array.isArray(metadata.parameters)) {
+    errors.push(`'parameters' must be an array`);
+  } else {
+    errors.push(...validateParameterDefinitions(metadata.parameters));
+  }
+
+  if (metadata.supportsDryRun !== undefined && typeof metadata.supportsDryRun !== 'boolean') {
+    errors.push(`'supportsDryRun' must be a boolean`);
+  }
+
+  if (metadata.undo !== undefined) {
+    errors.push(...validateUndoDefinition(metadata.undo));
+  }
+
+  if (metadata.cacheable !== undefined && typeof metadata.cacheable !== 'boolean') {
+    errors.push(`'cacheable' must be a boolean`);
+  } else if (metadata.cacheable && metadata.undo !== undefined) {
+    errors.push(`'cacheable' skills must not change state, so they cannot declare an undo`);
+  }
+  if (metadata.cacheTtlMs !== undefined && (!Number.isInteger(metadata.cacheTtlMs) || metadata.cacheTtlMs <= 0)) {
+    errors.push(`'cacheTtlMs' must be a positive integer`);
+  }
+
+  if (metadata.networkAccess !== undefined && typeof metadata.networkAccess !== 'boolean') {
+    errors.push(`'networkAccess' must be a boolean`);
+  }
+  if (metadata.allowedHosts !== undefined) {
+    if (!Array.isArray(metadata.allowedHosts) ||
+        metadata.allowedHosts.some((host: unknown) => typeof host !== 'string' || host.trim().length === 0)) {
+      errors.push(`'allowedHosts' must be an array of host names or addresses`);
+    } else if (metadata.networkAccess !== true) {
+      errors.push(`'allowedHosts' requires 'networkAccess': true`);
+    }
+  }
+
+  if (metadata.python !== undefined) {
+    errors.push(...validatePythonRequirements(metadata.python));
+  }
+
+  if (metadata.preconditions !== undefined) {
+    errors.push(...validatePreconditions(metadata.preconditions));
+  }
+
+  if (metadata.capabilities !== undefined) {
+    errors.push(...validateCapabilities(metadata.capabilities));
+    if (metadata.networkAccess !== undefined || metadata.allowedHosts !== undefined) {
+      errors.push(`'networkAccess' and 'allowedHosts' cannot be combined with 'capabilities'; declare 'capabilities.network' instead`);
+    }
+  }
+
+  if (!metadata.output || typeof metadata.output !== 'object') {
+    errors.push(`'output' must be an object with success and failure messages`);
+  } else {
+    if (typeof metadata.output.success !== 'string') {
+      errors.push(`'output.success' must be a string`);
+    }
+    if (typeof metadata.output.failure !== 'string') {
+      errors.push(`'output.failure' must be a string`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate the interpreter requirements of a Python skill
+ */
+function validatePythonRequirements(python: any): string[] {
+  if (!python || typeof python !== 'object' || Array.isArray(python)) {
+    return [`'python' must be an object`];
+  }
+
+  const errors: string[] = [];
+  if (python.version !== undefined && (typeof python.version !== 'string' || !isValidPythonVersionSpec(python.version))) {
+    errors.push(`'python.version' must be a version constraint such as 3.11 or >=3.9,<3.13`);
+  }
+  if (python.requirements !== undefined) {
+    if (typeof python.requirements !== 'string' || python.requirements.length === 0) {
+      errors.push(`'python.requirements' must be a non-empty string`);
+    } else if (path.basename(python.requirements) !== python.requirements) {
+      errors.push(`'python.requirements' must be a file name inside the skills directory (got '${python.requirements}')`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validate the preconditions of a skill
+ */
+function validatePreconditions(preconditions: any): string[] {
+  if (!preconditions || typeof preconditions !== 'object' || Array.isArray(preconditions)) {
+    return [`'preconditions' must be an object`];
+  }
+
+  const errors: string[] = [];
+  for (const field of ['commands', 'modules', 'services']) {
+    const names = preconditions[field];
+    if (names !== undefined &&
+        (!Array.isArray(names) || names.some((name: unknown) => typeof name !== 'string' || !PRECONDITION_NAME_PATTERN.test(name)))) {
+      errors.push(`'preconditions.${field}' must be an array of names made of letters, digits, '.', '_', '@' and '-'`);
+    }
+  }
+  if (preconditions.minOsBuild !== undefined &&
+      (typeof preconditions.minOsBuild !== 'string' || !OS_BUILD_PATTERN.test(preconditions.minOsBuild))) {
+    errors.push(`'preconditions.minOsBuild' must be a dotted version such as 10.0.19041`);
+  }
+  for (const field of ['admin', 'notOnBattery', 'notOnMeteredNetwork']) {
+    if (preconditions[field] !== undefined && typeof preconditions[field] !== 'boolean') {
+      errors.push(`'preconditions.${field}' must be a boolean`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validate the capabilities a skill declares
+ */
+function validateCapabilities(capabilities: any): string[] {
+  if (!capabilities || typeof capabilities !== 'object' || Array.isArray(capabilities)) {
+    return [`'capabilities' must be an object`];
+  }
+
+  const errors: string[] = [];
+  const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim().length > 0);
+
+  const filesystem = capabilities.filesystem;
+  if (filesystem !== undefined) {
+    if (!filesystem || typeof filesystem !== 'object' || Array.isArray(filesystem)) {
+      errors.push(`'capabilities.filesystem' must be an object`);
+    } else {
+      for (const field of ['read', 'write']) {
+        const patterns = filesystem[field];
+        if (patterns !== undefined && (!isStringArray(patterns) || !patterns.every(isCapabilityPathPattern))) {
+          errors.push(`'capabilities.filesystem.${field}' must be an array of absolute path globs, optionally starting with a variable such as %LOCALAPPDATA% or $HOME`);
+        }
+      }
+    }
+  }
+
+  const network = capabilities.network;
+  if (network !== undefined) {
+    if (!network || typeof network !== 'object' || Array.isArray(network)) {
+      errors.push(`'capabilities.network' must be an object`);
+    } else {
+      if (!isStringArray(network.hosts) || network.hosts.length === 0) {
+        errors.push(`'capabilities.network.hosts' must be a non-empty array of host names or addresses`);
+      }
+      if (network.ports !== undefined &&
+          (!Array.isArray(network.ports) ||
+           network.ports.some((port: unknown) => !Number.isInteger(port) || (port as number) < 1 || (port as number) > 65535))) {
+        errors.push(`'capabilities.network.ports' must be an array of port numbers`);
+      }
+    }
+  }
+
+  if (capabilities.registry !== undefined &&
+      (!isStringArray(capabilities.registry) || capabilities.registry.some((key: string) => normalizeRegistryKey(key) === null))) {
+    errors.push(`'capabilities.registry' must be an array of registry keys starting with a hive such as HKLM or HKCU`);
+  }
+
+  for (const field of ['services', 'processes']) {
+    const names = capabilities[field];
+    if (names !== undefined &&
+        (!Array.isArray(names) || names.some((name: unknown) => typeof name !== 'string' || !PRECONDITION_NAME_PATTERN.test(name)))) {
+      errors.push(`'capabilities.${field}' must be an array of names made of letters, digits, '.', '_', '@' and '-'`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate the undo declaration of a skill
+ */
+function validateUndoDefinition(undo: any): string[] {
+  if (!undo || typeof undo !== 'object' || Array.isArray(undo)) {
+    return [`'undo' must be an object`];
+  }
+
+  const errors: string[] = [];
+  const scriptFields = ['script', 'windowsScript', 'unixScript'];
+  const declaredScripts = scriptFields.filter(field => undo[field] !== undefined);
+  if (declaredScripts.length === 0) {
+    errors.push(`'undo' must declare one of ${scriptFields.join(', ')}`);
+  }
+  for (const field of declaredScripts) {
+    const value = undo[field];
+    if (typeof value !== 'string' || value.length === 0) {
+      errors.push(`'undo.${field}' must be a non-empty string`);
+    } else if (path.basename(value) !== value) {
+      errors.push(`'undo.${field}' must be a file name inside the skills directory (got '${value}')`);
+    }
+  }
+
+  if (!Array.isArray(undo.artifacts)) {
+    errors.push(`'undo.artifacts' must be an array`);
+  } else {
+    errors.push(...validateParameterDefinitions(undo.artifacts).map(error => `undo.${error}`));
+  }
+
+  if (undo.expiryMinutes !== undefined &&
+    (typeof undo.expiryMinutes !== 'number' || !Number.isInteger(undo.expiryMinutes) || undo.expiryMinutes <= 0)) {
+    errors.push(`'undo.expiryMinutes' must be a positive integer`);
+  }
+
+  return errors;
+}
+
+/**
+ * Pick the script a skill should run on the given platform
+ * @throws {SkillCatalogError} If the skill cannot run on the platform
+ */
+export function resolveSkillScript(
+  metadata: SkillMetadata,
+  platform: NodeJS.Platform
+): { scriptFile: string; scriptType: ScriptType } {
+  const skillPlatform = toSkillPlatform(platform);
+
+  if (!skillPlatform) {
+    throw new SkillCatalogError(
+      `Platform '${platform}' is not supported by the skills engine`,
+      'unsupported_platform',
+      metadata.id
+    );
+  }
+
+  if (!metadata.os.includes(skillPlatform)) {
+    throw new SkillCatalogError(
+      `Skill '${metadata.id}' supports ${metadata.os.join(', ')} but this device runs ${skillPlatform}`,
+      'unsupported_platform',
+      metadata.id
+    );
+  }
+
+  return selectPlatformScript(metadata, skillPlatform, metadata.id, 'a script');
+}
+
+/**
+ * Pick the undo script of a skill for the given platform, or null when the
+ * skill declares no undo
+ * @throws {SkillCatalogError} If the skill declares an undo that cannot run on the platform
+ */
+export function resolveUndoScript(
+  metadata: SkillMetadata,
+  platform: NodeJS.Platform
+): { scriptFile: string; scriptType: ScriptType } | null {
+  const skillPlatform = toSkillPlatform(platform);
+  if (!metadata.undo || !skillPlatform) {
+    return null;
+  }
+  return selectPlatformScript(metadata.undo, skillPlatform, metadata.id, 'an undo script');
+}
+
+/**
+ * Choose between script, windowsScript and unixScript and check the platform can run it
+ */
+function selectPlatformScript(
+  declared: Pick<SkillMetadata, 'script' | 'windowsScript' | 'unixScript'>,
+  skillPlatform: SkillPlatform,
+  skillId: string,
+  label: string
+): { scriptFile: string; scriptType: ScriptType } {
+  const scriptFile = skillPlatform === 'windows'
+    ? declared.windowsScript ?? declared.script
+    : declared.unixScript ?? declared.script;
+
+  if (!scriptFile) {
+    throw new SkillCatalogError(
+      `Skill '${skillId}' does not declare ${label} for ${skillPlatform}`,
+      'unsupported_script',
+      skillId
+    );
+  }
+
+  const scriptType = getScriptType(scriptFile);
+  if (!scriptType) {
+    throw new SkillCatalogError(
+      `Script '${scriptFile}' has an unrecognised extension`,
+      'unsupported_script',
+      skillId
+    );
+  }
+
+  if (!PLATFORM_SCRIPT_TYPES[skillPlatform].includes(scriptType)) {
+    throw new SkillCatalogError(
+      `Skill '${skillId}' only provides a ${scriptType} script (${scriptFile}), which cannot run on ${skillPlatform}`,
+      'unsupported_script',
+      skillId
+    );
+  }
+
+  return { scriptFile, scriptType };
+}
+
+/**
+ * Run signature verification and translate failures into catalog errors
+ */
+function verifySkillSignature(
+  verifier: SkillSignatureVerifier,
+  metadataPath: string,
+  metadata: SkillMetadata,
+  stage: 'register' | 'execute'
+): SkillVerificationResult {
+  try {
+    return verifier.verify(metadataPath, metadata, stage);
+  } catch (error) {
+    if (error instanceof SkillSignatureError) {
+      throw new SkillCatalogError(
+        error.message,
+        error.reason === 'unsigned' ? 'unsigned' : 'invalid_signature',
+        metadata.id
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Discovers skill packages on disk, validates them and resolves the script
+ * to run on the current platform
+ */
+export class SkillCatalog extends EventEmitter {
+  private skills: Map<string, CatalogSkill> = new Map();
+  private rejected: CatalogRejection[] = [];
+  private options: SkillCatalogOptions;
+  private logManager = getLogManager();
+
+  constructor(options: Partial<SkillCatalogOptions> & { skillsDirectory: string }) {
+    super();
+    this.options = {
+      platform: process.platform,
+      ...options
+    };
+  }
+
+  /**
+   * Scan the skills directory and (re)build the catalog
+   */
+  load(): SkillCatalogLoadResult {
+    this.skills.clear();
+    this.rejected = [];
+
+    let files: string[];
+    try {
+      files = fs.readdirSync(this.options.skillsDirectory)
+        .filter(file => file.toLowerCase().endsWith('.json'))
+        .sort();
+    } catch (error) {
+      throw new Error(`Unable to read skills directory ${this.options.skillsDirectory}: ${(error as Error).message}`);
+    }
+
+    for (const file of files) {
+      try {
+        const skill = this.loadSkillFile(file);
+
+        if (this.skills.has(skill.metadata.id)) {
+          throw new SkillCatalogError(
+            `Skill id '${skill.metadata.id}' is already declared by ${path.basename(this.skills.get(skill.metadata.id)!.metadataPath)}`,
+            'duplicate_id',
+            skill.metadata.id
+          );
+        }
+
+        this.skills.set(skill.metadata.id, skill);
+        this.emit('skillLoaded', skill);
+      } catch (error) {
+        this.recordRejection(file, error);
+      }
+    }
+
+    this.logManager.info('Skill catalog loaded', {
+      skillsDirectory: this.options.skillsDirectory,
+      loaded: Array.from(this.skills.keys()),
+      rejected: this.rejected.length
+    }, { component: 'skill-catalog' });
+
+    return {
+      skills: this.getAll(),
+      rejected: this.getRejected()
+    };
+  }
+
+  /**
+   * Re-validate one metadata file after it changed on disk. A valid package
+   * replaces the version loaded from that file; an invalid edit is recorded
+   * as a rejection and leaves the previous version loaded. A deleted file
+   * unloads its skill. Skill objects are replaced, never mutated, so runs
+   * holding the previous version are unaffected.
+   */
+  reloadSkillFile(file: string): SkillReloadResult[] {
+    const current = this.getAll().find(skill => path.basename(skill.metadataPath) === file);
+    this.rejected = this.rejected.filter(rejection => rejection.file !== file);
+
+    if (!fs.existsSync(path.join(this.options.skillsDirectory, file))) {
+      return current ? [this.unload(file, current)] : [];
+    }
+
+    let skill: CatalogSkill;
+    try {
+      skill = this.loadSkillFile(file);
+      const owner = this.skills.get(skill.metadata.id);
+      if (owner && owner !== current) {
+        throw new SkillCatalogError(
+          `Skill id '${skill.metadata.id}' is already declared by ${path.basename(owner.metadataPath)}`,
+          'duplicate_id',
+          skill.metadata.id
+        );
+      }
+    } catch (error) {
+      const rejection = this.recordRejection(file, error);
+      return [{ file, status: 'rejected', skillId: current?.metadata.id ?? rejection.skillId, skill: current, rejection }];
+    }
+
+    const results: SkillReloadResult[] = [];
+    if (current && current.metadata.id !== skill.metadata.id) {
+      results.push(this.unload(file, current));
+    }
+
+    const status = this.skills.has(skill.metadata.id) ? 'updated' : 'added';
+    this.skills.set(skill.metadata.id, skill);
+    this.emit('skillLoaded', skill);
+    this.logManager.info('Skill package reloaded', {
+      file,
+      status,
+      version: skill.metadata.version
+    }, { component: 'skill-catalog', skillId: skill.metadata.id });
+
+    results.push({ file, status, skillId: skill.metadata.id, skill });
+    return results;
+  }
+
+  private unload(file: string, skill: CatalogSkill): SkillReloadResult {
+    this.skills.delete(skill.metadata.id);
+    this.emit('skillRemoved', skill);
+    this.logManager.info('Skill package removed', { file }, { component: 'skill-catalog', skillId: skill.metadata.id });
+    return { file, status: 'removed', skillId: skill.metadata.id, skill };
+  }
+
+  /**
+   * Load and validate a single skill metadata file
+   * @throws {SkillCatalogError} If the package is invalid or cannot run here
+   */
+  loadSkillFile(file: string): CatalogSkill {
+    const metadataPath = path.join(this.options.skillsDirectory, file);
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(metadataPath, 'utf-8'));
+    } catch (error) {
+      throw new SkillCatalogError(`Invalid JSON: ${(error as Error).message}`, 'invalid_json');
+    }
+
+    const errors = validateSkillMetadata(raw);
+    if (errors.length > 0) {
+      const skillId = typeof (raw as any)?.id === 'string' ? (raw as any).id : undefined;
+      throw new SkillCatalogError(`Invalid skill metadata: ${errors.join('; ')}`, 'invalid_metadata', skillId);
+    }
+
+    const metadata = raw as SkillMetadata;
+    const { scriptFile, scriptType } = resolveSkillScript(metadata, this.options.platform);
+    const scriptPath = path.join(this.options.skillsDirectory, scriptFile);
+
+    if (!fs.existsSync(scriptPath)) {
+      throw new SkillCatalogError(`Script '${scriptFile}' was not found`, 'missing_script', metadata.id);
+    }
+
+    const skill: CatalogSkill = { metadata, metadataPath, scriptPath, scriptType };
+
+    const undo = resolveUndoScript(metadata, this.options.platform);
+    if (undo) {
+      skill.undoScriptPath = path.join(this.options.skillsDirectory, undo.scriptFile);
+      skill.undoScriptType = undo.scriptType;
+      if (!fs.existsSync(skill.undoScriptPath)) {
+        throw new SkillCatalogError(`Undo script '${undo.scriptFile}' was not found`, 'missing_script', metadata.id);
+      }
+    }
+
+    if (metadata.python?.requirements &&
+        !fs.existsSync(path.join(this.options.skillsDirectory, metadata.python.requirements))) {
+      throw new SkillCatalogError(
+        `Requirements lockfile '${metadata.python.requirements}' was not found`,
+        'missing_script',
+        metadata.id
+      );
+    }
+
+    if (this.options.pythonRuntime && (scriptType === 'python' || skill.undoScriptType === 'python')) {
+      try {
+        this.options.pythonRuntime.findInterpreter(metadata.python?.version, metadata.id);
+      } catch (error) {
+        if (error instanceof PythonRuntimeError) {
+          throw new SkillCatalogError(error.message, 'unsupported_script', metadata.id);
+        }
+        throw error;
+      }
+    }
+
+    if (this.options.verifier) {
+      skill.verification = verifySkillSignature(this.options.verifier, metadataPath, metadata, 'register');
+    }
+
+    return skill;
+  }
+
+  /**
+   * Record a rejected skill package
+   */
+  private recordRejection(file: string, error: unknown): CatalogRejection {
+    const rejection: CatalogRejection = error instanceof SkillCatalogError
+      ? { file, skillId: error.skillId, reason: error.reason, message: error.message }
+      : { file, reason: 'invalid_metadata', message: (error as Error).message };
+
+    this.rejected.push(rejection);
+    this.emit('skillRejected', rejection);
+
+    this.logManager.warn('Skill package rejected', {
+      ...rejection
+    }, { component: 'skill-catalog', skillId: rejection.skillId });
+
+    return rejection;
+  }
+
+  /**
+   * Get a loaded skill by id
+   */
+  get(skillId: string): CatalogSkill | undefined {
+    return this.skills.get(skillId);
+  }
+
+  /**
+   * Get all loaded skills
+   */
+  getAll(): CatalogSkill[] {
+    return Array.from(this.skills.values());
+  }
+
+  /**
+   * Get all skill packages rejected during the last load
+   */
+  getRejected(): CatalogRejection[] {
+    return [...this.rejected];
+  }
+
+  /**
+   * Directory the skill packages are loaded from
+   */
+  getSkillsDirectory(): string {
+    return this.options.skillsDirectory;
+  }
+}
+
+/**
+ * Run a script of a catalog skill in SkillSandbox, forwarding stdout and
+ * PROGRESS: lines and killing the process tree when the signal aborts
+ */
+async function executeSkillScript(
+  skill: CatalogSkill,
+  script: { path: string; type: ScriptType; label: string },
+  args: string[],
+  context: SkillRunContext,
+  sandboxOptions: SandboxOptions,
+  python?: PythonRuntime
+): Promise<SkillExecutionResult> {
+  if (context.signal?.aborted) {
+    throw new SkillCancelledError(`${script.label} was cancelled before it started`, '', skill.metadata.id);
+  }
+
+  const pythonInterpreter = script.type === 'python' && python
+    ? await python.prepare(skill.metadata.id, skill.metadata.python, path.dirname(skill.metadataPath))
+    : sandboxOptions.pythonInterpreter;
+
+  const sandbox = new SkillSandbox(script.path, script.type, {
+    ...sandboxOptions,
+    networkAccess: skill.metadata.networkAccess ?? sandboxOptions.networkAccess,
+    allowedHosts: skill.metadata.allowedHosts ?? sandboxOptions.allowedHosts,
+    capabilities: skill.metadata.capabilities,
+    pythonInterpreter
+  });
+  const abort = () => sandbox.abort();
+  context.signal?.addEventListener('abort', abort, { once: true });
+
+  if (context.onProgress) {
+    sandbox.on('stdout', (output: string) => context.onProgress!({ output }));
+    sandbox.on('progress', (update: SkillProgressUpdate) => context.onProgress!({
+      percent: update.percent,
+      message: update.message
+    }));
+  }
+
+  let sandboxResult;
+  try {
+    sandboxResult = await sandbox.execute(args);
+  } finally {
+    context.signal?.removeEventListener('abort', abort);
+  }
+
+  const result = createSkillExecutionResult(sandboxResult);
+
+  if (sandboxResult.cancelled) {
+    throw new SkillCancelledError(`${script.label} was cancelled`, result.output, skill.metadata.id);
+  }
+
+  return result;
+}
+
+/**
+ * Run `execute` and report how it ended to the history recorder, if any.
+ * Recorder failures are logged and never fail the run.
+ */
+async function withExecutionRecord(
+  skill: CatalogSkill,
+  record: Pick<SkillExecutionRecord, 'mode' | 'params'>,
+  context: SkillRunContext,
+  history: SkillExecutionRecorder | undefined,
+  execute: () => Promise<SkillExecutionResult>
+): Promise<SkillExecutionResult> {
+  const startedAt = Date.now();
+  const report = (outcome: Pick<SkillExecutionRecord, 'status' | 'result' | 'error'>) => {
+    if (!history) {
+      return;
+    }
+    try {
+      history.record({
+        executionId: context.executionId ?? crypto.randomUUID(),
+        skillId: skill.metadata.id,
+        skillName: skill.metadata.name,
+        correlationId: context.correlationId,
+        startedAt,
+        completedAt: Date.now(),
+        ...record,
+        ...outcome
+      });
+    } catch (error) {
+      getLogManager().warn('Failed to record skill execution', {
+        error: (error as Error).message
+      }, { component: 'skill-catalog', skillId: skill.metadata.id, executionId: context.executionId });
+    }
+  };
+
+  try {
+    const result = await execute();
+    report({ status: result.success ? 'success' : 'error', result, error: result.error });
+    return result;
+  } catch (error) {
+    const status = error instanceof SkillCancelledError
+      ? 'cancelled'
+      : /timeout/i.test((error as Error).message) ? 'timeout' : 'error';
+    report({ status, error: (error as Error).message });
+    throw error;
+  }
+}
+
+/**
+ * Run a catalog skill inside SkillSandbox and return the full execution result,
+ * including the parsed output. Request parameters are validated against the
+ * skill's declarations and passed as discrete arguments. When a verifier is
+ * given the package is re-verified before every run so files modified after
+ * registration are refused. Stdout and PROGRESS: lines are forwarded to the
+ * optional progress callback. Aborting the context signal kills the skill's
+ * process tree and rejects with SkillCancelledError. With `dryRun` set, skills
+ * that declare supportsDryRun run with DRY_RUN=1 and every filesystem
+ * mounted read-only; where that cannot be enforced the dry run is refused
+ * with SkillDryRunUnsupportedError. Every attempt is reported to the history recorder with
+ * redacted parameters.
+ *
+ * Successful runs of cacheable skills are kept in the result cache and reused
+ * for the same version and normalized parameters until they expire, unless
+ * `bypassCache` is set; served results carry `cachedAt` and are not recorded
+ * in the history since nothing ran. A successful run of any other skill may
+ * have changed what the diagnostics report, so it clears the cache.
+ *
+ * With a precondition checker, a skill whose preconditions this device does
+ * not meet is refused with SkillNotApplicableError before anything is spawned
+ * or served from the cache; the refusal is not recorded in the history.
+ */
+export async function runCatalogSkill(
+  skill: CatalogSkill,
+  params: Record<string, any> = {},
+  context: SkillRunContext = {},
+  sandboxOptions: SandboxOptions = {},
+  services: SkillRunServices = {}
+): Promise<SkillExecutionResult> {
+  services.riskAnalyzer?.assertAllowed(skill);
+  if (services.preconditions) {
+    await services.preconditions.assertApplicable(skill.metadata, skill.scriptType, getPythonCommand(skill, services.python));
+  }
+
+  const dryRun = context.dryRun === true;
+  const cacheKey = services.cache && skill.metadata.cacheable && !dryRun
+    ? getSkillCacheKey(skill, params)
+    : undefined;
+
+  if (cacheKey && !context.bypassCache) {
+    const hit = services.cache!.get(cacheKey);
+    if (hit) {
+      // A package that was tampered with or whose key was revoked stops serving results
+      if (services.verifier) {
+        try {
+          verifySkillSignature(services.verifier, skill.metadataPath, skill.metadata, 'execute');
+        } catch (error) {
+          services.cache!.invalidateSkill(skill.metadata.id);
+          throw error;
+        }
+      }
+      return { ...hit.value, cachedAt: hit.storedAt };
+    }
+  }
+
+  const result = await executeCatalogSkill(skill, params, context, sandboxOptions, services);
+
+  if (services.cache && result.success && !dryRun) {
+    if (cacheKey) {
+      services.cache.set(cacheKey, result, skill.metadata.cacheTtlMs);
+    } else if (!skill.metadata.cacheable) {
+      services.cache.clear();
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Whether a catalog skill applies to this device, e.g. to decide which skills
+ * to offer; every skill applies without a precondition checker
+ */
+export async function getSkillApplicability(skill: CatalogSkill, services: SkillRunServices = {}): Promise<SkillApplicability> {
+  if (!services.preconditions) {
+    return { skillId: skill.metadata.id, applicable: true, reasons: [], checkedAt: Date.now() };
+  }
+  return services.preconditions.evaluate(skill.metadata, skill.scriptType, getPythonCommand(skill, services.python));
+}
+
+/**
+ * Interpreter Python module preconditions are checked with; undefined for
+ * other scripts or when no interpreter fits (the run fails on that anyway)
+ */
+function getPythonCommand(skill: CatalogSkill, python?: PythonRuntime): string[] | undefined {
+  if (skill.scriptType !== 'python' || !python) {
+    return undefined;
+  }
+  try {
+    return python.findInterpreter(skill.metadata.python?.version, skill.metadata.id).command;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Cache key for a run, from the coerced parameters with defaults applied so
+ * equivalent requests share an entry; undefined when the parameters are
+ * invalid and the run will be refused anyway
+ */
+function getSkillCacheKey(skill: CatalogSkill, params: Record<string, any>): string | undefined {
+  const validation = validateSkillParameters(skill.metadata.parameters, params);
+  return validation.valid
+    ? createSkillCacheKey(skill.metadata.id, skill.metadata.version, validation.values)
+    : undefined;
+}
+
+/**
+ * Verify, validate and run a catalog skill, reporting the attempt to the history
+ */
+async function executeCatalogSkill(
+  skill: CatalogSkill,
+  params: Record<string, any>,
+  context: SkillRunContext,
+  sandboxOptions: SandboxOptions,
+  services: SkillRunServices
+): Promise<SkillExecutionResult> {
+  const dryRun = context.dryRun === true;
+  const record = {
+    mode: dryRun ? 'dry_run' as const : 'run' as const,
+    params: redactSkillParameters(skill.metadata.parameters, params)
+  };
+
+  return withExecutionRecord(skill, record, context, services.history, async () => {
+    if (services.verifier) {
+      verifySkillSignature(services.verifier, skill.metadataPath, skill.metadata, 'execute');
+    }
+
+    if (dryRun && !skill.metadata.supportsDryRun) {
+      throw new SkillDryRunUnsupportedError(
+        `Skill '${skill.metadata.id}' does not support dry-run mode`,
+        skill.metadata.id
+      );
+    }
+    if (dryRun && !canEnforceDryRun(skill.scriptType)) {
+      throw new SkillDryRunUnsupportedError(
+        `Dry runs of '${skill.metadata.id}' cannot be kept read-only on this device`,
+        skill.metadata.id
+      );
+    }
+
+    const values = assertValidSkillParameters(skill.metadata.parameters, params, skill.metadata.id);
+    const args = buildScriptArguments(skill.metadata.parameters, values, skill.scriptType);
+
+    return executeSkillScript(
+      skill,
+      { path: skill.scriptPath, type: skill.scriptType, label: `Skill '${skill.metadata.id}'` },
+      args,
+      context,
+      { ...sandboxOptions, dryRun },
+      services.python
+    );
+  });
+}
+
+/**
+ * Record a successful run of a skill that declares an undo. The ARTIFACT:
+ * records the run reported are checked against the declared artifacts; a run
+ * whose artifacts are missing or invalid is logged and not recorded, since it
+ * could not be reverted anyway. Path artifacts are protected from cleanup
+ * until the undo window ends.
+ */
+export function recordSkillUndo(
+  skill: CatalogSkill,
+  result: SkillExecutionResult,
+  journal: UndoJournal,
+  executionId?: string
+): UndoJournalEntry | undefined {
+  const undo = skill.metadata.undo;
+  if (!undo || !skill.undoScriptPath || !result.success) {
+    return undefined;
+  }
+
+  const validation = validateSkillParameters(undo.artifacts, result.parsedOutput?.artifacts ?? {});
+  if (!validation.valid) {
+    getLogManager().warn('Skill run cannot be undone; its artifacts are incomplete', {
+      issues: validation.issues.map(issue => issue.message)
+    }, { component: 'skill-catalog', skillId: skill.metadata.id });
+    return undefined;
+  }
+
+  return journal.record({
+    executionId,
+    skillId: skill.metadata.id,
+    skillName: skill.metadata.name,
+    artifacts: validation.values,
+    protectedPaths: undo.artifacts
+      .filter(definition => definition.type === 'path' && typeof validation.values[definition.name] === 'string')
+      .map(definition => validation.values[definition.name] as string),
+    expiryMinutes: undo.expiryMinutes
+  });
+}
+
+/**
+ * Run the undo script of a catalog skill with the artifacts recorded for an
+ * earlier execution. Artifacts are validated against the skill's declarations
+ * and passed as discrete arguments, like skill parameters.
+ * @throws {SkillUndoUnavailableError} If the skill declares no undo on this platform
+ */
+export async function runCatalogSkillUndo(
+  skill: CatalogSkill,
+  artifacts: Record<string, unknown>,
+  context: SkillRunContext = {},
+  sandboxOptions: SandboxOptions = {},
+  services: SkillRunServices = {}
+): Promise<SkillExecutionResult> {
+  const undo = skill.metadata.undo;
+  if (!undo || !skill.undoScriptPath || !skill.undoScriptType) {
+    throw new SkillUndoUnavailableError(
+      `Skill '${skill.metadata.id}' cannot be undone on this device`,
+      'UNDO_NOT_AVAILABLE',
+      skill.metadata.id
+    );
+  }
+
+  services.riskAnalyzer?.assertAllowed(skill);
+  const record = { mode: 'undo' as const, params: redactSkillParameters(undo.artifacts, artifacts) };
+
+  return withExecutionRecord(skill, record, context, services.history, async () => {
+    if (services.verifier) {
+      verifySkillSignature(services.verifier, skill.metadataPath, skill.metadata, 'execute');
+    }
+
+    const values = assertValidSkillParameters(undo.artifacts, artifacts, skill.metadata.id);
+    const args = buildScriptArguments(undo.artifacts, values, skill.undoScriptType!);
+
+    return executeSkillScript(
+      skill,
+      { path: skill.undoScriptPath!, type: skill.undoScriptType!, label: `Undo of '${skill.metadata.id}'` },
+      args,
+      context,
+      sandboxOptions,
+      services.python
+    );
+  });
+}
+
+/**
+ * Create an IPC skill handler that runs a catalog skill through runCatalogSkill.
+ * The handler resolves with the SUCCESS: payload parsed by SkillOutputParser,
+ * or in dry-run mode with the PLAN: records the skill reported instead of
+ * making changes, and rejects when the skill fails. With an undo journal,
+ * successful runs of skills that declare an undo are recorded and the handler
+ * also reports the journal entry the user can revert. Results served from the
+ * result cache report when the skill actually ran.
+ */
+export function createSandboxedSkillHandler(
+  skill: CatalogSkill,
+  sandboxOptions: SandboxOptions = {},
+  services: SkillRunServices = {}
+): (
+  params: Record<string, any>,
+  context?: SkillRunContext
+) => Promise<string | SkillDryRunResult | SkillRevertibleResult | SkillCachedResult> {
+  return async (params = {}, context = {}) => {
+    const executionId = context.executionId ?? crypto.randomUUID();
+    const result = await runCatalogSkill(skill, params, { ...context, executionId }, sandboxOptions, services);
+
+    if (!result.success) {
+      throw new Error(`${skill.metadata.output.failure} (${result.error})`);
+    }
+
+    if (context.dryRun) {
+      return {
+        output: result.output,
+        preview: summarizePlannedActions(result.parsedOutput?.plannedActions ?? [])
+      };
+    }
+
+    if (result.cachedAt !== undefined) {
+      return { output: result.output, cachedAt: result.cachedAt };
+    }
+
+    const entry = services.undoJournal
+      ? recordSkillUndo(skill, result, services.undoJournal, executionId)
+      : undefined;
+    if (entry) {
+      return {
+        output: result.output,
+        undo: { executionId: entry.executionId, expiresAt: entry.expiresAt }
+      };
+    }
+
+    return result.output;
+  };
+}
+
+/**
+ * Factory function to create a skill catalog
+ */
+export function createSkillCatalog(options: Partial<SkillCatalogOptions> & { skillsDirectory: string }): SkillCatalog {
+  return new SkillCatalog(options);
+}
@@ -0,0 +1,409 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { SkillCatalog, SkillCatalogError } from './skill-catalog';
+import { SkillSignatureVerifier } from './skill-signing';
+import { PythonRuntime } from './python-runtime';
+import {
+  SkillPackageContents,
+  SkillPackageError,
+  extractSkillPackage,
+  readSkillPackage
+} from './skill-package';
+import { getLogManager } from './logging';
+
+// An installed skill package and the version kept for rollback
+export interface InstalledSkillPackage {
+  skillId: string;
+  version: string;
+  previousVersion?: string;
+  // Package files, relative to the active directory
+  files: string[];
+  installedAt: number;
+}
+
+// What an install, rollback or uninstall did
+export interface SkillInstallResult {
+  skillId: string;
+  action: 'installed' | 'upgraded' | 'downgraded' | 'rolled_back' | 'uninstalled';
+  version?: string;
+  previousVersion?: string;
+}
+
+// Per-install choices
+export interface SkillInstallRequest {
+  // Installing an older version than the active one must be asked for
+  allowDowngrade?: boolean;
+}
+
+// Reasons an install, rollback or uninstall is refused
+export type SkillInstallErrorReason =
+  | 'invalid_package'
+  | 'invalid_skill'
+  | 'reserved_id'
+  | 'already_installed'
+  | 'downgrade'
+  | 'file_conflict'
+  | 'not_installed'
+  | 'no_previous_version';
+
+// Installer configuration
+export interface SkillInstallerOptions {
+  // Managed directory; installed packages are unpacked beneath it
+  installDirectory: string;
+  platform: NodeJS.Platform;
+  verifier?: SkillSignatureVerifier;
+  pythonRuntime?: PythonRuntime;
+  // Ids of the skills shipped with the app, which packages may not replace
+  reservedSkillIds: () => string[];
+}
+
+// Error raised when a skill package cannot be installed or removed
+export class SkillInstallError extends Error {
+  readonly code = 'SKILL_INSTALL_FAILED';
+
+  constructor(message: string, public reason: SkillInstallErrorReason, public skillId?: string) {
+    super(message);
+    this.name = 'SkillInstallError';
+  }
+}
+
+const DEFAULT_INSTALLER_OPTIONS: Omit<SkillInstallerOptions, 'installDirectory'> = {
+  platform: process.platform,
+  reservedSkillIds: () => []
+};
+
+const ACTIVE_DIRECTORY = 'active';
+const VERSIONS_DIRECTORY = 'versions';
+const REGISTRY_FILE = 'installed.json';
+
+/**
+ * Compare two major.minor.patch versions
+ */
+export function compareSkillVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) {
+      return Math.sign(diff);
+    }
+  }
+  return 0;
+}
+
+/**
+ * Installs admin-uploaded skill packages into a managed directory.
+ *
+ * Each version is unpacked under versions/{skill-id}/{version}/ and validated
+ * there the way the catalog would load it; the active version is copied into
+ * a flat active/ directory that a SkillCatalog (and its watcher) loads. The
+ * version an install replaced is kept so it can be rolled back to.
+ *
+ * Emits 'installed', 'rolledBack' and 'uninstalled' with a SkillInstallResult.
+ */
+export class SkillInstaller extends EventEmitter {
+  private options: SkillInstallerOptions;
+  private packages: Map<string, InstalledSkillPackage> = new Map();
+  private logManager = getLogManager();
+
+  constructor(options: Partial<SkillInstallerOptions> & { installDirectory: string }) {
+    super();
+    this.options = { ...DEFAULT_INSTALLER_OPTIONS, ...options };
+    fs.mkdirSync(this.getActiveDirectory(), { recursive: true });
+    this.loadRegistry();
+  }
+
+  /**
+   * Directory holding the active version of every installed package
+   */
+  getActiveDirectory(): string {
+    return path.join(this.options.installDirectory, ACTIVE_DIRECTORY);
+  }
+
+  list(): InstalledSkillPackage[] {
+    return Array.from(this.packages.values())
+      .sort((a, b) => a.skillId.localeCompare(b.skillId));
+  }
+
+  get(skillId: string): InstalledSkillPackage | undefined {
+    return this.packages.get(skillId);
+  }
+
+  /**
+   * Install a package archive, upgrading or downgrading an installed version
+   * @throws {SkillInstallError} If the package is invalid or conflicts with another skill
+   */
+  install(archive: Buffer, request: SkillInstallRequest = {}): SkillInstallResult {
+    let contents: SkillPackageContents;
+    try {
+      contents = readSkillPackage(archive);
+    } catch (error) {
+      if (error instanceof SkillPackageError) {
+        throw new SkillInstallError(error.message, 'invalid_package', error.skillId);
+      }
+      throw error;
+    }
+
+    const { skillId, version } = contents;
+    if (this.options.reservedSkillIds().includes(skillId)) {
+      throw new SkillInstallError(`'${skillId}' is a built-in skill and cannot be replaced`, 'reserved_id', skillId);
+    }
+
+    const existing = this.packages.get(skillId);
+    const comparison = existing ? compareSkillVersions(version, existing.version) : 1;
+    if (existing && comparison === 0) {
+      throw new SkillInstallError(`${skillId} ${version} is already installed`, 'already_installed', skillId);
+    }
+    if (existing && comparison < 0 && !request.allowDowngrade) {
+      throw new SkillInstallError(
+        `${skillId} ${version} is older than the installed ${existing.version}; allow a downgrade to install it`,
+        'downgrade',
+        skillId
+      );
+    }
+
+    const files = Array.from(contents.files.keys()).sort();
+    this.checkFileConflicts(skillId, files);
+
+    const versionDirectory = this.getVersionDirectory(skillId, version);
+    const stagingDirectory = `${versionDirectory}.staging`;
+    fs.rmSync(stagingDirectory, { recursive: true, force: true });
+    try {
+      extractSkillPackage(contents, stagingDirectory);
+      new SkillCatalog({
+        skillsDirectory: stagingDirectory,
+        platform: this.options.platform,
+        verifier: this.options.verifier,
+        pythonRuntime: this.options.pythonRuntime
+      }).loadSkillFile(contents.metadataFile);
+
+      fs.rmSync(versionDirectory, { recursive: true, force: true });
+      fs.renameSync(stagingDirectory, versionDirectory);
+    } catch (error) {
+      fs.rmSync(stagingDirectory, { recursive: true, force: true });
+      if (error instanceof SkillCatalogError) {
+        throw new SkillInstallError(`${skillId} ${version} cannot be installed: ${error.message}`, 'invalid_skill', skillId);
+      }
+      throw error;
+    }
+
+    this.activate(skillId, versionDirectory, files, existing?.files ?? []);
+
+    const installed: InstalledSkillPackage = {
+      skillId,
+      version,
+      previousVersion: existing?.version,
+      files,
+      installedAt: Date.now()
+    };
+    this.packages.set(skillId, installed);
+    this.pruneVersions(installed);
+    this.saveRegistry();
+
+    const result: SkillInstallResult = {
+      skillId,
+      action: !existing ? 'installed' : comparison > 0 ? 'upgraded' : 'downgraded',
+      version,
+      previousVersion: existing?.version
+    };
+    this.logManager.info('Skill package installed', { ...result }, { component: 'skill-installer', skillId });
+    this.emit('installed', result);
+    return result;
+  }
+
+  /**
+   * Switch back to the version the last install replaced. Rolling back again
+   * returns to the version that was rolled back from.
+   * @throws {SkillInstallError} If the skill is not installed or has no previous version
+   */
+  rollback(skillId: string): SkillInstallResult {
+    const current = this.requirePackage(skillId);
+    const previousVersion = current.previousVersion;
+    const versionDirectory = previousVersion ? this.getVersionDirectory(skillId, previousVersion) : undefined;
+    if (!previousVersion || !versionDirectory || !fs.existsSync(versionDirectory)) {
+      throw new SkillInstallError(`${skillId} has no previous version to roll back to`, 'no_previous_version', skillId);
+    }
+
+    const files = listPackageFiles(versionDirectory);
+    this.checkFileConflicts(skillId, files);
+    this.activate(skillId, versionDirectory, files, current.files);
+
+    this.packages.set(skillId, {
+      skillId,
+      version: previousVersion,
+      previousVersion: current.version,
+      files,
+      installedAt: Date.now()
+    });
+    this.saveRegistry();
+
+    const result: SkillInstallResult = {
+      skillId,
+      action: 'rolled_back',
+      version: previousVersion,
+      previousVersion: current.version
+    };
+    this.logManager.info('Skill package rolled back', { ...result }, { component: 'skill-installer', skillId });
+    this.emit('rolledBack', result);
+    return result;
+  }
+
+  /**
+   * Remove an installed package and every version kept for it
+   * @throws {SkillInstallError} If the skill is not installed
+   */
+  uninstall(skillId: string): SkillInstallResult {
+    const current = this.requirePackage(skillId);
+
+    // Metadata first, so the catalog never sees a package missing its scripts
+    for (const file of sortMetadataFirst(current.files)) {
+      fs.rmSync(path.join(this.getActiveDirectory(), ...file.split('/')), { force: true });
+    }
+    this.removeEmptyAssetDirectory(skillId);
+    fs.rmSync(path.join(this.options.installDirectory, VERSIONS_DIRECTORY, skillId), { recursive: true, force: true });
+
+    this.packages.delete(skillId);
+    this.saveRegistry();
+
+    const result: SkillInstallResult = { skillId, action: 'uninstalled', previousVersion: current.version };
+    this.logManager.info('Skill package uninstalled', { ...result }, { component: 'skill-installer', skillId });
+    this.emit('uninstalled', result);
+    return result;
+  }
+
+  private requirePackage(skillId: string): InstalledSkillPackage {
+    const installed = this.packages.get(skillId);
+    if (!installed) {
+      throw new SkillInstallError(`${skillId} is not installed`, 'not_installed', skillId);
+    }
+    return installed;
+  }
+
+  /**
+   * @throws {SkillInstallError} If the id or version would leave the install directory
+   */
+  private getVersionDirectory(skillId: string, version: string): string {
+    const versionsRoot = path.resolve(this.options.installDirectory, VERSIONS_DIRECTORY);
+    const directory = path.resolve(versionsRoot, skillId, version);
+    if (!directory.startsWith(versionsRoot + path.sep) || path.relative(versionsRoot, directory).split(path.sep).length !== 2) {
+      throw new SkillInstallError(`${skillId} ${version} does not name a directory inside the install directory`, 'invalid_package', skillId);
+    }
+    return directory;
+  }
+
+  /**
+   * Refuse packages that would overwrite files another package owns
+   */
+  private checkFileConflicts(skillId: string, files: string[]): void {
+    for (const other of this.packages.values()) {
+      if (other.skillId === skillId) {
+        continue;
+      }
+      const shared = files.find(file => other.files.includes(file));
+      if (shared) {
+        throw new SkillInstallError(`'${shared}' is already installed by ${other.skillId}`, 'file_conflict', skillId);
+      }
+    }
+  }
+
+  /**
+   * Copy a version into the active directory. Scripts and assets land before
+   * the metadata, so the catalog watcher only reloads a complete package;
+   * files the old version had and the new one lacks are removed afterwards.
+   */
+  private activate(skillId: string, versionDirectory: string, files: string[], previousFiles: string[]): void {
+    const activeDirectory = this.getActiveDirectory();
+    for (const file of sortMetadataFirst(files).reverse()) {
+      const target = path.join(activeDirectory, ...file.split('/'));
+      const tempPath = `${target}.tmp`;
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.copyFileSync(path.join(versionDirectory, ...file.split('/')), tempPath);
+      fs.renameSync(tempPath, target);
+    }
+
+    for (const file of previousFiles.filter(file => !files.includes(file))) {
+      fs.rmSync(path.join(activeDirectory, ...file.split('/')), { force: true });
+    }
+    this.removeEmptyAssetDirectory(skillId);
+  }
+
+  private removeEmptyAssetDirectory(skillId: string): void {
+    const assetsDirectory = path.join(this.getActiveDirectory(), 'assets', skillId);
+    if (fs.existsSync(assetsDirectory) && listPackageFiles(assetsDirectory).length === 0) {
+      fs.rmSync(assetsDirectory, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Keep only the active version and the one it replaced
+   */
+  private pruneVersions(installed: InstalledSkillPackage): void {
+    const skillDirectory = path.join(this.options.installDirectory, VERSIONS_DIRECTORY, installed.skillId);
+    const keep = [installed.version, installed.previousVersion];
+    for (const version of fs.readdirSync(skillDirectory)) {
+      if (!keep.includes(version)) {
+        fs.rmSync(path.join(skillDirectory, version), { recursive: true, force: true });
+      }
+    }
+  }
+
+  private get registryPath(): string {
+    return path.join(this.options.installDirectory, REGISTRY_FILE);
+  }
+
+  private loadRegistry(): void {
+    if (!fs.existsSync(this.registryPath)) {
+      return;
+    }
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.registryPath, 'utf-8'));
+      for (const installed of Array.isArray(raw?.packages) ? raw.packages : []) {
+        this.packages.set(installed.skillId, installed);
+      }
+    } catch (error) {
+      this.packages.clear();
+      this.logManager.warn('Ignoring unreadable installed skills registry', {
+        registryPath: this.registryPath,
+        error: (error as Error).message
+      }, { component: 'skill-installer' });
+    }
+  }
+
+  /**
+   * Persist the registry, replacing the previous file atomically
+   */
+  private saveRegistry(): void {
+    const tempPath = `${this.registryPath}.tmp`;
+    try {
+      fs.writeFileSync(tempPath, JSON.stringify({ version: 1, packages: this.list() }, null, 2));
+      fs.renameSync(tempPath, this.registryPath);
+    } catch (error) {
+      this.logManager.error('Failed to persist installed skills registry', error as Error, {
+        registryPath: this.registryPath
+      }, { component: 'skill-installer' });
+    }
+  }
+}
+
+function sortMetadataFirst(files: string[]): string[] {
+  const isMetadata = (file: string) => !file.includes('/') && file.toLowerCase().endsWith('.json');
+  return [...files.filter(isMetadata), ...files.filter(file => !isMetadata(file))];
+}
+
+function listPackageFiles(directory: string, prefix = ''): string[] {
+  return fs.readdirSync(directory, { withFileTypes: true }).flatMap(entry => {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    return entry.isDirectory() ? listPackageFiles(path.join(directory, entry.name), relative) : [relative];
+  }).sort();
+}
+
+/**
+ * Factory function to create a skill package installer
+ */
+export function createSkillInstaller(
+  options: Partial<SkillInstallerOptions> & { installDirectory: string }
+): SkillInstaller {
+  return new SkillInstaller(options);
+}
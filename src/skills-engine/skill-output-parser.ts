@@ -0,0 +1,505 @@
+import { EventEmitter } from 'events';
+import { SandboxResult } from './sandbox';
+import {
+  ParsedSkillOutput,
+  SkillDryRunPreview,
+  SkillExecutionResult,
+  SkillPlannedAction,
+  SkillProgressUpdate
+} from './types';
+
+// Limits applied while parsing skill output
+export interface SkillOutputParserOptions {
+  maxOutputBytes: number;
+  maxLineLength: number;
+  maxDataRecords: number;
+}
+
+// Reasons skill output is rejected
+export type SkillOutputErrorReason =
+  | 'output_too_large'
+  | 'line_too_long'
+  | 'too_many_records'
+  | 'malformed_json'
+  | 'invalid_record'
+  | 'missing_result'
+  | 'conflicting_result';
+
+// Error raised when skill output violates the protocol
+export class SkillOutputError extends Error {
+  constructor(message: string, public reason: SkillOutputErrorReason, public line?: number) {
+    super(message);
+    this.name = 'SkillOutputError';
+  }
+}
+
+const DEFAULT_OUTPUT_PARSER_OPTIONS: SkillOutputParserOptions = {
+  maxOutputBytes: 1024 * 1024, // 1MB
+  maxLineLength: 64 * 1024, // 64KB
+  maxDataRecords: 1000
+};
+
+// WARNING: and INFO: are accepted because the packaged PowerShell skills already emit them
+const PROTOCOL_LINE = /^(SUCCESS|ERROR|PROGRESS|WARN|WARNING|DATA|PLAN|ARTIFACT|INFO):\s?(.*)$/;
+const PROGRESS_TEXT = /^(\d{1,3})%?(?:\s+(.*))?$/;
+
+/**
+ * Incremental parser for the skill output protocol. Scripts write one record
+ * per line:
+ *   SUCCESS: <json|text>   final result (exactly one, last record)
+ *   ERROR: <json|text>     failure; earlier ERROR lines followed by SUCCESS are kept as warnings
+ *   PROGRESS: <json|percent text>
+ *   WARN: <text>
+ *   DATA: <json>           structured record appended to the result
+ *   PLAN: <json>           action a dry run would take ({"action","target","bytes"?,"description"?})
+ *   ARTIFACT: <json>       value the skill's undo script needs ({"name","value"})
+ * Any other line is kept as a log line.
+ */
+export class SkillOutputParser extends EventEmitter {
+  private options: SkillOutputParserOptions;
+  private buffer = '';
+  private bytesReceived = 0;
+  private lineNumber = 0;
+  private terminal: { status: 'success' | 'error'; payload: unknown; message?: string; line: number } | null = null;
+  private progress: SkillProgressUpdate[] = [];
+  private warnings: string[] = [];
+  private data: unknown[] = [];
+  private plannedActions: SkillPlannedAction[] = [];
+  private artifacts: Record<string, unknown> = {};
+  private logLines: string[] = [];
+  private failure: SkillOutputError | null = null;
+
+  constructor(options: Partial<SkillOutputParserOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_OUTPUT_PARSER_OPTIONS, ...options };
+  }
+
+  /**
+   * Feed a chunk of stdout
+   * @throws {SkillOutputError} If the output violates the protocol
+   */
+  push(chunk: string | Buffer): void {
+    this.throwIfFailed();
+
+    const text = chunk.toString();
+    this.bytesReceived += Buffer.byteLength(text);
+    if (this.bytesReceived > this.options.maxOutputBytes) {
+      this.fail(new SkillOutputError(
+        `Skill output exceeds ${this.options.maxOutputBytes} bytes`,
+        'output_too_large'
+      ));
+    }
+
+    this.buffer += text;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 1);
+      this.parseLine(line);
+    }
+
+    if (this.buffer.length > this.options.maxLineLength) {
+      this.fail(new SkillOutputError(
+        `Line ${this.lineNumber + 1} exceeds ${this.options.maxLineLength} characters`,
+        'line_too_long',
+        this.lineNumber + 1
+      ));
+    }
+  }
+
+  /**
+   * Finish parsing and return the structured result
+   * @throws {SkillOutputError} If the output is incomplete or malformed
+   */
+  end(): ParsedSkillOutput {
+    this.throwIfFailed();
+
+    if (this.buffer.length > 0) {
+      const line = this.buffer;
+      this.buffer = '';
+      this.parseLine(line);
+    }
+
+    if (!this.terminal) {
+      this.fail(new SkillOutputError('Skill output did not include a SUCCESS: or ERROR: line', 'missing_result'));
+    }
+
+    return {
+      status: this.terminal!.status,
+      payload: this.terminal!.payload,
+      message: this.terminal!.message,
+      progress: [...this.progress],
+      warnings: [...this.warnings],
+      data: [...this.data],
+      plannedActions: [...this.plannedActions],
+      artifacts: { ...this.artifacts },
+      logLines: [...this.logLines]
+    };
+  }
+
+  /**
+   * Parse a single complete line
+   */
+  private parseLine(rawLine: string): void {
+    this.lineNumber++;
+    const line = rawLine.replace(/\r$/, '').trimEnd();
+
+    if (line.length > this.options.maxLineLength) {
+      this.fail(new SkillOutputError(
+        `Line ${this.lineNumber} exceeds ${this.options.maxLineLength} characters`,
+        'line_too_long',
+        this.lineNumber
+      ));
+    }
+
+    if (line.trim().length === 0) {
+      return;
+    }
+
+    const match = PROTOCOL_LINE.exec(line.trimStart());
+    if (!match) {
+      this.logLines.push(line);
+      return;
+    }
+
+    const [, kind, body] = match;
+    const content = body.trim();
+
+    if (this.terminal?.status === 'success' && kind !== 'INFO') {
+      this.fail(new SkillOutputError(
+        `${kind}: on line ${this.lineNumber} follows the SUCCESS: result on line ${this.terminal.line}`,
+        'conflicting_result',
+        this.lineNumber
+      ));
+    }
+
+    switch (kind) {
+      case 'SUCCESS':
+      case 'ERROR': {
+        if (this.terminal?.status === 'error') {
+          this.warnings.push(this.terminal.message ?? JSON.stringify(this.terminal.payload));
+        }
+        const { payload, message } = this.parsePayload(content);
+        this.terminal = {
+          status: kind === 'SUCCESS' ? 'success' : 'error',
+          payload,
+          message,
+          line: this.lineNumber
+        };
+        this.emit('result', { status: this.terminal.status, payload, message });
+        break;
+      }
+
+      case 'PROGRESS': {
+        const update = this.parseProgress(content);
+        this.progress.push(update);
+        this.emit('progress', update);
+        break;
+      }
+
+      case 'WARN':
+      case 'WARNING':
+        this.warnings.push(content);
+        this.emit('warning', content);
+        break;
+
+      case 'DATA': {
+        if (this.data.length >= this.options.maxDataRecords) {
+          this.fail(new SkillOutputError(
+            `Skill output exceeds ${this.options.maxDataRecords} DATA records`,
+            'too_many_records',
+            this.lineNumber
+          ));
+        }
+        const record = this.parseJson(content);
+        this.data.push(record);
+        this.emit('data', record);
+        break;
+      }
+
+      case 'PLAN': {
+        if (this.plannedActions.length >= this.options.maxDataRecords) {
+          this.fail(new SkillOutputError(
+            `Skill output exceeds ${this.options.maxDataRecords} PLAN records`,
+            'too_many_records',
+            this.lineNumber
+          ));
+        }
+        const action = this.parsePlannedAction(content);
+        this.plannedActions.push(action);
+        this.emit('plan', action);
+        break;
+      }
+
+      case 'ARTIFACT': {
+        if (Object.keys(this.artifacts).length >= this.options.maxDataRecords) {
+          this.fail(new SkillOutputError(
+            `Skill output exceeds ${this.options.maxDataRecords} ARTIFACT records`,
+            'too_many_records',
+            this.lineNumber
+          ));
+        }
+        const { name, value } = this.parseArtifact(content);
+        this.artifacts[name] = value;
+        this.emit('artifact', { name, value });
+        break;
+      }
+
+      default:
+        this.logLines.push(line);
+        break;
+    }
+  }
+
+  /**
+   * SUCCESS/ERROR bodies are JSON when they look like JSON, otherwise plain text
+   */
+  private parsePayload(content: string): { payload: unknown; message?: string } {
+    if (content.length === 0) {
+      return { payload: null };
+    }
+
+    if (content.startsWith('{') || content.startsWith('[')) {
+      const payload = this.parseJson(content);
+      const message = payload && typeof payload === 'object' && typeof (payload as any).message === 'string'
+        ? (payload as any).message
+        : undefined;
+      return { payload, message };
+    }
+
+    return { payload: null, message: content };
+  }
+
+  /**
+   * PROGRESS bodies are either JSON ({"percent":40,"message":"..."}) or "40% message"
+   */
+  private parseProgress(content: string): SkillProgressUpdate {
+    if (content.startsWith('{')) {
+      const parsed = this.parseJson(content) as Record<string, any>;
+      const { percent, message, ...rest } = parsed ?? {};
+      return {
+        percent: typeof percent === 'number' && percent >= 0 && percent <= 100 ? percent : undefined,
+        message: typeof message === 'string' ? message : undefined,
+        data: Object.keys(rest).length > 0 ? rest : undefined
+      };
+    }
+
+    const match = PROGRESS_TEXT.exec(content);
+    if (match && Number(match[1]) <= 100) {
+      return { percent: Number(match[1]), message: match[2] || undefined };
+    }
+
+    return { message: content };
+  }
+
+  /**
+   * PLAN bodies must be objects with a string action and target
+   */
+  private parsePlannedAction(content: string): SkillPlannedAction {
+    const parsed = this.parseJson(content) as Record<string, any>;
+    const { action, target, bytes, description } = parsed ?? {};
+
+    if (typeof action !== 'string' || action.length === 0 || typeof target !== 'string' || target.length === 0) {
+      this.fail(new SkillOutputError(
+        `PLAN: on line ${this.lineNumber} must include a string action and target`,
+        'invalid_record',
+        this.lineNumber
+      ));
+    }
+    if (bytes !== undefined && (typeof bytes !== 'number' || !Number.isFinite(bytes) || bytes < 0)) {
+      this.fail(new SkillOutputError(
+        `PLAN: on line ${this.lineNumber} has an invalid bytes value`,
+        'invalid_record',
+        this.lineNumber
+      ));
+    }
+
+    return {
+      action,
+      target,
+      bytes,
+      description: typeof description === 'string' ? description : undefined
+    };
+  }
+
+  /**
+   * ARTIFACT bodies must be objects with a string name and a scalar value
+   */
+  private parseArtifact(content: string): { name: string; value: unknown } {
+    const parsed = this.parseJson(content) as Record<string, any>;
+    const { name, value } = parsed ?? {};
+
+    if (typeof name !== 'string' || name.length === 0 ||
+      !['string', 'number', 'boolean'].includes(typeof value)) {
+      this.fail(new SkillOutputError(
+        `ARTIFACT: on line ${this.lineNumber} must include a string name and a string, number or boolean value`,
+        'invalid_record',
+        this.lineNumber
+      ));
+    }
+
+    return { name, value };
+  }
+
+  /**
+   * Parse JSON or fail with the offending line number
+   */
+  private parseJson(content: string): unknown {
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      return this.fail(new SkillOutputError(
+        `Line ${this.lineNumber} is not valid JSON: ${(error as Error).message}`,
+        'malformed_json',
+        this.lineNumber
+      ));
+    }
+  }
+
+  /**
+   * Remember the first protocol violation and throw it
+   */
+  private fail(error: SkillOutputError): never {
+    this.failure = error;
+    throw error;
+  }
+
+  private throwIfFailed(): void {
+    if (this.failure) {
+      throw this.failure;
+    }
+  }
+}
+
+/**
+ * Parse complete skill stdout
+ * @throws {SkillOutputError} If the output is malformed or too large
+ */
+export function parseSkillOutput(stdout: string, options: Partial<SkillOutputParserOptions> = {}): ParsedSkillOutput {
+  const parser = new SkillOutputParser(options);
+  parser.push(stdout);
+  return parser.end();
+}
+
+/**
+ * Build a SkillExecutionResult from a sandbox run. A run succeeds only when the
+ * script exits with 0 and reports SUCCESS:; protocol violations are failures.
+ */
+export function createSkillExecutionResult(
+  sandboxResult: SandboxResult,
+  options: Partial<SkillOutputParserOptions> = {}
+): SkillExecutionResult {
+  const base = {
+    executionTimeMs: sandboxResult.executionTimeMs,
+    resourceUsage: sandboxResult.resourceUsage,
+    securityEvents: sandboxResult.securityEvents,
+    exitCode: sandboxResult.exitCode
+  };
+
+  // A cancelled run never reaches its result line; keep whatever it printed
+  if (sandboxResult.cancelled) {
+    return {
+      ...base,
+      success: false,
+      output: sandboxResult.stdout.trim(),
+      error: 'Skill execution was cancelled'
+    };
+  }
+
+  let parsedOutput: ParsedSkillOutput;
+  try {
+    parsedOutput = parseSkillOutput(sandboxResult.stdout, options);
+  } catch (error) {
+    const stderr = sandboxResult.stderr.trim();
+    return {
+      ...base,
+      success: false,
+      output: '',
+      error: sandboxResult.exitCode !== 0 && stderr
+        ? stderr
+        : `Invalid skill output: ${(error as Error).message}`
+    };
+  }
+
+  const output = parsedOutput.message ?? (parsedOutput.payload === null ? '' : JSON.stringify(parsedOutput.payload));
+
+  if (parsedOutput.status === 'success' && sandboxResult.exitCode === 0) {
+    return { ...base, success: true, output, parsedOutput };
+  }
+
+  return {
+    ...base,
+    success: false,
+    output,
+    error: parsedOutput.status === 'error'
+      ? output || `exit code ${sandboxResult.exitCode}`
+      : sandboxResult.stderr.trim() || `exit code ${sandboxResult.exitCode}`,
+    parsedOutput
+  };
+}
+
+// How each kind of planned action is phrased in the confirmation summary
+const PLAN_PHRASES: Record<string, (count: number, bytes: number) => string> = {
+  delete: (count, bytes) => bytes > 0
+    ? `remove ${formatBytes(bytes)} from ${count} ${count === 1 ? 'location' : 'locations'}`
+    : `remove ${count} ${count === 1 ? 'item' : 'items'}`,
+  archive: (count, bytes) => `archive ${bytes > 0 ? `${formatBytes(bytes)} in ` : ''}${count} ${count === 1 ? 'folder' : 'folders'}`,
+  stop: (count) => `stop ${count} ${count === 1 ? 'process' : 'processes'}`,
+  restart: (count) => `restart ${count} ${count === 1 ? 'service' : 'services'}`
+};
+
+/**
+ * Summarize the actions reported by a dry run, e.g.
+ * "This will remove 1.2 GB from 2 locations (/tmp/a, /tmp/b) — continue?"
+ */
+export function summarizePlannedActions(actions: SkillPlannedAction[]): SkillDryRunPreview {
+  const totalBytes = actions.reduce((sum, action) => sum + (action.bytes ?? 0), 0);
+
+  if (actions.length === 0) {
+    return { actions: [], totalBytes: 0, summary: 'No changes are needed.' };
+  }
+
+  const groups = new Map<string, SkillPlannedAction[]>();
+  for (const action of actions) {
+    groups.set(action.action, [...(groups.get(action.action) ?? []), action]);
+  }
+
+  const phrases = Array.from(groups.entries()).map(([kind, grouped]) => {
+    const bytes = grouped.reduce((sum, action) => sum + (action.bytes ?? 0), 0);
+    return PLAN_PHRASES[kind]?.(grouped.length, bytes)
+      ?? `${kind} ${grouped.length} ${grouped.length === 1 ? 'item' : 'items'}${bytes > 0 ? ` (${formatBytes(bytes)})` : ''}`;
+  });
+
+  const targets = actions.slice(0, 3).map(action => action.target);
+  const more = actions.length > targets.length ? `, +${actions.length - targets.length} more` : '';
+  const sentence = phrases.length > 1
+    ? `${phrases.slice(0, -1).join(', ')} and ${phrases[phrases.length - 1]}`
+    : phrases[0];
+
+  return {
+    actions: [...actions],
+    totalBytes,
+    summary: `This will ${sentence} (${targets.join(', ')}${more}) — continue?`
+  };
+}
+
+/**
+ * Format a byte count for display (1.2 GB)
+ */
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Factory function to create a skill output parser
+ */
+export function createSkillOutputParser(options: Partial<SkillOutputParserOptions> = {}): SkillOutputParser {
+  return new SkillOutputParser(options);
+}
@@ -0,0 +1,187 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { SkillMetadata } from './types';
+import { getDeclaredSkillFiles, getSignaturePaths, getSkillPackageFiles } from './skill-signing';
+import { SKILL_ID_PATTERN, VERSION_PATTERN } from './skill-catalog';
+
+// One file of a skill package, base64-encoded
+export interface SkillPackageEntry {
+  path: string;
+  data: string;
+}
+
+// Single-file skill package (.wtcskill): a gzip-compressed JSON document
+// holding the metadata, scripts, signature and assets of one skill
+export interface SkillPackageArchive {
+  format: 'wtc-skill-package';
+  formatVersion: 1;
+  files: SkillPackageEntry[];
+}
+
+// A package read from an archive. `metadataFile` is the top-level
+// {skill-id}.json; assets live under assets/{skill-id}/.
+export interface SkillPackageContents {
+  skillId: string;
+  version: string;
+  metadataFile: string;
+  files: Map<string, Buffer>;
+}
+
+// Reasons an archive is not a usable skill package
+export type SkillPackageErrorReason =
+  | 'invalid_archive'
+  | 'too_large'
+  | 'unsafe_path'
+  | 'invalid_metadata';
+
+// Error raised when a skill package archive cannot be read
+export class SkillPackageError extends Error {
+  constructor(message: string, public reason: SkillPackageErrorReason, public skillId?: string) {
+    super(message);
+    this.name = 'SkillPackageError';
+  }
+}
+
+export const SKILL_PACKAGE_EXTENSION = '.wtcskill';
+
+const PACKAGE_FORMAT = 'wtc-skill-package';
+const MAX_ARCHIVE_BYTES = 10 * 1024 * 1024;
+const MAX_UNPACKED_BYTES = 25 * 1024 * 1024;
+const MAX_PACKAGE_FILES = 200;
+const ASSETS_DIRECTORY = 'assets';
+const PATH_SEGMENT_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._ -]*$/;
+
+/**
+ * Build a package archive from a skill in a skills directory: its metadata,
+ * scripts, lockfile, signature files and assets/{skill-id}/, if present
+ */
+export function packSkillPackage(skillsDirectory: string, metadataFile: string): Buffer {
+  const metadataPath = path.join(skillsDirectory, metadataFile);
+  const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf-8')) as SkillMetadata;
+  const { manifestPath, signaturePath } = getSignaturePaths(metadataPath);
+
+  const files = getSkillPackageFiles(metadataPath, metadata);
+  for (const signatureFile of [manifestPath, signaturePath]) {
+    if (fs.existsSync(signatureFile)) {
+      files.push(path.basename(signatureFile));
+    }
+  }
+
+  const archive: SkillPackageArchive = {
+    format: PACKAGE_FORMAT,
+    formatVersion: 1,
+    files: files.map(file => ({
+      path: file,
+      data: fs.readFileSync(path.join(skillsDirectory, ...file.split('/'))).toString('base64')
+    }))
+  };
+  return zlib.gzipSync(Buffer.from(JSON.stringify(archive)));
+}
+
+/**
+ * Read and check a package archive. Paths must be relative, use forward
+ * slashes and stay inside the package; only assets/{skill-id}/ may have
+ * subdirectories. Size and file count are capped before anything is written.
+ * @throws {SkillPackageError} If the archive is not a usable skill package
+ */
+export function readSkillPackage(archive: Buffer): SkillPackageContents {
+  if (archive.length > MAX_ARCHIVE_BYTES) {
+    throw new SkillPackageError(`Package is larger than ${MAX_ARCHIVE_BYTES} bytes`, 'too_large');
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(zlib.gunzipSync(archive, { maxOutputLength: MAX_UNPACKED_BYTES * 2 }).toString('utf-8'));
+  } catch (error) {
+    throw new SkillPackageError(`Package is not a readable archive: ${(error as Error).message}`, 'invalid_archive');
+  }
+
+  if (raw?.format !== PACKAGE_FORMAT || raw.formatVersion !== 1 || !Array.isArray(raw.files)) {
+    throw new SkillPackageError('Package is not a version 1 skill package', 'invalid_archive');
+  }
+  if (raw.files.length > MAX_PACKAGE_FILES) {
+    throw new SkillPackageError(`Package has more than ${MAX_PACKAGE_FILES} files`, 'too_large');
+  }
+
+  const files = new Map<string, Buffer>();
+  let unpackedBytes = 0;
+  for (const entry of raw.files) {
+    if (typeof entry?.path !== 'string' || typeof entry.data !== 'string') {
+      throw new SkillPackageError('Package entries must have a path and base64 data', 'invalid_archive');
+    }
+    if (!isSafePackagePath(entry.path)) {
+      throw new SkillPackageError(`Package path '${entry.path}' is not allowed`, 'unsafe_path');
+    }
+    if (files.has(entry.path)) {
+      throw new SkillPackageError(`Package contains '${entry.path}' more than once`, 'invalid_archive');
+    }
+
+    const data = Buffer.from(entry.data, 'base64');
+    unpackedBytes += data.length;
+    if (unpackedBytes > MAX_UNPACKED_BYTES) {
+      throw new SkillPackageError(`Package unpacks to more than ${MAX_UNPACKED_BYTES} bytes`, 'too_large');
+    }
+    files.set(entry.path, data);
+  }
+
+  const metadataFiles = Array.from(files.keys()).filter(file => !file.includes('/') && file.toLowerCase().endsWith('.json'));
+  if (metadataFiles.length !== 1) {
+    throw new SkillPackageError('Package must contain exactly one top-level metadata file', 'invalid_metadata');
+  }
+
+  const [metadataFile] = metadataFiles;
+  let metadata: any;
+  try {
+    metadata = JSON.parse(files.get(metadataFile)!.toString('utf-8'));
+  } catch (error) {
+    throw new SkillPackageError(`Invalid JSON in ${metadataFile}: ${(error as Error).message}`, 'invalid_metadata');
+  }
+  if (typeof metadata?.id !== 'string' || typeof metadata.version !== 'string') {
+    throw new SkillPackageError(`${metadataFile} must declare an id and a version`, 'invalid_metadata');
+  }
+  // Both name directories the installer creates and removes
+  if (!SKILL_ID_PATTERN.test(metadata.id)) {
+    throw new SkillPackageError(`Skill id '${metadata.id}' must be lowercase letters, digits and hyphens`, 'invalid_metadata');
+  }
+  if (!VERSION_PATTERN.test(metadata.version)) {
+    throw new SkillPackageError(`Version '${metadata.version}' of ${metadata.id} must be major.minor.patch`, 'invalid_metadata', metadata.id);
+  }
+  if (metadataFile !== `${metadata.id}.json`) {
+    throw new SkillPackageError(`Metadata file for '${metadata.id}' must be named ${metadata.id}.json`, 'invalid_metadata', metadata.id);
+  }
+
+  const assetsPrefix = `${ASSETS_DIRECTORY}/${metadata.id}/`;
+  const misplaced = Array.from(files.keys()).find(file => file.includes('/') && !file.startsWith(assetsPrefix));
+  if (misplaced) {
+    throw new SkillPackageError(`'${misplaced}' must be a top-level file or under ${assetsPrefix}`, 'unsafe_path', metadata.id);
+  }
+  // Every installed file is then covered by the skill's manifest
+  const { manifestPath, signaturePath } = getSignaturePaths(metadataFile);
+  const topLevel = [...getDeclaredSkillFiles(metadataFile, metadata), manifestPath, signaturePath];
+  const undeclared = Array.from(files.keys()).find(file => !file.includes('/') && !topLevel.includes(file));
+  if (undeclared) {
+    throw new SkillPackageError(
+      `'${undeclared}' is not a script, lockfile or signature of ${metadata.id}; other files belong under ${assetsPrefix}`,
+      'unsafe_path',
+      metadata.id
+    );
+  }
+
+  return { skillId: metadata.id, version: metadata.version, metadataFile, files };
+}
+
+function isSafePackagePath(file: string): boolean {
+  return file.length <= 255 && file.split('/').every(segment => PATH_SEGMENT_PATTERN.test(segment) && !/^\.+$/.test(segment));
+}
+
+/**
+ * Write the files of a package into a directory, creating it if needed
+ */
+export function extractSkillPackage(contents: SkillPackageContents, directory: string): void {
+  for (const [file, data] of contents.files) {
+    const target = path.join(directory, ...file.split('/'));
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, data);
+  }
+}
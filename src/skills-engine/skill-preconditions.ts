@@ -0,0 +1,343 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { ScriptType } from './sandbox';
+import { SkillApplicability, SkillMetadata, SkillPreconditionFailure } from './types';
+import { getLogManager } from './logging';
+
+// Facts about the device that preconditions are checked against
+export interface SystemProbes {
+  hasCommand(command: string): Promise<boolean>;
+  // Python modules are looked up with `pythonCommand` when given
+  hasModule(module: string, scriptType: ScriptType, pythonCommand?: string[]): Promise<boolean>;
+  getOsBuild(): Promise<string>;
+  hasService(service: string): Promise<boolean>;
+  isElevated(): Promise<boolean>;
+  // null when the power or network state cannot be determined
+  isOnBattery(): Promise<boolean | null>;
+  isMeteredNetwork(): Promise<boolean | null>;
+}
+
+// Precondition checker configuration
+export interface PreconditionCheckerOptions {
+  probes: SystemProbes;
+  // How long installed commands, modules, services and the OS build are reused
+  cacheTtlMs: number;
+  // How long elevation, power and network state are reused
+  volatileCacheTtlMs: number;
+}
+
+// Error raised when a skill is run on a device that does not meet its preconditions
+export class SkillNotApplicableError extends Error {
+  public readonly code = 'SKILL_NOT_APPLICABLE';
+
+  constructor(message: string, public reasons: SkillPreconditionFailure[], public skillId?: string) {
+    super(message);
+    this.name = 'SkillNotApplicableError';
+  }
+
+  /**
+   * The preconditions this device failed
+   */
+  toDetails(): { reasons: SkillPreconditionFailure[] } {
+    return { reasons: this.reasons };
+  }
+}
+
+const PROBE_TIMEOUT_MS = 5000;
+const PYTHON_FIND_MODULE = 'import importlib.util, sys; sys.exit(0 if importlib.util.find_spec(sys.argv[1]) else 1)';
+// WinRT cost of the internet connection: Unrestricted, Fixed, Variable or Unknown
+const WINDOWS_NETWORK_COST = '$profile = [Windows.Networking.Connectivity.NetworkInformation, Windows.Networking.Connectivity, ContentType=WindowsRuntime]::GetInternetConnectionProfile(); ' +
+  'if ($profile) { $profile.GetConnectionCost().NetworkCostType }';
+
+/**
+ * Compare dotted numeric versions by their leading numeric part, so
+ * "6.5.0-27-generic" compares as 6.5.0
+ */
+export function compareOsBuilds(a: string, b: string): number {
+  const parse = (build: string) => (/^\d+(?:\.\d+)*/.exec(build)?.[0] ?? '0').split('.').map(Number);
+  const left = parse(a);
+  const right = parse(b);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] ?? 0) - (right[i] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Probes for the current device. Commands are looked up on PATH without
+ * spawning anything; the rest asks the OS, each probe bounded by a timeout.
+ */
+export function createSystemProbes(platform: NodeJS.Platform = process.platform): SystemProbes {
+  const powershell = (command: string) =>
+    runProbe('powershell.exe', ['-NoProfile', '-NonInteractive', '-ExecutionPolicy', 'Bypass', '-Command', command]);
+
+  return {
+    async hasCommand(command) {
+      const extensions = platform === 'win32'
+        ? ['', ...(process.env.PATHEXT || '.COM;.EXE;.BAT;.CMD').split(';')]
+        : [''];
+      for (const directory of (process.env.PATH || '').split(path.delimiter).filter(Boolean)) {
+        for (const extension of extensions) {
+          try {
+            await fs.promises.access(path.join(directory, command + extension), fs.constants.X_OK);
+            return true;
+          } catch {
+            // Not in this directory
+          }
+        }
+      }
+      return false;
+    },
+
+    async hasModule(module, scriptType, pythonCommand) {
+      if (scriptType === 'powershell') {
+        return (await powershell(`if (Get-Module -ListAvailable -Name '${module}') { exit 0 } else { exit 1 }`)).code === 0;
+      }
+      if (scriptType === 'python') {
+        const [command, ...args] = pythonCommand ?? [platform === 'win32' ? 'python' : 'python3'];
+        return (await runProbe(command, [...args, '-E', '-s', '-c', PYTHON_FIND_MODULE, module])).code === 0;
+      }
+      // Shell, batch and node scripts have no module system to check
+      return true;
+    },
+
+    async getOsBuild() {
+      return os.release();
+    },
+
+    async hasService(service) {
+      if (platform === 'win32') {
+        return (await runProbe('sc.exe', ['query', service])).code === 0;
+      }
+      if (platform === 'darwin') {
+        return (await runProbe('launchctl', ['print', `system/${service}`])).code === 0;
+      }
+      const result = await runProbe('systemctl', ['show', '--property=LoadState', '--value', service]);
+      return result.code === 0 && result.stdout.trim() !== 'not-found';
+    },
+
+    async isElevated() {
+      if (platform === 'win32') {
+        return (await runProbe('net', ['session'])).code === 0;
+      }
+      return process.getuid?.() === 0;
+    },
+
+    async isOnBattery() {
+      if (platform === 'win32') {
+        // BatteryStatus 1 means discharging; no output means no battery
+        const result = await powershell('(Get-CimInstance -ClassName Win32_Battery | Select-Object -First 1).BatteryStatus');
+        return result.code === 0 ? result.stdout.trim() === '1' : null;
+      }
+      if (platform === 'darwin') {
+        const result = await runProbe('pmset', ['-g', 'batt']);
+        return result.code === 0 ? result.stdout.includes("'Battery Power'") : null;
+      }
+      return readLinuxPowerSupply('/sys/class/power_supply');
+    },
+
+    async isMeteredNetwork() {
+      if (platform === 'win32') {
+        const result = await powershell(WINDOWS_NETWORK_COST);
+        const cost = result.stdout.trim();
+        return result.code === 0 && cost ? cost === 'Fixed' || cost === 'Variable' : null;
+      }
+      if (platform === 'linux') {
+        // GENERAL.METERED:yes, yes (guessed), no, no (guessed) or unknown per device
+        const result = await runProbe('nmcli', ['-t', '-f', 'GENERAL.METERED', 'device', 'show']);
+        if (result.code !== 0) {
+          return null;
+        }
+        const states = result.stdout.split('\n').map(line => line.split(':')[1]?.trim()).filter(Boolean);
+        return states.length > 0 ? states.some(state => state.startsWith('yes')) : null;
+      }
+      return null;
+    }
+  };
+}
+
+/**
+ * Battery state from sysfs: on battery when a battery discharges and no
+ * mains adapter is online
+ */
+export async function readLinuxPowerSupply(root: string): Promise<boolean | null> {
+  let supplies: string[];
+  try {
+    supplies = await fs.promises.readdir(root);
+  } catch {
+    return null;
+  }
+
+  const read = (supply: string, file: string) =>
+    fs.promises.readFile(path.join(root, supply, file), 'utf-8').then(value => value.trim(), () => '');
+
+  let discharging = false;
+  let mainsOnline = false;
+  for (const supply of supplies) {
+    const type = await read(supply, 'type');
+    if (type === 'Mains' && await read(supply, 'online') === '1') {
+      mainsOnline = true;
+    } else if (type === 'Battery' && await read(supply, 'status') === 'Discharging') {
+      discharging = true;
+    }
+  }
+
+  if (mainsOnline) {
+    return false;
+  }
+  return discharging ? true : null;
+}
+
+const DEFAULT_PRECONDITION_CHECKER_OPTIONS: PreconditionCheckerOptions = {
+  probes: createSystemProbes(),
+  cacheTtlMs: 10 * 60 * 1000, // 10 minutes
+  volatileCacheTtlMs: 30 * 1000 // 30 seconds
+};
+
+/**
+ * Evaluates skill preconditions against the device before a skill is offered
+ * or spawned. Probe answers are cached: what is installed changes rarely,
+ * elevation, power and network state often. A power or network state that
+ * cannot be determined does not block a skill.
+ */
+export class PreconditionChecker extends EventEmitter {
+  private options: PreconditionCheckerOptions;
+  private cache = new Map<string, { value: Promise<unknown>; expiresAt: number }>();
+  private logManager = getLogManager();
+
+  constructor(options: Partial<PreconditionCheckerOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_PRECONDITION_CHECKER_OPTIONS, ...options };
+  }
+
+  /**
+   * Check every precondition of a skill; all unmet ones are reported
+   */
+  async evaluate(metadata: SkillMetadata, scriptType: ScriptType, pythonCommand?: string[]): Promise<SkillApplicability> {
+    const preconditions = metadata.preconditions ?? {};
+    const { probes } = this.options;
+    const reasons: SkillPreconditionFailure[] = [];
+
+    if (preconditions.admin && !await this.probe('admin', true, () => probes.isElevated())) {
+      reasons.push({ check: 'admin', message: 'Administrator rights are required' });
+    }
+
+    for (const command of preconditions.commands ?? []) {
+      if (!await this.probe(`command:${command}`, false, () => probes.hasCommand(command))) {
+        reasons.push({ check: 'command', subject: command, message: `The '${command}' command is not installed` });
+      }
+    }
+
+    for (const module of preconditions.modules ?? []) {
+      const key = `module:${scriptType}:${(pythonCommand ?? []).join(' ')}:${module}`;
+      if (!await this.probe(key, false, () => probes.hasModule(module, scriptType, pythonCommand))) {
+        reasons.push({ check: 'module', subject: module, message: `The '${module}' module is not installed` });
+      }
+    }
+
+    if (preconditions.minOsBuild) {
+      const build = await this.probe('os-build', false, () => probes.getOsBuild());
+      if (compareOsBuilds(build, preconditions.minOsBuild) < 0) {
+        reasons.push({
+          check: 'os_build',
+          subject: preconditions.minOsBuild,
+          message: `OS build ${preconditions.minOsBuild} or later is required (this device has ${build})`
+        });
+      }
+    }
+
+    for (const service of preconditions.services ?? []) {
+      if (!await this.probe(`service:${service}`, false, () => probes.hasService(service))) {
+        reasons.push({ check: 'service', subject: service, message: `The '${service}' service is not installed` });
+      }
+    }
+
+    if (preconditions.notOnBattery && await this.probe('battery', true, () => probes.isOnBattery()) === true) {
+      reasons.push({ check: 'battery', message: 'The device is running on battery power' });
+    }
+
+    if (preconditions.notOnMeteredNetwork && await this.probe('metered', true, () => probes.isMeteredNetwork()) === true) {
+      reasons.push({ check: 'metered_network', message: 'The device is on a metered network connection' });
+    }
+
+    const applicability: SkillApplicability = {
+      skillId: metadata.id,
+      applicable: reasons.length === 0,
+      reasons,
+      checkedAt: Date.now()
+    };
+
+    if (!applicability.applicable) {
+      this.logManager.info('Skill not applicable on this device', {
+        reasons: reasons.map(reason => reason.message)
+      }, { component: 'skill-preconditions', skillId: metadata.id });
+      this.emit('notApplicable', applicability);
+    }
+
+    return applicability;
+  }
+
+  /**
+   * Check the preconditions of a skill about to run
+   * @throws {SkillNotApplicableError} If any is not met
+   */
+  async assertApplicable(metadata: SkillMetadata, scriptType: ScriptType, pythonCommand?: string[]): Promise<void> {
+    const { applicable, reasons } = await this.evaluate(metadata, scriptType, pythonCommand);
+    if (!applicable) {
+      throw new SkillNotApplicableError(
+        `Skill '${metadata.id}' cannot run on this device: ${reasons.map(reason => reason.message).join('; ')}`,
+        reasons,
+        metadata.id
+      );
+    }
+  }
+
+  /**
+   * Forget cached probe answers, e.g. after software was installed
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Cached probe answer; concurrent checks share one probe
+   */
+  private probe<T>(key: string, volatile: boolean, run: () => Promise<T>): Promise<T> {
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value as Promise<T>;
+    }
+
+    const value = run();
+    const ttl = volatile ? this.options.volatileCacheTtlMs : this.options.cacheTtlMs;
+    this.cache.set(key, { value, expiresAt: Date.now() + ttl });
+    // A failed probe is retried next time
+    value.catch(() => this.cache.delete(key));
+    return value;
+  }
+}
+
+/**
+ * Run a probe command; a missing command, failure to start or timeout gives a null code
+ */
+function runProbe(command: string, args: string[]): Promise<{ code: number | null; stdout: string }> {
+  return new Promise(resolve => {
+    execFile(command, args, { timeout: PROBE_TIMEOUT_MS, windowsHide: true }, (error, stdout) => {
+      const code = !error ? 0 : typeof error.code === 'number' ? error.code : null;
+      resolve({ code, stdout: String(stdout ?? '') });
+    });
+  });
+}
+
+/**
+ * Factory function to create a precondition checker
+ */
+export function createPreconditionChecker(options?: Partial<PreconditionCheckerOptions>): PreconditionChecker {
+  return new PreconditionChecker(options);
+}
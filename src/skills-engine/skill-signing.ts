@@ -0,0 +1,461 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { SkillMetadata } from './types';
+import { ImmutableAuditLogger } from '../utils/immutable-audit-log';
+import { getLogManager } from './logging';
+
+// Signed manifest that pins the content of a skill package
+export interface SkillManifest {
+  manifestVersion: 1;
+  skillId: string;
+  version: string;
+  publisher: string;
+  keyId: string;
+  hashAlgorithm: 'sha256';
+  files: Record<string, string>;
+  signedAt: string;
+}
+
+// Public key of a publisher trusted by an organization
+export interface TrustedPublisherKey {
+  keyId: string;
+  publisher: string;
+  publicKey: string;
+  expiresAt?: string;
+  revoked?: boolean;
+}
+
+// Per-organization trust configuration
+export interface SkillTrustPolicy {
+  organizationId: string;
+  trustedKeys: TrustedPublisherKey[];
+  allowUnsigned: boolean;
+}
+
+// Reasons a skill package fails verification
+export type SkillSignatureFailureReason =
+  | 'unsigned'
+  | 'invalid_manifest'
+  | 'untrusted_key'
+  | 'invalid_signature'
+  | 'tampered';
+
+// Stage at which verification runs
+export type SkillVerificationStage = 'register' | 'execute';
+
+// Outcome of a successful verification
+export interface SkillVerificationResult {
+  skillId: string;
+  signed: boolean;
+  publisher?: string;
+  keyId?: string;
+  manifestPath?: string;
+}
+
+// Verifier configuration
+export interface SkillSignatureVerifierOptions {
+  policy: SkillTrustPolicy;
+  auditEnabled: boolean;
+}
+
+// Minimal audit sink, satisfied by ImmutableAuditLogger
+export interface SkillAuditSink {
+  logEvent: ImmutableAuditLogger['logEvent'];
+}
+
+// Error raised when a skill package fails verification
+export class SkillSignatureError extends Error {
+  constructor(message: string, public reason: SkillSignatureFailureReason, public skillId?: string) {
+    super(message);
+    this.name = 'SkillSignatureError';
+  }
+}
+
+const MANIFEST_EXTENSION = '.manifest';
+const SIGNATURE_EXTENSION = '.sig';
+const SCRIPT_FIELDS: Array<keyof SkillMetadata> = ['script', 'windowsScript', 'unixScript'];
+const ASSETS_DIRECTORY = 'assets';
+
+const DEFAULT_VERIFIER_OPTIONS: Omit<SkillSignatureVerifierOptions, 'policy'> = {
+  auditEnabled: true
+};
+
+/**
+ * Locate the manifest and detached signature for a skill metadata file
+ * (disk-space.json -> disk-space.manifest + disk-space.manifest.sig)
+ */
+export function getSignaturePaths(metadataPath: string): { manifestPath: string; signaturePath: string } {
+  const base = metadataPath.slice(0, -path.extname(metadataPath).length);
+  const manifestPath = `${base}${MANIFEST_EXTENSION}`;
+  return { manifestPath, signaturePath: `${manifestPath}${SIGNATURE_EXTENSION}` };
+}
+
+/**
+ * List the files a manifest must cover: the metadata JSON, every declared
+ * script including undo scripts, a Python requirements lockfile and every
+ * file under assets/{skill-id}/, such as modules the scripts load
+ */
+export function getSkillPackageFiles(metadataPath: string, metadata: SkillMetadata): string[] {
+  const files = getDeclaredSkillFiles(metadataPath, metadata);
+  const assetsDirectory = path.join(path.dirname(metadataPath), ASSETS_DIRECTORY, metadata.id);
+  if (fs.existsSync(assetsDirectory)) {
+    files.push(...listFiles(assetsDirectory).map(file => `${ASSETS_DIRECTORY}/${metadata.id}/${file}`));
+  }
+  return files.sort();
+}
+
+/**
+ * The top-level files of a skill: its metadata JSON, every declared script
+ * including undo scripts, and a Python requirements lockfile
+ */
+export function getDeclaredSkillFiles(metadataPath: string, metadata: SkillMetadata): string[] {
+  const files = new Set<string>([path.basename(metadataPath)]);
+  for (const field of SCRIPT_FIELDS) {
+    const value = metadata[field];
+    if (typeof value === 'string') {
+      files.add(value);
+    }
+    const undoScript = metadata.undo?.[field as 'script' | 'windowsScript' | 'unixScript'];
+    if (typeof undoScript === 'string') {
+      files.add(undoScript);
+    }
+  }
+  if (typeof metadata.python?.requirements === 'string') {
+    files.add(metadata.python.requirements);
+  }
+  return Array.from(files).sort();
+}
+
+function listFiles(directory: string, prefix = ''): string[] {
+  return fs.readdirSync(directory, { withFileTypes: true }).flatMap(entry => {
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    return entry.isDirectory() ? listFiles(path.join(directory, entry.name), relative) : [relative];
+  });
+}
+
+/**
+ * Hash a file in the skill package
+ */
+export function hashSkillFile(filePath: string): string {
+  return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+/**
+ * Sign a skill package by writing its manifest and detached signature next to the metadata file
+ */
+export function signSkillPackage(
+  metadataPath: string,
+  privateKey: crypto.KeyLike,
+  signer: { publisher: string; keyId: string }
+): SkillManifest {
+  const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf-8')) as SkillMetadata;
+  const directory = path.dirname(metadataPath);
+
+  const files: Record<string, string> = {};
+  for (const file of getSkillPackageFiles(metadataPath, metadata)) {
+    files[file] = hashSkillFile(path.join(directory, file));
+  }
+
+  const manifest: SkillManifest = {
+    manifestVersion: 1,
+    skillId: metadata.id,
+    version: metadata.version,
+    publisher: signer.publisher,
+    keyId: signer.keyId,
+    hashAlgorithm: 'sha256',
+    files,
+    signedAt: new Date().toISOString()
+  };
+
+  const manifestBytes = Buffer.from(JSON.stringify(manifest, null, 2));
+  const key = typeof privateKey === 'string' || Buffer.isBuffer(privateKey)
+    ? crypto.createPrivateKey(privateKey)
+    : privateKey;
+  const signature = crypto.sign(getSignatureDigest(key), manifestBytes, key);
+
+  const { manifestPath, signaturePath } = getSignaturePaths(metadataPath);
+  fs.writeFileSync(manifestPath, manifestBytes);
+  fs.writeFileSync(signaturePath, signature.toString('base64'));
+
+  return manifest;
+}
+
+/**
+ * Load an organization's trust policy from a JSON file
+ * @throws {Error} If the file is unreadable or malformed
+ */
+export function loadSkillTrustPolicy(policyPath: string): SkillTrustPolicy {
+  const raw = JSON.parse(fs.readFileSync(policyPath, 'utf-8'));
+
+  if (!raw || typeof raw.organizationId !== 'string' || raw.organizationId.length === 0) {
+    throw new Error(`Trust policy ${policyPath} must declare an organizationId`);
+  }
+  if (!Array.isArray(raw.trustedKeys)) {
+    throw new Error(`Trust policy ${policyPath} must declare a trustedKeys array`);
+  }
+  for (const key of raw.trustedKeys) {
+    if (!key || typeof key.keyId !== 'string' || typeof key.publisher !== 'string' || typeof key.publicKey !== 'string') {
+      throw new Error(`Trust policy ${policyPath} contains a key without keyId, publisher and publicKey`);
+    }
+  }
+
+  return {
+    organizationId: raw.organizationId,
+    trustedKeys: raw.trustedKeys,
+    allowUnsigned: raw.allowUnsigned === true
+  };
+}
+
+/**
+ * Ed25519/Ed448 keys sign the message directly; RSA and EC keys need a digest
+ */
+function getSignatureDigest(key: crypto.KeyObject): string | null {
+  return key.asymmetricKeyType === 'ed25519' || key.asymmetricKeyType === 'ed448' ? null : 'sha256';
+}
+
+/**
+ * Verifies skill packages against an organization's trusted publisher keys
+ * before they are registered or executed
+ */
+export class SkillSignatureVerifier extends EventEmitter {
+  private options: SkillSignatureVerifierOptions;
+  private auditLogger: SkillAuditSink | null;
+  private logManager = getLogManager();
+
+  constructor(
+    options: Partial<SkillSignatureVerifierOptions> & { policy: SkillTrustPolicy },
+    auditLogger?: SkillAuditSink
+  ) {
+    super();
+    this.options = { ...DEFAULT_VERIFIER_OPTIONS, ...options };
+    this.auditLogger = auditLogger ?? null;
+  }
+
+  /**
+   * Verify the package that owns the given metadata file
+   * @throws {SkillSignatureError} If the package is unsigned, untrusted or tampered
+   */
+  verify(metadataPath: string, metadata: SkillMetadata, stage: SkillVerificationStage): SkillVerificationResult {
+    try {
+      const result = this.verifyPackage(metadataPath, metadata);
+
+      if (!result.signed) {
+        this.audit(metadata, stage, 'warning', {
+          reason: 'unsigned',
+          message: 'Unsigned skill allowed by organization policy'
+        });
+      }
+
+      this.emit('skillVerified', { ...result, stage });
+      return result;
+    } catch (error) {
+      const signatureError = error instanceof SkillSignatureError
+        ? error
+        : new SkillSignatureError((error as Error).message, 'invalid_manifest', metadata.id);
+
+      this.audit(metadata, stage, 'failure', {
+        reason: signatureError.reason,
+        message: signatureError.message
+      });
+
+      this.logManager.warn('Skill signature verification failed', {
+        stage,
+        reason: signatureError.reason,
+        message: signatureError.message,
+        organizationId: this.options.policy.organizationId
+      }, { component: 'skill-signing', skillId: metadata.id });
+
+      this.emit('skillRefused', { skillId: metadata.id, stage, reason: signatureError.reason });
+      throw signatureError;
+    }
+  }
+
+  /**
+   * Get the trust policy in effect
+   */
+  getPolicy(): SkillTrustPolicy {
+    return this.options.policy;
+  }
+
+  /**
+   * Check manifest, signature and file hashes
+   */
+  private verifyPackage(metadataPath: string, metadata: SkillMetadata): SkillVerificationResult {
+    const { manifestPath, signaturePath } = getSignaturePaths(metadataPath);
+
+    if (!fs.existsSync(manifestPath) || !fs.existsSync(signaturePath)) {
+      if (this.options.policy.allowUnsigned) {
+        return { skillId: metadata.id, signed: false };
+      }
+      throw new SkillSignatureError(
+        `Skill '${metadata.id}' is not signed (expected ${path.basename(manifestPath)} and ${path.basename(signaturePath)})`,
+        'unsigned',
+        metadata.id
+      );
+    }
+
+    const manifestBytes = fs.readFileSync(manifestPath);
+    const manifest = this.parseManifest(manifestBytes, metadata.id);
+    const trustedKey = this.findTrustedKey(manifest, metadata.id);
+
+    let signatureValid = false;
+    try {
+      const publicKey = crypto.createPublicKey(trustedKey.publicKey);
+      const signature = Buffer.from(fs.readFileSync(signaturePath, 'utf-8').trim(), 'base64');
+      signatureValid = crypto.verify(getSignatureDigest(publicKey), manifestBytes, publicKey, signature);
+    } catch (error) {
+      throw new SkillSignatureError(
+        `Signature for skill '${metadata.id}' could not be checked: ${(error as Error).message}`,
+        'invalid_signature',
+        metadata.id
+      );
+    }
+
+    if (!signatureValid) {
+      throw new SkillSignatureError(
+        `Signature for skill '${metadata.id}' does not match its manifest`,
+        'invalid_signature',
+        metadata.id
+      );
+    }
+
+    if (manifest.skillId !== metadata.id || manifest.version !== metadata.version) {
+      throw new SkillSignatureError(
+        `Manifest is for ${manifest.skillId}@${manifest.version} but metadata declares ${metadata.id}@${metadata.version}`,
+        'tampered',
+        metadata.id
+      );
+    }
+
+    const directory = path.dirname(metadataPath);
+    const expectedFiles = getSkillPackageFiles(metadataPath, metadata);
+    const missing = expectedFiles.filter(file => !(file in manifest.files));
+    if (missing.length > 0) {
+      throw new SkillSignatureError(
+        `Manifest for skill '${metadata.id}' does not cover ${missing.join(', ')}`,
+        'tampered',
+        metadata.id
+      );
+    }
+    const removed = Object.keys(manifest.files).filter(file => !expectedFiles.includes(file));
+    if (removed.length > 0) {
+      throw new SkillSignatureError(
+        `Skill '${metadata.id}' no longer has the signed ${removed.join(', ')}`,
+        'tampered',
+        metadata.id
+      );
+    }
+
+    for (const file of expectedFiles) {
+      const filePath = path.join(directory, file);
+      const actual = fs.existsSync(filePath) ? hashSkillFile(filePath) : null;
+      if (actual !== manifest.files[file]) {
+        throw new SkillSignatureError(
+          `File '${file}' of skill '${metadata.id}' does not match its signed hash`,
+          'tampered',
+          metadata.id
+        );
+      }
+    }
+
+    return {
+      skillId: metadata.id,
+      signed: true,
+      publisher: manifest.publisher,
+      keyId: manifest.keyId,
+      manifestPath
+    };
+  }
+
+  /**
+   * Parse and shape-check a manifest
+   */
+  private parseManifest(manifestBytes: Buffer, skillId: string): SkillManifest {
+    let manifest: any;
+    try {
+      manifest = JSON.parse(manifestBytes.toString('utf-8'));
+    } catch (error) {
+      throw new SkillSignatureError(`Manifest is not valid JSON: ${(error as Error).message}`, 'invalid_manifest', skillId);
+    }
+
+    if (
+      manifest?.manifestVersion !== 1 ||
+      manifest.hashAlgorithm !== 'sha256' ||
+      typeof manifest.skillId !== 'string' ||
+      typeof manifest.keyId !== 'string' ||
+      typeof manifest.publisher !== 'string' ||
+      !manifest.files || typeof manifest.files !== 'object'
+    ) {
+      throw new SkillSignatureError('Manifest is missing required fields or uses an unsupported format', 'invalid_manifest', skillId);
+    }
+
+    return manifest as SkillManifest;
+  }
+
+  /**
+   * Find the organization key that signed the manifest
+   */
+  private findTrustedKey(manifest: SkillManifest, skillId: string): TrustedPublisherKey {
+    const { organizationId, trustedKeys } = this.options.policy;
+    const key = trustedKeys.find(candidate => candidate.keyId === manifest.keyId);
+
+    if (!key || key.publisher !== manifest.publisher) {
+      throw new SkillSignatureError(
+        `Key '${manifest.keyId}' from publisher '${manifest.publisher}' is not trusted by ${organizationId}`,
+        'untrusted_key',
+        skillId
+      );
+    }
+    if (key.revoked) {
+      throw new SkillSignatureError(`Key '${key.keyId}' has been revoked`, 'untrusted_key', skillId);
+    }
+    if (key.expiresAt && Date.parse(key.expiresAt) <= Date.now()) {
+      throw new SkillSignatureError(`Key '${key.keyId}' expired on ${key.expiresAt}`, 'untrusted_key', skillId);
+    }
+
+    return key;
+  }
+
+  /**
+   * Write a verification outcome to the immutable audit log
+   */
+  private audit(
+    metadata: SkillMetadata,
+    stage: SkillVerificationStage,
+    status: 'failure' | 'warning',
+    details: Record<string, any>
+  ): void {
+    if (!this.options.auditEnabled) {
+      return;
+    }
+
+    const auditLogger = this.auditLogger ?? (this.auditLogger = ImmutableAuditLogger.getInstance());
+    auditLogger.logEvent(
+      'skill.signature_verification',
+      `skill:${metadata.id}`,
+      stage === 'register' ? 'register' : 'execute',
+      status,
+      {
+        ...details,
+        skillVersion: metadata.version,
+        organizationId: this.options.policy.organizationId
+      }
+    ).catch(error => {
+      this.logManager.error('Failed to write skill signature audit entry', error, {
+        skillId: metadata.id
+      }, { component: 'skill-signing', skillId: metadata.id });
+    });
+  }
+}
+
+/**
+ * Factory function to create a skill signature verifier
+ */
+export function createSkillSignatureVerifier(
+  options: Partial<SkillSignatureVerifierOptions> & { policy: SkillTrustPolicy },
+  auditLogger?: SkillAuditSink
+): SkillSignatureVerifier {
+  return new SkillSignatureVerifier(options, auditLogger);
+}
@@ -0,0 +1,453 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isDeepStrictEqual } from 'util';
+import { EventEmitter } from 'events';
+import { SecurityEvent, SkillExecutionResult } from './types';
+import { CatalogSkill, SkillCatalog, runCatalogSkill } from './skill-catalog';
+import { getLogManager } from './logging';
+
+// Canned response of a command stubbed on the skill's PATH
+export interface SkillTestStub {
+  stdout?: string;
+  // File, relative to the test case, printed instead of `stdout`
+  stdoutFile?: string;
+  stderr?: string;
+  exitCode?: number;
+}
+
+// Security event a test expects the run to report
+export interface ExpectedSecurityEvent {
+  type: SecurityEvent['type'];
+  severity?: SecurityEvent['severity'];
+  // Substring of the event details
+  details?: string;
+}
+
+// Checks made on a run besides the golden output
+export interface SkillTestExpectations {
+  success?: boolean;
+  // Substring of the run's error
+  error?: string;
+  maxExecutionTimeMs?: number;
+  maxMemoryBytes?: number;
+  maxCpuPercentage?: number;
+  maxDiskWriteBytes?: number;
+  // Every listed event must be reported; unlisted medium and high events fail the test
+  securityEvents?: ExpectedSecurityEvent[];
+  // Arguments each stub must have been called with, one entry per call
+  calls?: Record<string, string[][]>;
+}
+
+// A skill test, normally a JSON file in <skills directory>/tests. Relative
+// paths are resolved against the directory of the test file.
+export interface SkillTestCase {
+  name: string;
+  skill: string;
+  params?: Record<string, unknown>;
+  dryRun?: boolean;
+  env?: Record<string, string>;
+  stubs?: Record<string, SkillTestStub>;
+  // Directory copied into the workspace; the skill runs with the copy as working directory
+  fixture?: string;
+  // JSON file holding the expected parsed output
+  golden?: string;
+  timeoutMs?: number;
+  expect?: SkillTestExpectations;
+}
+
+// Outcome of a skill test
+export interface SkillTestResult {
+  name: string;
+  skillId: string;
+  file?: string;
+  passed: boolean;
+  failures: string[];
+  goldenUpdated: boolean;
+  stubCalls: Record<string, string[][]>;
+  result?: SkillExecutionResult;
+}
+
+// Harness configuration
+export interface SkillTestHarnessOptions {
+  skillsDirectory: string;
+  // Rewrite golden files from the actual output instead of comparing against them
+  updateGolden: boolean;
+  // Where per-test workspaces are created
+  workspaceDirectory: string;
+  keepWorkspace: boolean;
+}
+
+// Error raised for test files that cannot be used
+export class SkillTestError extends Error {
+  constructor(message: string, public file?: string) {
+    super(message);
+    this.name = 'SkillTestError';
+  }
+}
+
+const DEFAULT_SKILL_TEST_HARNESS_OPTIONS: Omit<SkillTestHarnessOptions, 'skillsDirectory'> = {
+  updateGolden: false,
+  workspaceDirectory: path.join(os.tmpdir(), 'wtc-skill-tests'),
+  keepWorkspace: false
+};
+
+const STUB_NAME_PATTERN = /^[A-Za-z0-9._-]+$/;
+const MAX_REPORTED_DIFFERENCES = 10;
+// Separators between the arguments and the calls in the stub call log
+const ARGUMENT_SEPARATOR = '\x1f';
+const CALL_SEPARATOR = '\x1e';
+
+/**
+ * Test JSON files in a directory, sorted by name
+ */
+export function findSkillTestFiles(directory: string): string[] {
+  if (!fs.existsSync(directory)) {
+    return [];
+  }
+  return fs.readdirSync(directory)
+    .filter(file => file.toLowerCase().endsWith('.json'))
+    .sort()
+    .map(file => path.join(directory, file));
+}
+
+/**
+ * Runs catalog skills against fixtures so they can be tested on CI without
+ * touching the machine. Each test gets a fresh workspace holding a copy of
+ * its fixture directory and the commands it stubs; the skill runs through
+ * runCatalogSkill in SkillSandbox with the stubs ahead of PATH and the test's
+ * environment variables. The parsed output is compared with a golden file,
+ * and resource usage, security events and stub calls with the expectations.
+ */
+export class SkillTestHarness extends EventEmitter {
+  private options: SkillTestHarnessOptions;
+  private catalog: SkillCatalog | null = null;
+  private logManager = getLogManager();
+
+  constructor(options: Partial<SkillTestHarnessOptions> & { skillsDirectory: string }) {
+    super();
+    this.options = { ...DEFAULT_SKILL_TEST_HARNESS_OPTIONS, ...options };
+  }
+
+  /**
+   * Read a test file
+   * @throws {SkillTestError} If the file is not a valid test
+   */
+  loadTestFile(file: string): SkillTestCase {
+    let raw: any;
+    try {
+      raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (error) {
+      throw new SkillTestError(`Cannot read skill test: ${(error as Error).message}`, file);
+    }
+
+    if (!raw || typeof raw !== 'object' || typeof raw.name !== 'string' || typeof raw.skill !== 'string') {
+      throw new SkillTestError('Skill test must declare a name and a skill', file);
+    }
+    return raw as SkillTestCase;
+  }
+
+  /**
+   * Run the test in a file
+   */
+  async runFile(file: string): Promise<SkillTestResult> {
+    const result = await this.run(this.loadTestFile(file), path.dirname(file));
+    return { ...result, file };
+  }
+
+  /**
+   * Run every test file in a directory, one at a time
+   */
+  async runDirectory(directory: string): Promise<SkillTestResult[]> {
+    const results: SkillTestResult[] = [];
+    for (const file of findSkillTestFiles(directory)) {
+      results.push(await this.runFile(file));
+    }
+    return results;
+  }
+
+  /**
+   * Run a test; relative paths in it are resolved against `baseDirectory`
+   */
+  async run(testCase: SkillTestCase, baseDirectory: string): Promise<SkillTestResult> {
+    const failures: string[] = [];
+    const outcome: SkillTestResult = {
+      name: testCase.name,
+      skillId: testCase.skill,
+      passed: false,
+      failures,
+      goldenUpdated: false,
+      stubCalls: {}
+    };
+
+    fs.mkdirSync(this.options.workspaceDirectory, { recursive: true });
+    const workspace = fs.mkdtempSync(path.join(this.options.workspaceDirectory, `${testCase.skill}-`));
+
+    try {
+      const skill = this.getSkill(testCase.skill);
+      const workingDirectory = path.join(workspace, 'work');
+      const stubDirectory = path.join(workspace, 'bin');
+      const callLog = path.join(workspace, 'calls.log');
+
+      if (testCase.fixture) {
+        fs.cpSync(path.resolve(baseDirectory, testCase.fixture), workingDirectory, { recursive: true });
+      } else {
+        fs.mkdirSync(workingDirectory);
+      }
+      this.writeStubs(testCase.stubs ?? {}, stubDirectory, callLog, baseDirectory);
+
+      try {
+        outcome.result = await runCatalogSkill(skill, testCase.params ?? {}, { dryRun: testCase.dryRun }, {
+          workingDirectory,
+          allowedDirectories: [workingDirectory, path.dirname(skill.scriptPath)],
+          environmentVariables: testCase.env,
+          searchPath: [stubDirectory],
+          ...(testCase.timeoutMs ? { timeoutMs: testCase.timeoutMs } : {})
+        });
+      } catch (error) {
+        this.checkThrownError(testCase.expect, error as Error, failures);
+      }
+
+      outcome.stubCalls = readStubCalls(callLog);
+
+      if (outcome.result) {
+        this.checkResult(testCase.expect ?? {}, outcome.result, failures);
+        if (testCase.golden) {
+          outcome.goldenUpdated = this.checkGolden(path.resolve(baseDirectory, testCase.golden), outcome.result, failures);
+        }
+      }
+      this.checkCalls(testCase.expect?.calls, outcome.stubCalls, failures);
+    } catch (error) {
+      failures.push((error as Error).message);
+    } finally {
+      if (!this.options.keepWorkspace) {
+        fs.rmSync(workspace, { recursive: true, force: true });
+      }
+    }
+
+    outcome.passed = failures.length === 0;
+
+    this.logManager.info('Skill test completed', {
+      name: testCase.name,
+      passed: outcome.passed,
+      failures,
+      goldenUpdated: outcome.goldenUpdated
+    }, { component: 'skill-test-harness', skillId: testCase.skill });
+    this.emit('testCompleted', outcome);
+
+    return outcome;
+  }
+
+  /**
+   * Skill from the catalog, loaded on first use
+   * @throws {SkillTestError} If the skill is missing or was rejected
+   */
+  private getSkill(skillId: string): CatalogSkill {
+    if (!this.catalog) {
+      this.catalog = new SkillCatalog({ skillsDirectory: this.options.skillsDirectory });
+      this.catalog.load();
+    }
+
+    const skill = this.catalog.get(skillId);
+    if (skill) {
+      return skill;
+    }
+
+    const rejection = this.catalog.getRejected().find(entry => entry.skillId === skillId);
+    throw new SkillTestError(rejection
+      ? `Skill '${skillId}' was rejected by the catalog: ${rejection.message}`
+      : `Skill '${skillId}' was not found in ${this.options.skillsDirectory}`);
+  }
+
+  /**
+   * Write a shell script per stub that logs its arguments, then prints the
+   * canned output and exits with the canned code
+   */
+  private writeStubs(stubs: Record<string, SkillTestStub>, stubDirectory: string, callLog: string, baseDirectory: string): void {
+    fs.mkdirSync(stubDirectory);
+    if (Object.keys(stubs).length === 0) {
+      return;
+    }
+    if (process.platform === 'win32') {
+      throw new SkillTestError('Stubbed commands need a POSIX shell');
+    }
+
+    for (const [name, stub] of Object.entries(stubs)) {
+      if (!STUB_NAME_PATTERN.test(name)) {
+        throw new SkillTestError(`Invalid stub command name '${name}'`);
+      }
+
+      const stdoutFile = path.join(stubDirectory, `.${name}.stdout`);
+      const stderrFile = path.join(stubDirectory, `.${name}.stderr`);
+      fs.writeFileSync(stdoutFile, stub.stdoutFile
+        ? fs.readFileSync(path.resolve(baseDirectory, stub.stdoutFile))
+        : stub.stdout ?? '');
+      fs.writeFileSync(stderrFile, stub.stderr ?? '');
+
+      fs.writeFileSync(path.join(stubDirectory, name), [
+        '#!/bin/sh',
+        `{ printf '%s' '${name}'; for arg in "$@"; do printf '\\037%s' "$arg"; done; printf '\\036'; } >> ${shellQuote(callLog)}`,
+        `cat ${shellQuote(stdoutFile)}`,
+        `cat ${shellQuote(stderrFile)} >&2`,
+        `exit ${Number(stub.exitCode ?? 0)}`,
+        ''
+      ].join('\n'), { mode: 0o755 });
+    }
+  }
+
+  private checkThrownError(expectations: SkillTestExpectations | undefined, error: Error, failures: string[]): void {
+    if (expectations?.error === undefined) {
+      failures.push(`Skill run failed: ${error.message}`);
+    } else if (!error.message.includes(expectations.error)) {
+      failures.push(`Expected error containing '${expectations.error}', got '${error.message}'`);
+    }
+  }
+
+  private checkResult(expectations: SkillTestExpectations, result: SkillExecutionResult, failures: string[]): void {
+    if (expectations.success !== undefined && result.success !== expectations.success) {
+      failures.push(`Expected success ${expectations.success}, got ${result.success}${result.error ? ` (${result.error})` : ''}`);
+    }
+    if (expectations.error !== undefined && !(result.error ?? '').includes(expectations.error)) {
+      failures.push(`Expected error containing '${expectations.error}', got '${result.error ?? ''}'`);
+    }
+
+    const usage = result.resourceUsage;
+    const limits: Array<[string, number | undefined, number]> = [
+      ['execution time (ms)', expectations.maxExecutionTimeMs, result.executionTimeMs],
+      ['memory (bytes)', expectations.maxMemoryBytes, usage.peakMemoryBytes ?? usage.memoryBytes],
+      ['CPU (%)', expectations.maxCpuPercentage, usage.peakCpuPercentage ?? usage.cpuPercentage],
+      ['disk writes (bytes)', expectations.maxDiskWriteBytes, usage.diskWriteBytes]
+    ];
+    for (const [label, limit, actual] of limits) {
+      if (limit !== undefined && actual > limit) {
+        failures.push(`Expected ${label} at most ${limit}, got ${actual}`);
+      }
+    }
+
+    const expected = expectations.securityEvents ?? [];
+    const matched = new Set<SecurityEvent>();
+    for (const wanted of expected) {
+      const event = result.securityEvents.find(candidate => !matched.has(candidate) && matchesSecurityEvent(candidate, wanted));
+      if (event) {
+        matched.add(event);
+      } else {
+        failures.push(`Expected a ${wanted.severity ?? ''}${wanted.severity ? ' ' : ''}${wanted.type} security event${wanted.details ? ` mentioning '${wanted.details}'` : ''}`);
+      }
+    }
+    for (const event of result.securityEvents) {
+      if (!matched.has(event) && event.severity !== 'low') {
+        failures.push(`Unexpected ${event.severity} ${event.type} security event: ${event.details}`);
+      }
+    }
+  }
+
+  /**
+   * Compare the run with the golden file, or rewrite it in update mode
+   * @returns Whether the golden file was written
+   */
+  private checkGolden(goldenPath: string, result: SkillExecutionResult, failures: string[]): boolean {
+    const actual = toGoldenValue(result);
+    const exists = fs.existsSync(goldenPath);
+    const expected = exists ? JSON.parse(fs.readFileSync(goldenPath, 'utf-8')) : undefined;
+
+    if (exists && isDeepStrictEqual(expected, actual)) {
+      return false;
+    }
+
+    if (this.options.updateGolden) {
+      fs.mkdirSync(path.dirname(goldenPath), { recursive: true });
+      fs.writeFileSync(goldenPath, `${JSON.stringify(actual, null, 2)}\n`);
+      return true;
+    }
+
+    if (!exists) {
+      failures.push(`Golden file ${goldenPath} does not exist; run with golden updates enabled to create it`);
+    } else {
+      const differences = describeDifferences(expected, actual, '$', []);
+      failures.push(`Output does not match ${path.basename(goldenPath)}:\n  ${differences.join('\n  ')}`);
+    }
+    return false;
+  }
+
+  private checkCalls(expected: Record<string, string[][]> | undefined, actual: Record<string, string[][]>, failures: string[]): void {
+    for (const [name, calls] of Object.entries(expected ?? {})) {
+      if (!isDeepStrictEqual(actual[name] ?? [], calls)) {
+        failures.push(`Expected ${name} to be called with ${JSON.stringify(calls)}, got ${JSON.stringify(actual[name] ?? [])}`);
+      }
+    }
+  }
+}
+
+/**
+ * What golden files hold: the outcome and the parsed protocol records.
+ * Timings and resource usage vary between runs and are left out.
+ */
+function toGoldenValue(result: SkillExecutionResult): unknown {
+  return JSON.parse(JSON.stringify({
+    success: result.success,
+    exitCode: result.exitCode,
+    error: result.error,
+    parsedOutput: result.parsedOutput
+  }));
+}
+
+function matchesSecurityEvent(event: SecurityEvent, wanted: ExpectedSecurityEvent): boolean {
+  return event.type === wanted.type &&
+    (wanted.severity === undefined || event.severity === wanted.severity) &&
+    (wanted.details === undefined || event.details.includes(wanted.details));
+}
+
+/**
+ * Paths at which two JSON values differ, e.g. "$.parsedOutput.payload.used: expected 10, got 12"
+ */
+function describeDifferences(expected: unknown, actual: unknown, at: string, differences: string[]): string[] {
+  if (differences.length >= MAX_REPORTED_DIFFERENCES || isDeepStrictEqual(expected, actual)) {
+    return differences;
+  }
+
+  const bothObjects = expected !== null && actual !== null && typeof expected === 'object' && typeof actual === 'object' &&
+    Array.isArray(expected) === Array.isArray(actual);
+  if (!bothObjects) {
+    differences.push(`${at}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    return differences;
+  }
+
+  const keys = new Set([...Object.keys(expected as object), ...Object.keys(actual as object)]);
+  for (const key of keys) {
+    describeDifferences(
+      (expected as Record<string, unknown>)[key],
+      (actual as Record<string, unknown>)[key],
+      Array.isArray(expected) ? `${at}[${key}]` : `${at}.${key}`,
+      differences
+    );
+  }
+  return differences;
+}
+
+/**
+ * Calls recorded by the stubs, by command name
+ */
+function readStubCalls(callLog: string): Record<string, string[][]> {
+  const calls: Record<string, string[][]> = {};
+  if (!fs.existsSync(callLog)) {
+    return calls;
+  }
+
+  for (const record of fs.readFileSync(callLog, 'utf-8').split(CALL_SEPARATOR)) {
+    if (!record) continue;
+    const [name, ...args] = record.split(ARGUMENT_SEPARATOR);
+    (calls[name] ??= []).push(args);
+  }
+  return calls;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Factory function to create a skill test harness
+ */
+export function createSkillTestHarness(options: Partial<SkillTestHarnessOptions> & { skillsDirectory: string }): SkillTestHarness {
+  return new SkillTestHarness(options);
+}
@@ -5,6 +5,8 @@ export interface ResourceUsage {
   memoryBytes: number;
   diskWriteBytes: number;
   networkBytes: number;
+  peakCpuPercentage?: number;
+  peakMemoryBytes?: number;
 }
 
 export interface SecurityEvent {
@@ -14,7 +16,34 @@ export interface SecurityEvent {
   severity: 'low' | 'medium' | 'high';
 }
 
-export type ScriptType = 'powershell' | 'shell' | 'batch' | 'python';
+export type ScriptType = 'powershell' | 'shell' | 'batch' | 'python' | 'node';
+
+export type SkillParameterType = 'string' | 'int' | 'bool' | 'enum' | 'path';
+
+// Parameter declared by a skill
+export interface SkillParameterDefinition {
+  name: string;
+  type: SkillParameterType;
+  required: boolean;
+  defaultValue?: any;
+  description?: string;
+  values?: string[];
+  min?: number;
+  max?: number;
+  maxLength?: number;
+  pattern?: string;
+  sensitive?: boolean;
+}
+
+// Undo declared by a state-changing skill: the script that reverts it and the
+// ARTIFACT: values the script needs (archive paths, prior service state)
+export interface SkillUndoDefinition {
+  script?: string;
+  windowsScript?: string;
+  unixScript?: string;
+  artifacts: SkillParameterDefinition[];
+  expiryMinutes?: number;
+}
 
 // Skill metadata from JSON files
 export interface SkillMetadata {
@@ -24,27 +53,160 @@ export interface SkillMetadata {
   os: string[];
   riskLevel: 'low' | 'medium' | 'high';
   requiresAdmin: boolean;
-  script: string;
+  script?: string;
+  windowsScript?: string;
+  unixScript?: string;
   version: string;
-  parameters: Array<{
-    name: string;
-    type: string;
-    required: boolean;
-    defaultValue?: any;
-    description?: string;
-  }>;
+  parameters: SkillParameterDefinition[];
+  supportsDryRun?: boolean;
+  undo?: SkillUndoDefinition;
+  // Read-only skills whose results may be reused for the same parameters
+  cacheable?: boolean;
+  cacheTtlMs?: number;
+  // Skills run without network access unless they ask for it, optionally
+  // restricted to the listed hosts
+  networkAccess?: boolean;
+  allowedHosts?: string[];
+  python?: SkillPythonRequirements;
+  // Checked before the skill is offered or run
+  preconditions?: SkillPreconditions;
+  // Everything the skill may touch; the sandbox denies the rest
+  capabilities?: SkillCapabilities;
   output: {
     success: string;
     failure: string;
   };
 }
 
+// Interpreter requirements of a Python skill: a version constraint such as
+// ">=3.9,<3.13" and a pip lockfile with hashes, relative to the package
+export interface SkillPythonRequirements {
+  version?: string;
+  requirements?: string;
+}
+
+// What a device needs before a skill applies to it. Modules are PowerShell
+// modules for .ps1 scripts and Python modules for .py scripts; minOsBuild is
+// compared with the OS release (10.0.19041 on Windows, the kernel or Darwin
+// release elsewhere); services are Windows services, systemd units or
+// launchd labels.
+export interface SkillPreconditions {
+  commands?: string[];
+  modules?: string[];
+  minOsBuild?: string;
+  services?: string[];
+  admin?: boolean;
+  notOnBattery?: boolean;
+  notOnMeteredNetwork?: boolean;
+}
+
+// What a skill declares it needs. Paths are globs (`*`, `**`, `?`) that may
+// start with an environment variable, e.g. %LOCALAPPDATA%\Microsoft\Teams\**
+// or $HOME/.config/**; write access includes read access. Registry keys are
+// prefixes such as HKCU\Software\Microsoft\Office; processes are the names
+// of programs the script may start.
+export interface SkillCapabilities {
+  filesystem?: {
+    read?: string[];
+    write?: string[];
+  };
+  network?: {
+    hosts: string[];
+    ports?: number[];
+  };
+  registry?: string[];
+  services?: string[];
+  processes?: string[];
+}
+
+// Kinds of precondition checks
+export type SkillPreconditionCheck = 'command' | 'module' | 'os_build' | 'service' | 'admin' | 'battery' | 'metered_network';
+
+// A precondition the device does not meet
+export interface SkillPreconditionFailure {
+  check: SkillPreconditionCheck;
+  // The missing command, module or service, or the required build
+  subject?: string;
+  message: string;
+}
+
+// Whether a skill applies to this device, and why not
+export interface SkillApplicability {
+  skillId: string;
+  applicable: boolean;
+  reasons: SkillPreconditionFailure[];
+  checkedAt: number;
+}
+
+// A risky construct found in a skill script before it runs
+export interface SkillRiskFinding {
+  rule: string;
+  description: string;
+  severity: 'low' | 'medium' | 'high';
+  // Base name of the script and the 1-based line the construct is on
+  file: string;
+  line: number;
+  excerpt: string;
+}
+
+// Static analysis of a skill's scripts. A mismatch is an assessed risk level
+// above the declared riskLevel; such a skill is blocked or needs an admin's
+// approval of this exact scriptHash.
+export interface SkillRiskAnalysis {
+  skillId: string;
+  scriptHash: string;
+  declaredRiskLevel: 'low' | 'medium' | 'high';
+  assessedRiskLevel: 'low' | 'medium' | 'high';
+  // 0-100, from the severities of the distinct findings
+  score: number;
+  findings: SkillRiskFinding[];
+  mismatch: boolean;
+  approved: boolean;
+  analyzedAt: number;
+}
+
 // Skill execution request
 export interface SkillExecutionRequest {
   skillId: string;
   parameters: Record<string, any>;
   timeoutMs?: number;
   requiresAdmin?: boolean;
+  dryRun?: boolean;
+}
+
+// Progress line emitted by a skill (PROGRESS: 40 Clearing cache)
+export interface SkillProgressUpdate {
+  percent?: number;
+  message?: string;
+  data?: unknown;
+}
+
+// Change a skill would make, reported in dry-run mode (PLAN: {"action":"delete","target":"/tmp/x","bytes":1024})
+export interface SkillPlannedAction {
+  action: string;
+  target: string;
+  bytes?: number;
+  description?: string;
+}
+
+// Planned actions of a dry run with a summary the user can confirm
+export interface SkillDryRunPreview {
+  actions: SkillPlannedAction[];
+  totalBytes: number;
+  summary: string;
+}
+
+// Skill stdout parsed according to the output protocol
+export interface ParsedSkillOutput {
+  status: 'success' | 'error';
+  payload: unknown;
+  message?: string;
+  progress: SkillProgressUpdate[];
+  warnings: string[];
+  data: unknown[];
+  plannedActions: SkillPlannedAction[];
+  artifacts: Record<string, unknown>;
+  logLines: string[];
 }
 
 // Skill execution result
@@ -55,6 +217,10 @@ export interface SkillExecutionResult {
   executionTimeMs: number;
   resourceUsage: ResourceUsage;
   securityEvents: SecurityEvent[];
+  exitCode?: number;
+  parsedOutput?: ParsedSkillOutput;
+  // Set when the result was served from the result cache: when it was produced
+  cachedAt?: number;
 }
 
 // Sandbox configuration
@@ -0,0 +1,304 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { SkillExecutionResult } from './types';
+import { ResourceManager } from './resource-manager';
+import { getLogManager } from './logging';
+
+// Lifecycle of a journal entry
+export type UndoEntryStatus = 'available' | 'reverted' | 'expired';
+
+// What the engine needs to revert one successful skill execution
+export interface UndoJournalEntry {
+  executionId: string;
+  skillId: string;
+  skillName: string;
+  createdAt: number;
+  expiresAt: number;
+  artifacts: Record<string, unknown>;
+  // Artifacts that live on disk; cleanup leaves them alone until expiresAt
+  protectedPaths: string[];
+  status: UndoEntryStatus;
+  revertedAt?: number;
+  lastError?: string;
+}
+
+// Input for recording an execution that can be undone
+export interface UndoRecordInput {
+  skillId: string;
+  skillName: string;
+  artifacts: Record<string, unknown>;
+  protectedPaths?: string[];
+  expiryMinutes?: number;
+  executionId?: string;
+}
+
+// Outcome of reverting a journal entry
+export interface UndoRevertResult {
+  entry: UndoJournalEntry;
+  result: SkillExecutionResult;
+}
+
+// Journal configuration
+export interface UndoJournalOptions {
+  journalPath?: string;
+  defaultExpiryMinutes: number;
+  maxEntries: number;
+  resourceManager?: ResourceManager;
+}
+
+// Error raised when there is no fix left to revert
+export class SkillUndoUnavailableError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'UNDO_NOT_AVAILABLE' | 'UNDO_EXPIRED',
+    public skillId?: string
+  ) {
+    super(message);
+    this.name = 'SkillUndoUnavailableError';
+  }
+}
+
+const DEFAULT_UNDO_JOURNAL_OPTIONS: UndoJournalOptions = {
+  defaultExpiryMinutes: 24 * 60, // 24 hours
+  maxEntries: 100
+};
+
+/**
+ * Records the artifacts of state-changing skill executions so the last fix
+ * can be reverted within its expiry window. Entries are persisted to
+ * `journalPath` when one is given, and path artifacts are protected in the
+ * ResourceManager until the entry expires or is reverted.
+ */
+export class UndoJournal extends EventEmitter {
+  private options: UndoJournalOptions;
+  private entries: UndoJournalEntry[] = [];
+  private reverting = new Set<string>();
+  private logManager = getLogManager();
+
+  constructor(options: Partial<UndoJournalOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_UNDO_JOURNAL_OPTIONS, ...options };
+    this.load();
+  }
+
+  /**
+   * Record a successful execution that can be undone
+   */
+  record(input: UndoRecordInput, now: number = Date.now()): UndoJournalEntry {
+    const expiryMinutes = input.expiryMinutes ?? this.options.defaultExpiryMinutes;
+    const entry: UndoJournalEntry = {
+      executionId: input.executionId ?? crypto.randomUUID(),
+      skillId: input.skillId,
+      skillName: input.skillName,
+      createdAt: now,
+      expiresAt: now + expiryMinutes * 60 * 1000,
+      artifacts: { ...input.artifacts },
+      protectedPaths: input.protectedPaths ?? [],
+      status: 'available'
+    };
+
+    this.entries.push(entry);
+    this.protect(entry);
+    this.prune(now);
+    this.save();
+
+    this.logManager.info('Undo journal entry recorded', {
+      executionId: entry.executionId,
+      expiresAt: new Date(entry.expiresAt).toISOString(),
+      artifacts: Object.keys(entry.artifacts)
+    }, { component: 'undo-journal', executionId: entry.executionId, skillId: entry.skillId });
+
+    this.emit('recorded', entry);
+    return { ...entry };
+  }
+
+  /**
+   * Get the most recent fix that can still be reverted, optionally for one skill
+   */
+  getLatest(skillId?: string, now: number = Date.now()): UndoJournalEntry | undefined {
+    this.prune(now);
+    const entry = this.findLatest(skillId, ['available']);
+    return entry ? { ...entry } : undefined;
+  }
+
+  /**
+   * Get all entries, newest first
+   */
+  list(): UndoJournalEntry[] {
+    return this.entries.slice().reverse().map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Revert the most recent fix with the given runner. A failed revert keeps the
+   * entry (and its artifacts) available so it can be retried until it expires.
+   * @throws {SkillUndoUnavailableError} If nothing can be reverted
+   */
+  async revertLatest(
+    revert: (entry: UndoJournalEntry) => Promise<SkillExecutionResult>,
+    skillId?: string,
+    now: number = Date.now()
+  ): Promise<UndoRevertResult> {
+    this.prune(now);
+    const entry = this.findLatest(skillId, ['available', 'expired']);
+    const scope = skillId ? ` for skill '${skillId}'` : '';
+
+    if (!entry || this.reverting.has(entry.executionId)) {
+      throw new SkillUndoUnavailableError(`There is no fix to revert${scope}`, 'UNDO_NOT_AVAILABLE', skillId);
+    }
+    if (entry.status === 'expired') {
+      throw new SkillUndoUnavailableError(
+        `The last fix${scope} can no longer be reverted; its undo window ended at ${new Date(entry.expiresAt).toISOString()}`,
+        'UNDO_EXPIRED',
+        entry.skillId
+      );
+    }
+
+    this.reverting.add(entry.executionId);
+    let result: SkillExecutionResult;
+    try {
+      result = await revert({ ...entry });
+    } catch (error) {
+      entry.lastError = (error as Error).message;
+      this.save();
+      throw error;
+    } finally {
+      this.reverting.delete(entry.executionId);
+    }
+
+    if (!result.success) {
+      entry.lastError = result.error;
+      this.save();
+      this.logManager.warn('Undo failed', {
+        executionId: entry.executionId,
+        error: result.error
+      }, { component: 'undo-journal', executionId: entry.executionId, skillId: entry.skillId });
+      throw new Error(`Reverting ${entry.skillName} failed: ${result.error}`);
+    }
+
+    entry.status = 'reverted';
+    entry.revertedAt = Date.now();
+    entry.lastError = undefined;
+    this.release(entry);
+    this.save();
+
+    this.logManager.info('Fix reverted', {
+      executionId: entry.executionId
+    }, { component: 'undo-journal', executionId: entry.executionId, skillId: entry.skillId });
+
+    this.emit('reverted', { ...entry });
+    return { entry: { ...entry }, result };
+  }
+
+  /**
+   * Expire entries past their window and drop the oldest finished entries
+   * beyond maxEntries
+   */
+  prune(now: number = Date.now()): void {
+    let changed = false;
+
+    for (const entry of this.entries) {
+      if (entry.status === 'available' && entry.expiresAt <= now && !this.reverting.has(entry.executionId)) {
+        entry.status = 'expired';
+        this.release(entry);
+        this.emit('expired', { ...entry });
+        changed = true;
+      }
+    }
+
+    while (this.entries.length > this.options.maxEntries) {
+      const index = this.entries.findIndex(entry => entry.status !== 'available');
+      const [removed] = this.entries.splice(index === -1 ? 0 : index, 1);
+      this.release(removed);
+      changed = true;
+    }
+
+    if (changed) {
+      this.save();
+    }
+  }
+
+  /**
+   * Newest entry matching the skill and one of the statuses
+   */
+  private findLatest(skillId: string | undefined, statuses: UndoEntryStatus[]): UndoJournalEntry | undefined {
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      const entry = this.entries[i];
+      if ((!skillId || entry.skillId === skillId) && statuses.includes(entry.status)) {
+        return entry;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Keep the entry's artifacts out of cleanup until it expires. The
+   * ResourceManager only holds this in memory, so load() protects the
+   * entries still available again when the journal is reopened.
+   */
+  private protect(entry: UndoJournalEntry): void {
+    for (const artifactPath of entry.protectedPaths) {
+      this.options.resourceManager?.protectPath(artifactPath, entry.expiresAt);
+    }
+  }
+
+  /**
+   * Let cleanup reclaim the entry's artifacts
+   */
+  private release(entry: UndoJournalEntry): void {
+    for (const artifactPath of entry.protectedPaths) {
+      this.options.resourceManager?.releasePath(artifactPath);
+    }
+  }
+
+  /**
+   * Restore entries persisted by a previous session and protect the
+   * artifacts of those whose window has not ended
+   */
+  private load(): void {
+    if (!this.options.journalPath || !fs.existsSync(this.options.journalPath)) {
+      return;
+    }
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.options.journalPath, 'utf-8'));
+      this.entries = Array.isArray(raw?.entries) ? raw.entries : [];
+      this.entries.filter(entry => entry.status === 'available').forEach(entry => this.protect(entry));
+      this.prune();
+    } catch (error) {
+      this.entries = [];
+      this.logManager.warn('Ignoring unreadable undo journal', {
+        journalPath: this.options.journalPath,
+        error: (error as Error).message
+      }, { component: 'undo-journal' });
+    }
+  }
+
+  /**
+   * Persist the journal, replacing the previous file atomically
+   */
+  private save(): void {
+    if (!this.options.journalPath) {
+      return;
+    }
+
+    const tempPath = `${this.options.journalPath}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.options.journalPath), { recursive: true });
+      fs.writeFileSync(tempPath, JSON.stringify({ version: 1, entries: this.entries }, null, 2));
+      fs.renameSync(tempPath, this.options.journalPath);
+    } catch (error) {
+      this.logManager.error('Failed to persist undo journal', error as Error, {
+        journalPath: this.options.journalPath
+      }, { component: 'undo-journal' });
+    }
+  }
+}
+
+/**
+ * Factory function to create an undo journal
+ */
+export function createUndoJournal(options?: Partial<UndoJournalOptions>): UndoJournal {
+  return new UndoJournal(options);
+}
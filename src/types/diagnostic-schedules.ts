@@ -0,0 +1,62 @@
+// Scheduled diagnostics shared by the main process and the admin console
+
+export type DiagnosticSeverity = 'info' | 'warning' | 'critical';
+
+// Value in a diagnostic's output to watch, e.g. payload.disk.usedPercent
+export interface DiagnosticThreshold {
+  path: string;
+  above?: number;
+  below?: number;
+  severity?: DiagnosticSeverity;
+  message?: string;
+}
+
+// Cron expression (minute hour day-of-month month day-of-week), @daily and
+// friends, or @login for once each time the app starts
+export interface DiagnosticSchedule {
+  skillId: string;
+  schedule: string;
+  enabled?: boolean;
+  params?: Record<string, unknown>;
+  dryRun?: boolean;
+  jitterMinutes?: number;
+  thresholds?: DiagnosticThreshold[];
+  notify?: boolean;
+}
+
+export interface DiagnosticSchedulerSettings {
+  // Local HH:MM window, may wrap midnight
+  quietHours?: { start: string; end: string };
+  skipOnBattery: boolean;
+  maxCpuPercent: number;
+}
+
+export interface DiagnosticSchedulerConfig extends DiagnosticSchedulerSettings {
+  schedules: DiagnosticSchedule[];
+}
+
+export interface DiagnosticThresholdBreach {
+  path: string;
+  value: number;
+  above?: number;
+  below?: number;
+  severity: DiagnosticSeverity;
+  message: string;
+}
+
+export interface DiagnosticScheduleStatus {
+  skillId: string;
+  nextRunAt?: number;
+  lastResult?: {
+    skillId: string;
+    success: boolean;
+    completedAt: number;
+    error?: string;
+    breaches: DiagnosticThresholdBreach[];
+  };
+}
+
+export interface DiagnosticSchedulesOverview {
+  config: DiagnosticSchedulerConfig;
+  status: DiagnosticScheduleStatus[];
+}
@@ -0,0 +1,68 @@
+// Skill execution history shared by the main process and the admin console
+
+export type ExecutionHistoryMode = 'run' | 'dry_run' | 'undo';
+
+export type ExecutionHistoryStatus = 'success' | 'error' | 'timeout' | 'cancelled';
+
+export interface ExecutionHistorySecurityEvent {
+  type: string;
+  timestamp: number;
+  details: string;
+  severity: 'low' | 'medium' | 'high';
+}
+
+export interface ExecutionHistoryEntry {
+  id: string;
+  executionId: string;
+  skillId: string;
+  skillName: string;
+  mode: ExecutionHistoryMode;
+  status: ExecutionHistoryStatus;
+  // Request parameters with sensitive values replaced by [REDACTED]
+  params: Record<string, unknown>;
+  // SUCCESS:/ERROR: payload and records parsed from the skill output
+  result?: {
+    message?: string;
+    payload?: unknown;
+    artifacts?: Record<string, unknown>;
+  };
+  output?: string;
+  error?: string;
+  exitCode?: number;
+  executionTimeMs?: number;
+  resourcePeaks?: {
+    cpuPercentage?: number;
+    memoryBytes?: number;
+    diskWriteBytes?: number;
+    networkBytes?: number;
+  };
+  securityEvents: ExecutionHistorySecurityEvent[];
+  userId?: string;
+  deviceId: string;
+  correlationId?: string;
+  startedAt: number;
+  completedAt: number;
+}
+
+export interface ExecutionHistoryQuery {
+  skillId?: string;
+  status?: ExecutionHistoryStatus | ExecutionHistoryStatus[];
+  mode?: ExecutionHistoryMode;
+  // Inclusive range on startedAt, in epoch milliseconds
+  from?: number;
+  to?: number;
+  deviceId?: string;
+  userId?: string;
+  correlationId?: string;
+  // 1-based page number
+  page?: number;
+  pageSize?: number;
+}
+
+export interface ExecutionHistoryPage {
+  entries: ExecutionHistoryEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+}
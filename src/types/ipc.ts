@@ -12,6 +12,32 @@ export interface SkillExecutionRequest extends IPCMessageBase {
   params: Record<string, any>;
   requiresAdmin?: boolean;
   timeoutMs?: number;
+  dryRun?: boolean;
+  // Order among executions waiting for a free slot (default 'normal')
+  priority?: 'low' | 'normal' | 'high';
+  // Run a cacheable skill again instead of reusing its cached result
+  bypassCache?: boolean;
+}
+
+// Change a skill would make, reported by a dry run
+export interface SkillPlannedAction {
+  action: string;
+  target: string;
+  bytes?: number;
+  description?: string;
+}
+
+// Dry-run preview shown to the user before the real run
+export interface SkillPreview {
+  actions: SkillPlannedAction[];
+  totalBytes: number;
+  summary: string;
+}
+
+// Undo journal entry for a fix that can be reverted until expiresAt
+export interface SkillUndoAvailability {
+  executionId: string;
+  expiresAt: number;
 }
 
 export interface SkillExecutionResponse extends IPCMessageBase {
@@ -19,6 +45,10 @@ export interface SkillExecutionResponse extends IPCMessageBase {
   skillId: string;
   status: 'success' | 'error' | 'timeout' | 'cancelled';
   output?: string;
+  preview?: SkillPreview;
+  undo?: SkillUndoAvailability;
+  // Set when the output is a cached result: when the skill actually ran
+  cachedAt?: number;
   error?: {
     code: string;
     message: string;
@@ -27,6 +57,113 @@ export interface SkillExecutionResponse extends IPCMessageBase {
   executionTimeMs?: number;
 }
 
+// A precondition of a skill this device does not meet, e.g. a missing service
+export interface SkillApplicabilityReason {
+  check: 'command' | 'module' | 'os_build' | 'service' | 'admin' | 'battery' | 'metered_network';
+  subject?: string;
+  message: string;
+}
+
+// Whether the chat may offer a skill on this device, and why not
+export interface SkillApplicabilityInfo {
+  skillId: string;
+  name: string;
+  applicable: boolean;
+  reasons: SkillApplicabilityReason[];
+}
+
+// An installed skill as listed in the admin console's Skills tab
+export interface InstalledSkillInfo {
+  id: string;
+  name: string;
+  description: string;
+  version: string;
+  riskLevel: 'low' | 'medium' | 'high';
+  requiresAdmin: boolean;
+  // Absent for skills that declare none and run under the default policy
+  capabilities?: SkillCapabilitiesInfo;
+  // Absent when the scripts could not be analyzed
+  risk?: SkillRiskInfo;
+}
+
+// Static analysis of a skill's scripts. A mismatch (assessed above the
+// declared riskLevel) keeps the skill from running until it is approved.
+export interface SkillRiskInfo {
+  assessedRiskLevel: 'low' | 'medium' | 'high';
+  score: number;
+  mismatch: boolean;
+  approved: boolean;
+  // Whether an admin may approve a mismatch, or it is blocked outright
+  approvable: boolean;
+  findings: Array<{
+    rule: string;
+    description: string;
+    severity: 'low' | 'medium' | 'high';
+    file: string;
+    line: number;
+  }>;
+}
+
+// What a skill may touch, shown to the admin before it is enabled
+export interface SkillCapabilitiesInfo {
+  filesystem?: {
+    read?: string[];
+    write?: string[];
+  };
+  network?: {
+    hosts: string[];
+    ports?: number[];
+  };
+  registry?: string[];
+  services?: string[];
+  processes?: string[];
+}
+
+// Pushed on 'skills:changed' when a package in the skills directory was
+// reloaded; a rejected edit leaves the previous version installed
+export interface SkillCatalogChange {
+  file: string;
+  status: 'added' | 'updated' | 'removed' | 'rejected';
+  skillId?: string;
+  message?: string;
+}
+
+export interface SkillCancelRequest extends IPCMessageBase {
+  type: 'skill_cancel_request';
+  targetMessageId: string;
+  reason?: string;
+}
+
+// Revert the most recent fix, optionally limited to one skill
+export interface SkillRevertRequest extends IPCMessageBase {
+  type: 'skill_revert_request';
+  skillId?: string;
+}
+
+export interface SkillRevertResponse extends IPCMessageBase {
+  type: 'skill_revert_response';
+  status: 'success' | 'error';
+  executionId?: string;
+  skillId?: string;
+  output?: string;
+  error?: {
+    code: string;
+    message: string;
+    details?: any;
+  };
+}
+
+export interface SkillProgressMessage extends IPCMessageBase {
+  type: 'skill_progress';
+  skillId: string;
+  sequence: number;
+  percent?: number;
+  message?: string;
+  output?: string;
+  // 1-based place in the execution queue while waiting, 0 once the skill starts
+  queuePosition?: number;
+}
+
 export interface ConnectionStateMessage extends IPCMessageBase {
   type: 'connection_state';
   state: 'connected' | 'disconnected' | 'reconnecting';
@@ -62,6 +199,10 @@ export interface LogMessage extends IPCMessageBase {
 export type IPCMessage =
   | SkillExecutionRequest
   | SkillExecutionResponse
+  | SkillProgressMessage
+  | SkillCancelRequest
+  | SkillRevertRequest
+  | SkillRevertResponse
   | ConnectionStateMessage
   | HeartbeatMessage
   | HeartbeatAckMessage
@@ -73,6 +214,10 @@ export const IPC_CHANNELS = {
   // Main skill execution channels
   SKILL_EXECUTION_REQUEST: 'skill-execution-request',
   SKILL_EXECUTION_RESPONSE: 'skill-execution-response',
+  SKILL_PROGRESS: 'skill-progress',
+  SKILL_CANCEL_REQUEST: 'skill-cancel-request',
+  SKILL_REVERT_REQUEST: 'skill-revert-request',
+  SKILL_REVERT_RESPONSE: 'skill-revert-response',
   
   // Connection management
   CONNECTION_STATE: 'connection-state',
@@ -95,6 +240,14 @@ export const IPC_ERROR_CODES = {
   INVALID_MESSAGE: 'IPC_INVALID_MESSAGE',
   SKILL_NOT_FOUND: 'SKILL_NOT_FOUND',
   SKILL_EXECUTION_FAILED: 'SKILL_EXECUTION_FAILED',
+  SKILL_INVALID_PARAMS: 'SKILL_INVALID_PARAMS',
+  SKILL_CANCELLED: 'SKILL_CANCELLED',
+  SKILL_DRY_RUN_UNSUPPORTED: 'SKILL_DRY_RUN_UNSUPPORTED',
+  UNDO_NOT_AVAILABLE: 'UNDO_NOT_AVAILABLE',
+  UNDO_EXPIRED: 'UNDO_EXPIRED',
+  RATE_LIMITED: 'RATE_LIMITED',
+  SKILL_NOT_APPLICABLE: 'SKILL_NOT_APPLICABLE',
+  SKILL_RISK_MISMATCH: 'SKILL_RISK_MISMATCH',
   PERMISSION_DENIED: 'PERMISSION_DENIED',
 } as const;
 
@@ -104,4 +257,7 @@ export const IPC_CONFIG = {
   HEARTBEAT_INTERVAL_MS: 5000, // 5 seconds
   MAX_RETRY_ATTEMPTS: 3,
   CONNECTION_TIMEOUT_MS: 10000, // 10 seconds
+  PROGRESS_THROTTLE_MS: 250, // at most 4 progress messages per second
+  MAX_PROGRESS_OUTPUT_CHARS: 8192, // stdout carried by a single progress message
+  CANCEL_GRACE_MS: 3000, // wait for a cancelled skill to stop before answering anyway
 } as const;
\ No newline at end of file
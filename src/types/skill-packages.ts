@@ -0,0 +1,21 @@
+// Admin-installed skill packages shared by the main process and the admin console
+
+// An installed package and the version kept for rollback
+export interface InstalledSkillPackage {
+  skillId: string;
+  version: string;
+  previousVersion?: string;
+  files: string[];
+  installedAt: number;
+}
+
+export interface SkillInstallRequest {
+  allowDowngrade?: boolean;
+}
+
+export interface SkillInstallResult {
+  skillId: string;
+  action: 'installed' | 'upgraded' | 'downgraded' | 'rolled_back' | 'uninstalled';
+  version?: string;
+  previousVersion?: string;
+}